@@ -0,0 +1,229 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+interface IERC20 {
+    function transfer(address to, uint256 amount) external returns (bool);
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
+
+/// @notice Same ABI as IBaseEscrow.Immutables of 1inch cross-chain-swap, with plain addresses
+struct Immutables {
+    bytes32 orderHash;
+    bytes32 hashlock;
+    address maker;
+    address taker;
+    address token;
+    uint256 amount;
+    uint256 safetyDeposit;
+    uint256 timelocks;
+}
+
+/// @notice Timelock stages in packing order: 32-bit offsets in seconds, deployedAt in the top 32 bits
+enum Stage {
+    SrcWithdrawal,
+    SrcPublicWithdrawal,
+    SrcCancellation,
+    SrcPublicCancellation,
+    DstWithdrawal,
+    DstPublicWithdrawal,
+    DstCancellation
+}
+
+library TimelocksLib {
+    uint256 private constant DEPLOYED_AT_OFFSET = 224;
+
+    function deployedAt(uint256 timelocks) internal pure returns (uint256) {
+        return timelocks >> DEPLOYED_AT_OFFSET;
+    }
+
+    function setDeployedAt(uint256 timelocks, uint256 value) internal pure returns (uint256) {
+        return (timelocks & ~(uint256(type(uint32).max) << DEPLOYED_AT_OFFSET)) | (value << DEPLOYED_AT_OFFSET);
+    }
+
+    /// @notice Absolute start of a stage
+    function get(uint256 timelocks, Stage stage) internal pure returns (uint256) {
+        return deployedAt(timelocks) + uint32(timelocks >> (uint256(stage) * 32));
+    }
+}
+
+interface IEscrowAddresses {
+    function addressOfEscrow(bool isSource, Immutables calldata immutables) external view returns (address);
+}
+
+/**
+ * @notice Escrow with the 1inch EscrowSrc/EscrowDst interface and stage rules. The access
+ * token is not modelled, so anyone may call the public variants
+ */
+contract MockEscrow {
+    using TimelocksLib for uint256;
+
+    bool public immutable IS_SOURCE;
+    uint256 public immutable RESCUE_DELAY;
+    IEscrowAddresses private immutable FACTORY;
+
+    event EscrowWithdrawal(bytes32 secret);
+    event EscrowCancelled();
+    event FundsRescued(address token, uint256 amount);
+
+    error InvalidCaller();
+    error InvalidImmutables();
+    error InvalidSecret();
+    error InvalidTime();
+    error NativeTokenSendingFailure();
+    error TokenSendingFailure();
+
+    constructor(bool isSource, uint256 rescueDelay) payable {
+        IS_SOURCE = isSource;
+        RESCUE_DELAY = rescueDelay;
+        FACTORY = IEscrowAddresses(msg.sender);
+    }
+
+    modifier onlyTaker(Immutables calldata immutables) {
+        if (msg.sender != immutables.taker) revert InvalidCaller();
+        _;
+    }
+
+    modifier onlyValidImmutables(Immutables calldata immutables) {
+        if (FACTORY.addressOfEscrow(IS_SOURCE, immutables) != address(this)) revert InvalidImmutables();
+        _;
+    }
+
+    modifier onlyAfter(uint256 start) {
+        if (block.timestamp < start) revert InvalidTime();
+        _;
+    }
+
+    modifier onlyBefore(uint256 stop) {
+        if (block.timestamp >= stop) revert InvalidTime();
+        _;
+    }
+
+    function withdraw(bytes32 secret, Immutables calldata immutables) external onlyTaker(immutables) {
+        _withdraw(secret, immutables, IS_SOURCE ? Stage.SrcWithdrawal : Stage.DstWithdrawal);
+    }
+
+    function publicWithdraw(bytes32 secret, Immutables calldata immutables) external {
+        _withdraw(secret, immutables, IS_SOURCE ? Stage.SrcPublicWithdrawal : Stage.DstPublicWithdrawal);
+    }
+
+    function cancel(Immutables calldata immutables) external onlyTaker(immutables) {
+        _cancel(immutables, IS_SOURCE ? Stage.SrcCancellation : Stage.DstCancellation);
+    }
+
+    function publicCancel(Immutables calldata immutables) external {
+        if (!IS_SOURCE) revert InvalidCaller();
+        _cancel(immutables, Stage.SrcPublicCancellation);
+    }
+
+    function rescueFunds(address token, uint256 amount, Immutables calldata immutables)
+        external
+        onlyTaker(immutables)
+        onlyValidImmutables(immutables)
+        onlyAfter(immutables.timelocks.deployedAt() + RESCUE_DELAY)
+    {
+        _send(token, msg.sender, amount);
+        emit FundsRescued(token, amount);
+    }
+
+    /// @dev Source escrows pay the taker, destination escrows the maker; the caller gets the deposit
+    function _withdraw(bytes32 secret, Immutables calldata immutables, Stage start)
+        private
+        onlyValidImmutables(immutables)
+        onlyAfter(immutables.timelocks.get(start))
+        onlyBefore(immutables.timelocks.get(IS_SOURCE ? Stage.SrcCancellation : Stage.DstCancellation))
+    {
+        if (keccak256(abi.encodePacked(secret)) != immutables.hashlock) revert InvalidSecret();
+        _send(immutables.token, IS_SOURCE ? immutables.taker : immutables.maker, immutables.amount);
+        _send(address(0), msg.sender, immutables.safetyDeposit);
+        emit EscrowWithdrawal(secret);
+    }
+
+    /// @dev Funds go back to whoever locked them: the maker on the source, the taker on the destination
+    function _cancel(Immutables calldata immutables, Stage start)
+        private
+        onlyValidImmutables(immutables)
+        onlyAfter(immutables.timelocks.get(start))
+    {
+        _send(immutables.token, IS_SOURCE ? immutables.maker : immutables.taker, immutables.amount);
+        _send(address(0), msg.sender, immutables.safetyDeposit);
+        emit EscrowCancelled();
+    }
+
+    function _send(address token, address to, uint256 amount) private {
+        if (token == address(0)) {
+            (bool success,) = to.call{ value: amount }("");
+            if (!success) revert NativeTokenSendingFailure();
+        } else if (!IERC20(token).transfer(to, amount)) {
+            revert TokenSendingFailure();
+        }
+    }
+}
+
+/**
+ * @notice Deploys MockEscrows at addresses derived from their immutables, with the
+ * EscrowFactory view and createDstEscrow ABI. There is no limit order protocol on the
+ * local chain, so createSrcEscrow stands in for the order fill: the taker pays the
+ * safety deposit and the maker's tokens move straight from their allowance
+ */
+contract MockEscrowFactory is IEscrowAddresses {
+    using TimelocksLib for uint256;
+
+    uint256 public immutable RESCUE_DELAY;
+
+    event SrcEscrowCreated(address escrow, bytes32 hashlock, uint256 maker);
+    event DstEscrowCreated(address escrow, bytes32 hashlock, uint256 taker);
+
+    error InsufficientEscrowBalance();
+    error InvalidCaller();
+    error InvalidCreationTime();
+
+    constructor(uint256 rescueDelay) {
+        RESCUE_DELAY = rescueDelay;
+    }
+
+    function createSrcEscrow(Immutables calldata srcImmutables) external payable returns (address escrow) {
+        if (msg.sender != srcImmutables.taker) revert InvalidCaller();
+
+        Immutables memory immutables = srcImmutables;
+        immutables.timelocks = immutables.timelocks.setDeployedAt(block.timestamp);
+        escrow = _deploy(true, immutables, immutables.maker);
+        emit SrcEscrowCreated(escrow, immutables.hashlock, uint256(uint160(immutables.maker)));
+    }
+
+    function createDstEscrow(Immutables calldata dstImmutables, uint256 srcCancellationTimestamp) external payable {
+        Immutables memory immutables = dstImmutables;
+        immutables.timelocks = immutables.timelocks.setDeployedAt(block.timestamp);
+        if (immutables.timelocks.get(Stage.DstCancellation) > srcCancellationTimestamp) revert InvalidCreationTime();
+
+        address escrow = _deploy(false, immutables, msg.sender);
+        emit DstEscrowCreated(escrow, immutables.hashlock, uint256(uint160(immutables.taker)));
+    }
+
+    function addressOfEscrowSrc(Immutables calldata immutables) external view returns (address) {
+        return addressOfEscrow(true, immutables);
+    }
+
+    function addressOfEscrowDst(Immutables calldata immutables) external view returns (address) {
+        return addressOfEscrow(false, immutables);
+    }
+
+    function addressOfEscrow(bool isSource, Immutables memory immutables) public view returns (address) {
+        bytes32 initCodeHash = keccak256(abi.encodePacked(type(MockEscrow).creationCode, abi.encode(isSource, RESCUE_DELAY)));
+        return address(uint160(uint256(keccak256(abi.encodePacked(bytes1(0xff), address(this), _salt(immutables), initCodeHash)))));
+    }
+
+    /// @dev Native escrows take amount and deposit as value, token escrows pull the amount from `payer`
+    function _deploy(bool isSource, Immutables memory immutables, address payer) private returns (address escrow) {
+        bool native = immutables.token == address(0);
+        if (msg.value != immutables.safetyDeposit + (native ? immutables.amount : 0)) revert InsufficientEscrowBalance();
+
+        escrow = address(new MockEscrow{ salt: _salt(immutables), value: msg.value }(isSource, RESCUE_DELAY));
+        if (!native && !IERC20(immutables.token).transferFrom(payer, escrow, immutables.amount)) {
+            revert InsufficientEscrowBalance();
+        }
+    }
+
+    function _salt(Immutables memory immutables) private pure returns (bytes32) {
+        return keccak256(abi.encode(immutables));
+    }
+}
@@ -0,0 +1,126 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+/// @notice IBaseEscrow.Immutables of 1inch cross-chain-swap, with plain addresses
+struct Immutables {
+    bytes32 orderHash;
+    bytes32 hashlock;
+    address maker;
+    address taker;
+    address token;
+    uint256 amount;
+    uint256 safetyDeposit;
+    uint256 timelocks;
+}
+
+/// @notice IOrderMixin.Order of the 1inch limit order protocol v4
+struct Order {
+    uint256 salt;
+    address maker;
+    address receiver;
+    address makerAsset;
+    address takerAsset;
+    uint256 makingAmount;
+    uint256 takingAmount;
+    uint256 makerTraits;
+}
+
+interface IEscrowFactory {
+    function addressOfEscrowSrc(Immutables calldata immutables) external view returns (address);
+    function createDstEscrow(Immutables calldata dstImmutables, uint256 srcCancellationTimestamp) external payable;
+}
+
+interface IOrderMixin {
+    function fillOrderArgs(
+        Order calldata order,
+        bytes32 r,
+        bytes32 vs,
+        uint256 amount,
+        uint256 takerTraits,
+        bytes calldata args
+    ) external payable returns (uint256, uint256, bytes32);
+}
+
+interface IEscrow {
+    function withdraw(bytes32 secret, Immutables calldata immutables) external;
+    function cancel(Immutables calldata immutables) external;
+}
+
+/**
+ * @notice Resolver contract of the 1inch cross-chain-resolver-example: it is the taker of
+ * the source escrows it deploys. deploySrc sends the safety deposit to the escrow address
+ * and fills the order in one transaction, both using this block's timestamp as deployedAt,
+ * so no block time has to be known in advance
+ */
+contract Resolver {
+    uint256 private constant _DEPLOYED_AT_OFFSET = 224;
+    uint256 private constant _ARGS_HAS_TARGET = 1 << 251;
+
+    IEscrowFactory private immutable _FACTORY;
+    IOrderMixin private immutable _LOP;
+    address public immutable OWNER;
+
+    error InvalidCaller();
+    error InvalidLength();
+    error NativeTokenSendingFailure();
+
+    constructor(IEscrowFactory factory, IOrderMixin lop, address owner) {
+        _FACTORY = factory;
+        _LOP = lop;
+        OWNER = owner;
+    }
+
+    modifier onlyOwner() {
+        if (msg.sender != OWNER) revert InvalidCaller();
+        _;
+    }
+
+    receive() external payable {}
+
+    /// @notice Fill `order`, making the factory deploy its source escrow; msg.value is the safety deposit
+    function deploySrc(
+        Immutables calldata immutables,
+        Order calldata order,
+        bytes32 r,
+        bytes32 vs,
+        uint256 amount,
+        uint256 takerTraits,
+        bytes calldata args
+    ) external payable onlyOwner {
+        Immutables memory immutablesMem = immutables;
+        immutablesMem.timelocks = (immutables.timelocks & ~(uint256(type(uint32).max) << _DEPLOYED_AT_OFFSET))
+            | (block.timestamp << _DEPLOYED_AT_OFFSET);
+        address computed = _FACTORY.addressOfEscrowSrc(immutablesMem);
+
+        (bool success,) = computed.call{ value: immutablesMem.safetyDeposit }("");
+        if (!success) revert NativeTokenSendingFailure();
+
+        // The escrow address goes first in args, as the target of the maker's tokens
+        _LOP.fillOrderArgs(order, r, vs, amount, takerTraits | _ARGS_HAS_TARGET, abi.encodePacked(computed, args));
+    }
+
+    function deployDst(Immutables calldata dstImmutables, uint256 srcCancellationTimestamp) external payable onlyOwner {
+        _FACTORY.createDstEscrow{ value: msg.value }(dstImmutables, srcCancellationTimestamp);
+    }
+
+    function withdraw(IEscrow escrow, bytes32 secret, Immutables calldata immutables) external onlyOwner {
+        escrow.withdraw(secret, immutables);
+    }
+
+    function cancel(IEscrow escrow, Immutables calldata immutables) external onlyOwner {
+        escrow.cancel(immutables);
+    }
+
+    /// @notice Anything else the taker of an escrow may do, e.g. rescueFunds, or sweeping what withdrawals paid out
+    function arbitraryCalls(address[] calldata targets, bytes[] calldata arguments) external onlyOwner {
+        if (targets.length != arguments.length) revert InvalidLength();
+        for (uint256 i = 0; i < targets.length; i++) {
+            (bool success, bytes memory result) = targets[i].call(arguments[i]);
+            if (!success) {
+                assembly {
+                    revert(add(result, 32), mload(result))
+                }
+            }
+        }
+    }
+}
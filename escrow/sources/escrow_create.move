@@ -192,7 +192,7 @@ module escrow::escrow_create;
             secret_hashlock, // Specific hashlock for this fill
             structs::wallet_maker(wallet),
             taker,
-            string::utf8(b"wSUI"),
+            utils::token_type<T>(),
             making_amount,
             safety_deposit_amount,
             *structs::wallet_timelocks(wallet),
@@ -278,7 +278,7 @@ module escrow::escrow_create;
             hashlock,
             maker,
             taker,
-            string::utf8(b"wSUI"),
+            utils::token_type<T>(),
             amount,
             safety_deposit_amount,
             timelocks,
@@ -47,7 +47,7 @@ module escrow::structs;
         hashlock: vector<u8>,        // 32 bytes - keccak256(secret) for the specific fill
         maker: address,              // Address that provides source tokens
         taker: address,              // Address that provides destination tokens
-        token_type: String,          // Token type identifier (for generic token support). Using SUI
+        token_type: String,          // Fully qualified type of the escrowed Coin<T> (std::type_name)
         amount: u64,                 // Amount of tokens to be swapped
         safety_deposit_amount: u64,  // Safety deposit amount in SUI (paid by resolver)
         timelocks: Timelocks,        // Timelock configuration
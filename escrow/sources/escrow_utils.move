@@ -2,6 +2,8 @@
 module escrow::utils;
 
     use sui::hash;
+    use std::string::{Self, String};
+    use std::type_name;
     use escrow::structs::{
         EscrowImmutables, 
         Timelocks,
@@ -373,4 +375,9 @@ module escrow::utils;
     ): bool {
         structs::wallet_balance(wallet) >= requested_amount && 
         structs::wallet_is_active(wallet)
-    }
\ No newline at end of file
+    }
+
+    /// Fully qualified type of the escrowed coin, e.g. "0000...0002::sui::SUI"
+    public(package) fun token_type<T>(): String {
+        string::from_ascii(type_name::into_string(type_name::get<T>()))
+    }
@@ -0,0 +1,76 @@
+#[test_only]
+module escrow::merkle_golden_vectors_tests;
+
+    use sui::hash;
+    use escrow::utils;
+    use escrow::merkle_utils_testonly as merkle;
+
+    // Golden vectors shared with tests/merkle-secrets-spec.ts
+    // Any change here must be mirrored in the TypeScript builder tests
+    const SECRET0: vector<u8> = b"secret0_32_bytes_long_0000000000";
+    const SECRET1: vector<u8> = b"secret1_32_bytes_long_1111111111";
+    const SECRET2: vector<u8> = b"secret2_32_bytes_long_2222222222";
+    const SECRET3: vector<u8> = b"secret3_32_bytes_long_3333333333";
+    const SECRET4: vector<u8> = b"secret4_32_bytes_long_4444444444";
+
+    const ROOT_5: vector<u8> = x"314b21db49a25bc0a926a76f88af25fc2d5746e8c4983935f29e62ccd543e017";
+    const ROOT_3: vector<u8> = x"dfb618ad937c4923a697e9d74b8cff604a88a44683bc4c9eaef022c7d9afce6f";
+
+    const LEAF0: vector<u8> = x"e293f85d6c1039c9d75aa1461975a5470eb1b64ef2bba05b6b9770f7e89c1598";
+    const LEAF1: vector<u8> = x"b721352a1a626aac88be4494cb2c0f18d2a922a04d6aefeb4039ef2c7a1de9d6";
+    const LEAF2: vector<u8> = x"f6bad70852e63491d1f300248938ec073d05ac4adf3749544a6bcf99fc4900b4";
+    const LEAF3: vector<u8> = x"9d2cd745596fd33110c7fccce316736e1fc94d6f776ad52d53ac00abf96ffd99";
+    const LEAF4: vector<u8> = x"bc392d0477c34cabbf3ac745fe13516d5ce92b86b23feb05a0f5ff509a56b35e";
+
+    const NODE_01: vector<u8> = x"50d38c71d3e00258d9d9888e43dc5ab1c28f2ba6e3b635e6e18f34d2f85c388c";
+    const NODE_23: vector<u8> = x"99cd45e732c32641353391e82c508dda8346f232e19eb1eba3ad9de085d6cd7b";
+    const NODE_44: vector<u8> = x"432fb4bb0fcc5a3adc4ea105515e3e73e75164b51dbdaeffdf6d90ac399657f1";
+    const NODE_0123: vector<u8> = x"8d8c2c42d8294bf4ee1aab0adaf13828e7c0aa8796222c1ef8d0bc2126428890";
+    const NODE_4444: vector<u8> = x"dd678dc5e97d778b683b65f7333b856b3c1ed6d78ca94b9c25d00d5b49640d8d";
+
+    fun secrets(): vector<vector<u8>> {
+        vector[SECRET0, SECRET1, SECRET2, SECRET3, SECRET4]
+    }
+
+    fun expected_proofs(): vector<vector<vector<u8>>> {
+        vector[
+            vector[LEAF1, NODE_23, NODE_4444],
+            vector[LEAF0, NODE_23, NODE_4444],
+            vector[LEAF3, NODE_01, NODE_4444],
+            vector[LEAF2, NODE_01, NODE_4444],
+            vector[LEAF4, NODE_44, NODE_0123],
+        ]
+    }
+
+    #[test]
+    fun test_golden_leaves() {
+        let leaves = merkle::leaves_from_secrets(&secrets());
+        assert!(leaves == vector[LEAF0, LEAF1, LEAF2, LEAF3, LEAF4], 0);
+        assert!(hash::keccak256(&SECRET0) == LEAF0, 1);
+    }
+
+    #[test]
+    fun test_golden_root_five_secrets() {
+        assert!(merkle::root_from_secrets(&secrets()) == ROOT_5, 0);
+    }
+
+    #[test]
+    fun test_golden_root_three_secrets() {
+        let secrets = vector[SECRET0, SECRET1, SECRET2];
+        assert!(merkle::root_from_secrets(&secrets) == ROOT_3, 0);
+    }
+
+    #[test]
+    fun test_golden_proofs_verify() {
+        let secrets = secrets();
+        let expected = expected_proofs();
+        let mut i = 0;
+        while (i < 5) {
+            let proof = merkle::proof_for_index_from_secrets(&secrets, i);
+            assert!(&proof == vector::borrow(&expected, i), i);
+
+            let leaf = hash::keccak256(vector::borrow(&secrets, i));
+            assert!(utils::verify_merkle_proof(&leaf, &ROOT_5, &proof), 100 + i);
+            i = i + 1;
+        };
+    }
@@ -0,0 +1,27 @@
+// jest.config.js
+// `unit` runs every *-spec.ts on its own; `e2e` runs the *-e2e-spec.ts files against the
+// local Sui and anvil chains e2e-setup starts (needs the sui, anvil and forge binaries).
+
+const common = {
+    preset: 'ts-jest',
+    testEnvironment: 'node',
+    rootDir: __dirname
+};
+
+module.exports = {
+    projects: [
+        {
+            ...common,
+            displayName: 'unit',
+            testMatch: ['<rootDir>/tests/**/*-spec.ts'],
+            testPathIgnorePatterns: ['/node_modules/', '-e2e-spec\\.ts$']
+        },
+        {
+            ...common,
+            displayName: 'e2e',
+            testMatch: ['<rootDir>/tests/**/*-e2e-spec.ts'],
+            globalSetup: '<rootDir>/tests/e2e-setup.ts',
+            globalTeardown: '<rootDir>/tests/e2e-teardown.ts'
+        }
+    ]
+};
@@ -0,0 +1,51 @@
+// tests/address-binding-spec.ts
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { SigningKey, Wallet } from 'ethers';
+
+import {
+    AddressBindingError,
+    secp256k1Binding,
+    signAddressBinding,
+    suiKeypairFromEvmKey,
+    verifyAddressBinding
+} from './address-binding';
+
+const EVM_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const ORDER_HASH = '0x' + '11'.repeat(32);
+
+describe('address binding', () => {
+    test('accepts a binding signed by both keys for the order', async () => {
+        const evm = new Wallet(EVM_KEY);
+        const sui = Ed25519Keypair.generate();
+        const binding = await signAddressBinding(evm, sui, ORDER_HASH);
+
+        await expect(verifyAddressBinding(binding, {
+            evmAddress: evm.address,
+            suiAddress: sui.toSuiAddress(),
+            orderHash: ORDER_HASH
+        })).resolves.toBeUndefined();
+    });
+
+    test('refuses a recipient the signers do not control or another order', async () => {
+        const binding = await signAddressBinding(new Wallet(EVM_KEY), Ed25519Keypair.generate(), ORDER_HASH);
+        const other = Ed25519Keypair.generate().toSuiAddress();
+
+        await expect(verifyAddressBinding({ ...binding, suiAddress: other }))
+            .rejects.toThrow(AddressBindingError);
+        await expect(verifyAddressBinding(binding, { orderHash: '0x' + '22'.repeat(32) }))
+            .rejects.toThrow(/signed for order/);
+        await expect(verifyAddressBinding(undefined)).rejects.toThrow(AddressBindingError);
+    });
+
+    test('derives the same Sui address from a public key recovered from an EVM signature', async () => {
+        const evm = new Wallet(EVM_KEY);
+        const signature = evm.signingKey.sign(ORDER_HASH).serialized;
+        const binding = secp256k1Binding(SigningKey.recoverPublicKey(ORDER_HASH, signature));
+
+        expect(binding.evmAddress).toBe(evm.address);
+        expect(binding.suiAddress).toBe(suiKeypairFromEvmKey(EVM_KEY).toSuiAddress());
+        await expect(verifyAddressBinding(binding, { evmAddress: evm.address })).resolves.toBeUndefined();
+        await expect(verifyAddressBinding({ ...binding, evmAddress: new Wallet(ORDER_HASH).address }))
+            .rejects.toThrow(/does not derive/);
+    });
+});
@@ -0,0 +1,124 @@
+// tests/address-binding.ts
+// Proof that one party controls both an EVM and a Sui address, so escrows only pay out to
+// addresses the counterparty can spend from. Either both addresses derive from the same
+// secp256k1 key, or each key signed a statement naming the other address.
+
+import type { Keypair } from '@mysten/sui/cryptography';
+import { Secp256k1Keypair, Secp256k1PublicKey } from '@mysten/sui/keypairs/secp256k1';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { verifyPersonalMessageSignature } from '@mysten/sui/verify';
+import { Signer, SigningKey, computeAddress, getAddress, getBytes, toUtf8Bytes, verifyMessage } from 'ethers';
+
+export type BindingProof =
+    | { kind: 'secp256k1', publicKey: string } // both addresses derive from this key
+    | { kind: 'signatures', evmSignature: string, suiSignature: string }; // over addressBindingMessage
+
+/**
+ * An EVM address and a Sui address held by the same party
+ */
+export interface AddressBinding {
+    evmAddress: string
+    suiAddress: string
+    orderHash?: string // limits a signed binding to one order, otherwise it holds for all
+    proof: BindingProof
+}
+
+export class AddressBindingError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * Statement both keys sign for a 'signatures' binding
+ */
+export function addressBindingMessage(evmAddress: string, suiAddress: string, orderHash?: string): string {
+    return [
+        'fuSUIon address binding',
+        `EVM: ${getAddress(evmAddress)}`,
+        `Sui: ${normalizeSuiAddress(suiAddress)}`,
+        `Order: ${orderHash ? orderHash.toLowerCase() : 'any'}`
+    ].join('\n');
+}
+
+/**
+ * Sign a binding with an EVM signer and a Sui keypair of any scheme
+ */
+export async function signAddressBinding(evm: Signer, sui: Keypair, orderHash?: string): Promise<AddressBinding> {
+    const evmAddress = await evm.getAddress();
+    const suiAddress = sui.toSuiAddress();
+    const message = addressBindingMessage(evmAddress, suiAddress, orderHash);
+
+    const evmSignature = await evm.signMessage(message);
+    const { signature: suiSignature } = await sui.signPersonalMessage(toUtf8Bytes(message));
+
+    return { evmAddress, suiAddress, orderHash, proof: { kind: 'signatures', evmSignature, suiSignature } };
+}
+
+/**
+ * Sui keypair for an EVM private key, so one secp256k1 key serves both chains
+ */
+export function suiKeypairFromEvmKey(privateKey: string): Secp256k1Keypair {
+    return Secp256k1Keypair.fromSecretKey(getBytes(privateKey));
+}
+
+/**
+ * Binding for a secp256k1 public key, e.g. recovered from the maker's order signature
+ * with `SigningKey.recoverPublicKey(orderHash, signature)`
+ */
+export function secp256k1Binding(publicKey: string): AddressBinding {
+    const compressed = SigningKey.computePublicKey(publicKey, true);
+    return {
+        evmAddress: computeAddress(compressed),
+        suiAddress: new Secp256k1PublicKey(getBytes(compressed)).toSuiAddress(),
+        proof: { kind: 'secp256k1', publicKey: compressed }
+    };
+}
+
+/**
+ * Check a binding and that it covers the expected addresses and order.
+ * Throws AddressBindingError when anything does not hold
+ */
+export async function verifyAddressBinding(
+    binding: AddressBinding | undefined,
+    expected: { evmAddress?: string, suiAddress?: string, orderHash?: string } = {}
+): Promise<void> {
+    if (!binding) {
+        throw new AddressBindingError('No address binding proves who controls the recipient');
+    }
+
+    const evmAddress = getAddress(binding.evmAddress);
+    const suiAddress = normalizeSuiAddress(binding.suiAddress);
+
+    if (expected.evmAddress && getAddress(expected.evmAddress) !== evmAddress) {
+        throw new AddressBindingError(`Binding is for EVM address ${evmAddress}, expected ${expected.evmAddress}`);
+    }
+    if (expected.suiAddress && normalizeSuiAddress(expected.suiAddress) !== suiAddress) {
+        throw new AddressBindingError(`Binding is for Sui address ${suiAddress}, expected ${expected.suiAddress}`);
+    }
+
+    const { proof } = binding;
+    if (proof.kind === 'secp256k1') {
+        const derived = secp256k1Binding(proof.publicKey);
+        if (derived.evmAddress !== evmAddress || normalizeSuiAddress(derived.suiAddress) !== suiAddress) {
+            throw new AddressBindingError('Public key does not derive both bound addresses');
+        }
+        return;
+    }
+
+    if (binding.orderHash && expected.orderHash &&
+        binding.orderHash.toLowerCase() !== expected.orderHash.toLowerCase()) {
+        throw new AddressBindingError(`Binding was signed for order ${binding.orderHash}`);
+    }
+
+    const message = addressBindingMessage(evmAddress, suiAddress, binding.orderHash);
+    if (verifyMessage(message, proof.evmSignature) !== evmAddress) {
+        throw new AddressBindingError(`EVM signature is not from ${evmAddress}`);
+    }
+    try {
+        await verifyPersonalMessageSignature(toUtf8Bytes(message), proof.suiSignature, { address: suiAddress });
+    } catch (error) {
+        throw new AddressBindingError(`Sui signature is not from ${suiAddress}: ${(error as Error).message}`);
+    }
+}
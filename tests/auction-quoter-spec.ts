@@ -0,0 +1,92 @@
+// tests/auction-quoter-spec.ts
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+
+import {
+    AuctionParams,
+    calculateAuctionTakingAmount,
+    getMakingAmount,
+    getTakingAmount,
+    quote,
+    whenPriceReached
+} from './auction-quoter';
+import { SuiIntegration, WalletState } from './sui-integration';
+
+// Same wallet as the Dutch auction cases in escrow/tests/escrow_tests.move
+const WALLET: AuctionParams = {
+    createdAt: 0n,
+    duration: 3_600_000n, // 1 hour
+    makingAmount: 1_000_000_000n,
+    takingAmount: 900_000_000n
+};
+
+describe('Dutch auction quoter', () => {
+    test('interpolates linearly and clamps outside the auction window', () => {
+        const at = (t: bigint) => calculateAuctionTakingAmount(0n, 3_600_000n, 1_000_000_000n, 900_000_000n, t);
+
+        expect(at(0n)).toBe(1_000_000_000n);
+        expect(at(1_800_000n)).toBe(950_000_000n);
+        expect(at(3_600_000n)).toBe(900_000_000n);
+        expect(at(10_000_000n)).toBe(900_000_000n);
+        expect(calculateAuctionTakingAmount(100n, 10n, 1_000n, 900n, 50n)).toBe(1_000n);
+    });
+
+    test('rounds taking amounts up and making amounts down like the contract', () => {
+        // 1/3 of the way: 1e9 * 2400000 + 9e8 * 1200000 = 3.48e15 / 3.6e6 = 966_666_666 (floor)
+        expect(quote(WALLET, 1n, 1_200_000n).auctionTakingAmount).toBe(966_666_666n);
+
+        expect(getTakingAmount(WALLET, 400_000_000n, 1_200_000n)).toBe(386_666_667n);
+        expect(getTakingAmount(WALLET, 1n, 1_200_000n)).toBe(1n);
+        expect(getMakingAmount(WALLET, 386_666_667n, 1_200_000n)).toBe(400_000_000n);
+        expect(getMakingAmount(WALLET, 100n, 1_200_000n)).toBe(103n);
+    });
+
+    test('reports when a target price is reached', () => {
+        // 500M for 475M taking is reached half way through
+        expect(whenPriceReached(WALLET, 500_000_000n, 475_000_000n)).toBe(1_800_000n);
+        expect(whenPriceReached(WALLET, 500_000_000n, 500_000_000n)).toBe(0n);
+        expect(whenPriceReached(WALLET, 500_000_000n, 449_999_999n)).toBeNull();
+
+        const t = whenPriceReached(WALLET, 123_456_789n, 115_000_000n)!;
+        expect(getTakingAmount(WALLET, 123_456_789n, t)).toBeLessThanOrEqual(115_000_000n);
+        expect(getTakingAmount(WALLET, 123_456_789n, t - 1n)).toBeGreaterThan(115_000_000n);
+    });
+
+    test('throws where the Move code would abort on overflow', () => {
+        const huge: AuctionParams = { ...WALLET, makingAmount: (1n << 64n) - 1n };
+
+        expect(() => getMakingAmount(huge, (1n << 64n) - 1n, 3_600_000n)).toThrow('overflow');
+    });
+});
+
+describe('SuiIntegration auction pricing', () => {
+    // Half way through the auction on the Sui clock, far from local time
+    const CLOCK = 1_800_000n;
+
+    function integration() {
+        const sui = new SuiIntegration('http://127.0.0.1:9000', '0x1', Ed25519Keypair.generate());
+        const sent: { takingAmount: bigint }[] = [];
+        Object.assign(sui, {
+            getWallet: async () => ({ ...WALLET, walletId: '0xa1', tokenType: '0x2::sui::SUI', allowPartialFills: false }) as WalletState,
+            getClockTimestamp: async () => CLOCK,
+            createSrcEscrow: async (params: { takingAmount: bigint }) => {
+                sent.push(params);
+                return {};
+            }
+        });
+        return { sui, sent };
+    }
+
+    test('fillWallet prices the fill on the Sui clock the contract checks', async () => {
+        const { sui, sent } = integration();
+
+        await sui.fillWallet('0xa1', 500_000_000n, { getSecretProof: () => ({ hashlock: '0x' + '22'.repeat(32), proof: [] }) });
+        expect(sent[0].takingAmount).toBe(getTakingAmount(WALLET, 500_000_000n, CLOCK));
+    });
+
+    test('quoteFill defaults to the Sui clock', async () => {
+        const { sui } = integration();
+
+        expect(await sui.quoteFill('0xa1', 500_000_000n)).toEqual(quote(WALLET, 500_000_000n, CLOCK));
+        expect(await sui.quoteFill('0xa1', 500_000_000n, 0n)).toEqual(quote(WALLET, 500_000_000n, 0n));
+    });
+});
@@ -0,0 +1,142 @@
+// tests/auction-quoter.ts
+// Off-chain Dutch auction quotes that reproduce escrow::utils::get_taking_amount and
+// get_making_amount exactly, so a resolver knows the price create_escrow_src will enforce.
+
+const U64_MAX = (1n << 64n) - 1n;
+const U128_MAX = (1n << 128n) - 1n;
+
+/**
+ * Wallet fields the auction curve depends on (timestamps and duration in ms)
+ */
+export interface AuctionParams {
+    createdAt: bigint
+    duration: bigint
+    makingAmount: bigint // curve starts here
+    takingAmount: bigint // curve ends here
+}
+
+export interface AuctionQuote {
+    timestamp: bigint
+    auctionTakingAmount: bigint // price for the whole wallet at `timestamp`
+    makingAmount: bigint
+    takingAmount: bigint // minimum the contract accepts for `makingAmount`
+}
+
+/**
+ * Move aborts on u128 overflow and on the final `as u64` cast, do the same
+ */
+function checkedU128(value: bigint): bigint {
+    if (value > U128_MAX) {
+        throw new Error('Arithmetic overflow in auction math (u128)');
+    }
+    return value;
+}
+
+function castU64(value: bigint): bigint {
+    if (value > U64_MAX) {
+        throw new Error('Arithmetic overflow in auction math (u64 cast)');
+    }
+    return value;
+}
+
+/**
+ * Mirror of utils::calculate_auction_taking_amount
+ */
+export function calculateAuctionTakingAmount(
+    createdAt: bigint,
+    duration: bigint,
+    takingAmountStart: bigint,
+    takingAmountEnd: bigint,
+    currentTime: bigint
+): bigint {
+    const startTime = createdAt;
+    const endTime = createdAt + duration;
+
+    // Clamp current time between start and end
+    const t = currentTime < startTime ? startTime : currentTime > endTime ? endTime : currentTime;
+
+    const numerator = checkedU128(
+        checkedU128(takingAmountStart * (endTime - t)) +
+        checkedU128(takingAmountEnd * (t - startTime))
+    );
+
+    return castU64(numerator / (endTime - startTime));
+}
+
+function auctionTakingAmount(params: AuctionParams, timestamp: bigint): bigint {
+    return calculateAuctionTakingAmount(
+        params.createdAt,
+        params.duration,
+        params.makingAmount,
+        params.takingAmount,
+        timestamp
+    );
+}
+
+/**
+ * Mirror of utils::get_taking_amount (ceil division)
+ */
+export function getTakingAmount(params: AuctionParams, makingAmount: bigint, timestamp: bigint): bigint {
+    const calculated = auctionTakingAmount(params, timestamp);
+    const numerator = checkedU128(checkedU128(calculated * makingAmount) + params.makingAmount - 1n);
+    return castU64(numerator / params.makingAmount);
+}
+
+/**
+ * Mirror of utils::get_making_amount (floor division)
+ */
+export function getMakingAmount(params: AuctionParams, takingAmount: bigint, timestamp: bigint): bigint {
+    const calculated = auctionTakingAmount(params, timestamp);
+    return castU64(checkedU128(params.makingAmount * takingAmount) / calculated);
+}
+
+/**
+ * Quote the minimum taking amount for filling `makingAmount` at `timestamp`
+ */
+export function quote(
+    params: AuctionParams,
+    makingAmount: bigint,
+    timestamp: bigint = BigInt(Date.now())
+): AuctionQuote {
+    return {
+        timestamp,
+        auctionTakingAmount: auctionTakingAmount(params, timestamp),
+        makingAmount,
+        takingAmount: getTakingAmount(params, makingAmount, timestamp)
+    };
+}
+
+/**
+ * Earliest timestamp (ms) at which filling `makingAmount` costs at most `maxTakingAmount`,
+ * or null if the auction never gets that cheap
+ */
+export function whenPriceReached(
+    params: AuctionParams,
+    makingAmount: bigint,
+    maxTakingAmount: bigint
+): bigint | null {
+    const start = params.createdAt;
+    const end = params.createdAt + params.duration;
+    const affordable = (t: bigint) => getTakingAmount(params, makingAmount, t) <= maxTakingAmount;
+
+    if (affordable(start)) {
+        return start;
+    }
+    if (!affordable(end)) {
+        return null;
+    }
+
+    // The price only falls over time once the start price is too high, so binary search
+    let low = start;   // not affordable
+    let high = end;    // affordable
+    while (high - low > 1n) {
+        const mid = (low + high) / 2n;
+        if (affordable(mid)) {
+            high = mid;
+        } else {
+            low = mid;
+        }
+    }
+
+    return high;
+}
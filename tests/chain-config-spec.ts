@@ -0,0 +1,149 @@
+// tests/chain-config-spec.ts
+import { EscrowExtension } from '@1inch/cross-chain-sdk';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import {
+    ChainRegistry,
+    MAX_EVM_CHAIN_ID,
+    SUI_CHAIN_ID,
+    defaultTimelocks,
+    localEvmChain,
+    validateChainTimelocks
+} from './chain-config';
+import { CrossChainOrderBuilder, getEvmOrderHash } from './cross-chain-order-builder';
+import { EvmEscrowClient } from './evm-escrow-client';
+import { EVMWallet } from './evm-wallet';
+import { Timelocks } from './timelocks';
+import { TokenRegistry } from './token-registry';
+
+const MAKER = '0x742D35CC6634c0532925A3b844bC9e7595f5FF8b';
+const RESOLVER = '0x2819c144D5946404C0516B6f817a960dB37D4929';
+
+// Two local anvil nodes, each with its own 1inch deployment
+const ANVIL_A = localEvmChain(31337, 'http://127.0.0.1:8545', {
+    escrowFactory: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    limitOrderProtocol: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512'
+});
+const ANVIL_B = localEvmChain(31338, 'http://127.0.0.1:8546', {
+    escrowFactory: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    limitOrderProtocol: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0'
+});
+
+function localSetup() {
+    const chains = new ChainRegistry();
+    const tokens = new TokenRegistry();
+    for (const chain of [ANVIL_A, ANVIL_B]) {
+        chains.register(chain);
+        tokens.register({
+            chainId: chain.chainId,
+            symbol: 'USDC',
+            address: '0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9',
+            decimals: 6,
+            bridgeable: true
+        });
+    }
+    return { chains, registry: tokens };
+}
+
+describe('chain configuration', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'chain-config-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('gives Sui an id outside the EVM range and loads overrides from JSON', () => {
+        expect(SUI_CHAIN_ID).toBeGreaterThan(MAX_EVM_CHAIN_ID);
+        expect(Number.isSafeInteger(SUI_CHAIN_ID)).toBe(true);
+
+        const path = join(dir, 'chains.json');
+        writeFileSync(path, JSON.stringify({
+            chains: [
+                { chainId: 42161, rpcUrl: 'http://127.0.0.1:8547' },
+                { chainId: 31337, name: 'local', rpcUrl: 'http://127.0.0.1:8545', finality: 1,
+                    escrowFactory: ANVIL_A.escrowFactory, limitOrderProtocol: ANVIL_A.limitOrderProtocol }
+            ]
+        }));
+        const chains = ChainRegistry.fromFile(path);
+
+        expect(chains.getEvm(42161)).toMatchObject({ name: 'Arbitrum', rpcUrl: 'http://127.0.0.1:8547', finality: 60 });
+        expect(chains.getEvm(31337).limitOrderProtocol).toBe(ANVIL_A.limitOrderProtocol);
+        expect(chains.getSui().chainId).toBe(SUI_CHAIN_ID);
+        expect(() => chains.getEvm(SUI_CHAIN_ID)).toThrow(/not an EVM chain/);
+
+        writeFileSync(path, JSON.stringify([{ chainId: SUI_CHAIN_ID - 1, name: 'too big', rpcUrl: 'http://x' }]));
+        expect(() => ChainRegistry.fromFile(path)).toThrow(/Invalid chain config/);
+    });
+
+    test('default timelocks wait for finality on both chains of every configured pair', () => {
+        const chains = new ChainRegistry();
+        const sui = chains.getSui();
+
+        for (const evm of chains.list().filter(chain => chain.vm === 'evm')) {
+            for (const [src, dst] of [[evm, sui], [sui, evm]]) {
+                const timelocks = defaultTimelocks(src, dst);
+                expect(() => validateChainTimelocks(timelocks, src, dst)).not.toThrow();
+                expect(() => timelocks.toSdk()).not.toThrow();
+            }
+        }
+
+        const short = Timelocks.new({
+            srcWithdrawal: 10_000n,
+            srcPublicWithdrawal: 120_000n,
+            srcCancellation: 121_000n,
+            srcPublicCancellation: 122_000n,
+            dstWithdrawal: 5_000n,
+            dstPublicWithdrawal: 100_000n,
+            dstCancellation: 101_000n
+        });
+        expect(() => validateChainTimelocks(short, chains.get(1), sui)).toThrow(/before Ethereum is final/);
+        expect(() => CrossChainOrderBuilder.createOrder({
+            direction: 'EVM_TO_SUI',
+            evmChainId: CrossChainOrderBuilder.ETHEREUM_CHAIN_ID,
+            erc20Token: 'USDC',
+            erc20Amount: 100_000_000n,
+            suiAmount: 25_000_000_000n,
+            maker: MAKER,
+            resolver: RESOLVER,
+            timelocks: short
+        })).toThrow(/before Ethereum is final/);
+    });
+
+    test('builds orders for chains the 1inch SDK does not know, hashed against their own LOP', () => {
+        const { chains, registry } = localSetup();
+        const order = {
+            erc20Token: 'USDC',
+            erc20Amount: 100_000_000n,
+            suiAmount: 25_000_000_000n,
+            maker: MAKER,
+            resolver: RESOLVER,
+            chains,
+            registry
+        };
+
+        const fromA = CrossChainOrderBuilder.createOrder({ ...order, direction: 'EVM_TO_SUI', evmChainId: ANVIL_A.chainId });
+        const fromB = CrossChainOrderBuilder.createOrder({ ...order, direction: 'EVM_TO_SUI', evmChainId: ANVIL_B.chainId });
+        expect(fromA.orderHash).toBe(getEvmOrderHash(fromA.order, ANVIL_A));
+        expect(fromA.orderHash).not.toBe(fromA.order.getOrderHash(ANVIL_A.chainId));
+        expect(getEvmOrderHash(fromA.order, ANVIL_B)).not.toBe(fromA.orderHash);
+        expect(EscrowExtension.fromExtension(fromB.order.extension).dstChainId).toBe(SUI_CHAIN_ID);
+        expect(EscrowExtension.fromExtension(fromB.order.extension).address.toString())
+            .toBe(ANVIL_B.escrowFactory.toLowerCase());
+
+        const toB = CrossChainOrderBuilder.createOrder({ ...order, direction: 'SUI_TO_EVM', evmChainId: ANVIL_B.chainId });
+        expect(toB.srcChainId).toBe(SUI_CHAIN_ID);
+        expect(EscrowExtension.fromExtension(toB.order.extension).dstChainId).toBe(ANVIL_B.chainId);
+    });
+
+    test('EVM client refuses an RPC serving another chain', async () => {
+        const wallet = { provider: { getNetwork: async () => ({ chainId: 31338n }) } } as unknown as EVMWallet;
+
+        await expect(EvmEscrowClient.forChain(wallet, ANVIL_A)).rejects.toThrow(/serves chain 31338, expected 31337/);
+    });
+});
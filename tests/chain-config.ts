@@ -0,0 +1,241 @@
+// tests/chain-config.ts
+// Per-chain settings: RPC, 1inch contract addresses and finality, plus the timelock
+// defaults and checks derived from them. Custom chains (e.g. local anvil nodes) load
+// from a JSON file or register directly.
+
+import { getAddress } from 'ethers';
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+
+import { Timelocks } from './timelocks';
+
+/** Largest chain id EVM chains may use (EIP-2294) */
+export const MAX_EVM_CHAIN_ID = 4_503_599_627_370_476;
+
+/**
+ * Chain id used for Sui in 1inch orders and the registries: above every valid EVM
+ * chain id, offset by Sui's SLIP-44 coin type. Still a safe integer, so it survives
+ * the uint256 round trip through the escrow extension
+ */
+export const SUI_CHAIN_ID = MAX_EVM_CHAIN_ID + 784;
+
+const ONE_INCH_ESCROW_FACTORY = getAddress('0xa7bcb4eac8964306f9e3764f67db6a7af6ddf99a');
+const ONE_INCH_LIMIT_ORDER_PROTOCOL = getAddress('0x111111125421ca6dc452d289314280a0f8842a65');
+
+/** Resolver-only withdrawal window after finality, then public withdrawal, then cancellation */
+const EXCLUSIVE_WITHDRAWAL_SECONDS = 90;
+const PUBLIC_WITHDRAWAL_SECONDS = 60;
+const CANCELLATION_SECONDS = 60;
+
+interface BaseChainConfig {
+    chainId: number
+    name: string
+    rpcUrl: string
+    finality: number // seconds until a block can be treated as final
+}
+
+export interface EvmChainConfig extends BaseChainConfig {
+    vm: 'evm'
+    escrowFactory: string
+    limitOrderProtocol: string
+    resolver?: string // Resolver.sol of this resolver, taker of its source escrows
+}
+
+export interface SuiChainConfig extends BaseChainConfig {
+    vm: 'sui'
+    packageId?: string // escrow package, deployment specific
+}
+
+export type ChainConfig = EvmChainConfig | SuiChainConfig;
+
+const evmChainSchema = z.object({
+    vm: z.literal('evm').default('evm'),
+    chainId: z.number().int().positive().max(MAX_EVM_CHAIN_ID),
+    name: z.string().min(1),
+    rpcUrl: z.string().url(),
+    finality: z.number().int().positive(),
+    escrowFactory: z.string().transform(address => getAddress(address)),
+    limitOrderProtocol: z.string().transform(address => getAddress(address)),
+    resolver: z.string().transform(address => getAddress(address)).optional()
+});
+
+const suiChainSchema = z.object({
+    vm: z.literal('sui'),
+    chainId: z.literal(SUI_CHAIN_ID),
+    name: z.string().min(1),
+    rpcUrl: z.string().url(),
+    finality: z.number().int().positive(),
+    packageId: z.string().optional()
+});
+
+const chainSchema = z.union([suiChainSchema, evmChainSchema]);
+
+// Entries may set only some fields of a known chain, e.g. just its rpcUrl
+const chainOverrideSchema = z.object({ chainId: z.number().int().positive() }).passthrough();
+const chainFileSchema = z.union([z.array(chainOverrideSchema), z.object({ chains: z.array(chainOverrideSchema) })]);
+
+function evmChain(chainId: number, name: string, rpcUrl: string, finality: number): EvmChainConfig {
+    return {
+        vm: 'evm',
+        chainId,
+        name,
+        rpcUrl,
+        finality,
+        escrowFactory: ONE_INCH_ESCROW_FACTORY,
+        limitOrderProtocol: ONE_INCH_LIMIT_ORDER_PROTOCOL
+    };
+}
+
+const DEFAULT_CHAINS: ChainConfig[] = [
+    evmChain(1, 'Ethereum', 'https://eth.llamarpc.com', 900),
+    evmChain(10, 'Optimism', 'https://mainnet.optimism.io', 60),
+    evmChain(56, 'BNB Chain', 'https://bsc-dataseed.binance.org', 30),
+    evmChain(137, 'Polygon', 'https://polygon-rpc.com', 120),
+    evmChain(8453, 'Base', 'https://mainnet.base.org', 60),
+    evmChain(42161, 'Arbitrum', 'https://arb1.arbitrum.io/rpc', 60),
+    evmChain(43114, 'Avalanche', 'https://api.avax.network/ext/bc/C/rpc', 5),
+    { vm: 'sui', chainId: SUI_CHAIN_ID, name: 'Sui', rpcUrl: 'https://fullnode.testnet.sui.io', finality: 3 }
+];
+
+/**
+ * Config for a local anvil node with its own chain id and 1inch deployment
+ */
+export function localEvmChain(
+    chainId: number,
+    rpcUrl: string,
+    deployment: { escrowFactory: string, limitOrderProtocol: string, resolver?: string }
+): EvmChainConfig {
+    return {
+        vm: 'evm',
+        chainId,
+        name: `anvil-${chainId}`,
+        rpcUrl,
+        finality: 1,
+        escrowFactory: getAddress(deployment.escrowFactory),
+        limitOrderProtocol: getAddress(deployment.limitOrderProtocol),
+        ...(deployment.resolver && { resolver: getAddress(deployment.resolver) })
+    };
+}
+
+export class ChainRegistry {
+    private readonly chains = new Map<number, ChainConfig>();
+
+    constructor(chains: ChainConfig[] = DEFAULT_CHAINS) {
+        chains.forEach(chain => this.register(chain));
+    }
+
+    /**
+     * Built-in chains overridden and extended by the entries in a JSON file
+     */
+    static fromFile(path: string, options: { includeDefaults?: boolean } = {}): ChainRegistry {
+        const parsed = chainFileSchema.safeParse(JSON.parse(readFileSync(path, 'utf8')));
+        if (!parsed.success) {
+            throw new Error(`Invalid chain config ${path}: ${parsed.error.message}`);
+        }
+
+        const registry = new ChainRegistry(options.includeDefaults === false ? [] : DEFAULT_CHAINS);
+        const entries = Array.isArray(parsed.data) ? parsed.data : parsed.data.chains;
+        for (const entry of entries) {
+            const chain = chainSchema.safeParse({ ...registry.find(entry.chainId), ...entry });
+            if (!chain.success) {
+                throw new Error(`Invalid chain config ${path} for chain ${entry.chainId}: ${chain.error.message}`);
+            }
+            registry.register(chain.data);
+        }
+        return registry;
+    }
+
+    /**
+     * Add a chain, replacing any entry with the same chain id
+     */
+    register(chain: ChainConfig): void {
+        if (chain.vm === 'evm' && chain.chainId > MAX_EVM_CHAIN_ID) {
+            throw new Error(`Chain id ${chain.chainId} of ${chain.name} is outside the EVM range`);
+        }
+        if (chain.vm === 'sui' && chain.chainId !== SUI_CHAIN_ID) {
+            throw new Error(`Sui must use chain id ${SUI_CHAIN_ID}, got ${chain.chainId}`);
+        }
+        this.chains.set(chain.chainId, chain);
+    }
+
+    find(chainId: number): ChainConfig | undefined {
+        return this.chains.get(chainId);
+    }
+
+    get(chainId: number): ChainConfig {
+        const chain = this.find(chainId);
+        if (!chain) {
+            throw new Error(`Unknown chain ${chainId}`);
+        }
+        return chain;
+    }
+
+    getEvm(chainId: number): EvmChainConfig {
+        const chain = this.get(chainId);
+        if (chain.vm !== 'evm') {
+            throw new Error(`Chain ${chainId} (${chain.name}) is not an EVM chain`);
+        }
+        return chain;
+    }
+
+    getSui(): SuiChainConfig {
+        const chain = this.get(SUI_CHAIN_ID);
+        if (chain.vm !== 'sui') {
+            throw new Error(`Chain ${SUI_CHAIN_ID} is not configured as Sui`);
+        }
+        return chain;
+    }
+
+    list(): ChainConfig[] {
+        return [...this.chains.values()];
+    }
+}
+
+/**
+ * Shortest timelocks that are safe for a swap between two chains: nobody can withdraw
+ * before the escrow on their chain is final, and each destination stage ends before
+ * the matching source stage. Whole seconds, in ms
+ */
+export function defaultTimelocks(src: ChainConfig, dst: ChainConfig): Timelocks {
+    const dstWithdrawal = dst.finality;
+    const srcWithdrawal = Math.max(src.finality, dstWithdrawal + 1);
+    const dstPublicWithdrawal = dstWithdrawal + EXCLUSIVE_WITHDRAWAL_SECONDS;
+    const srcPublicWithdrawal = Math.max(srcWithdrawal + EXCLUSIVE_WITHDRAWAL_SECONDS, dstPublicWithdrawal + 1);
+    const dstCancellation = dstPublicWithdrawal + PUBLIC_WITHDRAWAL_SECONDS;
+    const srcCancellation = Math.max(srcPublicWithdrawal + PUBLIC_WITHDRAWAL_SECONDS, dstCancellation + 1);
+    const srcPublicCancellation = srcCancellation + CANCELLATION_SECONDS;
+
+    const ms = (seconds: number) => BigInt(seconds) * 1000n;
+    return Timelocks.new({
+        srcWithdrawal: ms(srcWithdrawal),
+        srcPublicWithdrawal: ms(srcPublicWithdrawal),
+        srcCancellation: ms(srcCancellation),
+        srcPublicCancellation: ms(srcPublicCancellation),
+        dstWithdrawal: ms(dstWithdrawal),
+        dstPublicWithdrawal: ms(dstPublicWithdrawal),
+        dstCancellation: ms(dstCancellation)
+    });
+}
+
+/**
+ * Withdrawal on one side of a swap must not open before that chain is final,
+ * or a reorg could undo the escrow after the secret is out
+ */
+export function assertFinalityCovered(timelocks: Timelocks, chain: ChainConfig, side: 'src' | 'dst'): void {
+    const withdrawal = side === 'src' ? timelocks.srcWithdrawal : timelocks.dstWithdrawal;
+    const finality = BigInt(chain.finality) * 1000n;
+    if (withdrawal < finality) {
+        throw new Error(
+            `${side}Withdrawal (${withdrawal} ms) opens before ${chain.name} is final (${finality} ms)`
+        );
+    }
+}
+
+/**
+ * Timelocks.validate() plus the finality rules for the chains of a swap
+ */
+export function validateChainTimelocks(timelocks: Timelocks, src: ChainConfig, dst: ChainConfig): void {
+    timelocks.validate();
+    assertFinalityCovered(timelocks, src, 'src');
+    assertFinalityCovered(timelocks, dst, 'dst');
+}
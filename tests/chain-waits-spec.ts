@@ -0,0 +1,111 @@
+// tests/chain-waits-spec.ts
+import { StageClock, StageMissedError, WaitTimeoutError, pollUntilAborted, waitForStage } from './chain-waits';
+import { EscrowStage, EscrowStatus, getStageInfo } from './escrow-stages';
+import type { EscrowState } from './sui-integration';
+import { Timelocks } from './timelocks';
+
+const TAKER = '0x' + '07'.repeat(32);
+
+const timelocks = Timelocks.new({
+    srcWithdrawal: 200n,
+    srcPublicWithdrawal: 400n,
+    srcCancellation: 600n,
+    srcPublicCancellation: 800n,
+    dstWithdrawal: 100n,
+    dstPublicWithdrawal: 300n,
+    dstCancellation: 500n
+});
+
+function escrow(escrowType: 'src' | 'dst', createdAt: bigint): EscrowState {
+    return {
+        escrowId: '0xe1',
+        escrowType,
+        coinType: '0x2::sui::SUI',
+        immutables: {
+            orderHash: '0x' + '11'.repeat(32),
+            hashlock: '0x' + '22'.repeat(32),
+            maker: '0x' + 'a1'.repeat(32),
+            taker: TAKER,
+            tokenType: '0x2::sui::SUI',
+            amount: 1_000n,
+            safetyDeposit: 10n,
+            timelocks
+        },
+        tokenBalance: 1_000n,
+        safetyDeposit: 10n,
+        createdAt,
+        status: EscrowStatus.Active
+    };
+}
+
+describe('waitForStage', () => {
+    test('polling wakes when the chain clock crosses the boundary, not a poll interval later', async () => {
+        const src = escrow('src', BigInt(Date.now()));
+        let reads = 0;
+        const clock: StageClock = {
+            chain: 'Sui',
+            getStage: async () => (reads++, getStageInfo(src, BigInt(Date.now()), TAKER))
+        };
+
+        const started = Date.now();
+        const info = await waitForStage(clock, EscrowStage.ResolverExclusiveWithdraw, { pollIntervalMs: 5_000 });
+
+        expect(info).toMatchObject({ stage: EscrowStage.ResolverExclusiveWithdraw, actions: { withdraw: true } });
+        expect(Date.now() - started).toBeLessThan(1_000);
+        expect(reads).toBeLessThanOrEqual(3);
+    });
+
+    test('subscribing re-checks on new blocks; timeouts, missed and unreachable stages fail', async () => {
+        const dst = escrow('dst', 1_000_000n);
+        let now = 1_000_000n;
+        let onBlock: (() => void) | undefined;
+        const clock: StageClock = {
+            chain: 'anvil',
+            getStage: async () => getStageInfo(dst, now, TAKER),
+            subscribe: listener => {
+                onBlock = listener;
+                return () => { onBlock = undefined; };
+            }
+        };
+
+        const reached = waitForStage(clock, EscrowStage.PublicWithdraw, { strategy: 'subscribe' });
+        await new Promise(resolve => setTimeout(resolve, 50));
+        // A block at the new time is what moves the stage along
+        now += 300n;
+        onBlock!();
+        expect((await reached).stage).toBe(EscrowStage.PublicWithdraw);
+        expect(onBlock).toBeUndefined();
+
+        // Waiting for a stage the escrow already left fails instead of resolving in a later one
+        const missed = await waitForStage(clock, EscrowStage.ResolverExclusiveWithdraw).catch(error => error);
+        expect(missed).toBeInstanceOf(StageMissedError);
+        expect(missed.info).toMatchObject({ stage: EscrowStage.PublicWithdraw, actions: { withdraw: false, publicWithdraw: true } });
+        expect(missed.message).toBe('Escrow 0xe1 is already in PublicWithdraw, past ResolverExclusiveWithdraw');
+
+        await expect(waitForStage(clock, EscrowStage.Rescue, { strategy: 'subscribe', timeoutMs: 100 }))
+            .rejects.toBeInstanceOf(WaitTimeoutError);
+        await expect(waitForStage(clock, EscrowStage.PublicCancel)).rejects.toThrow(/has no PublicCancel stage/);
+        await expect(waitForStage({ chain: 'Sui', getStage: clock.getStage }, EscrowStage.Rescue, { strategy: 'subscribe' }))
+            .rejects.toThrow(/Sui has no block subscription/);
+    });
+});
+
+describe('pollUntilAborted', () => {
+    test('runs the step until aborted and cuts the sleep short', async () => {
+        const controller = new AbortController();
+        const added = jest.spyOn(controller.signal, 'addEventListener');
+        const removed = jest.spyOn(controller.signal, 'removeEventListener');
+        let steps = 0;
+
+        const started = Date.now();
+        await pollUntilAborted(async () => {
+            steps++;
+            setTimeout(() => controller.abort(), 5);
+        }, { intervalMs: 60_000, signal: controller.signal });
+
+        expect(steps).toBe(1);
+        expect(Date.now() - started).toBeLessThan(5_000);
+        expect(added).toHaveBeenCalledTimes(1);
+        expect(removed).toHaveBeenCalledWith('abort', added.mock.calls[0][1]);
+    });
+});
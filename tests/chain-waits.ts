@@ -0,0 +1,174 @@
+// tests/chain-waits.ts
+// Waiting on chain state instead of sleeping a fixed time: polling with a deadline or until
+// aborted, and waitForStage, which wakes when an escrow's chain clock crosses a timelock boundary.
+// Sui reads the clock object, EVM chains the latest block timestamp.
+
+import { EscrowStage, EscrowStageInfo } from './escrow-stages';
+
+const DEFAULT_POLL_INTERVAL_MS = 1_000;
+const DEFAULT_STAGE_TIMEOUT_MS = 600_000;
+
+export class WaitTimeoutError extends Error {
+    constructor(readonly what: string, readonly timeoutMs: number) {
+        super(`Timed out after ${timeoutMs} ms waiting for ${what}`);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * The escrow was already past the stage waitForStage waited for, so whatever the caller
+ * meant to do in it may no longer be allowed; `info` is where the escrow is now
+ */
+export class StageMissedError extends Error {
+    constructor(readonly expected: EscrowStage, readonly info: EscrowStageInfo) {
+        super(`Escrow ${info.escrowId} is already in ${EscrowStage[info.stage]}, past ${EscrowStage[expected]}`);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * How waitForStage notices the chain clock moved: `poll` sleeps until the next boundary
+ * is due, `subscribe` re-checks on every new block
+ */
+export type WaitStrategy = 'poll' | 'subscribe';
+
+export interface WaitForStageOptions {
+    strategy?: WaitStrategy // poll by default
+    pollIntervalMs?: number // longest sleep between checks when polling, in case the clock jumps
+    timeoutMs?: number // wall-clock limit, 10 minutes by default
+}
+
+/**
+ * The chain side of waitForStage
+ */
+export interface StageClock {
+    chain: string // for error messages
+    getStage(): Promise<EscrowStageInfo> // stage at the chain's current time
+    subscribe?(onBlock: () => void): () => void // returns the unsubscribe function
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Poll `check` until it holds, failing with WaitTimeoutError after `timeoutMs`. A
+ * throwing check counts as not yet, e.g. an object the RPC has not caught up with
+ */
+export async function waitUntil(
+    check: () => Promise<boolean>,
+    what: string,
+    timeoutMs: number,
+    intervalMs = 250
+): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+        if (await check().catch(() => false)) {
+            return;
+        }
+        if (Date.now() >= deadline) {
+            throw new WaitTimeoutError(what, timeoutMs);
+        }
+        await sleep(Math.min(intervalMs, Math.max(deadline - Date.now(), 0)));
+    }
+}
+
+/**
+ * Run `step`, then sleep `intervalMs`, until `signal` is aborted. One abort listener
+ * serves the whole loop and cuts the current sleep short
+ */
+export async function pollUntilAborted(
+    step: () => Promise<unknown>,
+    options: { intervalMs: number, signal?: AbortSignal }
+): Promise<void> {
+    const { intervalMs, signal } = options;
+    let wake: (() => void) | undefined;
+    const onAbort = () => wake?.();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+        while (!signal?.aborted) {
+            await step();
+            await new Promise<void>(resolve => {
+                const timer = setTimeout(resolve, intervalMs);
+                wake = () => {
+                    clearTimeout(timer);
+                    resolve();
+                };
+            });
+            wake = undefined;
+        }
+    } finally {
+        signal?.removeEventListener('abort', onAbort);
+    }
+}
+
+/**
+ * Resolve with the stage info once the escrow is in `stage` by chain time, failing with
+ * StageMissedError if it is already past it. Polling sleeps exactly until the next
+ * boundary is due (capped at pollIntervalMs) and confirms it on chain, so passing
+ * several stages wakes once per boundary
+ */
+export async function waitForStage(
+    clock: StageClock,
+    stage: EscrowStage,
+    options: WaitForStageOptions = {}
+): Promise<EscrowStageInfo> {
+    const strategy = options.strategy ?? 'poll';
+    const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    const timeoutMs = options.timeoutMs ?? DEFAULT_STAGE_TIMEOUT_MS;
+    if (strategy === 'subscribe' && !clock.subscribe) {
+        throw new Error(`${clock.chain} has no block subscription, use the poll strategy`);
+    }
+
+    // Blocks seen since the last check, and the waiter to wake on the next one
+    let blocks = 0;
+    let onBlock: (() => void) | undefined;
+    const unsubscribe = strategy === 'subscribe'
+        ? clock.subscribe!(() => {
+            blocks++;
+            onBlock?.();
+        })
+        : undefined;
+
+    const deadline = Date.now() + timeoutMs;
+    try {
+        for (;;) {
+            const seen = blocks;
+            const info = await clock.getStage();
+            if (info.escrowType === 'dst' && stage === EscrowStage.PublicCancel) {
+                throw new Error(`Destination escrow ${info.escrowId} has no ${EscrowStage[stage]} stage`);
+            }
+            if (info.stage === stage) {
+                return info;
+            }
+            // Stages only move forward, Rescue last
+            if (info.stage > stage) {
+                throw new StageMissedError(stage, info);
+            }
+
+            const left = deadline - Date.now();
+            if (left <= 0) {
+                throw new WaitTimeoutError(`${info.escrowId} to reach ${EscrowStage[stage]} on ${clock.chain}`, timeoutMs);
+            }
+
+            if (strategy === 'subscribe') {
+                if (blocks === seen) {
+                    await new Promise<void>(resolve => {
+                        const timer = setTimeout(resolve, left);
+                        onBlock = () => {
+                            clearTimeout(timer);
+                            resolve();
+                        };
+                    });
+                    onBlock = undefined;
+                }
+            } else {
+                // nextStageAt is set while a later stage exists
+                const due = Number(info.nextStageAt! - info.now);
+                await sleep(Math.min(Math.max(due, 1), pollIntervalMs, left));
+            }
+        }
+    } finally {
+        unsubscribe?.();
+    }
+}
@@ -0,0 +1,147 @@
+// tests/cli-orders.ts
+// Orders created with the CLI, kept next to the secret vault so a maker can fund, submit
+// and settle them in later invocations. Secrets never go in here, only in the vault.
+
+import { CrossChainOrder, Extension, LimitOrderV4Struct } from '@1inch/cross-chain-sdk';
+import { existsSync, readFileSync } from 'fs';
+
+import type { AddressBinding } from './address-binding';
+import { SUI_CHAIN_ID } from './chain-config';
+import type { BuiltCrossChainOrder } from './cross-chain-order-builder';
+import { writeJsonAtomic } from './json-file';
+import type { SubmitOrderRequest } from './relayer';
+import type { SwapDirection } from './swap-state';
+import { Timelocks } from './timelocks';
+import { TokenRegistry } from './token-registry';
+
+/**
+ * An order as the maker created it, JSON-safe (amounts are decimal strings)
+ */
+export interface MakerOrder {
+    orderHash: string
+    direction: SwapDirection
+    evmChainId: number
+    hashlock: string
+    maker: { evm: string, sui: string }
+    binding: AddressBinding
+    makingAmount: string
+    takingAmount: string
+    srcSafetyDeposit: string
+    dstSafetyDeposit: string
+    timelocks: Record<string, string> // Timelocks.toJSON()
+    evmToken: string
+    suiToken: string // coin type
+    order: {
+        order: LimitOrderV4Struct
+        extension: string
+        signature?: string // EVM_TO_SUI only, Sui-source orders are committed to by their wallet
+    }
+    walletId?: string // SUI_TO_EVM, once funded
+    createdAt: number
+}
+
+export function toMakerOrder(
+    built: BuiltCrossChainOrder,
+    maker: { evm: string, sui: string },
+    binding: AddressBinding,
+    signature?: string
+): MakerOrder {
+    const { order } = built;
+    const ext = order.escrowExtension;
+    return {
+        orderHash: built.orderHash,
+        direction: built.direction,
+        evmChainId: built.direction === 'EVM_TO_SUI' ? built.srcChainId : built.dstChainId,
+        hashlock: built.hashlock,
+        maker,
+        binding,
+        makingAmount: order.makingAmount.toString(),
+        takingAmount: order.takingAmount.toString(),
+        srcSafetyDeposit: ext.srcSafetyDeposit.toString(),
+        dstSafetyDeposit: ext.dstSafetyDeposit.toString(),
+        timelocks: built.timelocks.toJSON(),
+        evmToken: built.evmToken.address,
+        suiToken: built.suiCoinType,
+        order: { order: order.build(), extension: order.extension.encode(), signature },
+        createdAt: Date.now()
+    };
+}
+
+/**
+ * The built order back from a stored one, minus the secret. Tokens are looked up in `tokens`
+ */
+export function rebuildOrder(record: MakerOrder, tokens: TokenRegistry): Omit<BuiltCrossChainOrder, 'secret'> {
+    const find = (chainId: number, address: string) => {
+        const token = tokens.findByAddress(chainId, address);
+        if (!token) {
+            throw new Error(`Token ${address} of order ${record.orderHash} is not in the registry for chain ${chainId}`);
+        }
+        return token;
+    };
+
+    const evmToSui = record.direction === 'EVM_TO_SUI';
+    return {
+        order: CrossChainOrder.fromDataAndExtension(record.order.order, Extension.decode(record.order.extension)),
+        orderHash: record.orderHash,
+        hashlock: record.hashlock,
+        direction: record.direction,
+        srcChainId: evmToSui ? record.evmChainId : SUI_CHAIN_ID,
+        dstChainId: evmToSui ? SUI_CHAIN_ID : record.evmChainId,
+        evmToken: find(record.evmChainId, record.evmToken),
+        suiToken: find(SUI_CHAIN_ID, record.suiToken),
+        suiCoinType: record.suiToken,
+        timelocks: Timelocks.fromJSON(record.timelocks)
+    };
+}
+
+/**
+ * Body for the relayer's POST /orders, once the order can be submitted
+ */
+export function toRelayerRequest(record: MakerOrder): SubmitOrderRequest | undefined {
+    if (record.direction === 'EVM_TO_SUI') {
+        const { order, extension, signature } = record.order;
+        if (!signature) {
+            return undefined;
+        }
+        return {
+            direction: 'EVM_TO_SUI',
+            evmChainId: record.evmChainId,
+            order: { order, extension, signature },
+            suiToken: record.suiToken,
+            binding: record.binding
+        };
+    }
+
+    if (!record.walletId) {
+        return undefined;
+    }
+    return { direction: 'SUI_TO_EVM', evmChainId: record.evmChainId, walletId: record.walletId, binding: record.binding };
+}
+
+/**
+ * Maker orders in a JSON file, written atomically after every change
+ */
+export class JsonMakerOrderStore {
+    private orders: Record<string, MakerOrder>;
+
+    constructor(private readonly path: string) {
+        this.orders = existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : {};
+    }
+
+    get(orderHash: string): MakerOrder | undefined {
+        return this.orders[orderHash.toLowerCase()];
+    }
+
+    list(): MakerOrder[] {
+        return Object.values(this.orders).sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    put(order: MakerOrder): void {
+        this.orders[order.orderHash.toLowerCase()] = order;
+        this.flush();
+    }
+
+    private flush(): void {
+        writeJsonAtomic(this.path, this.orders);
+    }
+}
@@ -0,0 +1,159 @@
+// tests/cli-profiles.ts
+// Network profiles and keys for the fusuion CLI. A profile picks the Sui node, the escrow
+// package, the default EVM chain and where local state lives; env vars override any field.
+
+import { getFullnodeUrl } from '@mysten/sui/client';
+import { decodeSuiPrivateKey } from '@mysten/sui/cryptography';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Secp256k1Keypair } from '@mysten/sui/keypairs/secp256k1';
+import { Wallet } from 'ethers';
+import { existsSync } from 'fs';
+import { join } from 'path';
+
+import { AddressBinding, secp256k1Binding, signAddressBinding, suiKeypairFromEvmKey } from './address-binding';
+import { ChainRegistry, EvmChainConfig } from './chain-config';
+import { TokenRegistry } from './token-registry';
+
+export type ProfileName = 'localnet' | 'testnet' | 'mainnet';
+
+export interface CliProfile {
+    name: ProfileName
+    suiRpc: string
+    suiPackageId?: string // escrow package, required by every command that touches escrows
+    evmChainId: number // EVM side of new orders unless --chain is given
+    chainConfig?: string // JSON extending the built-in chains, read when the file exists
+    tokenConfig?: string // JSON extending the built-in tokens, read when the file exists
+    relayerUrl: string
+    dataDir: string // local orders and the secret vault
+}
+
+export const PROFILES: Record<ProfileName, CliProfile> = {
+    localnet: {
+        name: 'localnet',
+        suiRpc: getFullnodeUrl('localnet'),
+        evmChainId: 31337, // anvil
+        chainConfig: 'deployments/localnet-chains.json',
+        tokenConfig: 'deployments/localnet-tokens.json',
+        relayerUrl: 'http://127.0.0.1:3000',
+        dataDir: 'deployments/localnet'
+    },
+    testnet: {
+        name: 'testnet',
+        suiRpc: getFullnodeUrl('testnet'),
+        evmChainId: 11155111, // Sepolia, not built in: its deployment comes from the chain and token files
+        chainConfig: 'deployments/testnet-chains.json',
+        tokenConfig: 'deployments/testnet-tokens.json',
+        relayerUrl: 'http://127.0.0.1:3000',
+        dataDir: 'deployments/testnet'
+    },
+    mainnet: {
+        name: 'mainnet',
+        suiRpc: getFullnodeUrl('mainnet'),
+        evmChainId: 1,
+        relayerUrl: 'http://127.0.0.1:3000',
+        dataDir: 'deployments/mainnet'
+    }
+};
+
+/**
+ * A profile with the env overrides applied
+ */
+export function resolveProfile(name: string | undefined, env: NodeJS.ProcessEnv): CliProfile {
+    const profileName = name ?? env.FUSUION_PROFILE ?? 'testnet';
+    if (!(profileName in PROFILES)) {
+        throw new Error(`Unknown profile ${profileName}, expected one of ${Object.keys(PROFILES).join(', ')}`);
+    }
+
+    const profile = PROFILES[profileName as ProfileName];
+    return {
+        ...profile,
+        suiRpc: env.SUI_RPC || profile.suiRpc,
+        suiPackageId: env.SUI_ESCROW_PACKAGE_ID || profile.suiPackageId,
+        evmChainId: env.EVM_CHAIN_ID ? Number(env.EVM_CHAIN_ID) : profile.evmChainId,
+        chainConfig: env.CHAIN_CONFIG || profile.chainConfig,
+        tokenConfig: env.TOKEN_CONFIG || profile.tokenConfig,
+        relayerUrl: env.RELAYER_URL || profile.relayerUrl,
+        dataDir: env.FUSUION_DATA_DIR || profile.dataDir
+    };
+}
+
+export function profileChains(profile: CliProfile): ChainRegistry {
+    return profile.chainConfig && existsSync(profile.chainConfig)
+        ? ChainRegistry.fromFile(profile.chainConfig)
+        : new ChainRegistry();
+}
+
+/**
+ * EVM chain `chainId` of the profile, failing early with what to configure when there is no
+ * deployment for it. The built-in chains are mainnets only, testnets come from the chain file
+ */
+export function profileEvmChain(profile: CliProfile, chainId: number = profile.evmChainId): EvmChainConfig {
+    const chain = profileChains(profile).find(chainId);
+    if (chain?.vm === 'evm') {
+        return chain;
+    }
+
+    const where = !profile.chainConfig
+        ? 'a chain file (CHAIN_CONFIG)'
+        : existsSync(profile.chainConfig) ? profile.chainConfig : `${profile.chainConfig}, which does not exist yet`;
+    throw new Error(
+        `No deployment of EVM chain ${chainId} for profile ${profile.name}: ` +
+        `add its escrowFactory, limitOrderProtocol and rpcUrl to ${where}`
+    );
+}
+
+export function profileTokens(profile: CliProfile): TokenRegistry {
+    return profile.tokenConfig && existsSync(profile.tokenConfig)
+        ? TokenRegistry.fromFile(profile.tokenConfig)
+        : new TokenRegistry();
+}
+
+export function profilePath(profile: CliProfile, file: string): string {
+    return join(profile.dataDir, file);
+}
+
+/**
+ * The user's keys on both chains
+ */
+export interface CliKeys {
+    evm: Wallet
+    sui: Ed25519Keypair | Secp256k1Keypair
+    binding(orderHash: string): Promise<AddressBinding> // proves evm and sui belong together
+}
+
+/**
+ * Keys from PRIVATE_KEY (hex secp256k1, the EVM key) and optionally SUI_PRIVATE_KEY
+ * (suiprivkey… or hex Ed25519). Without a Sui key the EVM key signs on Sui too
+ */
+export function loadKeys(env: NodeJS.ProcessEnv): CliKeys {
+    if (!env.PRIVATE_KEY) {
+        throw new Error('Set PRIVATE_KEY to the hex private key of your EVM account');
+    }
+
+    const evm = new Wallet(env.PRIVATE_KEY);
+    if (!env.SUI_PRIVATE_KEY) {
+        return {
+            evm,
+            sui: suiKeypairFromEvmKey(env.PRIVATE_KEY),
+            binding: async () => secp256k1Binding(evm.signingKey.publicKey)
+        };
+    }
+
+    const sui = parseSuiKey(env.SUI_PRIVATE_KEY);
+    return { evm, sui, binding: orderHash => signAddressBinding(evm, sui, orderHash) };
+}
+
+function parseSuiKey(value: string): Ed25519Keypair | Secp256k1Keypair {
+    if (!value.startsWith('suiprivkey')) {
+        return Ed25519Keypair.fromSecretKey(Buffer.from(value.replace(/^0x/, ''), 'hex').subarray(0, 32));
+    }
+
+    const { schema, secretKey } = decodeSuiPrivateKey(value);
+    if (schema === 'ED25519') {
+        return Ed25519Keypair.fromSecretKey(secretKey);
+    }
+    if (schema === 'Secp256k1') {
+        return Secp256k1Keypair.fromSecretKey(secretKey);
+    }
+    throw new Error(`Unsupported Sui key scheme ${schema}`);
+}
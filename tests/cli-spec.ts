@@ -0,0 +1,196 @@
+// tests/cli-spec.ts
+import { Wallet } from 'ethers';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { CliIo, runCli } from './cli';
+import { EscrowStatus } from './escrow-stages';
+import { SecretVault } from './secret-vault';
+import type { DryRunResult, SuiIntegration } from './sui-integration';
+import { Timelocks } from './timelocks';
+
+const RESOLVER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const ESCROW_ID = '0x' + 'e5'.repeat(32);
+const SIMULATED: DryRunResult = {
+    success: true,
+    events: [],
+    balanceChanges: [],
+    gas: { computationCost: 1_000_000n, storageCost: 2_000_000n, storageRebate: 500_000n, totalCost: 2_500_000n },
+    error: null
+};
+
+describe('fusuion CLI', () => {
+    let dir: string;
+    let stdout: string[];
+    let stderr: string[];
+    let sent: string[];
+
+    const fakeSui = {
+        formatAmount: async (_: string, amount: bigint) => `${amount} MIST`,
+        createWallet: async (_: unknown, __: string, options?: { dryRun?: boolean }) => {
+            if (options?.dryRun) {
+                return SIMULATED;
+            }
+            sent.push('createWallet');
+            return { walletId: '0x' + 'a0'.repeat(32) };
+        },
+        getEscrow: async () => ({
+            escrowId: ESCROW_ID,
+            escrowType: 'src',
+            coinType: '0x2::sui::SUI',
+            immutables: { orderHash: '0x' + '11'.repeat(32) },
+            tokenBalance: 5_000n,
+            safetyDeposit: 100n,
+            createdAt: 0n,
+            status: EscrowStatus.Active
+        }),
+        cancel: async (id: string, type: string, coinType: string, options?: { dryRun?: boolean }) => {
+            if (options?.dryRun) {
+                return SIMULATED;
+            }
+            sent.push(`cancel ${type} ${coinType}`);
+        },
+        findRescuable: async () => ({
+            wallets: [{ walletId: '0x' + 'a1'.repeat(32), tokenType: '0x2::sui::SUI' }],
+            escrows: [{ escrowId: ESCROW_ID, escrowType: 'src', coinType: '0x2::sui::SUI' }],
+            pending: []
+        }),
+        batch: () => ({
+            rescueAllOwed() {
+                return this;
+            },
+            execute: async (options?: { dryRun?: boolean }) => {
+                if (options?.dryRun) {
+                    return { ...SIMULATED, operations: [] };
+                }
+                sent.push('rescueAllOwed');
+                return { digest: 'D1GEST', operations: [] };
+            }
+        })
+    } as unknown as SuiIntegration;
+
+    const run = (argv: string[], io: Partial<CliIo> = {}) => runCli(argv, {
+        env: {
+            PRIVATE_KEY: Wallet.createRandom().privateKey,
+            VAULT_PASSPHRASE: 'hunter2',
+            FUSUION_DATA_DIR: dir,
+            FUSUION_PROFILE: 'mainnet'
+        },
+        stdout: text => stdout.push(text),
+        stderr: text => stderr.push(text),
+        confirm: async () => false,
+        connectSui: () => fakeSui,
+        ...io
+    });
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'cli-'));
+        stdout = [];
+        stderr = [];
+        sent = [];
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('creates signed orders, keeps their secrets in the vault and lists them', async () => {
+        const code = await run([
+            'order', 'create', '--direction', 'EVM_TO_SUI', '--chain', '42161',
+            '--amount', '100', '--receive', '25', '--resolver', RESOLVER, '--json'
+        ]);
+
+        expect(code).toBe(0);
+        const created = JSON.parse(stdout.join('\n'));
+        expect(created.relayerRequest).toMatchObject({ direction: 'EVM_TO_SUI', evmChainId: 42161, suiToken: '0x2::sui::SUI' });
+        expect(created.relayerRequest.order.signature).toMatch(/^0x[0-9a-f]{130}$/);
+        expect(created.takingAmount).toBe('25000000000');
+        expect(Timelocks.fromJSON(created.timelocks).dstWithdrawal).toBeGreaterThan(0n);
+        expect(SecretVault.open(join(dir, 'secrets.json'), 'hunter2').has(created.orderHash)).toBe(true);
+
+        stdout = [];
+        expect(await run(['orders', 'list'])).toBe(0);
+        expect(stdout).toEqual([`${created.orderHash} EVM_TO_SUI 100.0 USDC → 25.0 SUI`]);
+    });
+
+    test('funds Sui-source orders only after confirmation', async () => {
+        await run([
+            'order', 'create', '--direction', 'SUI_TO_EVM', '--chain', '1',
+            '--amount', '25', '--receive', '100', '--resolver', RESOLVER, '--json'
+        ]);
+        const { orderHash, relayerRequest } = JSON.parse(stdout.join('\n'));
+        expect(relayerRequest).toBeUndefined();
+
+        stdout = [];
+        expect(await run(['wallet', 'create', orderHash])).toBe(1);
+        expect(stderr).toEqual([
+            `Fund wallet for order ${orderHash} with 25000000000 MIST`,
+            'Estimated gas: 0.0025 SUI',
+            '❌ Aborted, nothing was sent'
+        ]);
+        expect(sent).toEqual([]);
+
+        expect(await run(['wallet', 'create', orderHash, '--json'], { confirm: async () => true })).toBe(0);
+        expect(sent).toEqual(['createWallet']);
+        expect(JSON.parse(stdout.join('\n')).relayerRequest).toMatchObject({ direction: 'SUI_TO_EVM', walletId: '0x' + 'a0'.repeat(32) });
+
+        stdout = [];
+        expect(await run(['wallet', 'create', orderHash, '--yes', '--json'])).toBe(1);
+        expect(JSON.parse(stdout.join('\n')).error).toMatch(/already funded/);
+    });
+
+    test('sends escrow transactions in the escrow coin type with --yes, and rejects bad usage', async () => {
+        expect(await run(['escrow', 'cancel', ESCROW_ID, '--yes'])).toBe(0);
+        expect(sent).toEqual(['cancel src 0x2::sui::SUI']);
+        expect(stdout).toEqual([`✅ Cancelled escrow ${ESCROW_ID}`]);
+
+        expect(await run(['escrow', 'explode'])).toBe(2);
+        expect(await run(['order', 'create', '--amount', '1'])).toBe(2);
+        expect(stderr.pop()).toBe('❌ Missing --direction');
+        expect(await run(['quote', '--bogus'])).toBe(2);
+    });
+
+    test('simulates a rescue sweep and shows it before asking', async () => {
+        expect(await run(['escrow', 'rescue', '--all'])).toBe(1);
+        expect(stderr).toEqual([
+            'Rescue 1 wallets and 1 escrows owed to you:',
+            `  ${'0x' + 'a1'.repeat(32)}`,
+            `  ${ESCROW_ID}`,
+            'Estimated gas: 0.0025 SUI',
+            '❌ Aborted, nothing was sent'
+        ]);
+        expect(sent).toEqual([]);
+
+        expect(await run(['escrow', 'rescue', '--all'], { confirm: async () => true })).toBe(0);
+        expect(sent).toEqual(['rescueAllOwed']);
+        expect(stdout).toEqual(['✅ Rescued 1 wallets and 1 escrows in D1GEST']);
+    });
+
+    test('keeps progress messages off stdout with --json', async () => {
+        const connectSui: CliIo['connectSui'] = (_profile, _keys, log) => {
+            log('Cancelling src escrow...');
+            return fakeSui;
+        };
+        expect(await run(['escrow', 'cancel', ESCROW_ID, '--yes', '--json'], { connectSui })).toBe(0);
+        expect(stderr).toEqual(['Cancelling src escrow...']);
+        expect(JSON.parse(stdout.join('\n'))).toEqual({ escrowId: ESCROW_ID, cancelled: '5000' });
+
+        stderr = [];
+        stdout = [];
+        expect(await run(['escrow', 'cancel', ESCROW_ID, '--yes'], { connectSui })).toBe(0);
+        expect(stdout).toEqual(['Cancelling src escrow...', `✅ Cancelled escrow ${ESCROW_ID}`]);
+    });
+
+    test('refuses orders on an EVM chain the profile has no deployment for', async () => {
+        const env = { PRIVATE_KEY: Wallet.createRandom().privateKey, VAULT_PASSPHRASE: 'hunter2', FUSUION_DATA_DIR: dir, CHAIN_CONFIG: join(dir, 'chains.json') };
+        expect(await run([
+            'order', 'create', '--profile', 'testnet', '--direction', 'EVM_TO_SUI',
+            '--amount', '100', '--receive', '25', '--resolver', RESOLVER
+        ], { env })).toBe(1);
+        expect(stderr).toEqual([
+            `❌ No deployment of EVM chain 11155111 for profile testnet: add its escrowFactory, limitOrderProtocol and rpcUrl to ${join(dir, 'chains.json')}, which does not exist yet`
+        ]);
+        expect(SecretVault.open(join(dir, 'secrets.json'), 'hunter2').list()).toEqual([]);
+    });
+});
@@ -0,0 +1,597 @@
+// tests/cli.ts
+// fusuion command-line tool for makers and resolvers. Run `npm run fusuion -- help`.
+// Every command that signs a transaction simulates it first and asks before sending,
+// unless --yes is given; --json prints machine-readable results only.
+
+import dotenv from 'dotenv';
+import { JsonRpcProvider, ZeroAddress, formatEther, formatUnits } from 'ethers';
+import { createInterface } from 'readline/promises';
+import { format, parseArgs } from 'util';
+
+import { SUI_CHAIN_ID } from './chain-config';
+import { JsonMakerOrderStore, rebuildOrder, toMakerOrder, toRelayerRequest } from './cli-orders';
+import {
+    CliKeys,
+    CliProfile,
+    loadKeys,
+    profileChains,
+    profileEvmChain,
+    profilePath,
+    profileTokens,
+    resolveProfile
+} from './cli-profiles';
+import { CrossChainOrderBuilder, getEvmTypedData } from './cross-chain-order-builder';
+import { EscrowStage, EscrowStatus } from './escrow-stages';
+import { EVMWallet } from './evm-wallet';
+import type { RelayerOrder } from './relayer';
+import { SecretVault, suiEscrowVerified } from './secret-vault';
+import { DryRunResult, SuiIntegration } from './sui-integration';
+import { Timelocks } from './timelocks';
+
+const OPTIONS = {
+    profile: { type: 'string' },
+    json: { type: 'boolean' },
+    yes: { type: 'boolean', short: 'y' },
+    help: { type: 'boolean', short: 'h' },
+    direction: { type: 'string' },
+    chain: { type: 'string' },
+    token: { type: 'string' },
+    'sui-token': { type: 'string' },
+    amount: { type: 'string' },
+    receive: { type: 'string' },
+    resolver: { type: 'string' },
+    secret: { type: 'string' },
+    all: { type: 'boolean' },
+    status: { type: 'boolean' }
+} as const;
+
+type CliOptions = ReturnType<typeof parseArgs<{ options: typeof OPTIONS, allowPositionals: true }>>['values'];
+
+const USAGE = `Usage: fusuion <command> [options]
+
+Commands:
+  order create --direction EVM_TO_SUI|SUI_TO_EVM --amount <sell> --receive <buy> --resolver <0x…>
+               [--token USDC] [--sui-token SUI] [--chain <evm chain id>]
+  wallet create <orderHash>                    fund the Sui wallet of a SUI_TO_EVM order
+  escrow create-src <walletId> [--amount <n>]  fill a maker's Sui wallet (resolver)
+  escrow create-dst <orderHash> [--amount <n>] lock funds on Sui for a relayed EVM_TO_SUI order (resolver)
+  escrow withdraw <escrowId> [--secret <0x…>]  without --secret, the maker's vault releases it
+  escrow cancel <escrowId>
+  escrow rescue <escrowId> | --all
+  escrow status <escrowId>
+  orders list [--status]                       --status also asks the relayer
+  accounts balance
+  quote <walletId> [--amount <n>]
+
+Options:
+  --profile localnet|testnet|mainnet  (FUSUION_PROFILE, default testnet)
+  --json                              print results as JSON only
+  --yes, -y                           do not ask before sending transactions
+
+Environment: PRIVATE_KEY (EVM key, also signs on Sui unless SUI_PRIVATE_KEY is set),
+VAULT_PASSPHRASE, SUI_RPC, SUI_ESCROW_PACKAGE_ID, EVM_CHAIN_ID, CHAIN_CONFIG, TOKEN_CONFIG,
+RELAYER_URL, FUSUION_DATA_DIR`;
+
+/**
+ * A failure to report to the user without a stack trace
+ */
+export class CliError extends Error {
+    constructor(message: string, readonly exitCode: number = 1) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * Where the CLI reads and writes; tests replace any of it
+ */
+export interface CliIo {
+    env: NodeJS.ProcessEnv
+    stdout: (text: string) => void
+    stderr: (text: string) => void
+    confirm: (question: string) => Promise<boolean>
+    connectSui: (profile: CliProfile, keys: CliKeys, log: (text: string) => void) => SuiIntegration
+}
+
+interface CommandContext {
+    args: string[] // positionals after the command words
+    options: CliOptions
+    profile: CliProfile
+    io: CliIo
+    log: (text: string) => void // progress messages, kept off stdout with --json
+    keys(): CliKeys
+    sui(): SuiIntegration
+    orders(): JsonMakerOrderStore
+    vault(): SecretVault
+}
+
+type Command = (ctx: CommandContext) => Promise<{ result: unknown, lines: string[] }>;
+
+async function promptConfirm(question: string): Promise<boolean> {
+    if (!process.stdin.isTTY) {
+        throw new CliError('Not asking for confirmation without a terminal, pass --yes to send anyway');
+    }
+    const rl = createInterface({ input: process.stdin, output: process.stderr });
+    try {
+        return /^y(es)?$/i.test((await rl.question(`${question} [y/N] `)).trim());
+    } finally {
+        rl.close();
+    }
+}
+
+function defaultIo(): CliIo {
+    return {
+        env: process.env,
+        stdout: text => process.stdout.write(text + '\n'),
+        stderr: text => process.stderr.write(text + '\n'),
+        confirm: promptConfirm,
+        connectSui: (profile, keys, log) => {
+            if (!profile.suiPackageId) {
+                throw new CliError(`No escrow package for profile ${profile.name}, set SUI_ESCROW_PACKAGE_ID`);
+            }
+            return new SuiIntegration(profile.suiRpc, profile.suiPackageId, keys.sui, { log: (...args) => log(format(...args)) });
+        }
+    };
+}
+
+function toJson(value: unknown): string {
+    return JSON.stringify(value, (_, v) => typeof v === 'bigint' ? v.toString() : v, 2);
+}
+
+function required(value: string | undefined, what: string): string {
+    if (!value) {
+        throw new CliError(`Missing ${what}`, 2);
+    }
+    return value;
+}
+
+function gasLine(simulation: DryRunResult): string {
+    return `Estimated gas: ${formatUnits(simulation.gas.totalCost, 9)} SUI`;
+}
+
+/**
+ * Simulate, show what is about to happen, ask, then send
+ */
+async function transact<T>(
+    ctx: CommandContext,
+    summary: string[],
+    simulate: () => Promise<DryRunResult>,
+    execute: () => Promise<T>
+): Promise<T> {
+    const simulation = await simulate();
+    if (!simulation.success) {
+        throw new CliError(`Transaction would fail: ${simulation.error?.message ?? 'unknown error'}`);
+    }
+
+    if (!ctx.options.yes) {
+        [...summary, gasLine(simulation)].forEach(line => ctx.io.stderr(line));
+        if (!(await ctx.io.confirm('Send this transaction?'))) {
+            throw new CliError('Aborted, nothing was sent');
+        }
+    }
+    return execute();
+}
+
+async function fetchRelayerOrder(ctx: CommandContext, orderHash: string): Promise<RelayerOrder | undefined> {
+    const res = await fetch(`${ctx.profile.relayerUrl}/orders/${orderHash}`);
+    if (res.status === 404) {
+        return undefined;
+    }
+    if (!res.ok) {
+        throw new CliError(`Relayer answered ${res.status} for order ${orderHash}`);
+    }
+    return await res.json() as RelayerOrder;
+}
+
+const orderCreate: Command = async ctx => {
+    const { options } = ctx;
+    const direction = required(options.direction, '--direction');
+    if (direction !== 'EVM_TO_SUI' && direction !== 'SUI_TO_EVM') {
+        throw new CliError(`--direction must be EVM_TO_SUI or SUI_TO_EVM, got ${direction}`, 2);
+    }
+
+    const evmChainId = options.chain ? Number(options.chain) : ctx.profile.evmChainId;
+    const evmChain = profileEvmChain(ctx.profile, evmChainId);
+    const keys = ctx.keys();
+    const tokens = profileTokens(ctx.profile);
+    const chains = profileChains(ctx.profile);
+    const erc20Token = options.token ?? 'USDC';
+    const suiToken = options['sui-token'] ?? 'SUI';
+    const sell = required(options.amount, '--amount');
+    const buy = required(options.receive, '--receive');
+    const evmToSui = direction === 'EVM_TO_SUI';
+
+    const built = CrossChainOrderBuilder.createOrder({
+        direction,
+        evmChainId,
+        erc20Token,
+        erc20Amount: tokens.parseAmount(evmChainId, erc20Token, evmToSui ? sell : buy),
+        suiAmount: tokens.parseAmount(SUI_CHAIN_ID, suiToken, evmToSui ? buy : sell),
+        maker: keys.evm.address,
+        resolver: required(options.resolver, '--resolver'),
+        suiToken,
+        registry: tokens,
+        chains,
+        vault: ctx.vault()
+    });
+
+    let signature: string | undefined;
+    if (evmToSui) {
+        const { domain, types, message } = getEvmTypedData(built.order, evmChain);
+        signature = await keys.evm.signTypedData(domain, types, message);
+    }
+
+    const record = toMakerOrder(
+        built,
+        { evm: keys.evm.address, sui: keys.sui.toSuiAddress() },
+        await keys.binding(built.orderHash),
+        signature
+    );
+    ctx.orders().put(record);
+
+    const relayerRequest = toRelayerRequest(record);
+    return {
+        result: { ...record, relayerRequest },
+        lines: [
+            `✅ Order ${record.orderHash} created (${direction}), secret kept in the vault`,
+            `Hashlock: ${record.hashlock}`,
+            evmToSui
+                ? `Submit it with: curl -X POST ${ctx.profile.relayerUrl}/orders -H 'Content-Type: application/json' -d @<request>, request in --json output`
+                : `Fund it with: fusuion wallet create ${record.orderHash}`
+        ]
+    };
+};
+
+const walletCreate: Command = async ctx => {
+    const orderHash = required(ctx.args[0], 'order hash');
+    const orders = ctx.orders();
+    const record = orders.get(orderHash);
+    if (!record) {
+        throw new CliError(`Order ${orderHash} was not created here`);
+    }
+    if (record.walletId) {
+        throw new CliError(`Order ${orderHash} is already funded by wallet ${record.walletId}`);
+    }
+
+    const params = CrossChainOrderBuilder.toSuiWalletParams(rebuildOrder(record, profileTokens(ctx.profile)));
+    const sui = ctx.sui();
+    const created = await transact(
+        ctx,
+        [`Fund wallet for order ${orderHash} with ${await sui.formatAmount(record.suiToken, params.makingAmount)}`],
+        () => sui.createWallet(params, record.suiToken, { dryRun: true }),
+        () => sui.createWallet(params, record.suiToken)
+    );
+
+    const funded = { ...record, walletId: created.walletId };
+    orders.put(funded);
+    return {
+        result: { ...created, relayerRequest: toRelayerRequest(funded) },
+        lines: [`✅ Wallet ${created.walletId} funded for order ${orderHash}`]
+    };
+};
+
+const escrowCreateSrc: Command = async ctx => {
+    const walletId = required(ctx.args[0], 'wallet id');
+    const sui = ctx.sui();
+    const wallet = await sui.getWallet(walletId);
+    if (wallet.allowPartialFills) {
+        throw new CliError(`Wallet ${walletId} takes partial fills, which need the maker's secret hashes`);
+    }
+
+    const amount = ctx.options.amount ? await sui.parseAmount(wallet.tokenType, ctx.options.amount) : wallet.balance;
+    const options = { getSecretProof: () => ({ hashlock: wallet.hashlock, proof: [] }) };
+    const created = await transact(
+        ctx,
+        [`Fill ${await sui.formatAmount(wallet.tokenType, amount)} of wallet ${walletId} for order ${wallet.orderHash}`],
+        () => sui.fillWallet(walletId, amount, { ...options, dryRun: true }),
+        () => sui.fillWallet(walletId, amount, options)
+    );
+
+    return { result: created, lines: [`✅ Source escrow ${created.escrowId} created for order ${wallet.orderHash}`] };
+};
+
+const escrowCreateDst: Command = async ctx => {
+    const orderHash = required(ctx.args[0], 'order hash');
+    const order = await fetchRelayerOrder(ctx, orderHash);
+    if (!order) {
+        throw new CliError(`Relayer at ${ctx.profile.relayerUrl} does not know order ${orderHash}`);
+    }
+    if (order.direction !== 'EVM_TO_SUI') {
+        throw new CliError(`Order ${orderHash} pays out on EVM, its destination escrow is not on Sui`);
+    }
+
+    const sui = ctx.sui();
+    const amount = ctx.options.amount ? await sui.parseAmount(order.suiToken, ctx.options.amount) : BigInt(order.takingAmount);
+    if (amount < BigInt(order.takingAmount)) {
+        throw new CliError(`Amount ${amount} is below the order's taking amount ${order.takingAmount}`);
+    }
+    const args = [
+        order.orderHash,
+        order.hashlock,
+        { evmAddress: order.maker.evm, binding: order.binding },
+        amount,
+        BigInt(order.dstSafetyDeposit),
+        Timelocks.fromJSON(order.timelocks),
+        order.suiToken
+    ] as const;
+
+    const escrowId = await transact(
+        ctx,
+        [`Lock ${await sui.formatAmount(order.suiToken, amount)} for ${order.maker.sui} on order ${orderHash}`],
+        () => sui.createDstEscrow(...args, { dryRun: true }),
+        () => sui.createDstEscrow(...args)
+    );
+
+    return { result: { escrowId, orderHash }, lines: [`✅ Destination escrow ${escrowId} created for order ${orderHash}`] };
+};
+
+/**
+ * The secret for a destination escrow of the maker's own order, released by the vault once
+ * the escrow matches the order and is final
+ */
+async function secretFromVault(ctx: CommandContext, escrowId: string, orderHash: string): Promise<string> {
+    const record = ctx.orders().get(orderHash);
+    if (!record || record.direction !== 'EVM_TO_SUI') {
+        throw new CliError(`Order ${orderHash} is not one of your EVM_TO_SUI orders, pass --secret`);
+    }
+
+    return ctx.vault().reveal(orderHash, suiEscrowVerified(ctx.sui(), escrowId, {
+        escrowType: 'dst',
+        orderHash,
+        maker: record.maker.sui,
+        tokenType: record.suiToken,
+        amount: BigInt(record.takingAmount),
+        safetyDeposit: BigInt(record.dstSafetyDeposit),
+        timelocks: Timelocks.fromJSON(record.timelocks)
+    }));
+}
+
+const escrowWithdraw: Command = async ctx => {
+    const escrowId = required(ctx.args[0], 'escrow id');
+    const sui = ctx.sui();
+    const escrow = await sui.getEscrow(escrowId);
+    const secret = ctx.options.secret ?? await secretFromVault(ctx, escrowId, escrow.immutables.orderHash);
+
+    await transact(
+        ctx,
+        [`Withdraw ${await sui.formatAmount(escrow.coinType, escrow.tokenBalance)} from ${escrow.escrowType} escrow ${escrowId}`],
+        () => sui.withdraw(escrowId, escrow.escrowType, secret, escrow.coinType, { dryRun: true }),
+        () => sui.withdraw(escrowId, escrow.escrowType, secret, escrow.coinType)
+    );
+    return { result: { escrowId, withdrawn: escrow.tokenBalance }, lines: [`✅ Withdrew from escrow ${escrowId}`] };
+};
+
+const escrowCancel: Command = async ctx => {
+    const escrowId = required(ctx.args[0], 'escrow id');
+    const sui = ctx.sui();
+    const escrow = await sui.getEscrow(escrowId);
+
+    await transact(
+        ctx,
+        [`Cancel ${escrow.escrowType} escrow ${escrowId}, returning ${await sui.formatAmount(escrow.coinType, escrow.tokenBalance)}`],
+        () => sui.cancel(escrowId, escrow.escrowType, escrow.coinType, { dryRun: true }),
+        () => sui.cancel(escrowId, escrow.escrowType, escrow.coinType)
+    );
+    return { result: { escrowId, cancelled: escrow.tokenBalance }, lines: [`✅ Cancelled escrow ${escrowId}`] };
+};
+
+const escrowRescue: Command = async ctx => {
+    const sui = ctx.sui();
+    if (ctx.options.all) {
+        // One transaction for the whole sweep, so what is simulated is what gets sent
+        const { wallets, escrows, pending } = await sui.findRescuable();
+        const pendingLines = pending.map(({ objectId, rescueAt }) => `⏳ ${objectId} can be rescued from ${new Date(Number(rescueAt)).toISOString()}`);
+        if (wallets.length + escrows.length === 0) {
+            return { result: { digest: null, wallets: [], escrows: [], pending }, lines: ['Nothing to rescue yet', ...pendingLines] };
+        }
+
+        const batch = sui.batch().rescueAllOwed();
+        const sent = await transact(
+            ctx,
+            [
+                `Rescue ${wallets.length} wallets and ${escrows.length} escrows owed to you:`,
+                ...[...wallets.map(({ walletId }) => walletId), ...escrows.map(({ escrowId }) => escrowId)].map(id => `  ${id}`)
+            ],
+            () => batch.execute({ dryRun: true }),
+            () => batch.execute()
+        );
+        return {
+            result: { digest: sent.digest, wallets, escrows, pending },
+            lines: [`✅ Rescued ${wallets.length} wallets and ${escrows.length} escrows in ${sent.digest}`, ...pendingLines]
+        };
+    }
+
+    const escrowId = required(ctx.args[0], 'escrow id or --all');
+    const escrow = await sui.getEscrow(escrowId);
+    const src = escrow.escrowType === 'src';
+    const rescued = await transact(
+        ctx,
+        [`Rescue ${escrow.escrowType} escrow ${escrowId}`],
+        () => src ? sui.rescueSrc(escrowId, { dryRun: true }) : sui.rescueDst(escrowId, { dryRun: true }),
+        () => src ? sui.rescueSrc(escrowId) : sui.rescueDst(escrowId)
+    );
+    return { result: rescued, lines: [`✅ Rescued escrow ${escrowId}`] };
+};
+
+const escrowStatus: Command = async ctx => {
+    const escrowId = required(ctx.args[0], 'escrow id');
+    const sui = ctx.sui();
+    const [escrow, stage] = await Promise.all([sui.getEscrow(escrowId), sui.getEscrowStage(escrowId)]);
+    const allowed = Object.entries(stage.actions).filter(([, ok]) => ok).map(([action]) => action);
+
+    return {
+        result: { ...escrow, stage: EscrowStage[stage.stage], nextStage: stage.nextStage === null ? null : EscrowStage[stage.nextStage], nextStageAt: stage.nextStageAt, actions: stage.actions },
+        lines: [
+            `Escrow ${escrowId} (${escrow.escrowType}) for order ${escrow.immutables.orderHash}`,
+            `Status: ${EscrowStatus[escrow.status]}, holding ${await sui.formatAmount(escrow.coinType, escrow.tokenBalance)}`,
+            `Stage: ${EscrowStage[stage.stage]}` + (stage.nextStage === null || stage.nextStageAt === null
+                ? ''
+                : `, ${EscrowStage[stage.nextStage]} from ${new Date(Number(stage.nextStageAt)).toISOString()}`),
+            `You may: ${allowed.length > 0 ? allowed.join(', ') : 'nothing yet'}`
+        ]
+    };
+};
+
+const ordersList: Command = async ctx => {
+    const tokens = profileTokens(ctx.profile);
+    const orders = await Promise.all(ctx.orders().list().map(async order => ({
+        ...order,
+        relayerStatus: ctx.options.status ? (await fetchRelayerOrder(ctx, order.orderHash))?.status ?? 'not submitted' : undefined
+    })));
+
+    const amount = (chainId: number, address: string, value: string) => {
+        const token = tokens.findByAddress(chainId, address);
+        return token ? `${formatUnits(value, token.decimals)} ${token.symbol}` : `${value} of ${address}`;
+    };
+    return {
+        result: orders,
+        lines: orders.length === 0 ? ['No orders yet'] : orders.map(order => {
+            const evm = [order.evmChainId, order.evmToken] as const;
+            const sui = [SUI_CHAIN_ID, order.suiToken] as const;
+            const [sell, buy] = order.direction === 'EVM_TO_SUI' ? [evm, sui] : [sui, evm];
+            return `${order.orderHash} ${order.direction} ${amount(...sell, order.makingAmount)} → ${amount(...buy, order.takingAmount)}` +
+                (order.walletId ? ` wallet ${order.walletId}` : '') +
+                (order.relayerStatus ? ` [${order.relayerStatus}]` : '');
+        })
+    };
+};
+
+const accountsBalance: Command = async ctx => {
+    const keys = ctx.keys();
+    const sui = ctx.sui();
+    const tokens = profileTokens(ctx.profile);
+    const suiAddress = keys.sui.toSuiAddress();
+    const suiBalances = await Promise.all(tokens.list(SUI_CHAIN_ID).map(async token =>
+        ({ symbol: token.symbol, balance: await sui.getBalance(suiAddress, token.address), decimals: token.decimals })
+    ));
+
+    // The EVM side is optional, profiles may not configure their default chain
+    const chain = profileChains(ctx.profile).find(ctx.options.chain ? Number(ctx.options.chain) : ctx.profile.evmChainId);
+    let evm: { chainId: number, native: bigint, tokens: { symbol: string, balance: bigint, decimals: number }[] } | undefined;
+    if (chain?.vm === 'evm') {
+        const provider = new JsonRpcProvider(chain.rpcUrl);
+        const wallet = new EVMWallet(keys.evm.connect(provider), provider);
+        evm = {
+            chainId: chain.chainId,
+            native: await wallet.getBalance(),
+            tokens: await Promise.all(tokens.list(chain.chainId).filter(token => token.address !== ZeroAddress).map(async token =>
+                ({ symbol: token.symbol, balance: await wallet.getTokenBalance(token.address), decimals: token.decimals })
+            ))
+        };
+    }
+
+    const line = ({ symbol, balance, decimals }: { symbol: string, balance: bigint, decimals: number }) =>
+        `  ${formatUnits(balance, decimals)} ${symbol}`;
+    return {
+        result: { sui: { address: suiAddress, tokens: suiBalances }, evm: evm && { address: keys.evm.address, ...evm } },
+        lines: [
+            `Sui ${suiAddress}`,
+            ...suiBalances.map(line),
+            ...(evm
+                ? [`EVM ${keys.evm.address} on chain ${evm.chainId}`, `  ${formatEther(evm.native)} native`, ...evm.tokens.map(line)]
+                : [`EVM chain ${ctx.profile.evmChainId} is not configured for profile ${ctx.profile.name}`])
+        ]
+    };
+};
+
+const quoteCommand: Command = async ctx => {
+    const walletId = required(ctx.args[0], 'wallet id');
+    const sui = ctx.sui();
+    const wallet = await sui.getWallet(walletId);
+    const making = ctx.options.amount ? await sui.parseAmount(wallet.tokenType, ctx.options.amount) : wallet.balance;
+    const quoted = await sui.quoteFill(walletId, making);
+
+    const evmChainId = ctx.options.chain ? Number(ctx.options.chain) : ctx.profile.evmChainId;
+    const takerToken = profileTokens(ctx.profile).findByAddress(evmChainId, wallet.takerAsset);
+    const taking = takerToken
+        ? `${formatUnits(quoted.takingAmount, takerToken.decimals)} ${takerToken.symbol}`
+        : `${quoted.takingAmount} of ${wallet.takerAsset}`;
+    return {
+        result: quoted,
+        lines: [`Filling ${await sui.formatAmount(wallet.tokenType, making)} of wallet ${walletId} now takes at least ${taking}`]
+    };
+};
+
+const COMMANDS: Record<string, Command> = {
+    'order create': orderCreate,
+    'wallet create': walletCreate,
+    'escrow create-src': escrowCreateSrc,
+    'escrow create-dst': escrowCreateDst,
+    'escrow withdraw': escrowWithdraw,
+    'escrow cancel': escrowCancel,
+    'escrow rescue': escrowRescue,
+    'escrow status': escrowStatus,
+    'orders list': ordersList,
+    'accounts balance': accountsBalance,
+    'quote': quoteCommand
+};
+
+/**
+ * Run one CLI invocation and return its exit code: 0 on success, 1 on failure, 2 on bad usage
+ */
+export async function runCli(argv: string[], overrides: Partial<CliIo> = {}): Promise<number> {
+    const io: CliIo = { ...defaultIo(), ...overrides };
+
+    let parsed;
+    try {
+        parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+    } catch (error) {
+        io.stderr(`${(error as Error).message}\n\n${USAGE}`);
+        return 2;
+    }
+
+    const { values: options, positionals } = parsed;
+    const twoWords = positionals.slice(0, 2).join(' ');
+    const name = twoWords in COMMANDS ? twoWords : positionals[0];
+    const command: Command | undefined = COMMANDS[name];
+    if (options.help || name === 'help') {
+        io.stdout(USAGE);
+        return 0;
+    }
+    if (!command) {
+        io.stderr(positionals.length > 0 ? `Unknown command ${positionals.join(' ')}\n\n${USAGE}` : USAGE);
+        return 2;
+    }
+
+    try {
+        const profile = resolveProfile(options.profile, io.env);
+        let keys: CliKeys | undefined;
+        let sui: SuiIntegration | undefined;
+        let orders: JsonMakerOrderStore | undefined;
+        let vault: SecretVault | undefined;
+        const ctx: CommandContext = {
+            args: positionals.slice(name.split(' ').length),
+            options,
+            profile,
+            io,
+            // Progress would corrupt JSON output, it goes to stderr then
+            log: options.json ? io.stderr : io.stdout,
+            keys: () => keys ??= loadKeys(io.env),
+            sui: () => sui ??= io.connectSui(profile, ctx.keys(), ctx.log),
+            orders: () => orders ??= new JsonMakerOrderStore(profilePath(profile, 'orders.json')),
+            vault: () => vault ??= SecretVault.open(
+                profilePath(profile, 'secrets.json'),
+                required(io.env.VAULT_PASSPHRASE, 'VAULT_PASSPHRASE to open the secret vault')
+            )
+        };
+
+        const { result, lines } = await command(ctx);
+        (options.json ? [toJson(result)] : lines).forEach(line => io.stdout(line));
+        return 0;
+    } catch (error) {
+        const message = (error as Error).message;
+        if (options.json) {
+            io.stdout(toJson({ error: message }));
+        } else {
+            io.stderr(`❌ ${message}`);
+        }
+        return error instanceof CliError ? error.exitCode : 1;
+    }
+}
+
+if (require.main === module) {
+    dotenv.config();
+    runCli(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
@@ -0,0 +1,153 @@
+// tests/cross-chain-e2e-spec.ts
+// EVM ↔ Sui swaps against the local chains e2e-setup starts: mock USDC and escrows on anvil,
+// the escrow package on a fresh Sui localnet. Stages are reached by moving both clocks.
+// Not covered here: the order fill of EVM source escrows. anvil has no limit order protocol,
+// so createMockSrcEscrow deploys them directly instead of Resolver.deploySrc filling the signed
+// order; the order signature, extension and fill path are only checked by evm-escrow-client-spec.
+import { JsonRpcProvider, parseEther, parseUnits } from 'ethers';
+
+import { signAddressBinding } from './address-binding';
+import { BuiltCrossChainOrder, CrossChainOrderBuilder } from './cross-chain-order-builder';
+import { E2eAccount, E2eFixtures, e2eAccount, e2eChains, e2eTokens, loadE2eFixtures } from './e2e-fixtures';
+import { EscrowStage, EscrowStatus } from './escrow-stages';
+import { DeployedEvmEscrow } from './evm-escrow-client';
+import { advanceEvmClock, advanceSuiClock, createMockSrcEscrow } from './local-chains';
+import { Timelocks } from './timelocks';
+
+// Short enough that the Sui clock can also just run when libfaketime is not available
+const timelocks = Timelocks.new({
+    srcWithdrawal: 3_000n,
+    srcPublicWithdrawal: 6_000n,
+    srcCancellation: 9_000n,
+    srcPublicCancellation: 10_000n,
+    dstWithdrawal: 2_000n,
+    dstPublicWithdrawal: 5_000n,
+    dstCancellation: 8_000n
+});
+
+const USDC_AMOUNT = parseUnits('100', 6);
+const SUI_AMOUNT = 2_000_000_000n;
+const EVM_SAFETY_DEPOSIT = parseEther('0.01');
+const SUI_SAFETY_DEPOSIT = 100_000_000n;
+
+describe('Cross-Chain Swaps: EVM ↔ Sui (local chains)', () => {
+    let fixtures: E2eFixtures;
+    let provider: JsonRpcProvider;
+    let user: E2eAccount;
+    let resolver: E2eAccount;
+
+    beforeAll(async () => {
+        fixtures = loadE2eFixtures();
+        provider = new JsonRpcProvider(fixtures.evm.rpcUrl, fixtures.evm.chainId, { staticNetwork: true });
+        user = await e2eAccount(fixtures, fixtures.accounts.user, provider);
+        resolver = await e2eAccount(fixtures, fixtures.accounts.resolver, provider);
+    });
+
+    afterAll(() => {
+        provider?.destroy();
+    });
+
+    async function createOrder(): Promise<BuiltCrossChainOrder> {
+        return CrossChainOrderBuilder.createOrder({
+            direction: 'EVM_TO_SUI',
+            evmChainId: fixtures.evm.chainId,
+            erc20Token: 'USDC',
+            erc20Amount: USDC_AMOUNT,
+            suiAmount: SUI_AMOUNT,
+            maker: await user.evm.getAddress(),
+            resolver: await resolver.evm.getAddress(),
+            registry: e2eTokens(fixtures),
+            chains: e2eChains(fixtures),
+            timelocks
+        });
+    }
+
+    /**
+     * The resolver locks the maker's USDC on anvil and its own SUI for the maker on Sui
+     */
+    async function openEscrows(order: BuiltCrossChainOrder): Promise<{ src: DeployedEvmEscrow, dstEscrowId: string }> {
+        await user.evm.approveToken(fixtures.evm.usdc, fixtures.evm.escrowFactory, USDC_AMOUNT);
+        const src = await createMockSrcEscrow(resolver.evm, fixtures.evm.escrowFactory, {
+            orderHash: order.orderHash,
+            hashlock: order.hashlock,
+            maker: await user.evm.getAddress(),
+            taker: await resolver.evm.getAddress(),
+            token: fixtures.evm.usdc,
+            amount: USDC_AMOUNT,
+            safetyDeposit: EVM_SAFETY_DEPOSIT,
+            timelocks: order.timelocks
+        });
+
+        const binding = await signAddressBinding(user.evm.signer, user.suiKeypair, order.orderHash);
+        const dstEscrowId = await resolver.sui.createDstEscrow(
+            order.orderHash,
+            order.hashlock,
+            { evmAddress: await user.evm.getAddress(), binding },
+            SUI_AMOUNT,
+            SUI_SAFETY_DEPOSIT,
+            order.timelocks
+        );
+        return { src, dstEscrowId };
+    }
+
+    test('EVM (USDC) → Sui swap', async () => {
+        const order = await createOrder();
+        const initialUsdc = await resolver.evm.getTokenBalance(fixtures.evm.usdc);
+        const initialSui = await user.sui.getBalance(user.sui.getSignerAddress());
+
+        const { src, dstEscrowId } = await openEscrows(order);
+        expect((await resolver.sui.getEscrowStage(dstEscrowId)).stage).toBe(EscrowStage.FinalityLock);
+
+        await advanceSuiClock(fixtures.sui, order.timelocks.dstWithdrawal);
+        expect((await resolver.sui.waitForStage(dstEscrowId, EscrowStage.ResolverExclusiveWithdraw, { timeoutMs: 5_000 })).actions)
+            .toMatchObject({ withdraw: true });
+
+        // Withdrawing reveals the secret, so the maker checks the escrow, now past its finality lock, before handing it out
+        const verification = await user.sui.verifyEscrowAgainstOrder(dstEscrowId, {
+            escrowType: 'dst',
+            orderHash: order.orderHash,
+            hashlock: order.hashlock,
+            maker: user.sui.getSignerAddress(),
+            tokenType: order.suiCoinType,
+            amount: SUI_AMOUNT,
+            safetyDeposit: SUI_SAFETY_DEPOSIT,
+            timelocks: order.timelocks
+        });
+        expect(verification.mismatches).toEqual([]);
+        await resolver.sui.withdraw(dstEscrowId, 'dst', order.secret);
+
+        // Wakes on the block advanceEvmClock mines. anvil time also ran while the Sui clock
+        // moved, so only what is left of the finality lock is skipped, landing on its end
+        const reached = resolver.evmEscrows.waitForStage(
+            src.address, 'src', src.immutables, EscrowStage.ResolverExclusiveWithdraw, { strategy: 'subscribe', timeoutMs: 30_000 }
+        );
+        const evmNow = BigInt((await provider.getBlock('latest'))!.timestamp) * 1000n;
+        const finalityLeft = src.createdAt + order.timelocks.srcWithdrawal - evmNow;
+        await advanceEvmClock(provider, finalityLeft > 0n ? finalityLeft : 0n);
+        expect((await reached).actions).toMatchObject({ withdraw: true });
+        await resolver.evmEscrows.withdraw(src.address, 'src', order.secret, src.immutables);
+
+        expect(await resolver.evm.getTokenBalance(fixtures.evm.usdc) - initialUsdc).toBe(USDC_AMOUNT);
+        expect(await user.sui.getBalance(user.sui.getSignerAddress()) - initialSui).toBe(SUI_AMOUNT);
+        expect((await resolver.evmEscrows.getEscrow(src.address, 'src', src.immutables)).status).toBe(EscrowStatus.Withdrawn);
+    }, 120_000);
+
+    test('both escrows refund once the cancellation stages start', async () => {
+        const order = await createOrder();
+        const initialUsdc = await user.evm.getTokenBalance(fixtures.evm.usdc);
+        const { src, dstEscrowId } = await openEscrows(order);
+
+        await advanceSuiClock(fixtures.sui, order.timelocks.dstCancellation);
+        const stage = await resolver.sui.getEscrowStage(dstEscrowId);
+        expect(stage).toMatchObject({ stage: EscrowStage.ResolverExclusiveCancel, actions: { withdraw: false, cancel: true } });
+        await resolver.sui.cancel(dstEscrowId, 'dst');
+        expect((await resolver.sui.getEscrow(dstEscrowId)).status).toBe(EscrowStatus.Cancelled);
+
+        await advanceEvmClock(provider, order.timelocks.srcCancellation);
+        // anvil time also ran while the Sui clock moved, this may already be the public stage
+        expect((await resolver.evmEscrows.getEscrowStage(src.address, 'src', src.immutables)).actions)
+            .toMatchObject({ withdraw: false, cancel: true });
+        await resolver.evmEscrows.cancel(src.address, 'src', src.immutables);
+        expect(await user.evm.getTokenBalance(fixtures.evm.usdc)).toBe(initialUsdc);
+    }, 120_000);
+});
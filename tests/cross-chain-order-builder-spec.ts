@@ -0,0 +1,70 @@
+// tests/cross-chain-order-builder-spec.ts
+import { CrossChainOrder, EscrowExtension } from '@1inch/cross-chain-sdk';
+import { keccak256, parseUnits } from 'ethers';
+import { CrossChainOrderBuilder } from './cross-chain-order-builder';
+
+const MAKER = '0x742D35CC6634c0532925A3b844bC9e7595f5FF8b';
+const RESOLVER = '0x2819c144D5946404C0516B6f817a960dB37D4929';
+const FACTORY = '0x1234567890123456789012345678901234567890';
+const SECRET = '0x' + '11'.repeat(32);
+
+function build(direction: 'USDC_TO_SUI' | 'SUI_TO_USDC') {
+    const built = CrossChainOrderBuilder.createUSDCSwapOrder({
+        direction,
+        evmChainId: CrossChainOrderBuilder.ETHEREUM_CHAIN_ID,
+        usdcAmount: parseUnits('100', 6),
+        suiAmount: 25_000_000_000n,
+        maker: MAKER,
+        resolver: RESOLVER,
+        escrowFactory: FACTORY
+    });
+    return built;
+}
+
+describe('CrossChainOrderBuilder', () => {
+    test('produces an EIP-712 hash that survives an extension round trip', () => {
+        const built = build('USDC_TO_SUI');
+        const { order } = built;
+
+        expect(built.orderHash).toBe(order.getOrderHash(CrossChainOrderBuilder.ETHEREUM_CHAIN_ID));
+        expect(built.orderHash).toMatch(/^0x[0-9a-f]{64}$/);
+
+        // A relayer decoding the signed order data gets the same hash
+        const decoded = CrossChainOrder.fromDataAndExtension(order.build(), order.extension);
+        expect(decoded.getOrderHash(built.srcChainId)).toBe(built.orderHash);
+
+        const ext = EscrowExtension.fromExtension(order.extension);
+        expect(ext.dstChainId).toBe(CrossChainOrderBuilder.SUI_CHAIN_ID);
+        expect(ext.hashLockInfo.toString()).toBe(built.hashlock);
+        expect(ext.timeLocks.build()).toBe(built.timelocks.toSdk().build());
+    });
+
+    test('uses keccak256(secret) as the single-fill hashlock', () => {
+        const built = CrossChainOrderBuilder.createOrder({
+            direction: 'EVM_TO_SUI',
+            evmChainId: CrossChainOrderBuilder.POLYGON_CHAIN_ID,
+            erc20Token: 'DAI',
+            erc20Amount: parseUnits('100', 18),
+            suiAmount: 25_000_000_000n,
+            maker: MAKER,
+            resolver: RESOLVER,
+            escrowFactory: FACTORY,
+            secret: SECRET
+        });
+
+        expect(built.hashlock).toBe(keccak256(SECRET));
+    });
+
+    test('carries the order hash into Sui wallet params', () => {
+        const built = build('SUI_TO_USDC');
+        const params = CrossChainOrderBuilder.toSuiWalletParams(built);
+
+        expect(built.srcChainId).toBe(CrossChainOrderBuilder.SUI_CHAIN_ID);
+        expect(params.orderHash).toBe(built.orderHash);
+        expect(params.makingAmount).toBe(25_000_000_000n);
+        expect(params.takingAmount).toBe(parseUnits('100', 6));
+        expect(params.makerAsset).toBe('0x2::sui::SUI');
+        expect(params.timelocks.isValid()).toBe(true);
+        expect(() => CrossChainOrderBuilder.toSuiWalletParams(build('USDC_TO_SUI'))).toThrow();
+    });
+});
@@ -1,129 +1,249 @@
-// tests/cross-chain-order-builder.ts - FIXED VERSION
-import { randomBytes, keccak256 } from 'ethers';
-
-// Import from 1inch SDK - checking different import styles
-let Sdk: any;
-try {
-    Sdk = require('@1inch/cross-chain-sdk');
-} catch (e) {
-    console.error('Failed to import SDK:', e);
+// tests/cross-chain-order-builder.ts
+import {
+    Address,
+    AuctionDetails,
+    CrossChainOrder,
+    EscrowExtension,
+    HashLock,
+    NetworkEnum,
+    SupportedChain,
+    now,
+    randBigInt
+} from '@1inch/cross-chain-sdk';
+import { TypedDataEncoder, hexlify, keccak256, randomBytes, toUtf8Bytes } from 'ethers';
+
+import { ChainRegistry, EvmChainConfig, SUI_CHAIN_ID, defaultTimelocks, validateChainTimelocks } from './chain-config';
+import type { SecretVault } from './secret-vault';
+import type { CreateWalletParams } from './sui-integration';
+import { Timelocks } from './timelocks';
+import { TokenInfo, TokenRegistry } from './token-registry';
+
+const DEFAULT_REGISTRY = new TokenRegistry();
+const DEFAULT_CHAINS = new ChainRegistry();
+
+/**
+ * A 1inch order plus everything the Sui contracts need to reference it
+ */
+export interface BuiltCrossChainOrder {
+    order: CrossChainOrder
+    orderHash: string // EIP-712 hash on the source chain, used as order_hash on Sui
+    secret: string
+    hashlock: string
+    direction: 'EVM_TO_SUI' | 'SUI_TO_EVM'
+    srcChainId: number
+    dstChainId: number
+    evmToken: TokenInfo
+    suiToken: TokenInfo
+    suiCoinType: string
+    timelocks: Timelocks
 }
 
-// Manual implementations if SDK imports fail
-class SimpleLock {
-    static hashSecret(secret: string): string {
-        return keccak256(secret);
-    }
-    
-    static forSingleFill(secret: string): any {
-        return {
-            hashlock: keccak256(secret),
-            secret: secret
-        };
-    }
+/**
+ * EVM address standing in for a Sui coin type inside the 1inch order: the last
+ * 20 bytes of keccak256(coinType). Not the native-currency marker, which the
+ * SDK refuses as a maker asset
+ */
+export function suiCoinTypeToEvmAddress(coinType: string): Address {
+    return new Address('0x' + keccak256(toUtf8Bytes(coinType)).slice(-40));
 }
 
-// Only ERC20 tokens supported by 1inch Limit Order Protocol
-export const ERC20_TOKENS = {
-    ETHEREUM: {
-        USDC: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
-        USDT: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
-        DAI: '0x6B175474E89094C44Da98b954EedeAC495271d0F'
-    },
-    POLYGON: {
-        USDC: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174',
-        USDT: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F',
-        DAI: '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063'
-    }
-};
+/**
+ * EIP-712 data the maker signs, against the limit order protocol configured for the
+ * chain, which on local deployments is not the address the SDK assumes
+ */
+export function getEvmTypedData(order: CrossChainOrder, chain: EvmChainConfig) {
+    const { domain, types, message } = order.getTypedData(chain.chainId);
+    return {
+        domain: { ...domain, verifyingContract: chain.limitOrderProtocol },
+        types: { Order: types.Order },
+        message
+    };
+}
+
+export function getEvmOrderHash(order: CrossChainOrder, chain: EvmChainConfig): string {
+    const { domain, types, message } = getEvmTypedData(order, chain);
+    return TypedDataEncoder.hash(domain, types, message);
+}
 
 export class CrossChainOrderBuilder {
     static readonly ETHEREUM_CHAIN_ID = 1;
     static readonly POLYGON_CHAIN_ID = 137;
-    static readonly SUI_CHAIN_ID = 101;
-    
+    static readonly ARBITRUM_CHAIN_ID = 42161;
+    static readonly BASE_CHAIN_ID = 8453;
+    static readonly OPTIMISM_CHAIN_ID = 10;
+    static readonly BNB_CHAIN_ID = 56;
+    static readonly AVALANCHE_CHAIN_ID = 43114;
+    static readonly SUI_CHAIN_ID = SUI_CHAIN_ID;
+
     /**
-     * Create a simple order structure for cross-chain swaps
+     * Create a 1inch cross-chain order with a real EIP-712 hash and escrow extension.
+     * The 1inch SDK only accepts its own chains, so the order is drafted with stand-in
+     * chains for Sui (and for EVM chains it does not know, such as local anvil nodes) and
+     * the extension is then re-encoded with the real destination chain id
      */
     static createOrder(params: {
         direction: 'EVM_TO_SUI' | 'SUI_TO_EVM',
         evmChainId: number,
-        erc20Token: 'USDC' | 'USDT' | 'DAI',
+        erc20Token: string, // symbol in the registry for evmChainId
         erc20Amount: bigint,
         suiAmount: bigint,
         maker: string,
         resolver: string,
-        escrowFactory: string
-    }): {
-        order: any
-        orderHash: string
-        secret: string
-        hashlock: string
-    } {
-        // Generate secret
-        const secretBytes = randomBytes(32);
-        const secret = '0x' + Buffer.from(secretBytes).toString('hex');
-        const hashlock = keccak256(secret);
-        
-        // Get ERC20 token address
-        const tokens = params.evmChainId === this.ETHEREUM_CHAIN_ID 
-            ? ERC20_TOKENS.ETHEREUM 
-            : ERC20_TOKENS.POLYGON;
-        const erc20Address = tokens[params.erc20Token];
-        
-        let srcChainId: number;
-        let dstChainId: number;
-        let makerAsset: string;
-        let takerAsset: string;
-        let makingAmount: bigint;
-        let takingAmount: bigint;
-        
-        if (params.direction === 'EVM_TO_SUI') {
-            srcChainId = params.evmChainId;
-            dstChainId = this.SUI_CHAIN_ID;
-            makerAsset = erc20Address;
-            takerAsset = '0x0000000000000000000000000000000000000001';
-            makingAmount = params.erc20Amount;
-            takingAmount = params.suiAmount;
-        } else {
-            srcChainId = this.SUI_CHAIN_ID;
-            dstChainId = params.evmChainId;
-            makerAsset = '0x0000000000000000000000000000000000000002';
-            takerAsset = erc20Address;
-            makingAmount = params.suiAmount;
-            takingAmount = params.erc20Amount;
-        }
-        
-        // Create a simple order structure
-        const order = {
-            maker: params.maker,
-            receiver: params.resolver,
-            makerAsset,
-            takerAsset,
-            makingAmount: makingAmount.toString(),
-            takingAmount: takingAmount.toString(),
-            salt: Date.now().toString(),
-            extension: {
-                hashlock,
-                srcChainId,
-                dstChainId,
-                srcSafetyDeposit: params.direction === 'EVM_TO_SUI' ? '1000000000000000' : '110000000',
-                dstSafetyDeposit: params.direction === 'EVM_TO_SUI' ? '110000000' : '1000000000000000'
+        escrowFactory?: string, // the chain config's by default
+        suiToken?: string, // symbol in the registry for Sui, SUI by default
+        registry?: TokenRegistry,
+        chains?: ChainRegistry,
+        secret?: string,
+        vault?: SecretVault, // keeps the secret before the order is handed out
+        timelocks?: Timelocks, // relative ms, whole seconds, safe defaults for the two chains
+        srcSafetyDeposit?: bigint,
+        dstSafetyDeposit?: bigint,
+        auctionDuration?: bigint // seconds
+    }): BuiltCrossChainOrder {
+        const secret = params.secret ?? hexlify(randomBytes(32));
+        const hashLock = HashLock.forSingleFill(secret);
+        const evmToSui = params.direction === 'EVM_TO_SUI';
+
+        // Unknown tokens, unknown chains and non-bridgeable tokens are refused here
+        const evmSide = { chainId: params.evmChainId, symbol: params.erc20Token };
+        const suiSide = { chainId: this.SUI_CHAIN_ID, symbol: params.suiToken ?? 'SUI' };
+        const registry = params.registry ?? DEFAULT_REGISTRY;
+        const pair = evmToSui ? registry.resolvePair(evmSide, suiSide) : registry.resolvePair(suiSide, evmSide);
+        const evmToken = evmToSui ? pair.src : pair.dst;
+        const suiToken = evmToSui ? pair.dst : pair.src;
+
+        const erc20Address = new Address(evmToken.address);
+        const suiAsset = suiCoinTypeToEvmAddress(suiToken.address);
+
+        const chains = params.chains ?? DEFAULT_CHAINS;
+        const evmChainConfig = chains.getEvm(params.evmChainId);
+        const suiChainConfig = chains.getSui();
+        const timelocks = params.timelocks ??
+            (evmToSui ? defaultTimelocks(evmChainConfig, suiChainConfig) : defaultTimelocks(suiChainConfig, evmChainConfig));
+        validateChainTimelocks(
+            timelocks,
+            evmToSui ? evmChainConfig : suiChainConfig,
+            evmToSui ? suiChainConfig : evmChainConfig
+        );
+
+        const srcChainId = evmToSui ? params.evmChainId : this.SUI_CHAIN_ID;
+        const dstChainId = evmToSui ? this.SUI_CHAIN_ID : params.evmChainId;
+
+        // The draft only needs two distinct SDK chains: the EVM chain if the SDK knows it,
+        // and any other one standing in for Sui
+        const evmChain = (params.evmChainId in NetworkEnum ? params.evmChainId : NetworkEnum.ETHEREUM) as SupportedChain;
+        const standIn = evmChain === NetworkEnum.ETHEREUM ? NetworkEnum.POLYGON : NetworkEnum.ETHEREUM;
+
+        const srcSafetyDeposit = params.srcSafetyDeposit ?? (evmToSui ? 1_000_000_000_000_000n : 110_000_000n);
+        const dstSafetyDeposit = params.dstSafetyDeposit ?? (evmToSui ? 110_000_000n : 1_000_000_000_000_000n);
+        const resolver = new Address(params.resolver);
+
+        const draft = CrossChainOrder.new(
+            new Address(params.escrowFactory ?? evmChainConfig.escrowFactory),
+            {
+                salt: randBigInt(1000n),
+                maker: new Address(params.maker),
+                makerAsset: evmToSui ? erc20Address : suiAsset,
+                takerAsset: evmToSui ? suiAsset : erc20Address,
+                makingAmount: evmToSui ? params.erc20Amount : params.suiAmount,
+                takingAmount: evmToSui ? params.suiAmount : params.erc20Amount
+            },
+            {
+                hashLock,
+                srcChainId: evmToSui ? evmChain : standIn,
+                dstChainId: evmToSui ? standIn : evmChain,
+                srcSafetyDeposit,
+                dstSafetyDeposit,
+                timeLocks: timelocks.toSdk()
+            },
+            {
+                auction: new AuctionDetails({
+                    startTime: now(),
+                    initialRateBump: 0,
+                    duration: params.auctionDuration ?? 120n,
+                    points: []
+                }),
+                whitelist: [{ address: resolver, allowFrom: 0n }],
+                resolvingStartTime: 0n
+            },
+            {
+                nonce: randBigInt(2n ** 40n - 1n),
+                allowPartialFills: false,
+                allowMultipleFills: false
             }
-        };
-        
-        // Simple order hash (in production, use proper EIP-712 hashing)
-        const orderData = JSON.stringify(order);
-        const orderHash = keccak256(Buffer.from(orderData));
-        
+        );
+
+        // Re-encode the escrow extension with the real destination chain id
+        const ext = draft.escrowExtension;
+        const extension = new EscrowExtension(
+            ext.address,
+            ext.auctionDetails,
+            ext.postInteractionData,
+            ext.makerPermit,
+            ext.hashLockInfo,
+            dstChainId as NetworkEnum,
+            ext.dstToken,
+            ext.srcSafetyDeposit,
+            ext.dstSafetyDeposit,
+            ext.timeLocks
+        );
+        // The salt commits to the extension hash, so rebuild the order around the new extension
+        const order = CrossChainOrder.fromDataAndExtension(draft.build(), extension.build());
+
+        const orderHash = evmToSui ? getEvmOrderHash(order, evmChainConfig) : order.getOrderHash(srcChainId);
+        params.vault?.storeSecret(orderHash, secret, {
+            escrowType: evmToSui ? 'src' : 'dst',
+            maker: params.maker,
+            token: evmToken.address,
+            amount: params.erc20Amount.toString(),
+            safetyDeposit: (evmToSui ? srcSafetyDeposit : dstSafetyDeposit).toString(),
+            timelocks: timelocks.toJSON()
+        });
+
         return {
             order,
             orderHash,
             secret,
-            hashlock
+            hashlock: hashLock.toString(),
+            direction: params.direction,
+            srcChainId,
+            dstChainId,
+            evmToken,
+            suiToken,
+            suiCoinType: suiToken.address,
+            timelocks
         };
     }
-    
+
+    /**
+     * Wallet params for create_wallet from a Sui-source order, carrying its order hash unchanged.
+     * The secret is not needed, so orders reloaded without it can be funded too
+     */
+    static toSuiWalletParams(built: Omit<BuiltCrossChainOrder, 'secret'>): CreateWalletParams {
+        if (built.direction !== 'SUI_TO_EVM') {
+            throw new Error('Only orders with Sui as source chain are funded through a Sui wallet');
+        }
+
+        const { order } = built;
+        const ext = order.escrowExtension;
+
+        return {
+            orderHash: built.orderHash,
+            salt: BigInt(order.build().salt),
+            makerAsset: built.suiToken.address,
+            takerAsset: built.evmToken.address,
+            makingAmount: order.makingAmount,
+            takingAmount: order.takingAmount,
+            duration: ext.auctionDetails.duration * 1000n, // Sui auctions run in ms
+            hashlock: built.hashlock,
+            srcSafetyDepositAmount: ext.srcSafetyDeposit,
+            dstSafetyDepositAmount: ext.dstSafetyDeposit,
+            allowPartialFills: false,
+            partsAmount: 0,
+            timelocks: built.timelocks
+        };
+    }
+
     /**
      * Helper: Create USDC ↔ SUI swap order
      */
@@ -147,4 +267,4 @@ export class CrossChainOrderBuilder {
             escrowFactory: params.escrowFactory
         });
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,84 @@
+// tests/e2e-fixtures.ts
+// What e2e-setup hands to the *-e2e-spec.ts files: the local chains and funded accounts,
+// plus the chain and token registries and clients pointed at them.
+
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { JsonRpcProvider, ZeroAddress, getBytes } from 'ethers';
+import { readFileSync } from 'fs';
+
+import { ChainRegistry, SUI_CHAIN_ID, localEvmChain } from './chain-config';
+import { EvmEscrowClient } from './evm-escrow-client';
+import { EVMWallet } from './evm-wallet';
+import type { EvmLocalnet, SuiLocalnet } from './local-chains';
+import { SuiIntegration } from './sui-integration';
+import { TokenRegistry } from './token-registry';
+
+/** Environment variable e2e-setup points at the fixtures file */
+export const E2E_FIXTURES_ENV = 'FUSUION_E2E_FIXTURES';
+
+export interface E2eFixtures {
+    sui: SuiLocalnet
+    evm: EvmLocalnet
+    accounts: {
+        user: string // EVM private key of the maker, its Sui key is derived from it
+        resolver: string // EVM private key of the resolver, likewise
+    }
+}
+
+export interface E2eAccount {
+    evm: EVMWallet
+    evmEscrows: EvmEscrowClient
+    sui: SuiIntegration
+    suiKeypair: Ed25519Keypair
+}
+
+export function loadE2eFixtures(): E2eFixtures {
+    const path = process.env[E2E_FIXTURES_ENV];
+    if (!path) {
+        throw new Error(`${E2E_FIXTURES_ENV} is not set, run the e2e specs with npm run test:e2e`);
+    }
+    return JSON.parse(readFileSync(path, 'utf8'));
+}
+
+/**
+ * Built-in chains plus the local anvil and the Sui localnet
+ */
+export function e2eChains(fixtures: E2eFixtures): ChainRegistry {
+    const chains = new ChainRegistry();
+    chains.register(localEvmChain(fixtures.evm.chainId, fixtures.evm.rpcUrl, {
+        escrowFactory: fixtures.evm.escrowFactory,
+        limitOrderProtocol: ZeroAddress // none locally, source escrows come from createMockSrcEscrow
+    }));
+    chains.register({
+        vm: 'sui',
+        chainId: SUI_CHAIN_ID,
+        name: 'Sui localnet',
+        rpcUrl: fixtures.sui.rpcUrl,
+        finality: 1,
+        packageId: fixtures.sui.packageId
+    });
+    return chains;
+}
+
+/**
+ * Built-in tokens plus the mock USDC on the local anvil
+ */
+export function e2eTokens(fixtures: E2eFixtures): TokenRegistry {
+    const tokens = new TokenRegistry();
+    tokens.register({ chainId: fixtures.evm.chainId, symbol: 'USDC', address: fixtures.evm.usdc, decimals: 6, bridgeable: true });
+    return tokens;
+}
+
+/**
+ * Clients on both chains signing with `privateKey`
+ */
+export async function e2eAccount(fixtures: E2eFixtures, privateKey: string, provider: JsonRpcProvider): Promise<E2eAccount> {
+    const evm = await EVMWallet.fromPrivateKey(privateKey, provider);
+    const suiKeypair = Ed25519Keypair.fromSecretKey(getBytes(privateKey));
+    return {
+        evm,
+        evmEscrows: await EvmEscrowClient.forChain(evm, e2eChains(fixtures).getEvm(fixtures.evm.chainId)),
+        sui: new SuiIntegration(fixtures.sui.rpcUrl, fixtures.sui.packageId, suiKeypair),
+        suiKeypair
+    };
+}
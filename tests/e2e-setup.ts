@@ -0,0 +1,45 @@
+// tests/e2e-setup.ts
+// Jest globalSetup of the e2e project: starts both local chains once for all e2e specs,
+// funds the user and resolver on each and writes the fixtures for loadE2eFixtures.
+// Set FAKETIME_LIB to libfaketime.so to let the Sui clock jump instead of waiting.
+
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Wallet, getBytes } from 'ethers';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { E2E_FIXTURES_ENV, E2eFixtures } from './e2e-fixtures';
+import teardown, { E2eState } from './e2e-teardown';
+import { ANVIL_KEYS, fundSuiAddress, startAnvil, startSuiLocalnet } from './local-chains';
+
+export default async function setup(): Promise<void> {
+    const dir = mkdtempSync(join(tmpdir(), 'fusuion-e2e-'));
+    const accounts = { user: ANVIL_KEYS[1], resolver: ANVIL_KEYS[2] };
+    const state: E2eState = { dir, chains: [] };
+    globalThis.__E2E__ = state;
+
+    console.log(`\n📁 e2e logs in ${dir}`);
+    // Jest skips globalTeardown when globalSetup fails
+    try {
+        const evm = await startAnvil({
+            logDir: dir,
+            fund: Object.values(accounts).map(key => new Wallet(key).address)
+        });
+        state.chains.push(evm);
+
+        const sui = await startSuiLocalnet({ logDir: dir, fakeTimeLib: process.env.FAKETIME_LIB });
+        state.chains.push(sui);
+        for (const key of Object.values(accounts)) {
+            await fundSuiAddress(sui.chain, Ed25519Keypair.fromSecretKey(getBytes(key)).toSuiAddress());
+        }
+
+        const fixtures: E2eFixtures = { sui: sui.chain, evm: evm.chain, accounts };
+        const path = join(dir, 'fixtures.json');
+        writeFileSync(path, JSON.stringify(fixtures, null, 2));
+        process.env[E2E_FIXTURES_ENV] = path;
+    } catch (error) {
+        await teardown();
+        throw error;
+    }
+}
@@ -0,0 +1,29 @@
+// tests/e2e-teardown.ts
+// Jest globalTeardown of the e2e project: stops the chains e2e-setup started.
+
+import { rmSync } from 'fs';
+
+import type { RunningChain } from './local-chains';
+
+export interface E2eState {
+    dir: string
+    chains: RunningChain<unknown>[]
+}
+
+declare global {
+    /** What e2e-setup started, kept on globalThis, which globalSetup and globalTeardown share */
+    var __E2E__: E2eState | undefined;
+}
+
+export default async function teardown(): Promise<void> {
+    const state = globalThis.__E2E__;
+    if (!state) {
+        return;
+    }
+
+    for (const chain of state.chains.reverse()) {
+        await chain.stop();
+    }
+    rmSync(state.dir, { recursive: true, force: true });
+    globalThis.__E2E__ = undefined;
+}
@@ -0,0 +1,66 @@
+// tests/escrow-errors-spec.ts
+import {
+    AmbiguousEscrowError,
+    AuctionViolatedError,
+    EscrowError,
+    InvalidMerkleProofError,
+    InvalidSecretError,
+    MoveAbortError,
+    SafetyDepositTooLowError,
+    WalletInactiveError,
+    decodeMoveAbort,
+    parseMoveAbort
+} from './escrow-errors';
+
+const PACKAGE = '0x' + 'ab'.repeat(32);
+
+function abort(module: string, fn: string, code: number, address = 'ab'.repeat(32)): string {
+    return 'Error checking transaction input objects: MoveAbort(MoveLocation { module: ModuleId { ' +
+        `address: ${address}, name: Identifier("${module}") }, function: 2, instruction: 17, ` +
+        `function_name: Some("${fn}") }, ${code}) in command 0`;
+}
+
+describe('escrow errors', () => {
+    test('parses the abort location and code', () => {
+        expect(parseMoveAbort(abort('escrow_withdraw', 'withdraw_src', 1004))).toMatchObject({
+            code: 1004,
+            address: PACKAGE,
+            module: 'escrow_withdraw',
+            functionName: 'withdraw_src',
+            instruction: 17,
+            command: 0
+        });
+        expect(parseMoveAbort('InsufficientGas')).toBeNull();
+    });
+
+    test('maps codes to typed errors with actionable messages', () => {
+        const secret = decodeMoveAbort(new Error(abort('escrow_withdraw', 'withdraw_src', 1004)), PACKAGE);
+        expect(secret).toBeInstanceOf(InvalidSecretError);
+        expect(secret).toBeInstanceOf(EscrowError);
+        expect(secret?.message).toContain('e_invalid_secret');
+        expect(secret?.message).toContain('escrow_withdraw::withdraw_src');
+
+        const auction = decodeMoveAbort(abort('escrow_create', 'create_escrow_src', 1017), PACKAGE);
+        expect(auction).toBeInstanceOf(AuctionViolatedError);
+
+        // Aborts from other packages are not escrow errors
+        const foreign = decodeMoveAbort(abort('balance', 'split', 2, '2'), PACKAGE);
+        expect(foreign).toBeInstanceOf(MoveAbortError);
+        expect(foreign).not.toBeInstanceOf(EscrowError);
+    });
+
+    test('narrows shared codes by location and reports both meanings otherwise', () => {
+        expect(decodeMoveAbort(abort('escrow_create', 'create_escrow_dst', 1014), PACKAGE))
+            .toBeInstanceOf(SafetyDepositTooLowError);
+        expect(decodeMoveAbort(abort('structs', 'withdraw_from_wallet_for_escrow', 1015), PACKAGE))
+            .toBeInstanceOf(WalletInactiveError);
+        expect(decodeMoveAbort(abort('escrow_create', 'create_escrow_src', 1015), PACKAGE))
+            .toBeInstanceOf(InvalidMerkleProofError);
+
+        const shared = decodeMoveAbort(abort('escrow_create', 'create_escrow_src', 1014), PACKAGE) as EscrowError;
+        expect(shared).toBeInstanceOf(AmbiguousEscrowError);
+        expect(shared.constant).toBe('e_safety_deposit_too_low | e_secret_index_used');
+        expect(shared.message).toContain('e_safety_deposit_too_low');
+        expect(shared.message).toContain('e_secret_index_used');
+    });
+});
@@ -0,0 +1,319 @@
+// tests/escrow-errors.ts
+// Typed errors for Move aborts raised by the escrow package. Codes mirror
+// escrow::constants (1001-1017); 1014 and 1015 are shared by two constants each,
+// so the abort location is used to narrow them down where possible.
+
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+
+/**
+ * Where and with which code a Move call aborted
+ */
+export interface MoveAbortInfo {
+    code: number
+    address: string | null // package id, normalized
+    module: string | null
+    functionName: string | null
+    instruction: number | null
+    command: number | null // index of the PTB command that failed
+    raw: string
+}
+
+/**
+ * One escrow::constants error that an abort code can stand for
+ */
+export interface AbortMeaning {
+    constant: string // e.g. e_invalid_secret
+    description: string
+    hint: string
+}
+
+/**
+ * Any Move abort, including ones raised outside the escrow package (e.g. sui::balance)
+ */
+export class MoveAbortError extends Error {
+    constructor(readonly abort: MoveAbortInfo, message?: string) {
+        super(message ?? `Move abort ${abort.code} in ${formatLocation(abort)}`);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * Abort raised by the escrow package; `meanings` holds every constant the code may stand for
+ */
+export class EscrowError extends MoveAbortError {
+    constructor(abort: MoveAbortInfo, readonly meanings: AbortMeaning[]) {
+        super(abort, formatMessage(abort, meanings));
+    }
+
+    get constant(): string {
+        return this.meanings.map(meaning => meaning.constant).join(' | ');
+    }
+}
+
+export class InvalidAmountError extends EscrowError {}
+export class InvalidTimelockError extends EscrowError {}
+export class InvalidHashlockError extends EscrowError {}
+export class InvalidSecretError extends EscrowError {}
+export class InvalidAddressError extends EscrowError {}
+export class AlreadyWithdrawnError extends EscrowError {}
+export class NotWithdrawableError extends EscrowError {}
+export class InactiveEscrowError extends EscrowError {}
+export class NotCancellableError extends EscrowError {}
+export class UnauthorisedError extends EscrowError {}
+export class PublicWithdrawNotStartedError extends EscrowError {}
+export class PublicCancelNotStartedError extends EscrowError {}
+export class InsufficientBalanceError extends EscrowError {}
+export class SafetyDepositTooLowError extends EscrowError {}
+export class SecretIndexUsedError extends EscrowError {}
+export class WalletInactiveError extends EscrowError {}
+export class InvalidMerkleProofError extends EscrowError {}
+export class InvalidOrderHashError extends EscrowError {}
+export class AuctionViolatedError extends EscrowError {}
+
+/**
+ * A shared code (1014, 1015) whose location did not tell the meanings apart
+ */
+export class AmbiguousEscrowError extends EscrowError {}
+
+type EscrowErrorClass = new (abort: MoveAbortInfo, meanings: AbortMeaning[]) => EscrowError;
+
+interface AbortEntry extends AbortMeaning {
+    errorClass: EscrowErrorClass
+    raisedIn?: string[] // `module` or `module::function`, when the constant is shared
+}
+
+const ABORT_CODES: Record<number, AbortEntry[]> = {
+    1001: [{
+        constant: 'e_invalid_amount',
+        errorClass: InvalidAmountError,
+        description: 'Invalid amount',
+        hint: 'Check that amounts are positive, match the wallet balance and respect partsAmount.'
+    }],
+    1002: [{
+        constant: 'e_invalid_timelock',
+        errorClass: InvalidTimelockError,
+        description: 'Invalid timelocks',
+        hint: 'Timelocks must increase on each chain and every dst stage must end before its src stage.'
+    }],
+    1003: [{
+        constant: 'e_invalid_hashlock',
+        errorClass: InvalidHashlockError,
+        description: 'Invalid hashlock',
+        hint: 'Hashlocks must be 32 bytes.'
+    }],
+    1004: [{
+        constant: 'e_invalid_secret',
+        errorClass: InvalidSecretError,
+        description: 'Invalid secret',
+        hint: 'keccak256(secret) must equal the escrow hashlock; for partial fills use the secret of the fill index.'
+    }],
+    1005: [{
+        constant: 'e_invalid_address',
+        errorClass: InvalidAddressError,
+        description: 'Invalid address',
+        hint: 'Maker and taker must be non-zero Sui addresses.'
+    }],
+    1006: [{
+        constant: 'e_already_withdrawn',
+        errorClass: AlreadyWithdrawnError,
+        description: 'Escrow already withdrawn or cancelled',
+        hint: 'The escrow is no longer active; read its status with getEscrow.'
+    }],
+    1007: [{
+        constant: 'e_not_withdrawable',
+        errorClass: NotWithdrawableError,
+        description: 'Escrow not withdrawable yet',
+        hint: 'Still in the finality lock or past the withdraw window; check getEscrowStage.'
+    }],
+    1008: [{
+        constant: 'e_inactive_escrow',
+        errorClass: InactiveEscrowError,
+        description: 'Escrow or wallet inactive, or rescue delay not over',
+        hint: 'Rescue is only possible after the last cancellation stage plus the rescue delay.'
+    }],
+    1009: [{
+        constant: 'e_not_cancellable',
+        errorClass: NotCancellableError,
+        description: 'Escrow not cancellable yet',
+        hint: 'Wait for the cancellation stage; check getEscrowStage.'
+    }],
+    1010: [{
+        constant: 'e_unauthorised',
+        errorClass: UnauthorisedError,
+        description: 'Caller is not allowed to do this',
+        hint: 'Exclusive stages are reserved for the taker; sign with the taker key or wait for the public stage.'
+    }],
+    1011: [{
+        constant: 'e_public_withdraw_not_started',
+        errorClass: PublicWithdrawNotStartedError,
+        description: 'Public withdraw has not started',
+        hint: 'Only the taker can withdraw until the public withdraw timelock.'
+    }],
+    1012: [{
+        constant: 'e_public_cancel_not_started',
+        errorClass: PublicCancelNotStartedError,
+        description: 'Public cancel has not started',
+        hint: 'Only the taker can cancel until the public cancellation timelock.'
+    }],
+    1013: [{
+        constant: 'e_insufficient_balance',
+        errorClass: InsufficientBalanceError,
+        description: 'Insufficient balance',
+        hint: 'The wallet or coin does not hold enough tokens for this amount.'
+    }],
+    1014: [
+        {
+            constant: 'e_safety_deposit_too_low',
+            errorClass: SafetyDepositTooLowError,
+            description: 'Safety deposit too low',
+            hint: 'Pay at least the wallet srcSafetyDepositAmount (src) or the 0.001 SUI minimum (dst).',
+            raisedIn: ['escrow_create::create_escrow_src', 'escrow_create::create_escrow_dst']
+        },
+        {
+            constant: 'e_secret_index_used',
+            errorClass: SecretIndexUsedError,
+            description: 'Secret index already used or wrong for this fill',
+            hint: 'Pick the index with selectSecretIndex for the amount being filled.',
+            raisedIn: ['escrow_create::create_escrow_src']
+        }
+    ],
+    1015: [
+        {
+            constant: 'e_wallet_inactive',
+            errorClass: WalletInactiveError,
+            description: 'Wallet inactive',
+            hint: 'The wallet has been fully filled or deactivated.',
+            raisedIn: ['escrow_structs', 'structs']
+        },
+        {
+            constant: 'e_invalid_merkle_proof',
+            errorClass: InvalidMerkleProofError,
+            description: 'Invalid merkle proof',
+            hint: 'The proof must prove keccak256(secret_i) against the wallet merkle root; full fills take no proof.',
+            raisedIn: ['escrow_create::create_escrow_src']
+        }
+    ],
+    1016: [{
+        constant: 'e_invalid_order_hash',
+        errorClass: InvalidOrderHashError,
+        description: 'Invalid order hash',
+        hint: 'Order hashes must be 32 bytes.'
+    }],
+    1017: [{
+        constant: 'e_auction_violated',
+        errorClass: AuctionViolatedError,
+        description: 'Dutch auction price not met',
+        hint: 'Offer at least the takingAmount from quoteFill at the time the transaction executes.'
+    }]
+};
+
+function formatLocation(abort: MoveAbortInfo): string {
+    if (!abort.module) {
+        return 'unknown location';
+    }
+    return abort.functionName ? `${abort.module}::${abort.functionName}` : abort.module;
+}
+
+function formatMessage(abort: MoveAbortInfo, meanings: AbortMeaning[]): string {
+    const where = `abort ${abort.code} in ${formatLocation(abort)}`;
+
+    if (meanings.length === 0) {
+        return `Unknown escrow error (${where})`;
+    }
+    if (meanings.length === 1) {
+        const [meaning] = meanings;
+        return `${meaning.description} (${meaning.constant}, ${where}). ${meaning.hint}`;
+    }
+
+    const options = meanings
+        .map(meaning => `${meaning.description} (${meaning.constant}): ${meaning.hint}`)
+        .join(' OR ');
+    return `Ambiguous ${where}, either ${options}`;
+}
+
+function raisedAt(entry: AbortEntry, abort: MoveAbortInfo): boolean {
+    if (!entry.raisedIn || !abort.module) {
+        return true;
+    }
+    return entry.raisedIn.some(location => {
+        const [module, fn] = location.split('::');
+        return module === abort.module && (!fn || !abort.functionName || fn === abort.functionName);
+    });
+}
+
+const MOVE_ABORT_PATTERN = new RegExp(
+    'MoveAbort\\(MoveLocation \\{ module: ModuleId \\{ address: (0x)?([0-9a-fA-F]+), name: Identifier\\("(\\w+)"\\) \\}, ' +
+    'function: \\d+, instruction: (\\d+), function_name: (?:Some\\("(\\w+)"\\)|None) \\}, (\\d+)\\)' +
+    '(?: in command (\\d+))?'
+);
+
+// Fallback for shortened forms such as `MoveAbort(..., 1004)`
+const BARE_ABORT_PATTERN = /MoveAbort\(.*,\s*(\d+)\)(?: in command (\d+))?/;
+
+/**
+ * Extract the abort location and code from an execution or dry-run error string
+ */
+export function parseMoveAbort(message: string): MoveAbortInfo | null {
+    const full = MOVE_ABORT_PATTERN.exec(message);
+    if (full) {
+        return {
+            code: Number(full[6]),
+            address: normalizeSuiAddress(full[2]),
+            module: full[3],
+            functionName: full[5] ?? null,
+            instruction: Number(full[4]),
+            command: full[7] !== undefined ? Number(full[7]) : null,
+            raw: full[0]
+        };
+    }
+
+    const bare = BARE_ABORT_PATTERN.exec(message);
+    if (bare) {
+        return {
+            code: Number(bare[1]),
+            address: null,
+            module: null,
+            functionName: null,
+            instruction: null,
+            command: bare[2] !== undefined ? Number(bare[2]) : null,
+            raw: bare[0]
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Turn a failed transaction (thrown error or effects status string) into a typed error.
+ * Aborts from other packages become a plain MoveAbortError when `packageId` is given.
+ */
+export function decodeMoveAbort(error: unknown, packageId?: string): MoveAbortError | null {
+    const message = error instanceof Error ? error.message : String(error);
+    const abort = parseMoveAbort(message);
+    if (!abort) {
+        return null;
+    }
+
+    if (packageId && abort.address && abort.address !== normalizeSuiAddress(packageId)) {
+        return new MoveAbortError(abort);
+    }
+
+    const entries = ABORT_CODES[abort.code];
+    if (!entries) {
+        return packageId ? new EscrowError(abort, []) : new MoveAbortError(abort);
+    }
+
+    const matching = entries.filter(entry => raisedAt(entry, abort));
+    const candidates = matching.length > 0 ? matching : entries;
+    const meanings = candidates.map(({ constant, description, hint }) => ({ constant, description, hint }));
+
+    const ErrorClass = candidates.length === 1 ? candidates[0].errorClass : AmbiguousEscrowError;
+    return new ErrorClass(abort, meanings);
+}
+
+/**
+ * Every meaning of an escrow abort code, for display
+ */
+export function describeAbortCode(code: number): AbortMeaning[] {
+    return (ABORT_CODES[code] ?? []).map(({ constant, description, hint }) => ({ constant, description, hint }));
+}
@@ -0,0 +1,76 @@
+// tests/escrow-stages-spec.ts
+import { EscrowStage, EscrowStatus, RESCUE_DELAY_PERIOD_MS, getStageInfo } from './escrow-stages';
+import { EscrowState } from './sui-integration';
+import { Timelocks } from './timelocks';
+
+const TAKER = '0x' + 'b'.repeat(64);
+const OTHER = '0x' + 'c'.repeat(64);
+
+function escrow(escrowType: 'src' | 'dst', status = EscrowStatus.Active): EscrowState {
+    return {
+        escrowId: '0x1',
+        escrowType,
+        coinType: '0x2::sui::SUI',
+        immutables: {
+            orderHash: '0x' + '11'.repeat(32),
+            hashlock: '0x' + '22'.repeat(32),
+            maker: '0x' + 'a'.repeat(64),
+            taker: TAKER,
+            tokenType: 'wSUI',
+            amount: 1_000n,
+            safetyDeposit: 1_000_000n,
+            timelocks: Timelocks.new({
+                srcWithdrawal: 300_000n,
+                srcPublicWithdrawal: 600_000n,
+                srcCancellation: 900_000n,
+                srcPublicCancellation: 1_200_000n,
+                dstWithdrawal: 250_000n,
+                dstPublicWithdrawal: 550_000n,
+                dstCancellation: 850_000n
+            })
+        },
+        tokenBalance: 1_000n,
+        safetyDeposit: 1_000_000n,
+        createdAt: 1_000n,
+        status
+    };
+}
+
+describe('getStageInfo', () => {
+    test('follows utils::src_stage boundaries and reports the next stage', () => {
+        const lock = getStageInfo(escrow('src'), 1_000n, TAKER);
+        expect(lock.stage).toBe(EscrowStage.FinalityLock);
+        expect(lock.nextStage).toBe(EscrowStage.ResolverExclusiveWithdraw);
+        expect(lock.nextStageAt).toBe(301_000n);
+        expect(lock.actions).toEqual({ withdraw: false, publicWithdraw: false, cancel: false, rescue: false });
+
+        const exclusive = getStageInfo(escrow('src'), 301_000n, TAKER);
+        expect(exclusive.stage).toBe(EscrowStage.ResolverExclusiveWithdraw);
+        expect(exclusive.actions.withdraw).toBe(true);
+        expect(getStageInfo(escrow('src'), 301_000n, OTHER).actions.withdraw).toBe(false);
+
+        expect(getStageInfo(escrow('src'), 601_000n, OTHER).actions.publicWithdraw).toBe(true);
+        expect(getStageInfo(escrow('src'), 901_000n, OTHER).actions.cancel).toBe(false);
+        expect(getStageInfo(escrow('src'), 901_000n, TAKER).actions.cancel).toBe(true);
+        expect(getStageInfo(escrow('src'), 1_201_000n, OTHER).actions.cancel).toBe(true);
+    });
+
+    test('only lets the taker cancel a dst escrow', () => {
+        const info = getStageInfo(escrow('dst'), 2_000_000n, OTHER);
+
+        expect(info.stage).toBe(EscrowStage.ResolverExclusiveCancel);
+        expect(info.actions.cancel).toBe(false);
+        expect(getStageInfo(escrow('dst'), 2_000_000n, TAKER).actions.cancel).toBe(true);
+        expect(info.nextStage).toBe(EscrowStage.Rescue);
+        expect(info.nextStageAt).toBe(851_000n + RESCUE_DELAY_PERIOD_MS);
+    });
+
+    test('allows rescue in any status after the rescue delay', () => {
+        const now = 1_201_000n + RESCUE_DELAY_PERIOD_MS;
+        const info = getStageInfo(escrow('src', EscrowStatus.Withdrawn), now, OTHER);
+
+        expect(info.stage).toBe(EscrowStage.Rescue);
+        expect(info.nextStage).toBeNull();
+        expect(info.actions).toEqual({ withdraw: false, publicWithdraw: false, cancel: false, rescue: true });
+    });
+});
@@ -0,0 +1,166 @@
+// tests/escrow-stages.ts
+// Client-side mirror of utils::src_stage / dst_stage and of the authorisation rules in
+// escrow_withdraw, escrow_cancel and escrow_rescue, so callers know what is allowed now.
+
+import type { EscrowState } from './sui-integration';
+import type { Timelocks } from './timelocks';
+
+/**
+ * Timelock stages, same values as escrow::constants
+ */
+export enum EscrowStage {
+    FinalityLock = 0,
+    ResolverExclusiveWithdraw = 1,
+    PublicWithdraw = 2,
+    ResolverExclusiveCancel = 3,
+    PublicCancel = 4, // source escrows only
+    Rescue = 5
+}
+
+/**
+ * Escrow status values, same as escrow::constants
+ */
+export enum EscrowStatus {
+    Active = 0,
+    Withdrawn = 1,
+    Cancelled = 2
+}
+
+/** constants::rescue_delay_period, counted from the last cancellation boundary */
+export const RESCUE_DELAY_PERIOD_MS = 36_000_000n;
+
+export interface EscrowActions {
+    withdraw: boolean // resolver-exclusive withdraw by the taker
+    publicWithdraw: boolean
+    cancel: boolean
+    rescue: boolean
+}
+
+export interface EscrowStageInfo {
+    escrowId: string
+    escrowType: 'src' | 'dst'
+    status: EscrowStatus
+    now: bigint
+    stage: EscrowStage
+    nextStage: EscrowStage | null
+    nextStageAt: bigint | null // absolute ms
+    actions: EscrowActions
+}
+
+/**
+ * Mirror of utils::src_stage
+ */
+export function srcStage(tl: Timelocks, createdAt: bigint, now: bigint): EscrowStage {
+    if (now < createdAt + tl.srcWithdrawal) {
+        return EscrowStage.FinalityLock;
+    } else if (now < createdAt + tl.srcPublicWithdrawal) {
+        return EscrowStage.ResolverExclusiveWithdraw;
+    } else if (now < createdAt + tl.srcCancellation) {
+        return EscrowStage.PublicWithdraw;
+    } else if (now < createdAt + tl.srcPublicCancellation) {
+        return EscrowStage.ResolverExclusiveCancel;
+    }
+    return EscrowStage.PublicCancel;
+}
+
+/**
+ * Mirror of utils::dst_stage
+ */
+export function dstStage(tl: Timelocks, createdAt: bigint, now: bigint): EscrowStage {
+    if (now < createdAt + tl.dstWithdrawal) {
+        return EscrowStage.FinalityLock;
+    } else if (now < createdAt + tl.dstPublicWithdrawal) {
+        return EscrowStage.ResolverExclusiveWithdraw;
+    } else if (now < createdAt + tl.dstCancellation) {
+        return EscrowStage.PublicWithdraw;
+    }
+    return EscrowStage.ResolverExclusiveCancel;
+}
+
+/**
+ * Time at which escrow_rescue::is_src_rescue_stage / is_dst_rescue_stage become true
+ */
+export function rescueAvailableAt(escrowType: 'src' | 'dst', tl: Timelocks, createdAt: bigint): bigint {
+    const lastBoundary = escrowType === 'src' ? tl.srcPublicCancellation : tl.dstCancellation;
+    return createdAt + lastBoundary + RESCUE_DELAY_PERIOD_MS;
+}
+
+/**
+ * Ordered stage boundaries (absolute ms) for an escrow, rescue last
+ */
+export function stageBoundaries(
+    escrowType: 'src' | 'dst',
+    tl: Timelocks,
+    createdAt: bigint,
+    rescueAt: bigint = rescueAvailableAt(escrowType, tl, createdAt)
+): { stage: EscrowStage, startsAt: bigint }[] {
+    const boundaries = escrowType === 'src'
+        ? [
+            { stage: EscrowStage.ResolverExclusiveWithdraw, startsAt: createdAt + tl.srcWithdrawal },
+            { stage: EscrowStage.PublicWithdraw, startsAt: createdAt + tl.srcPublicWithdrawal },
+            { stage: EscrowStage.ResolverExclusiveCancel, startsAt: createdAt + tl.srcCancellation },
+            { stage: EscrowStage.PublicCancel, startsAt: createdAt + tl.srcPublicCancellation }
+        ]
+        : [
+            { stage: EscrowStage.ResolverExclusiveWithdraw, startsAt: createdAt + tl.dstWithdrawal },
+            { stage: EscrowStage.PublicWithdraw, startsAt: createdAt + tl.dstPublicWithdrawal },
+            { stage: EscrowStage.ResolverExclusiveCancel, startsAt: createdAt + tl.dstCancellation }
+        ];
+
+    boundaries.push({ stage: EscrowStage.Rescue, startsAt: rescueAt });
+    return boundaries.sort((a, b) => (a.startsAt < b.startsAt ? -1 : a.startsAt > b.startsAt ? 1 : 0));
+}
+
+/**
+ * Work out the stage of an escrow at `now` and what `address` may do with it.
+ * `rescueAt` overrides the Sui rescue rule (EVM escrows count the delay from deployment)
+ */
+export function getStageInfo(
+    escrow: EscrowState,
+    now: bigint,
+    address: string,
+    rescueAt: bigint = rescueAvailableAt(escrow.escrowType, escrow.immutables.timelocks, escrow.createdAt)
+): EscrowStageInfo {
+    const { timelocks, taker } = escrow.immutables;
+    const contractStage = escrow.escrowType === 'src'
+        ? srcStage(timelocks, escrow.createdAt, now)
+        : dstStage(timelocks, escrow.createdAt, now);
+
+    const canRescue = now >= rescueAt;
+    // Reported as Rescue only once the cancel stages are over too
+    const lastStage = escrow.escrowType === 'src' ? EscrowStage.PublicCancel : EscrowStage.ResolverExclusiveCancel;
+    const stage = canRescue && contractStage === lastStage ? EscrowStage.Rescue : contractStage;
+
+    const next = stageBoundaries(escrow.escrowType, timelocks, escrow.createdAt, rescueAt)
+        .find(boundary => boundary.startsAt > now);
+
+    const active = escrow.status === EscrowStatus.Active;
+    const isTaker = address.toLowerCase() === taker.toLowerCase();
+
+    let cancel: boolean;
+    if (escrow.escrowType === 'src') {
+        // cancel_src: taker only during exclusive cancel, anyone during public cancel
+        cancel = (contractStage === EscrowStage.ResolverExclusiveCancel && isTaker) ||
+            contractStage === EscrowStage.PublicCancel;
+    } else {
+        // cancel_dst: only the taker, from exclusive cancel onwards
+        cancel = contractStage >= EscrowStage.ResolverExclusiveCancel && isTaker;
+    }
+
+    return {
+        escrowId: escrow.escrowId,
+        escrowType: escrow.escrowType,
+        status: escrow.status,
+        now,
+        stage,
+        nextStage: next?.stage ?? null,
+        nextStageAt: next?.startsAt ?? null,
+        actions: {
+            withdraw: active && contractStage === EscrowStage.ResolverExclusiveWithdraw && isTaker,
+            publicWithdraw: active && contractStage === EscrowStage.PublicWithdraw,
+            cancel: active && cancel,
+            // rescue works in any status
+            rescue: canRescue
+        }
+    };
+}
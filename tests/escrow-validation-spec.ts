@@ -0,0 +1,164 @@
+// tests/escrow-validation-spec.ts
+import {
+    UNUSED_SECRET_INDEX,
+    isValidTimelocks,
+    selectSecretIndex,
+    validateCreateSrcEscrowParams,
+    validateCreateWalletParams,
+    validatePartialFillIndex
+} from './escrow-validation';
+import type { CreateSrcEscrowParams, CreateWalletParams, WalletState } from './sui-integration';
+import { Timelocks } from './timelocks';
+
+const RELATIVE = {
+    srcWithdrawal: 300_000n,
+    srcPublicWithdrawal: 600_000n,
+    srcCancellation: 900_000n,
+    srcPublicCancellation: 1_200_000n,
+    dstWithdrawal: 250_000n,
+    dstPublicWithdrawal: 550_000n,
+    dstCancellation: 850_000n
+};
+const timelocks = Timelocks.new(RELATIVE);
+
+const walletParams: CreateWalletParams = {
+    orderHash: '0x' + '11'.repeat(32),
+    salt: 1n,
+    makerAsset: '0x2::sui::SUI',
+    takerAsset: '0x' + 'aa'.repeat(20),
+    makingAmount: 1_000n,
+    takingAmount: 2_000n,
+    duration: 60_000n,
+    hashlock: '0x' + '22'.repeat(32),
+    srcSafetyDepositAmount: 10n,
+    dstSafetyDepositAmount: 10n,
+    allowPartialFills: false,
+    partsAmount: 0,
+    timelocks
+};
+
+function wallet(overrides: Partial<WalletState> = {}): WalletState {
+    return {
+        walletId: '0x' + 'e1'.repeat(32),
+        tokenType: '0x2::sui::SUI',
+        orderHash: walletParams.orderHash,
+        salt: 1n,
+        maker: '0x' + 'a1'.repeat(32),
+        makerAsset: walletParams.makerAsset,
+        takerAsset: walletParams.takerAsset,
+        makingAmount: 1_000n,
+        takingAmount: 2_000n,
+        duration: 60_000n,
+        hashlock: walletParams.hashlock,
+        timelocks,
+        srcSafetyDepositAmount: 10n,
+        dstSafetyDepositAmount: 10n,
+        allowPartialFills: false,
+        partsAmount: 0,
+        lastUsedIndex: UNUSED_SECRET_INDEX,
+        balance: 1_000n,
+        createdAt: 0n,
+        isActive: true,
+        ...overrides
+    };
+}
+
+const partial = (overrides: Partial<WalletState> = {}) => wallet({ allowPartialFills: true, partsAmount: 4, ...overrides });
+
+const fill: CreateSrcEscrowParams = {
+    walletId: '0x' + 'e1'.repeat(32),
+    secretHashlock: '0x' + '33'.repeat(32),
+    secretIndex: 0,
+    merkleProof: [],
+    makingAmount: 1_000n,
+    takingAmount: 2_000n,
+    safetyDeposit: 10n
+};
+
+describe('validateCreateWalletParams', () => {
+    test('accepts full and partial fill wallets', () => {
+        expect(() => validateCreateWalletParams(walletParams)).not.toThrow();
+        expect(() => validateCreateWalletParams({ ...walletParams, allowPartialFills: true, partsAmount: 4 })).not.toThrow();
+    });
+
+    test.each<[string, Partial<CreateWalletParams>, string]>([
+        ['short order hash', { orderHash: '0x1234' }, 'e_invalid_order_hash'],
+        ['short hashlock', { hashlock: '0x' + '22'.repeat(31) }, 'e_invalid_hashlock'],
+        ['u64 overflow', { takingAmount: 1n << 64n }, 'takingAmount out of range'],
+        ['negative deposit', { srcSafetyDepositAmount: -1n }, 'srcSafetyDepositAmount out of range'],
+        ['u8 parts overflow', { allowPartialFills: true, partsAmount: 256 }, 'partsAmount out of range'],
+        ['zero making amount', { makingAmount: 0n }, 'must be positive'],
+        ['zero taking amount', { takingAmount: 0n }, 'must be positive'],
+        ['zero duration', { duration: 0n }, 'Auction duration must be positive'],
+        ['partial fill with one part', { allowPartialFills: true, partsAmount: 1 }, 'partsAmount > 1'],
+        ['full fill with parts', { partsAmount: 2 }, 'partsAmount == 0']
+    ])('rejects %s', (_, overrides, message) => {
+        expect(() => validateCreateWalletParams({ ...walletParams, ...overrides })).toThrow(message);
+    });
+
+    test('rejects timelocks the contract would abort on', () => {
+        const bad = Timelocks.new({ ...RELATIVE, dstCancellation: 900_000n });
+        expect(() => validateCreateWalletParams({ ...walletParams, timelocks: bad })).toThrow('e_invalid_timelock');
+    });
+});
+
+describe('isValidTimelocks', () => {
+    test('mirrors utils::is_valid_timelocks', () => {
+        expect(isValidTimelocks(RELATIVE)).toBe(true);
+        expect(isValidTimelocks({ ...RELATIVE, srcWithdrawal: 0n })).toBe(false);
+        expect(isValidTimelocks({ ...RELATIVE, dstPublicWithdrawal: 250_000n })).toBe(false);
+        expect(isValidTimelocks({ ...RELATIVE, dstCancellation: 900_000n })).toBe(false);
+    });
+});
+
+describe('partial fill indexes', () => {
+    test('bucket i covers [i/parts, (i+1)/parts) of the total filled, the last index fills to 100%', () => {
+        expect(validatePartialFillIndex(partial(), 0, 249n)).toBe(true);
+        expect(validatePartialFillIndex(partial(), 0, 250n)).toBe(false);
+        expect(validatePartialFillIndex(partial(), 1, 250n)).toBe(true);
+        expect(validatePartialFillIndex(partial(), 4, 1_000n)).toBe(true);
+        expect(validatePartialFillIndex(partial(), 3, 1_000n)).toBe(false);
+        expect(validatePartialFillIndex(partial(), 5, 1_000n)).toBe(false);
+        // 300 already filled, so this fill reaches 500
+        expect(validatePartialFillIndex(partial({ balance: 700n, lastUsedIndex: 1 }), 2, 200n)).toBe(true);
+        expect(validatePartialFillIndex(partial({ balance: 700n, lastUsedIndex: 2 }), 2, 200n)).toBe(false);
+        expect(validatePartialFillIndex(wallet(), 0, 1_000n)).toBe(true);
+        expect(validatePartialFillIndex(wallet(), 1, 1_000n)).toBe(false);
+    });
+
+    test('selectSecretIndex picks the first accepted index', () => {
+        expect(selectSecretIndex(wallet(), 1_000n)).toBe(0);
+        expect(selectSecretIndex(partial(), 600n)).toBe(2);
+        expect(selectSecretIndex(partial({ balance: 400n, lastUsedIndex: 2 }), 400n)).toBe(4);
+        expect(() => selectSecretIndex(partial({ balance: 400n, lastUsedIndex: 2 }), 10n)).toThrow('No usable secret index');
+    });
+});
+
+describe('validateCreateSrcEscrowParams', () => {
+    test('accepts a full fill and a partial fill with its index', () => {
+        expect(() => validateCreateSrcEscrowParams(wallet(), fill)).not.toThrow();
+        expect(() => validateCreateSrcEscrowParams(partial(), {
+            ...fill,
+            secretIndex: 1,
+            merkleProof: ['0x' + '44'.repeat(32)],
+            makingAmount: 300n
+        })).not.toThrow();
+    });
+
+    test.each<[string, Partial<WalletState>, Partial<CreateSrcEscrowParams>, string]>([
+        ['zero making amount', {}, { makingAmount: 0n }, 'must be positive'],
+        ['zero taking amount', {}, { takingAmount: 0n }, 'must be positive'],
+        ['low safety deposit', {}, { safetyDeposit: 9n }, 'e_safety_deposit_too_low'],
+        ['short secret hashlock', {}, { secretHashlock: '0x33' }, 'e_invalid_hashlock'],
+        ['inactive wallet', { isActive: false }, {}, 'Wallet cannot fill'],
+        ['fill above the balance', { balance: 500n }, {}, 'Wallet cannot fill'],
+        ['full fill with a secret index', {}, { secretIndex: 1 }, 'must use secret index 0'],
+        ['full fill with a proof', {}, { merkleProof: ['0x' + '44'.repeat(32)] }, 'e_invalid_merkle_proof'],
+        ['full fill of part of the balance', {}, { makingAmount: 400n }, 'whole wallet balance'],
+        ['partial fill outside its bucket', { allowPartialFills: true, partsAmount: 4 }, { makingAmount: 300n }, 'e_secret_index_used'],
+        ['reused partial fill index', { allowPartialFills: true, partsAmount: 4, balance: 700n, lastUsedIndex: 1 },
+            { secretIndex: 1, makingAmount: 100n }, 'e_secret_index_used']
+    ])('rejects %s', (_, walletOverrides, overrides, message) => {
+        expect(() => validateCreateSrcEscrowParams(wallet(walletOverrides), { ...fill, ...overrides })).toThrow(message);
+    });
+});
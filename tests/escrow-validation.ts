@@ -0,0 +1,204 @@
+// tests/escrow-validation.ts
+// Client-side mirrors of the checks done by the escrow Move package, so a bad
+// argument is rejected before we pay gas for an abort.
+
+import { isHexString } from 'ethers';
+
+import type { CreateSrcEscrowParams, CreateWalletParams, WalletState } from './sui-integration';
+
+/** `last_used_index` value of a wallet that has not been filled yet */
+export const UNUSED_SECRET_INDEX = 255;
+
+const U8_MAX = (1n << 8n) - 1n;
+const U64_MAX = (1n << 64n) - 1n;
+const U256_MAX = (1n << 256n) - 1n;
+
+/**
+ * Relative timelocks in milliseconds from escrow/wallet creation
+ * (mirrors escrow::structs::Timelocks)
+ */
+export interface RelativeTimelocks {
+    srcWithdrawal: bigint
+    srcPublicWithdrawal: bigint
+    srcCancellation: bigint
+    srcPublicCancellation: bigint
+    dstWithdrawal: bigint
+    dstPublicWithdrawal: bigint
+    dstCancellation: bigint
+}
+
+/**
+ * Mirror of utils::is_valid_timelocks
+ */
+export function isValidTimelocks(tl: RelativeTimelocks): boolean {
+    const srcOk =
+        0n < tl.srcWithdrawal &&
+        tl.srcWithdrawal < tl.srcPublicWithdrawal &&
+        tl.srcPublicWithdrawal < tl.srcCancellation &&
+        tl.srcCancellation < tl.srcPublicCancellation;
+
+    const dstOk =
+        0n < tl.dstWithdrawal &&
+        tl.dstWithdrawal < tl.dstPublicWithdrawal &&
+        tl.dstPublicWithdrawal < tl.dstCancellation;
+
+    const crossOk =
+        tl.dstWithdrawal < tl.srcWithdrawal &&
+        tl.dstPublicWithdrawal < tl.srcPublicWithdrawal &&
+        tl.dstCancellation < tl.srcCancellation;
+
+    return srcOk && dstOk && crossOk;
+}
+
+/**
+ * Check that a hex string encodes exactly 32 bytes (order hash, hashlock, merkle root)
+ */
+export function isBytes32(value: string): boolean {
+    return isHexString(value, 32);
+}
+
+function assertUint(name: string, value: bigint, max: bigint): void {
+    if (value < 0n || value > max) {
+        throw new Error(`${name} out of range: ${value}`);
+    }
+}
+
+/**
+ * Validate wallet params with the same rules as escrow_create::create_wallet
+ */
+export function validateCreateWalletParams(params: CreateWalletParams): void {
+    if (!isBytes32(params.orderHash)) {
+        throw new Error('Invalid order hash: must be 32 bytes (e_invalid_order_hash)');
+    }
+    if (!isBytes32(params.hashlock)) {
+        throw new Error('Invalid hashlock: must be 32 bytes (e_invalid_hashlock)');
+    }
+
+    assertUint('salt', params.salt, U256_MAX);
+    assertUint('makingAmount', params.makingAmount, U64_MAX);
+    assertUint('takingAmount', params.takingAmount, U64_MAX);
+    assertUint('duration', params.duration, U64_MAX);
+    assertUint('srcSafetyDepositAmount', params.srcSafetyDepositAmount, U64_MAX);
+    assertUint('dstSafetyDepositAmount', params.dstSafetyDepositAmount, U64_MAX);
+    assertUint('partsAmount', BigInt(params.partsAmount), U8_MAX);
+    for (const [name, value] of Object.entries(params.timelocks.toJSON())) {
+        assertUint(`timelocks.${name}`, BigInt(value), U64_MAX);
+    }
+
+    if (params.makingAmount === 0n || params.takingAmount === 0n) {
+        throw new Error('Making and taking amounts must be positive (e_invalid_amount)');
+    }
+    if (params.duration === 0n) {
+        throw new Error('Auction duration must be positive (e_invalid_amount)');
+    }
+    params.timelocks.validate();
+
+    if (params.allowPartialFills) {
+        if (params.partsAmount <= 1) {
+            throw new Error('Partial fills need partsAmount > 1 (e_invalid_amount)');
+        }
+    } else if (params.partsAmount !== 0) {
+        throw new Error('Full fills need partsAmount == 0 (e_invalid_amount)');
+    }
+}
+
+/**
+ * Mirror of utils::validate_partial_fill_index
+ * Bucket i covers [i/parts, (i+1)/parts) of the making amount, measured by the
+ * total filled after this fill; the last index (== parts) must fill to exactly 100%
+ */
+export function validatePartialFillIndex(
+    wallet: WalletState,
+    secretIndex: number,
+    fillAmount: bigint
+): boolean {
+    if (!wallet.allowPartialFills) {
+        return secretIndex === 0;
+    }
+
+    const parts = wallet.partsAmount;
+    if (secretIndex > parts) {
+        return false;
+    }
+    if (wallet.lastUsedIndex !== UNUSED_SECRET_INDEX && secretIndex <= wallet.lastUsedIndex) {
+        return false;
+    }
+
+    const total = wallet.makingAmount;
+    const newTotalFilled = total - wallet.balance + fillAmount;
+
+    if (secretIndex === parts) {
+        return newTotalFilled === total;
+    }
+
+    const minForIdx = (total * BigInt(secretIndex)) / BigInt(parts);
+    const maxForIdx = (total * BigInt(secretIndex + 1)) / BigInt(parts);
+    return newTotalFilled >= minForIdx && newTotalFilled < maxForIdx;
+}
+
+/**
+ * Pick the secret index the contract will accept for filling `fillAmount` from `wallet`
+ */
+export function selectSecretIndex(wallet: WalletState, fillAmount: bigint): number {
+    if (!wallet.allowPartialFills) {
+        return 0;
+    }
+
+    for (let index = 0; index <= wallet.partsAmount; index++) {
+        if (validatePartialFillIndex(wallet, index, fillAmount)) {
+            return index;
+        }
+    }
+
+    throw new Error(
+        `No usable secret index for a fill of ${fillAmount} ` +
+        `(last used index ${wallet.lastUsedIndex}); fill more to reach the next bucket`
+    );
+}
+
+/**
+ * Validate src escrow params against the wallet, as escrow_create::create_escrow_src does
+ * (the Dutch auction price check is left to the contract)
+ */
+export function validateCreateSrcEscrowParams(
+    wallet: WalletState,
+    params: CreateSrcEscrowParams
+): void {
+    if (params.makingAmount <= 0n || params.takingAmount <= 0n) {
+        throw new Error('Making and taking amounts must be positive (e_invalid_amount)');
+    }
+    if (params.safetyDeposit < wallet.srcSafetyDepositAmount) {
+        throw new Error(
+            `Safety deposit ${params.safetyDeposit} is below the wallet minimum ` +
+            `${wallet.srcSafetyDepositAmount} (e_safety_deposit_too_low)`
+        );
+    }
+    if (!isBytes32(params.secretHashlock)) {
+        throw new Error('Invalid secret hashlock: must be 32 bytes (e_invalid_hashlock)');
+    }
+    if (!wallet.isActive || wallet.balance < params.makingAmount) {
+        throw new Error(
+            `Wallet cannot fill ${params.makingAmount} (balance ${wallet.balance}) (e_invalid_amount)`
+        );
+    }
+
+    if (wallet.allowPartialFills) {
+        if (!validatePartialFillIndex(wallet, params.secretIndex, params.makingAmount)) {
+            throw new Error(
+                `Secret index ${params.secretIndex} is not valid for this fill (e_secret_index_used)`
+            );
+        }
+    } else {
+        if (params.secretIndex !== 0) {
+            throw new Error('Full fills must use secret index 0 (e_invalid_amount)');
+        }
+        if (params.merkleProof.length !== 0) {
+            throw new Error('Full fills take no merkle proof (e_invalid_merkle_proof)');
+        }
+        if (params.makingAmount !== wallet.balance) {
+            throw new Error(
+                `Full fill must take the whole wallet balance ${wallet.balance} (e_invalid_amount)`
+            );
+        }
+    }
+}
@@ -0,0 +1,124 @@
+// tests/escrow-verification-spec.ts
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { getBytes, keccak256 } from 'ethers';
+
+import { ExpectedEscrow } from './escrow-verification';
+import { SuiIntegration } from './sui-integration';
+import { Timelocks } from './timelocks';
+
+const ESCROW_ID = '0x' + 'e5'.repeat(32);
+const MAKER = '0x' + 'a1'.repeat(32);
+const CREATED_AT = 1_700_000_000_000n;
+const SUI = '0x2::sui::SUI';
+
+const timelocks = Timelocks.new({
+    srcWithdrawal: 10_000n,
+    srcPublicWithdrawal: 120_000n,
+    srcCancellation: 121_000n,
+    srcPublicCancellation: 122_000n,
+    dstWithdrawal: 5_000n,
+    dstPublicWithdrawal: 100_000n,
+    dstCancellation: 101_000n
+});
+
+const order: ExpectedEscrow = {
+    escrowType: 'dst',
+    orderHash: '0x' + '11'.repeat(32),
+    hashlock: keccak256('0x' + '33'.repeat(32)),
+    maker: MAKER,
+    tokenType: SUI,
+    amount: 25_000_000_000n,
+    safetyDeposit: 110_000_000n,
+    timelocks
+};
+
+// EscrowDst<SUI> as getObject returns it with showContent
+function escrowObject(overrides: Record<string, unknown> = {}, status = 0) {
+    const immutables = {
+        order_hash: Array.from(getBytes(order.orderHash)),
+        hashlock: Array.from(getBytes(order.hashlock)),
+        maker: MAKER,
+        taker: '0x' + '07'.repeat(32),
+        token_type: '0000000000000000000000000000000000000000000000000000000000000002::sui::SUI',
+        amount: order.amount.toString(),
+        safety_deposit_amount: order.safetyDeposit.toString(),
+        timelocks: {
+            src_withdrawal: '10000',
+            src_public_withdrawal: '120000',
+            src_cancellation: '121000',
+            src_public_cancellation: '122000',
+            dst_withdrawal: '5000',
+            dst_public_withdrawal: '100000',
+            dst_cancellation: '101000'
+        },
+        ...overrides
+    };
+    return {
+        data: {
+            previousTransaction: 'Digest111',
+            content: {
+                dataType: 'moveObject',
+                type: '0x1::structs::EscrowDst<0x2::sui::SUI>',
+                fields: {
+                    immutables: { fields: immutables },
+                    token_balance: order.amount.toString(),
+                    safety_deposit: order.safetyDeposit.toString(),
+                    created_at: CREATED_AT.toString(),
+                    status
+                }
+            }
+        }
+    };
+}
+
+function integration(escrow: unknown, options: { now: bigint, checkpoint: string | null }): SuiIntegration {
+    const sui = new SuiIntegration('http://127.0.0.1:9000', '0x1', Ed25519Keypair.generate());
+    // Only the calls verification needs
+    Object.assign(sui, {
+        client: {
+            getObject: async ({ id }: { id: string }) => id === ESCROW_ID
+                ? escrow
+                : { data: { content: { dataType: 'moveObject', fields: { timestamp_ms: options.now.toString() } } } },
+            getTransactionBlock: async () => ({ checkpoint: options.checkpoint })
+        }
+    });
+    return sui;
+}
+
+describe('verifyEscrowAgainstOrder', () => {
+    test('accepts a matching, active, final escrow', async () => {
+        const sui = integration(escrowObject(), { now: CREATED_AT + timelocks.dstWithdrawal, checkpoint: '42' });
+
+        const result = await sui.verifyEscrowAgainstOrder(ESCROW_ID, order);
+
+        expect(result.mismatches).toEqual([]);
+        expect(result.ok).toBe(true);
+        expect(result.escrow?.immutables.tokenType).toMatch(/::sui::SUI$/);
+    });
+
+    test('lists every field that differs from the order', async () => {
+        const tampered = escrowObject({
+            hashlock: Array.from(getBytes(keccak256('0x' + '44'.repeat(32)))),
+            amount: '1',
+            timelocks: { ...escrowObject().data.content.fields.immutables.fields.timelocks, dst_withdrawal: '1000' }
+        }, 1);
+        const sui = integration(tampered, { now: CREATED_AT + timelocks.dstWithdrawal, checkpoint: null });
+
+        const result = await sui.verifyEscrowAgainstOrder(ESCROW_ID, order);
+
+        expect(result.ok).toBe(false);
+        expect(result.mismatches.map(mismatch => mismatch.check)).toEqual(['hashlock', 'amount', 'timelocks', 'status', 'finality']);
+        expect(result.mismatches[1]).toEqual({ check: 'amount', expected: `>= ${order.amount}`, actual: '1' });
+        expect(result.mismatches[4].actual).toBe('not checkpointed');
+    });
+
+    test('reports a missing object or an escrow still in its finality lock', async () => {
+        const missing = integration({ data: null }, { now: CREATED_AT, checkpoint: '42' });
+        expect((await missing.verifyEscrowAgainstOrder(ESCROW_ID, order)).mismatches)
+            .toEqual([{ check: 'object', expected: 'dst escrow', actual: `Escrow ${ESCROW_ID} not found` }]);
+
+        const early = integration(escrowObject(), { now: CREATED_AT + 1_000n, checkpoint: '42' });
+        expect((await early.verifyEscrowAgainstOrder(ESCROW_ID, order)).mismatches)
+            .toEqual([{ check: 'finality', expected: 'checkpointed, past the finality lock', actual: `finality lock until ${CREATED_AT + 5_000n}` }]);
+    });
+});
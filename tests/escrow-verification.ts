@@ -0,0 +1,143 @@
+// tests/escrow-verification.ts
+// Checks a maker runs before revealing a secret: the counterparty escrow must exist, commit
+// to the order's terms, hold the funds, be active and be final. Every difference is
+// reported, not just the first one.
+
+import { normalizeStructTag, normalizeSuiAddress } from '@mysten/sui/utils';
+
+import { EscrowStage, EscrowStatus, getStageInfo } from './escrow-stages';
+import type { EscrowState } from './sui-integration';
+import { Timelocks } from './timelocks';
+
+/**
+ * What an escrow created for an order must commit to
+ */
+export interface ExpectedEscrow {
+    escrowType: 'src' | 'dst'
+    orderHash: string
+    hashlock: string
+    maker: string // Sui address
+    tokenType: string // coin type
+    amount: bigint // dst escrows may hold more, when the resolver paid above the order minimum
+    safetyDeposit: bigint // minimum
+    timelocks: Timelocks
+}
+
+export type EscrowCheck =
+    | 'object' // no escrow object under this id
+    | 'escrowType'
+    | 'orderHash'
+    | 'hashlock'
+    | 'maker'
+    | 'tokenType'
+    | 'amount'
+    | 'safetyDeposit'
+    | 'timelocks'
+    | 'balance' // funds actually held, not just promised by the immutables
+    | 'status'
+    | 'finality'; // creating transaction checkpointed and finality lock over
+
+export interface EscrowMismatch {
+    check: EscrowCheck
+    expected: string
+    actual: string
+}
+
+export interface EscrowVerification {
+    escrowId: string
+    ok: boolean
+    mismatches: EscrowMismatch[]
+    escrow?: EscrowState // undefined when the object could not be read as an escrow
+}
+
+function sameHex(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+}
+
+// Move type_name strings carry no 0x prefix
+function sameCoinType(a: string, b: string): boolean {
+    const normalize = (type: string) => normalizeStructTag(type.startsWith('0x') ? type : `0x${type}`);
+    return normalize(a) === normalize(b);
+}
+
+/**
+ * Compare an escrow read from chain with the order it should belong to. `now` is the
+ * on-chain clock in ms, `checkpointed` whether the transaction that last wrote the
+ * escrow is in a checkpoint (final on Sui)
+ */
+export function compareEscrowToOrder(
+    escrow: EscrowState,
+    expected: ExpectedEscrow,
+    now: bigint,
+    checkpointed: boolean
+): EscrowMismatch[] {
+    const mismatches: EscrowMismatch[] = [];
+    const check = (name: EscrowCheck, ok: boolean, expectedValue: unknown, actualValue: unknown) => {
+        if (!ok) {
+            mismatches.push({ check: name, expected: String(expectedValue), actual: String(actualValue) });
+        }
+    };
+
+    const { immutables } = escrow;
+    const exactAmount = expected.escrowType === 'src';
+
+    check('escrowType', escrow.escrowType === expected.escrowType, expected.escrowType, escrow.escrowType);
+    check('orderHash', sameHex(immutables.orderHash, expected.orderHash), expected.orderHash, immutables.orderHash);
+    check('hashlock', sameHex(immutables.hashlock, expected.hashlock), expected.hashlock, immutables.hashlock);
+    check(
+        'maker',
+        normalizeSuiAddress(immutables.maker) === normalizeSuiAddress(expected.maker),
+        expected.maker,
+        immutables.maker
+    );
+    check(
+        'tokenType',
+        sameCoinType(immutables.tokenType, expected.tokenType) && sameCoinType(escrow.coinType, expected.tokenType),
+        expected.tokenType,
+        immutables.tokenType
+    );
+    check(
+        'amount',
+        exactAmount ? immutables.amount === expected.amount : immutables.amount >= expected.amount,
+        exactAmount ? expected.amount : `>= ${expected.amount}`,
+        immutables.amount
+    );
+    check(
+        'safetyDeposit',
+        immutables.safetyDeposit >= expected.safetyDeposit && escrow.safetyDeposit >= expected.safetyDeposit,
+        `>= ${expected.safetyDeposit}`,
+        escrow.safetyDeposit
+    );
+    check(
+        'timelocks',
+        JSON.stringify(immutables.timelocks.toJSON()) === JSON.stringify(expected.timelocks.toJSON()),
+        JSON.stringify(expected.timelocks.toJSON()),
+        JSON.stringify(immutables.timelocks.toJSON())
+    );
+    check('balance', escrow.tokenBalance >= immutables.amount, `>= ${immutables.amount}`, escrow.tokenBalance);
+    check('status', escrow.status === EscrowStatus.Active, EscrowStatus[EscrowStatus.Active], EscrowStatus[escrow.status]);
+
+    const stage = getStageInfo(escrow, now, immutables.taker).stage;
+    check(
+        'finality',
+        checkpointed && stage !== EscrowStage.FinalityLock,
+        'checkpointed, past the finality lock',
+        checkpointed ? `finality lock until ${escrow.createdAt + withdrawalOffset(escrow)}` : 'not checkpointed'
+    );
+
+    return mismatches;
+}
+
+function withdrawalOffset(escrow: EscrowState): bigint {
+    const { timelocks } = escrow.immutables;
+    return escrow.escrowType === 'src' ? timelocks.srcWithdrawal : timelocks.dstWithdrawal;
+}
+
+/**
+ * Human-readable one-liners, e.g. for logs and API responses
+ */
+export function describeMismatches(escrowId: string, mismatches: EscrowMismatch[]): string[] {
+    return mismatches.map(({ check, expected, actual }) =>
+        `Escrow ${escrowId} ${check}: expected ${expected}, got ${actual}`
+    );
+}
@@ -0,0 +1,167 @@
+// tests/event-indexer-spec.ts
+import { SuiClient, SuiEvent } from '@mysten/sui/client';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { EscrowEventIndexer } from './event-indexer';
+import { JsonOrderEventStore } from './order-store';
+
+const PACKAGE = '0x' + 'ab'.repeat(32);
+const ORDER_HASH = Array.from({ length: 32 }, () => 0x11);
+const HASHLOCK = Array.from({ length: 32 }, () => 0x22);
+const SECRET = Array.from({ length: 32 }, () => 0x33);
+const MAKER = '0x' + '01'.repeat(32);
+const TAKER = '0x' + '02'.repeat(32);
+
+function event(module: string, name: string, seq: number, parsedJson: any): SuiEvent {
+    return {
+        id: { txDigest: `tx${seq}`, eventSeq: '0' },
+        packageId: PACKAGE,
+        transactionModule: module,
+        sender: TAKER,
+        type: `${PACKAGE}::${module}::${name}`,
+        parsedJson,
+        bcs: '',
+        bcsEncoding: 'base64',
+        timestampMs: String(1_700_000_000_000 + seq)
+    } as SuiEvent;
+}
+
+const EVENTS: SuiEvent[] = [
+    event('events', 'EscrowCreated', 1, {
+        escrow_id: '0xe1', order_hash: ORDER_HASH, hashlock: HASHLOCK, maker: MAKER, taker: TAKER,
+        amount: '800000', safety_deposit: '1000000', created_at: '1700000000001', last_used_index: 0
+    }),
+    event('events', 'EscrowCreated', 2, {
+        escrow_id: '0xe2', order_hash: ORDER_HASH, hashlock: HASHLOCK, maker: MAKER, taker: TAKER,
+        amount: '800000', safety_deposit: '1000000', created_at: '1700000000002', last_used_index: 0
+    }),
+    event('events', 'EscrowWithdrawn', 3, {
+        escrow_id: '0xe1', order_hash: ORDER_HASH, hashlock: HASHLOCK, secret: SECRET, withdrawn_by: TAKER,
+        maker: MAKER, taker: TAKER, amount: '800000', withdrawn_at: '1700000000003'
+    }),
+    event('events', 'EscrowCancelled', 4, {
+        escrow_id: '0xe2', order_hash: ORDER_HASH, maker: MAKER, taker: TAKER, cancelled_by: TAKER,
+        amount: '800000', cancelled_at: '1700000000004'
+    })
+];
+
+/**
+ * Just enough of SuiClient to page through a fixed event list
+ */
+function fakeClient(events: SuiEvent[], pageSize: number) {
+    const calls: (string | null)[] = [];
+    const client = {
+        queryEvents: async ({ query, cursor }: any) => {
+            calls.push(cursor?.txDigest ?? null);
+            const own = events.filter(e => e.type.includes(`::${query.MoveEventModule.module}::`));
+            const start = cursor ? own.findIndex(e => e.id.txDigest === cursor.txDigest) + 1 : 0;
+            const data = own.slice(start, start + pageSize);
+            return {
+                data,
+                nextCursor: data.length ? data[data.length - 1].id : cursor,
+                hasNextPage: start + pageSize < own.length
+            };
+        },
+        getTransactionBlock: async ({ digest }: any) => ({
+            transaction: {
+                data: {
+                    transaction: {
+                        kind: 'ProgrammableTransaction',
+                        transactions: [{
+                            MoveCall: {
+                                package: PACKAGE,
+                                function: digest === 'tx1' ? 'create_escrow_src' : 'create_escrow_dst'
+                            }
+                        }]
+                    }
+                }
+            }
+        })
+    };
+    return { client: client as unknown as SuiClient, calls };
+}
+
+describe('EscrowEventIndexer', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'escrow-indexer-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('rebuilds the lifecycle of every escrow of an order', async () => {
+        const { client } = fakeClient(EVENTS, 2);
+        const indexer = new EscrowEventIndexer(client, PACKAGE, new JsonOrderEventStore(join(dir, 'store.json')), 2);
+
+        expect(await indexer.sync()).toBe(4);
+
+        const order = indexer.getOrder('0x' + '11'.repeat(32));
+        expect(order.escrows.map(e => [e.escrowId, e.escrowType, e.status])).toEqual([
+            ['0xe1', 'src', 'withdrawn'],
+            ['0xe2', 'dst', 'cancelled']
+        ]);
+        expect(order.revealedSecrets).toEqual(['0x' + '33'.repeat(32)]);
+        expect(order.lastEventAt).toBe(1_700_000_000_004n);
+    });
+
+    test('resumes from the saved cursor after a restart', async () => {
+        const path = join(dir, 'store.json');
+        const first = fakeClient(EVENTS.slice(0, 2), 50);
+        await new EscrowEventIndexer(first.client, PACKAGE, new JsonOrderEventStore(path)).sync();
+
+        const second = fakeClient(EVENTS, 50);
+        const indexer = new EscrowEventIndexer(second.client, PACKAGE, new JsonOrderEventStore(path));
+        const seen: string[] = [];
+        indexer.onEvent((_, decoded) => seen.push(decoded.name));
+
+        expect(await indexer.sync()).toBe(2);
+        expect(second.calls[0]).toBe('tx2');
+        expect(seen).toEqual(['EscrowWithdrawn', 'EscrowCancelled']);
+        expect(indexer.getOrders()).toHaveLength(1);
+    });
+
+    test('indexes an EscrowCreated again when resolving its escrow type fails', async () => {
+        const { client } = fakeClient(EVENTS, 50);
+        const getTransactionBlock = client.getTransactionBlock.bind(client);
+        let failures = 1;
+        Object.assign(client, {
+            getTransactionBlock: async (input: any) => {
+                if (failures-- > 0) {
+                    throw new Error('rpc down');
+                }
+                return getTransactionBlock(input);
+            }
+        });
+        const indexer = new EscrowEventIndexer(client, PACKAGE, new JsonOrderEventStore(join(dir, 'store.json')));
+
+        await expect(indexer.sync()).rejects.toThrow('rpc down');
+        expect(indexer.getOrders()).toHaveLength(0);
+
+        expect(await indexer.sync()).toBe(4);
+        expect(indexer.getOrder('0x' + '11'.repeat(32)).escrows.map(e => e.escrowType)).toEqual(['src', 'dst']);
+    });
+
+    test('watch polls until aborted with a single abort listener', async () => {
+        const { client, calls } = fakeClient(EVENTS, 50);
+        const indexer = new EscrowEventIndexer(client, PACKAGE, new JsonOrderEventStore(join(dir, 'store.json')));
+        const controller = new AbortController();
+        const added = jest.spyOn(controller.signal, 'addEventListener');
+        const removed = jest.spyOn(controller.signal, 'removeEventListener');
+
+        const watching = indexer.watch({ intervalMs: 1, signal: controller.signal });
+        while (calls.length < 20) {
+            await new Promise(resolve => setTimeout(resolve, 5));
+        }
+        controller.abort();
+        await watching;
+
+        expect(added).toHaveBeenCalledTimes(1);
+        expect(removed).toHaveBeenCalledWith('abort', added.mock.calls[0][1]);
+        expect(indexer.getOrders()).toHaveLength(1);
+    });
+});
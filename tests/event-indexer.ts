@@ -0,0 +1,297 @@
+// tests/event-indexer.ts
+// Indexes every event of the escrow package into an OrderEventStore and rebuilds the
+// lifecycle of each wallet and escrow from them, independent of who sent the transactions.
+
+import { EventId, SuiClient, SuiEvent } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+
+import { pollUntilAborted } from './chain-waits';
+import { OrderEventStore, StoredEvent } from './order-store';
+import {
+    DecodedEscrowEvent,
+    EscrowCancelledEvent,
+    EscrowCreatedEvent,
+    EscrowRescuedEvent,
+    EscrowWithdrawnEvent,
+    WalletCreatedEvent,
+    WalletRescuedEvent,
+    decodeEscrowEvent
+} from './sui-events';
+
+/** Modules of the escrow package that emit events, each paged with its own cursor */
+const EVENT_MODULES = ['events', 'escrow_rescue'];
+
+export interface WalletLifecycle {
+    walletId: string
+    status: 'active' | 'rescued'
+    created: WalletCreatedEvent | null // null if only the rescue was indexed
+    rescued: WalletRescuedEvent | null
+}
+
+export interface EscrowLifecycle {
+    escrowId: string
+    escrowType: 'src' | 'dst' | 'unknown'
+    status: 'active' | 'withdrawn' | 'cancelled' | 'rescued'
+    created: EscrowCreatedEvent | null
+    withdrawn: EscrowWithdrawnEvent | null
+    cancelled: EscrowCancelledEvent | null
+    rescued: EscrowRescuedEvent | null
+}
+
+/**
+ * Everything that happened on Sui for one order hash
+ */
+export interface OrderLifecycle {
+    orderHash: string
+    wallets: WalletLifecycle[]
+    escrows: EscrowLifecycle[]
+    revealedSecrets: string[] // from EscrowWithdrawn, in order of appearance
+    lastEventAt: bigint | null // ms
+}
+
+export type IndexedEventListener = (event: StoredEvent, decoded: DecodedEscrowEvent) => void;
+
+function emptyEscrow(escrowId: string, escrowType: EscrowLifecycle['escrowType']): EscrowLifecycle {
+    return {
+        escrowId,
+        escrowType,
+        status: 'active',
+        created: null,
+        withdrawn: null,
+        cancelled: null,
+        rescued: null
+    };
+}
+
+/**
+ * Replay stored events (oldest first) into wallet and escrow lifecycles
+ */
+export function buildOrderLifecycle(
+    orderHash: string,
+    events: StoredEvent[],
+    escrowTypeOf: (escrowId: string) => 'src' | 'dst' | undefined = () => undefined
+): OrderLifecycle {
+    const wallets = new Map<string, WalletLifecycle>();
+    const escrows = new Map<string, EscrowLifecycle>();
+    const revealedSecrets: string[] = [];
+    let lastEventAt: bigint | null = null;
+
+    const wallet = (walletId: string) => {
+        if (!wallets.has(walletId)) {
+            wallets.set(walletId, { walletId, status: 'active', created: null, rescued: null });
+        }
+        return wallets.get(walletId)!;
+    };
+    const escrow = (escrowId: string) => {
+        if (!escrows.has(escrowId)) {
+            escrows.set(escrowId, emptyEscrow(escrowId, escrowTypeOf(escrowId) ?? 'unknown'));
+        }
+        return escrows.get(escrowId)!;
+    };
+
+    for (const event of events) {
+        const decoded = decodeEscrowEvent(event.type, event.parsedJson);
+        if (!decoded) {
+            continue;
+        }
+        if (event.timestampMs !== null) {
+            lastEventAt = BigInt(event.timestampMs);
+        }
+
+        switch (decoded.name) {
+            case 'WalletCreated':
+                wallet(decoded.data.walletId).created = decoded.data;
+                break;
+            case 'WalletRescued': {
+                const entry = wallet(decoded.data.walletId);
+                entry.rescued = decoded.data;
+                entry.status = 'rescued';
+                break;
+            }
+            case 'EscrowCreated':
+                escrow(decoded.data.escrowId).created = decoded.data;
+                break;
+            case 'EscrowWithdrawn': {
+                const entry = escrow(decoded.data.escrowId);
+                entry.withdrawn = decoded.data;
+                entry.status = 'withdrawn';
+                if (!revealedSecrets.includes(decoded.data.secret)) {
+                    revealedSecrets.push(decoded.data.secret);
+                }
+                break;
+            }
+            case 'EscrowCancelled': {
+                const entry = escrow(decoded.data.escrowId);
+                entry.cancelled = decoded.data;
+                entry.status = 'cancelled';
+                break;
+            }
+            case 'EscrowRescued': {
+                const entry = escrow(decoded.data.escrowId);
+                entry.rescued = decoded.data;
+                entry.status = 'rescued';
+                // The rescue event is the only one that names the escrow side
+                entry.escrowType = decoded.data.escrowType;
+                break;
+            }
+        }
+    }
+
+    return {
+        orderHash,
+        wallets: [...wallets.values()],
+        escrows: [...escrows.values()],
+        revealedSecrets,
+        lastEventAt
+    };
+}
+
+/**
+ * Pages through queryEvents for the escrow package and keeps the store up to date.
+ * Progress is saved per page, so a restarted indexer resumes where it stopped
+ */
+export class EscrowEventIndexer {
+    private readonly listeners = new Set<IndexedEventListener>();
+
+    constructor(
+        private readonly client: SuiClient,
+        private readonly escrowPackageId: string,
+        private readonly store: OrderEventStore,
+        private readonly pageSize: number = 50
+    ) {}
+
+    /**
+     * Call `listener` for every newly indexed event; returns an unsubscribe function
+     */
+    onEvent(listener: IndexedEventListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Index everything emitted since the saved cursors, returns the number of new events
+     */
+    async sync(): Promise<number> {
+        let added = 0;
+        for (const module of EVENT_MODULES) {
+            added += await this.syncModule(module);
+        }
+        return added;
+    }
+
+    /**
+     * Poll for new events until `signal` is aborted
+     */
+    async watch(options: { intervalMs?: number, signal?: AbortSignal } = {}): Promise<void> {
+        await pollUntilAborted(() => this.sync(), { intervalMs: options.intervalMs ?? 2000, signal: options.signal });
+    }
+
+    getOrder(orderHash: string): OrderLifecycle {
+        const hash = orderHash.toLowerCase();
+        return buildOrderLifecycle(hash, this.store.getEvents(hash), id => this.store.getEscrowType(id));
+    }
+
+    getOrders(): OrderLifecycle[] {
+        return this.store.getOrderHashes().map(hash => this.getOrder(hash));
+    }
+
+    private async syncModule(module: string): Promise<number> {
+        let cursor = this.store.getCursor(module);
+        let added = 0;
+        let hasNextPage = true;
+
+        while (hasNextPage) {
+            const page = await this.client.queryEvents({
+                query: { MoveEventModule: { package: this.escrowPackageId, module } },
+                cursor,
+                limit: this.pageSize,
+                order: 'ascending'
+            });
+
+            for (const event of page.data) {
+                if (await this.index(event)) {
+                    added++;
+                }
+            }
+
+            if (page.data.length > 0) {
+                cursor = page.nextCursor ?? page.data[page.data.length - 1].id;
+                this.store.setCursor(module, cursor);
+                this.store.flush();
+            }
+            hasNextPage = page.hasNextPage;
+        }
+
+        return added;
+    }
+
+    private async index(event: SuiEvent): Promise<boolean> {
+        const decoded = decodeEscrowEvent(event.type, event.parsedJson);
+        if (!decoded) {
+            return false;
+        }
+
+        const stored: StoredEvent = {
+            id: event.id,
+            type: event.type,
+            orderHash: decoded.data.orderHash,
+            timestampMs: event.timestampMs ?? null,
+            parsedJson: event.parsedJson
+        };
+
+        // Resolved before the event is stored, so an RPC failure leaves it to be indexed again
+        // on the next sync; once resolved the type is cached and a replayed event costs nothing
+        if (decoded.name === 'EscrowCreated' && !this.store.getEscrowType(decoded.data.escrowId)) {
+            const escrowType = await this.resolveEscrowType(event.id, decoded.data.escrowId);
+            if (escrowType) {
+                this.store.setEscrowType(decoded.data.escrowId, escrowType);
+            }
+        }
+
+        if (!this.store.addEvent(stored)) {
+            return false;
+        }
+
+        this.listeners.forEach(listener => listener(stored, decoded));
+        return true;
+    }
+
+    /**
+     * EscrowCreated is shared by src and dst, so look at the entry function that emitted it,
+     * falling back to the object type when one transaction created both kinds
+     */
+    private async resolveEscrowType(eventId: EventId, escrowId: string): Promise<'src' | 'dst' | undefined> {
+        const tx = await this.client.getTransactionBlock({
+            digest: eventId.txDigest,
+            options: { showInput: true }
+        });
+
+        const kinds = new Set<'src' | 'dst'>();
+        const data = tx.transaction?.data.transaction;
+        if (data?.kind === 'ProgrammableTransaction') {
+            for (const command of data.transactions) {
+                if (!('MoveCall' in command) ||
+                    normalizeSuiAddress(command.MoveCall.package) !== normalizeSuiAddress(this.escrowPackageId)) {
+                    continue;
+                }
+                if (command.MoveCall.function === 'create_escrow_src') {
+                    kinds.add('src');
+                } else if (command.MoveCall.function === 'create_escrow_dst') {
+                    kinds.add('dst');
+                }
+            }
+        }
+        if (kinds.size === 1) {
+            return [...kinds][0];
+        }
+
+        const object = await this.client.getObject({ id: escrowId, options: { showType: true } });
+        const type = object.data?.type ?? '';
+        if (type.includes('::structs::EscrowSrc<')) {
+            return 'src';
+        } else if (type.includes('::structs::EscrowDst<')) {
+            return 'dst';
+        }
+        return undefined;
+    }
+}
@@ -0,0 +1,169 @@
+// tests/evm-escrow-client-spec.ts
+import { Wallet, ZeroAddress, keccak256 } from 'ethers';
+
+import { ChainRegistry } from './chain-config';
+import { CrossChainOrderBuilder, getEvmTypedData } from './cross-chain-order-builder';
+import { EscrowStage, EscrowStatus } from './escrow-stages';
+import { EvmEscrowClient, buildEvmImmutables, getEvmStageInfo, toEscrowState } from './evm-escrow-client';
+import type { EVMWallet } from './evm-wallet';
+import { Timelocks } from './timelocks';
+
+const MAKER = '0x742D35CC6634c0532925A3b844bC9e7595f5FF8b';
+const TAKER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const CREATED_AT = 1_700_000_000_000n;
+const RESCUE_DELAY_MS = 86_400_000n;
+
+const timelocks = Timelocks.new({
+    srcWithdrawal: 10_000n,
+    srcPublicWithdrawal: 120_000n,
+    srcCancellation: 121_000n,
+    srcPublicCancellation: 122_000n,
+    dstWithdrawal: 5_000n,
+    dstPublicWithdrawal: 100_000n,
+    dstCancellation: 101_000n
+});
+
+function immutables() {
+    return buildEvmImmutables({
+        orderHash: '0x' + '11'.repeat(32),
+        hashlock: keccak256('0x' + '33'.repeat(32)),
+        maker: MAKER,
+        taker: TAKER,
+        token: ZeroAddress,
+        amount: 1_000n,
+        safetyDeposit: 10n,
+        timelocks
+    }, CREATED_AT);
+}
+
+describe('EVM escrow immutables', () => {
+    test('carry the Sui timelocks in seconds with deployedAt from createdAt', () => {
+        const escrow = toEscrowState('0xe1', 'dst', immutables(), EscrowStatus.Active);
+
+        expect(BigInt(immutables().build().timelocks) >> 224n).toBe(CREATED_AT / 1000n);
+        expect(escrow.createdAt).toBe(CREATED_AT);
+        expect(escrow.immutables.timelocks.toJSON()).toEqual(timelocks.toJSON());
+        expect(escrow.immutables.taker.toLowerCase()).toBe(TAKER.toLowerCase());
+    });
+
+    test('stage info follows the Sui stages but rescue opens RESCUE_DELAY after deployment, for the taker', () => {
+        const escrow = toEscrowState('0xe1', 'src', immutables(), EscrowStatus.Active);
+
+        const withdrawing = getEvmStageInfo(escrow, CREATED_AT + 20_000n, TAKER, RESCUE_DELAY_MS);
+        expect(withdrawing.stage).toBe(EscrowStage.ResolverExclusiveWithdraw);
+        expect(withdrawing.actions.withdraw).toBe(true);
+
+        const late = CREATED_AT + RESCUE_DELAY_MS;
+        expect(getEvmStageInfo(escrow, late, TAKER, RESCUE_DELAY_MS)).toMatchObject({
+            stage: EscrowStage.Rescue,
+            actions: { rescue: true, cancel: true }
+        });
+        expect(getEvmStageInfo(escrow, late, MAKER, RESCUE_DELAY_MS).actions.rescue).toBe(false);
+    });
+});
+
+describe('EVM source escrow fill', () => {
+    const RESOLVER_CONTRACT = '0x00000000000000000000000000000000000000aa';
+    const ESCROW = '0x00000000000000000000000000000000000e5c40';
+    const SIGNED_TX = '0x02f0';
+    const BLOCK_TIME = 1_700_000_000;
+
+    async function signedOrder() {
+        const maker = Wallet.createRandom();
+        const built = CrossChainOrderBuilder.createOrder({
+            direction: 'EVM_TO_SUI',
+            evmChainId: CrossChainOrderBuilder.ARBITRUM_CHAIN_ID,
+            erc20Token: 'USDC',
+            erc20Amount: 100_000_000n,
+            suiAmount: 25_000_000_000n,
+            maker: maker.address,
+            resolver: RESOLVER_CONTRACT
+        });
+        const { domain, types, message } = getEvmTypedData(built.order, new ChainRegistry().getEvm(built.srcChainId));
+        const signed = {
+            order: built.order.build(),
+            extension: built.order.extension.encode(),
+            signature: await maker.signTypedData(domain, types, message)
+        };
+        const params = {
+            orderHash: built.orderHash,
+            hashlock: built.hashlock,
+            maker: maker.address,
+            taker: RESOLVER_CONTRACT,
+            token: built.order.makerAsset.toString(),
+            amount: built.order.makingAmount,
+            safetyDeposit: built.order.escrowExtension.srcSafetyDeposit,
+            timelocks: built.timelocks
+        };
+        return { signed, params };
+    }
+
+    function client() {
+        const deploySrc: unknown[][] = [];
+        const addressed: any[] = [];
+        const rpc = jest.fn();
+        const receipt = { status: 1, hash: keccak256(SIGNED_TX), blockNumber: 7, logs: [], getBlock: async () => ({ timestamp: BLOCK_TIME }) };
+        const wallet = {
+            signer: {
+                getAddress: async () => TAKER,
+                populateTransaction: async (tx: unknown) => tx,
+                signTransaction: async () => SIGNED_TX
+            },
+            provider: {
+                send: rpc,
+                broadcastTransaction: async () => ({ hash: receipt.hash, wait: async () => receipt })
+            },
+            getAddress: async () => TAKER
+        } as unknown as EVMWallet;
+
+        const evm = new EvmEscrowClient(wallet, { escrowFactory: ZeroAddress, limitOrderProtocol: ZeroAddress });
+        Object.assign(evm, {
+            factory: { addressOfEscrowSrc: async (immutables: any) => addressed.push(immutables) && ESCROW },
+            resolver: {
+                getAddress: async () => RESOLVER_CONTRACT,
+                deploySrc: {
+                    populateTransaction: async (...args: unknown[]) => {
+                        deploySrc.push(args);
+                        return { to: RESOLVER_CONTRACT, data: '0x' };
+                    }
+                }
+            }
+        });
+        return { evm, deploySrc, addressed, rpc };
+    }
+
+    test('deposits and fills in one resolver call, with deployedAt from the fill block', async () => {
+        const { signed, params } = await signedOrder();
+        const { evm, deploySrc, addressed, rpc } = client();
+        const submitted: string[] = [];
+
+        const deployed = await evm.createSrcEscrow(signed, params, { onSubmitted: hash => submitted.push(hash) });
+
+        expect(deployed).toMatchObject({ address: ESCROW, createdAt: BigInt(BLOCK_TIME) * 1000n, blockNumber: 7 });
+        expect(submitted).toEqual([keccak256(SIGNED_TX)]);
+        // No anvil-only RPC and no separate deposit transaction
+        expect(rpc).not.toHaveBeenCalled();
+
+        expect(deploySrc).toHaveLength(1);
+        const [immutables, order, , , amount, trait, args, overrides] = deploySrc[0] as any[];
+        // Resolver.deploySrc sets deployedAt and the args target itself
+        expect(BigInt(immutables.timelocks) >> 224n).toBe(0n);
+        expect(immutables.taker.toLowerCase()).toBe(RESOLVER_CONTRACT);
+        expect(order).toEqual(signed.order);
+        expect(amount).toBe(params.amount);
+        expect(BigInt(trait) & (1n << 251n)).toBe(0n);
+        expect(args).toMatch(/^0x/);
+        expect(overrides).toEqual({ value: params.safetyDeposit });
+
+        // The escrow address is derived with the fill block as deployedAt
+        expect(BigInt(addressed[0].timelocks) >> 224n).toBe(BigInt(BLOCK_TIME));
+    });
+
+    test('refuses a taker other than the resolver contract', async () => {
+        const { signed, params } = await signedOrder();
+        const { evm, deploySrc } = client();
+
+        await expect(evm.createSrcEscrow(signed, { ...params, taker: TAKER })).rejects.toThrow(/is not 0x0+aa/);
+        expect(deploySrc).toHaveLength(0);
+    });
+});
@@ -0,0 +1,642 @@
+// tests/evm-escrow-client.ts
+// EVM half of a swap: 1inch cross-chain-swap EscrowFactory, EscrowSrc and EscrowDst driven
+// with ethers. Timelocks are seconds on chain, everything exposed here is ms like on Sui.
+
+import {
+    Address,
+    AmountMode,
+    Extension,
+    HashLock,
+    Immutables,
+    LimitOrderV4Struct,
+    TakerTraits
+} from '@1inch/cross-chain-sdk';
+import {
+    Contract,
+    ContractTransaction,
+    ContractTransactionResponse,
+    Interface,
+    JsonRpcProvider,
+    Signature,
+    TransactionReceipt,
+    TransactionResponse,
+    ZeroAddress,
+    keccak256
+} from 'ethers';
+
+import { EvmChainConfig, assertFinalityCovered } from './chain-config';
+import { WaitForStageOptions, waitForStage } from './chain-waits';
+import { EscrowStage, EscrowStageInfo, EscrowStatus, getStageInfo } from './escrow-stages';
+import { EVMWallet } from './evm-wallet';
+import type { EscrowState } from './sui-integration';
+import { Timelocks } from './timelocks';
+
+const IMMUTABLES = Immutables.Web3Type;
+
+const ESCROW_FACTORY_ABI = [
+    `function createDstEscrow(${IMMUTABLES} dstImmutables, uint256 srcCancellationTimestamp) payable`,
+    `function addressOfEscrowSrc(${IMMUTABLES} immutables) view returns (address)`,
+    `function addressOfEscrowDst(${IMMUTABLES} immutables) view returns (address)`,
+    'event DstEscrowCreated(address escrow, bytes32 hashlock, uint256 taker)'
+];
+
+// Shared by EscrowSrc and EscrowDst, publicCancel exists on EscrowSrc only
+const ESCROW_ABI = [
+    `function withdraw(bytes32 secret, ${IMMUTABLES} immutables)`,
+    `function publicWithdraw(bytes32 secret, ${IMMUTABLES} immutables)`,
+    `function cancel(${IMMUTABLES} immutables)`,
+    `function publicCancel(${IMMUTABLES} immutables)`,
+    `function rescueFunds(address token, uint256 amount, ${IMMUTABLES} immutables)`,
+    'function RESCUE_DELAY() view returns (uint256)',
+    'event EscrowWithdrawal(bytes32 secret)',
+    'event EscrowCancelled()'
+];
+
+const ORDER = 'tuple(uint256 salt, address maker, address receiver, address makerAsset, address takerAsset, uint256 makingAmount, uint256 takingAmount, uint256 makerTraits)';
+
+// contracts/src/Resolver.sol
+const RESOLVER_ABI = [
+    `function deploySrc(${IMMUTABLES} immutables, ${ORDER} order, bytes32 r, bytes32 vs, uint256 amount, uint256 takerTraits, bytes args) payable`,
+    `function withdraw(address escrow, bytes32 secret, ${IMMUTABLES} immutables)`,
+    `function cancel(address escrow, ${IMMUTABLES} immutables)`,
+    'function arbitraryCalls(address[] targets, bytes[] arguments)'
+];
+
+const ERC20_ABI = ['function balanceOf(address) view returns (uint256)'];
+
+/**
+ * Addresses of the 1inch contracts on the EVM chain
+ */
+export interface EvmEscrowDeployment {
+    escrowFactory: string
+    limitOrderProtocol: string
+    resolver?: string // Resolver.sol owned by the signer, needed to fill orders
+}
+
+/**
+ * A 1inch order as the maker signed it
+ */
+export interface SignedEvmOrder {
+    order: LimitOrderV4Struct // CrossChainOrder.build()
+    extension: string // CrossChainOrder.extension.encode()
+    signature: string // EIP-712 signature of the maker
+}
+
+/**
+ * Immutables of an EVM escrow, in the units the rest of the repo uses
+ */
+export interface EvmImmutablesParams {
+    orderHash: string
+    hashlock: string
+    maker: string
+    taker: string
+    token: string // ZeroAddress for the native currency
+    amount: bigint
+    safetyDeposit: bigint
+    timelocks: Timelocks // ms, whole seconds only
+}
+
+/**
+ * Options of the escrow deploy methods
+ */
+export interface DeployOptions {
+    onSubmitted?: (txHash: string) => void // called with the signed transaction's hash before it is broadcast
+}
+
+export interface DeployedEvmEscrow {
+    address: string
+    immutables: Immutables // deployedAt set
+    createdAt: bigint // ms
+    txHash: string
+    blockNumber: number // of the deploy, a lower bound for the escrow's events
+}
+
+/**
+ * Build the SDK immutables the escrow contracts hash into their address.
+ * `createdAt` (ms) becomes timelocks.deployedAt (s)
+ */
+export function buildEvmImmutables(params: EvmImmutablesParams, createdAt?: bigint): Immutables {
+    const immutables = Immutables.new({
+        orderHash: params.orderHash,
+        hashLock: HashLock.fromString(params.hashlock),
+        maker: new Address(params.maker),
+        taker: new Address(params.taker),
+        token: new Address(params.token),
+        amount: params.amount,
+        safetyDeposit: params.safetyDeposit,
+        timeLocks: params.timelocks.toSdk()
+    });
+    return createdAt === undefined ? immutables : immutables.withDeployedAt(createdAt / 1000n);
+}
+
+/**
+ * View an EVM escrow through the Sui EscrowState shape, so escrow-stages applies as is
+ */
+export function toEscrowState(
+    address: string,
+    escrowType: 'src' | 'dst',
+    immutables: Immutables,
+    status: EscrowStatus,
+    balances: { token: bigint, native: bigint } = { token: 0n, native: 0n }
+): EscrowState {
+    const token = immutables.token.toString();
+    return {
+        escrowId: address,
+        escrowType,
+        coinType: token,
+        immutables: {
+            orderHash: immutables.orderHash,
+            hashlock: immutables.hashLock.toString(),
+            maker: immutables.maker.toString(),
+            taker: immutables.taker.toString(),
+            tokenType: token,
+            amount: immutables.amount,
+            safetyDeposit: immutables.safetyDeposit,
+            timelocks: Timelocks.fromSdk(immutables.timeLocks)
+        },
+        tokenBalance: balances.token,
+        // Native-token escrows hold amount and deposit in one balance, reported as tokenBalance
+        safetyDeposit: token === ZeroAddress ? 0n : balances.native,
+        createdAt: immutables.timeLocks.deployedAt * 1000n,
+        status
+    };
+}
+
+/**
+ * Stage info with the EVM rescue rule: rescueFunds is taker-only and opens
+ * RESCUE_DELAY after deployment instead of after the last cancellation stage
+ */
+export function getEvmStageInfo(
+    escrow: EscrowState,
+    now: bigint,
+    address: string,
+    rescueDelayMs: bigint
+): EscrowStageInfo {
+    const info = getStageInfo(escrow, now, address, escrow.createdAt + rescueDelayMs);
+    const isTaker = address.toLowerCase() === escrow.immutables.taker.toLowerCase();
+    return { ...info, actions: { ...info.actions, rescue: info.actions.rescue && isTaker } };
+}
+
+/**
+ * Same operations as SuiIntegration, against 1inch EscrowFactory contracts. EVM escrows
+ * keep only a hash of their immutables, so every call takes them back in.
+ *
+ * Source escrows are created through the deployment's Resolver contract, like the 1inch
+ * cross-chain-resolver-example: its deploySrc pays the safety deposit to the escrow
+ * address and fills the order in one transaction, so the resolver contract is the taker
+ * of every source escrow and withdraw, cancel and rescue on them go through it too.
+ */
+export class EvmEscrowClient {
+    private readonly factory: Contract;
+    private readonly resolver?: Contract;
+    private readonly escrowInterface = new Interface(ESCROW_ABI);
+    private readonly rescueDelays = new Map<'src' | 'dst', bigint>();
+    private readonly deployBlocks = new Map<string, number>(); // by escrow address
+    private readonly chain?: EvmChainConfig; // set when built from a chain config
+    private readonly log: (...args: unknown[]) => void;
+
+    constructor(
+        private readonly wallet: EVMWallet,
+        readonly deployment: EvmEscrowDeployment | EvmChainConfig,
+        options: { log?: (...args: unknown[]) => void } = {} // progress messages, console.log by default
+    ) {
+        this.factory = new Contract(deployment.escrowFactory, ESCROW_FACTORY_ABI, wallet.signer);
+        this.resolver = deployment.resolver === undefined
+            ? undefined
+            : new Contract(deployment.resolver, RESOLVER_ABI, wallet.signer);
+        this.chain = 'finality' in deployment ? deployment : undefined;
+        this.log = options.log ?? console.log;
+    }
+
+    /**
+     * Client for a configured chain, refusing a wallet whose RPC serves another chain
+     */
+    static async forChain(
+        wallet: EVMWallet,
+        chain: EvmChainConfig,
+        options: { log?: (...args: unknown[]) => void } = {}
+    ): Promise<EvmEscrowClient> {
+        const { chainId } = await wallet.provider.getNetwork();
+        if (chainId !== BigInt(chain.chainId)) {
+            throw new Error(`RPC for ${chain.name} serves chain ${chainId}, expected ${chain.chainId}`);
+        }
+        return new EvmEscrowClient(wallet, chain, options);
+    }
+
+    /**
+     * Client signing with `privateKey` over the chain's configured RPC
+     */
+    static async connect(
+        privateKey: string,
+        chain: EvmChainConfig,
+        options: { log?: (...args: unknown[]) => void } = {}
+    ): Promise<EvmEscrowClient> {
+        const provider = new JsonRpcProvider(chain.rpcUrl);
+        return this.forChain(await EVMWallet.fromPrivateKey(privateKey, provider), chain, options);
+    }
+
+    async getSignerAddress(): Promise<string> {
+        return this.wallet.getAddress();
+    }
+
+    /**
+     * Taker of the escrows this client deploys: the resolver contract for source escrows,
+     * the signer for destination escrows
+     */
+    async getTakerAddress(escrowType: 'src' | 'dst'): Promise<string> {
+        return escrowType === 'src' ? this.resolverContract().getAddress() : this.getSignerAddress();
+    }
+
+    /**
+     * Timestamp of the latest block in ms
+     */
+    async getChainTimestamp(): Promise<bigint> {
+        const block = await this.wallet.provider.getBlock('latest');
+        if (!block) {
+            throw new Error('Failed to fetch latest block');
+        }
+        return BigInt(block.timestamp) * 1000n;
+    }
+
+    /**
+     * Fill a signed 1inch order through the resolver contract, which makes the factory
+     * deploy the source escrow. `params.taker` must be the resolver contract,
+     * `params.amount` the making amount to fill
+     */
+    async createSrcEscrow(
+        signed: SignedEvmOrder,
+        params: EvmImmutablesParams,
+        options: DeployOptions = {}
+    ): Promise<DeployedEvmEscrow> {
+        this.log('Creating EVM source escrow...');
+
+        this.validateTimelocks(params.timelocks, 'src');
+        const resolver = this.resolverContract();
+        this.assertTaker(params.taker, await resolver.getAddress());
+
+        const { r, yParityAndS: vs } = Signature.from(signed.signature);
+        const { trait, args } = TakerTraits.default()
+            .setExtension(Extension.decode(signed.extension))
+            .setAmountMode(AmountMode.maker)
+            .setAmountThreshold(BigInt(signed.order.takingAmount))
+            .encode();
+
+        // Resolver.deploySrc sets deployedAt to the block time and sends the deposit
+        // to the escrow address before filling, all in this transaction
+        const receipt = await this.sendReported(
+            resolver.deploySrc.populateTransaction(
+                buildEvmImmutables(params).build(),
+                signed.order,
+                r,
+                vs,
+                params.amount,
+                trait,
+                args,
+                { value: params.safetyDeposit }
+            ),
+            options.onSubmitted
+        );
+
+        const deployed = await this.deploymentIn(receipt, 'src', params);
+        this.log('✅ EVM source escrow created at:', deployed.address);
+        return deployed;
+    }
+
+    /**
+     * Deploy a destination escrow funded by the signer. `srcCancellationAt` (ms) is when
+     * the source escrow becomes cancellable; the factory rejects a dst escrow outliving it
+     */
+    async createDstEscrow(
+        params: EvmImmutablesParams,
+        srcCancellationAt: bigint,
+        options: DeployOptions = {}
+    ): Promise<DeployedEvmEscrow> {
+        this.log('Creating EVM destination escrow...');
+
+        this.validateTimelocks(params.timelocks, 'dst');
+        this.assertTaker(params.taker, await this.getSignerAddress());
+
+        const native = params.token === ZeroAddress;
+        if (!native) {
+            await this.wallet.approveToken(params.token, this.deployment.escrowFactory, params.amount);
+        }
+
+        // The factory sets deployedAt to the block time itself
+        const receipt = await this.sendReported(
+            this.factory.createDstEscrow.populateTransaction(
+                buildEvmImmutables(params).build(),
+                srcCancellationAt / 1000n,
+                { value: params.safetyDeposit + (native ? params.amount : 0n) }
+            ),
+            options.onSubmitted
+        );
+
+        const deployed = await this.deploymentIn(receipt, 'dst', params);
+        this.log('✅ EVM destination escrow created at:', deployed.address);
+        return deployed;
+    }
+
+    /**
+     * The escrow a deploy transaction created, or null while it is unknown to the node or
+     * if it reverted. Lets a caller that recorded the hash recover after a crash
+     */
+    async getDeployment(txHash: string, escrowType: 'src' | 'dst', params: EvmImmutablesParams): Promise<DeployedEvmEscrow | null> {
+        const receipt = await this.wallet.provider.getTransactionReceipt(txHash);
+        if (!receipt || receipt.status !== 1) {
+            return null;
+        }
+        return this.deploymentIn(receipt, escrowType, params);
+    }
+
+    /**
+     * Address the factory deploys an escrow with these immutables (deployedAt set) to
+     */
+    async addressOfEscrow(escrowType: 'src' | 'dst', immutables: Immutables): Promise<string> {
+        return escrowType === 'src'
+            ? this.factory.addressOfEscrowSrc(immutables.build())
+            : this.factory.addressOfEscrowDst(immutables.build());
+    }
+
+    /**
+     * Current state of an escrow; status comes from its withdrawal/cancel events, read from
+     * `fromBlock` on (by default the first block at the escrow's deployedAt)
+     */
+    async getEscrow(
+        address: string,
+        escrowType: 'src' | 'dst',
+        immutables: Immutables,
+        fromBlock?: number
+    ): Promise<EscrowState> {
+        const provider = this.wallet.provider;
+        const token = immutables.token.toString();
+
+        const [logs, native, tokenBalance] = await Promise.all([
+            provider.getLogs({ address, fromBlock: fromBlock ?? await this.deployBlock(address, immutables) }),
+            provider.getBalance(address),
+            token === ZeroAddress
+                ? provider.getBalance(address)
+                : new Contract(token, ERC20_ABI, provider).balanceOf(address) as Promise<bigint>
+        ]);
+
+        let status = EscrowStatus.Active;
+        for (const log of logs) {
+            const event = this.escrowInterface.parseLog(log);
+            if (event?.name === 'EscrowWithdrawal') {
+                status = EscrowStatus.Withdrawn;
+            } else if (event?.name === 'EscrowCancelled') {
+                status = EscrowStatus.Cancelled;
+            }
+        }
+
+        return toEscrowState(address, escrowType, immutables, status, { token: tokenBalance, native });
+    }
+
+    /**
+     * Stage of an escrow at the latest block and what the signer may do with it
+     */
+    async getEscrowStage(address: string, escrowType: 'src' | 'dst', immutables: Immutables): Promise<EscrowStageInfo> {
+        const [escrow, now, caller, rescueDelay] = await Promise.all([
+            this.getEscrow(address, escrowType, immutables),
+            this.getChainTimestamp(),
+            this.callerFor(immutables),
+            this.getRescueDelay(address, escrowType)
+        ]);
+        return getEvmStageInfo(escrow, now, caller, rescueDelay);
+    }
+
+    /**
+     * Resolve once an escrow is in `stage` by latest block timestamp, throwing
+     * StageMissedError if it is already past it. The subscribe strategy re-checks on each
+     * block the provider reports
+     */
+    async waitForStage(
+        address: string,
+        escrowType: 'src' | 'dst',
+        immutables: Immutables,
+        stage: EscrowStage,
+        options: WaitForStageOptions = {}
+    ): Promise<EscrowStageInfo> {
+        const provider = this.wallet.provider;
+        return waitForStage({
+            chain: this.chain?.name ?? 'EVM',
+            getStage: () => this.getEscrowStage(address, escrowType, immutables),
+            subscribe: onBlock => {
+                void provider.on('block', onBlock);
+                return () => void provider.off('block', onBlock);
+            }
+        }, stage, options);
+    }
+
+    /**
+     * Taker-only withdrawal; src pays the taker, dst pays the maker
+     */
+    async withdraw(address: string, escrowType: 'src' | 'dst', secret: string, immutables: Immutables): Promise<string> {
+        this.log(`Withdrawing from EVM ${escrowType} escrow ${address}...`);
+
+        const receipt = await this.send(await this.viaResolver(immutables)
+            ? this.resolverContract().withdraw(address, secret, immutables.build())
+            : this.escrow(address).withdraw(secret, immutables.build()));
+
+        this.log('✅ Withdrawal successful:', receipt.hash);
+        return receipt.hash;
+    }
+
+    /**
+     * Withdrawal during the public stage, same payout as withdraw. The contracts only
+     * let holders of the resolver access token call it
+     */
+    async publicWithdraw(address: string, escrowType: 'src' | 'dst', secret: string, immutables: Immutables): Promise<string> {
+        this.log(`Public withdrawal from EVM ${escrowType} escrow ${address}...`);
+
+        const receipt = await this.send(this.escrow(address).publicWithdraw(secret, immutables.build()));
+
+        this.log('✅ Public withdrawal successful:', receipt.hash);
+        return receipt.hash;
+    }
+
+    /**
+     * Taker-only cancellation; funds go back to the maker (src) or taker (dst)
+     */
+    async cancel(address: string, escrowType: 'src' | 'dst', immutables: Immutables): Promise<string> {
+        this.log(`Cancelling EVM ${escrowType} escrow ${address}...`);
+
+        const receipt = await this.send(await this.viaResolver(immutables)
+            ? this.resolverContract().cancel(address, immutables.build())
+            : this.escrow(address).cancel(immutables.build()));
+
+        this.log('✅ Cancellation successful:', receipt.hash);
+        return receipt.hash;
+    }
+
+    /**
+     * Cancellation of a source escrow by anyone holding the access token
+     */
+    async publicCancel(address: string, immutables: Immutables): Promise<string> {
+        this.log(`Public cancellation of EVM src escrow ${address}...`);
+
+        const receipt = await this.send(this.escrow(address).publicCancel(immutables.build()));
+
+        this.log('✅ Public cancellation successful:', receipt.hash);
+        return receipt.hash;
+    }
+
+    /**
+     * Sweep whatever the escrow still holds (token, then native currency) to the taker
+     */
+    async rescue(address: string, escrowType: 'src' | 'dst', immutables: Immutables): Promise<string[]> {
+        this.log(`Rescuing EVM ${escrowType} escrow ${address}...`);
+
+        const { tokenBalance, safetyDeposit: native, coinType } = await this.getEscrow(address, escrowType, immutables);
+        const sweeps = [
+            { token: coinType, amount: tokenBalance },
+            { token: ZeroAddress, amount: coinType === ZeroAddress ? 0n : native }
+        ].filter(sweep => sweep.amount > 0n);
+
+        const viaResolver = await this.viaResolver(immutables);
+        const hashes: string[] = [];
+        for (const { token, amount } of sweeps) {
+            const receipt = await this.send(viaResolver
+                ? this.resolverContract().arbitraryCalls(
+                    [address],
+                    [this.escrowInterface.encodeFunctionData('rescueFunds', [token, amount, immutables.build()])]
+                )
+                : this.escrow(address).rescueFunds(token, amount, immutables.build()));
+            hashes.push(receipt.hash);
+        }
+
+        this.log(`✅ Rescued ${hashes.length} balance(s) from ${address}`);
+        return hashes;
+    }
+
+    private escrow(address: string): Contract {
+        return new Contract(address, ESCROW_ABI, this.wallet.signer);
+    }
+
+    private resolverContract(): Contract {
+        if (!this.resolver) {
+            throw new Error('No resolver contract configured, source escrows are deployed through one');
+        }
+        return this.resolver;
+    }
+
+    /**
+     * True when the escrow's taker is the resolver contract, so taker-only calls go through it
+     */
+    private async viaResolver(immutables: Immutables): Promise<boolean> {
+        return this.resolver !== undefined
+            && (await this.resolver.getAddress()).toLowerCase() === immutables.taker.toString().toLowerCase();
+    }
+
+    /**
+     * Address whose permissions the signer acts with on an escrow
+     */
+    private async callerFor(immutables: Immutables): Promise<string> {
+        return await this.viaResolver(immutables) ? this.resolver!.getAddress() : this.getSignerAddress();
+    }
+
+    /**
+     * First block at or after the escrow's deployedAt, found by bisecting block times
+     */
+    private async deployBlock(address: string, immutables: Immutables): Promise<number> {
+        const cached = this.deployBlocks.get(address);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        const deployedAt = Number(immutables.timeLocks.deployedAt);
+        const provider = this.wallet.provider;
+        let low = 0;
+        let high = await provider.getBlockNumber();
+        while (low < high) {
+            const mid = Math.floor((low + high) / 2);
+            const block = await provider.getBlock(mid);
+            if (block && block.timestamp >= deployedAt) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+        this.deployBlocks.set(address, low);
+        return low;
+    }
+
+    /**
+     * RESCUE_DELAY of the escrow implementation in ms, fixed per factory
+     */
+    private async getRescueDelay(address: string, escrowType: 'src' | 'dst'): Promise<bigint> {
+        let delay = this.rescueDelays.get(escrowType);
+        if (delay === undefined) {
+            delay = BigInt(await this.escrow(address).RESCUE_DELAY()) * 1000n;
+            this.rescueDelays.set(escrowType, delay);
+        }
+        return delay;
+    }
+
+    private validateTimelocks(timelocks: Timelocks, side: 'src' | 'dst'): void {
+        timelocks.validate();
+        if (this.chain) {
+            assertFinalityCovered(timelocks, this.chain, side);
+        }
+    }
+
+    private assertTaker(taker: string, expected: string): void {
+        if (expected.toLowerCase() !== taker.toLowerCase()) {
+            throw new Error(`Escrow taker ${taker} is not ${expected}`);
+        }
+    }
+
+    /**
+     * Escrow deployed by a confirmed transaction: the factory reports dst escrows, src
+     * escrow addresses follow from the immutables with the block time as deployedAt
+     */
+    private async deploymentIn(
+        receipt: TransactionReceipt,
+        escrowType: 'src' | 'dst',
+        params: EvmImmutablesParams
+    ): Promise<DeployedEvmEscrow> {
+        const block = await receipt.getBlock();
+        const createdAt = BigInt(block.timestamp) * 1000n;
+        const immutables = buildEvmImmutables(params, createdAt);
+
+        let address: string;
+        if (escrowType === 'dst') {
+            const created = receipt.logs
+                .map(log => this.factory.interface.parseLog(log))
+                .find(log => log?.name === 'DstEscrowCreated');
+            if (!created) {
+                throw new Error(`Transaction ${receipt.hash} created no dst escrow - no DstEscrowCreated event`);
+            }
+            address = created.args.escrow;
+        } else {
+            address = await this.addressOfEscrow('src', immutables);
+        }
+        this.deployBlocks.set(address, receipt.blockNumber);
+        return { address, immutables, createdAt, txHash: receipt.hash, blockNumber: receipt.blockNumber };
+    }
+
+    /**
+     * Sign a transaction, report its hash, then broadcast it, so a caller that saves the
+     * hash can always tell later whether the transaction landed
+     */
+    private async sendReported(
+        request: Promise<ContractTransaction>,
+        onSubmitted?: (txHash: string) => void
+    ): Promise<TransactionReceipt> {
+        const signer = this.wallet.signer;
+        const signed = await signer.signTransaction(await signer.populateTransaction(await request));
+        onSubmitted?.(keccak256(signed));
+        return this.confirm(await this.wallet.provider.broadcastTransaction(signed));
+    }
+
+    private async send(pending: Promise<ContractTransactionResponse>): Promise<TransactionReceipt> {
+        return this.confirm(await pending);
+    }
+
+    private async confirm(response: TransactionResponse): Promise<TransactionReceipt> {
+        const receipt = await response.wait();
+        if (!receipt || receipt.status !== 1) {
+            throw new Error(`Transaction ${response.hash} failed`);
+        }
+        return receipt;
+    }
+}
@@ -0,0 +1,45 @@
+// tests/json-file.ts
+// Durable JSON state files: write to a temporary file, fsync it, then rename it over the
+// old one, so a crash leaves either the previous contents or the new ones.
+
+import { closeSync, fsyncSync, mkdirSync, openSync, renameSync, writeSync } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * Replace `path` with `data` as pretty-printed JSON, creating its directory if needed.
+ * `mode` applies to the new file, e.g. 0o600 for files holding secrets
+ */
+export function writeJsonAtomic(path: string, data: unknown, options: { mode?: number } = {}): void {
+    const dir = dirname(path);
+    mkdirSync(dir, { recursive: true });
+
+    const tmp = `${path}.tmp`;
+    const fd = openSync(tmp, 'w', options.mode);
+    try {
+        writeSync(fd, JSON.stringify(data, null, 2));
+        fsyncSync(fd);
+    } finally {
+        closeSync(fd);
+    }
+    renameSync(tmp, path);
+    syncDirectory(dir);
+}
+
+/**
+ * Persist the rename itself; not every platform can open a directory, those skip it
+ */
+function syncDirectory(dir: string): void {
+    let fd: number;
+    try {
+        fd = openSync(dir, 'r');
+    } catch {
+        return;
+    }
+    try {
+        fsyncSync(fd);
+    } catch {
+        // e.g. EISDIR / EPERM on Windows
+    } finally {
+        closeSync(fd);
+    }
+}
@@ -0,0 +1,413 @@
+// tests/local-chains.ts
+// Local chains for end-to-end tests, no public RPCs: `sui start` on a fresh genesis with
+// the escrow package published, and a plain anvil with the mock contracts in contracts/.
+// Both clocks can be moved forward, so timelock stages pass without sleeping through them.
+
+import { SuiClient } from '@mysten/sui/client';
+import { requestSuiFromFaucetV2 } from '@mysten/sui/faucet';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Transaction } from '@mysten/sui/transactions';
+import { ChildProcess, spawn, spawnSync } from 'child_process';
+import { Contract, ContractFactory, JsonRpcProvider, Wallet, ZeroAddress } from 'ethers';
+import { createWriteStream, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+
+import { waitUntil } from './chain-waits';
+import { DeployedEvmEscrow, EvmImmutablesParams, buildEvmImmutables } from './evm-escrow-client';
+import { EVMWallet } from './evm-wallet';
+import { SUI_CLOCK_OBJECT_ID } from './sui-move-calls';
+
+const ROOT = resolve(__dirname, '..');
+
+// First accounts of anvil's default mnemonic, each holding 10000 ETH at genesis
+export const ANVIL_KEYS = [
+    '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+    '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+    '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a'
+] as const;
+
+/**
+ * A running Sui localnet, JSON-safe so it can be handed to Jest workers
+ */
+export interface SuiLocalnet {
+    rpcUrl: string
+    faucetUrl: string
+    packageId: string // escrow package, published at startup
+    clockFile?: string // libfaketime offset of the validators, set when the clock can jump
+}
+
+/**
+ * A running anvil with the mock contracts deployed
+ */
+export interface EvmLocalnet {
+    rpcUrl: string
+    chainId: number
+    escrowFactory: string // MockEscrowFactory
+    usdc: string // MockERC20, 6 decimals
+    rescueDelay: number // seconds
+}
+
+export interface RunningChain<T> {
+    chain: T
+    stop(): Promise<void>
+}
+
+export interface SuiLocalnetOptions {
+    rpcPort?: number
+    faucetPort?: number
+    packagePath?: string // Move package to publish, escrow/ by default
+    fakeTimeLib?: string // path of libfaketime.so; without it advanceSuiClock waits in real time
+    logDir?: string // sui output goes to sui.log here
+    startupTimeoutMs?: number
+}
+
+export interface AnvilOptions {
+    port?: number
+    chainId?: number
+    rescueDelay?: number // seconds, RESCUE_DELAY of the mock escrows
+    fund?: string[] // addresses minted 1,000,000 mock USDC
+    logDir?: string
+    startupTimeoutMs?: number
+}
+
+/**
+ * Start a child process, its output going to `logFile` if given
+ */
+function startProcess(command: string, args: string[], env: NodeJS.ProcessEnv, logFile?: string): ChildProcess {
+    const child = spawn(command, args, { cwd: ROOT, env: { ...process.env, ...env }, stdio: ['ignore', 'pipe', 'pipe'] });
+    if (logFile) {
+        const log = createWriteStream(logFile);
+        child.stdout?.pipe(log);
+        child.stderr?.pipe(log);
+    } else {
+        child.stdout?.resume();
+        child.stderr?.resume();
+    }
+    return child;
+}
+
+/**
+ * Wait for `ready`, failing fast if the process dies or cannot be started meanwhile
+ */
+async function whileRunning(child: ChildProcess, command: string, ready: Promise<void>): Promise<void> {
+    let onExit!: (code: number | null) => void;
+    let onError!: (error: Error) => void;
+    const exited = new Promise<never>((_, reject) => {
+        onExit = code => reject(new Error(`${command} exited with code ${code} during startup`));
+        onError = error => reject(new Error(`Failed to start ${command}: ${error.message}`));
+        child.once('exit', onExit);
+        child.once('error', onError);
+    });
+    try {
+        await Promise.race([ready, exited]);
+    } finally {
+        child.off('exit', onExit);
+        child.off('error', onError);
+    }
+}
+
+/**
+ * SIGTERM, then SIGKILL if the process is still up after `graceMs`
+ */
+async function stopProcess(child: ChildProcess, graceMs = 10_000): Promise<void> {
+    if (child.pid === undefined || child.exitCode !== null || child.signalCode !== null) {
+        return;
+    }
+    const exited = new Promise<void>(resolve => child.once('exit', () => resolve()));
+    child.kill('SIGTERM');
+    const timer = setTimeout(() => child.kill('SIGKILL'), graceMs);
+    await exited;
+    clearTimeout(timer);
+}
+
+// ---------------------------------------------------------------------------------------
+// Sui
+// ---------------------------------------------------------------------------------------
+
+/**
+ * `sui start` on a throwaway genesis with a faucet, then publish the escrow package.
+ * Under libfaketime the validators read their time from an offset file, which is
+ * what lets advanceSuiClock jump ahead
+ */
+export async function startSuiLocalnet(options: SuiLocalnetOptions = {}): Promise<RunningChain<SuiLocalnet>> {
+    const rpcPort = options.rpcPort ?? 9000;
+    const faucetPort = options.faucetPort ?? 9123;
+    const logDir = options.logDir;
+    if (logDir) {
+        mkdirSync(logDir, { recursive: true });
+    }
+
+    let clockFile: string | undefined;
+    const env: NodeJS.ProcessEnv = { RUST_LOG: 'error' };
+    if (options.fakeTimeLib) {
+        clockFile = join(logDir ?? ROOT, 'sui-faketime');
+        writeFileSync(clockFile, '+0s');
+        Object.assign(env, {
+            LD_PRELOAD: options.fakeTimeLib,
+            FAKETIME_TIMESTAMP_FILE: clockFile,
+            FAKETIME_NO_CACHE: '1',
+            DONT_FAKE_MONOTONIC: '1' // timers and timeouts keep real time
+        });
+    }
+
+    console.log('🚀 Starting Sui localnet...');
+    const child = startProcess('sui', [
+        'start',
+        '--force-regenesis',
+        `--fullnode-rpc-port=${rpcPort}`,
+        `--with-faucet=127.0.0.1:${faucetPort}`
+    ], env, logDir && join(logDir, 'sui.log'));
+
+    const stop = () => stopProcess(child);
+    try {
+        const rpcUrl = `http://127.0.0.1:${rpcPort}`;
+        const faucetUrl = `http://127.0.0.1:${faucetPort}`;
+        const client = new SuiClient({ url: rpcUrl });
+        const timeoutMs = options.startupTimeoutMs ?? 120_000;
+
+        await whileRunning(child, 'sui', waitUntil(
+            async () => BigInt(await client.getLatestCheckpointSequenceNumber()) > 0n,
+            'the Sui localnet',
+            timeoutMs
+        ));
+        // The faucet comes up after the RPC
+        const publisher = new Ed25519Keypair();
+        await whileRunning(child, 'sui', waitUntil(
+            async () => (await fundSuiAddress({ rpcUrl, faucetUrl }, publisher.toSuiAddress()), true),
+            'the Sui faucet',
+            timeoutMs,
+            1000
+        ));
+
+        const packageId = await publishPackage(client, publisher, options.packagePath ?? join(ROOT, 'escrow'));
+        console.log(`✅ Sui localnet at ${rpcUrl}, escrow package ${packageId}`);
+        return { chain: { rpcUrl, faucetUrl, packageId, clockFile }, stop };
+    } catch (error) {
+        await stop();
+        throw error;
+    }
+}
+
+/**
+ * Gas from the localnet faucet, waiting until the coins are visible on the RPC
+ */
+export async function fundSuiAddress(chain: Pick<SuiLocalnet, 'rpcUrl' | 'faucetUrl'>, address: string): Promise<void> {
+    const response = await requestSuiFromFaucetV2({ host: chain.faucetUrl, recipient: address });
+    if (response.status !== 'Success') {
+        throw new Error(`Faucet refused ${address}: ${response.status.Failure.internal}`);
+    }
+
+    const client = new SuiClient({ url: chain.rpcUrl });
+    await waitUntil(
+        async () => BigInt((await client.getBalance({ owner: address })).totalBalance) > 0n,
+        `gas for ${address}`,
+        30_000
+    );
+}
+
+/**
+ * Build with the Sui CLI and publish the bytecode, keeping the UpgradeCap with the publisher
+ */
+async function publishPackage(client: SuiClient, publisher: Ed25519Keypair, packagePath: string): Promise<string> {
+    console.log(`📦 Publishing ${packagePath}...`);
+    const build = spawnSync('sui', ['move', 'build', '--dump-bytecode-as-base64', '--path', packagePath], {
+        encoding: 'utf8',
+        maxBuffer: 64 * 1024 * 1024
+    });
+    // Build progress goes to stdout before the JSON on some CLI versions
+    const json = build.stdout?.split('\n').find(line => line.startsWith('{'));
+    if (build.status !== 0 || !json) {
+        throw new Error(`sui move build failed: ${build.stderr || build.stdout || build.error?.message}`);
+    }
+    const { modules, dependencies } = JSON.parse(json) as { modules: string[], dependencies: string[] };
+
+    const tx = new Transaction();
+    const [upgradeCap] = tx.publish({ modules, dependencies });
+    tx.transferObjects([upgradeCap], publisher.toSuiAddress());
+
+    const result = await client.signAndExecuteTransaction({
+        signer: publisher,
+        transaction: tx,
+        options: { showEffects: true, showObjectChanges: true }
+    });
+    await client.waitForTransaction({ digest: result.digest });
+    if (result.effects?.status.status !== 'success') {
+        throw new Error(`Publishing ${packagePath} failed: ${result.effects?.status.error}`);
+    }
+
+    const published = result.objectChanges?.find(change => change.type === 'published');
+    if (!published || published.type !== 'published') {
+        throw new Error(`Publishing ${packagePath} created no package`);
+    }
+    return published.packageId;
+}
+
+async function getSuiClock(client: SuiClient): Promise<bigint> {
+    const clock = await client.getObject({ id: SUI_CLOCK_OBJECT_ID, options: { showContent: true } });
+    const content = clock.data?.content;
+    if (!content || content.dataType !== 'moveObject') {
+        throw new Error('Failed to read the Sui clock');
+    }
+    return BigInt((content.fields as any).timestamp_ms);
+}
+
+/**
+ * Move the Sui clock forward by at least `ms` and return the new clock time. With
+ * libfaketime the validators' offset jumps and consensus picks it up on the next
+ * commit; without it this waits for real time to pass
+ */
+export async function advanceSuiClock(chain: SuiLocalnet, ms: bigint): Promise<bigint> {
+    const client = new SuiClient({ url: chain.rpcUrl });
+    const target = await getSuiClock(client) + ms;
+
+    if (chain.clockFile) {
+        const offset = Number(readFileSync(chain.clockFile, 'utf8').trim().replace(/^\+|s$/g, ''));
+        writeFileSync(chain.clockFile, `+${offset + Math.ceil(Number(ms) / 1000)}s`);
+    }
+
+    await waitUntil(
+        async () => await getSuiClock(client) >= target,
+        `the Sui clock to reach ${target}`,
+        (chain.clockFile ? 0 : Number(ms)) + 30_000
+    );
+    return getSuiClock(client);
+}
+
+// ---------------------------------------------------------------------------------------
+// EVM
+// ---------------------------------------------------------------------------------------
+
+interface Artifact {
+    abi: any[]
+    bytecode: { object: string }
+}
+
+/**
+ * Forge output for a contract in contracts/src, building once if it is missing
+ */
+function loadArtifact(file: string, name: string): Artifact {
+    const path = join(ROOT, 'contracts', 'out', file, `${name}.json`);
+    if (!existsSync(path)) {
+        const build = spawnSync('forge', ['build', '--root', join(ROOT, 'contracts')], { encoding: 'utf8' });
+        if (build.status !== 0) {
+            throw new Error(`forge build failed: ${build.stderr || build.stdout || build.error?.message}`);
+        }
+    }
+    return JSON.parse(readFileSync(path, 'utf8'));
+}
+
+/**
+ * Plain anvil (no fork) with MockERC20 as USDC and MockEscrowFactory deployed by the
+ * first default account
+ */
+export async function startAnvil(options: AnvilOptions = {}): Promise<RunningChain<EvmLocalnet>> {
+    const port = options.port ?? 8545;
+    const chainId = options.chainId ?? 31337;
+    const rescueDelay = options.rescueDelay ?? 86_400;
+    if (options.logDir) {
+        mkdirSync(options.logDir, { recursive: true });
+    }
+
+    console.log('🚀 Starting anvil...');
+    const child = startProcess('anvil', [
+        '--host', '127.0.0.1',
+        '--port', String(port),
+        '--chain-id', String(chainId)
+    ], {}, options.logDir && join(options.logDir, 'anvil.log'));
+
+    const stop = () => stopProcess(child);
+    const rpcUrl = `http://127.0.0.1:${port}`;
+    const provider = new JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true });
+    try {
+        await whileRunning(child, 'anvil', waitUntil(
+            async () => (await provider.getBlockNumber()) >= 0,
+            'anvil',
+            options.startupTimeoutMs ?? 30_000
+        ));
+
+        const deployer = new Wallet(ANVIL_KEYS[0], provider);
+        const deploy = async (file: string, name: string, ...args: unknown[]): Promise<Contract> => {
+            const { abi, bytecode } = loadArtifact(file, name);
+            const contract = await new ContractFactory(abi, bytecode.object, deployer).deploy(...args);
+            await contract.waitForDeployment();
+            return contract as Contract;
+        };
+
+        const usdc = await deploy('MockERC20.sol', 'MockERC20', 'USD Coin', 'USDC', 6);
+        const factory = await deploy('MockEscrowFactory.sol', 'MockEscrowFactory', rescueDelay);
+        for (const address of options.fund ?? []) {
+            await (await usdc.mint(address, 1_000_000n * 10n ** 6n)).wait();
+        }
+
+        const chain = {
+            rpcUrl,
+            chainId,
+            escrowFactory: await factory.getAddress(),
+            usdc: await usdc.getAddress(),
+            rescueDelay
+        };
+        console.log(`✅ anvil at ${rpcUrl}, escrow factory ${chain.escrowFactory}, USDC ${chain.usdc}`);
+        return { chain, stop };
+    } catch (error) {
+        await stop();
+        throw error;
+    } finally {
+        provider.destroy();
+    }
+}
+
+/**
+ * Move the anvil clock forward by `ms` (whole seconds) and mine a block at the new
+ * time. Returns the block timestamp in ms
+ */
+export async function advanceEvmClock(provider: JsonRpcProvider, ms: bigint): Promise<bigint> {
+    await provider.send('evm_increaseTime', [Number((ms + 999n) / 1000n)]);
+    await provider.send('evm_mine', []);
+    const block = await provider.getBlock('latest');
+    if (!block) {
+        throw new Error('Failed to fetch latest block');
+    }
+    return BigInt(block.timestamp) * 1000n;
+}
+
+/**
+ * Source escrow through MockEscrowFactory.createSrcEscrow, standing in for the order fill
+ * EvmEscrowClient.createSrcEscrow sends through the resolver contract to the limit order
+ * protocol. Neither is deployed locally, so nothing here checks the maker's signature or
+ * the order's extension. The signer is the taker and pays the safety deposit; the maker
+ * must have approved the factory for the amount
+ */
+export async function createMockSrcEscrow(
+    taker: EVMWallet,
+    escrowFactory: string,
+    params: EvmImmutablesParams
+): Promise<DeployedEvmEscrow> {
+    const factory = new Contract(escrowFactory, loadArtifact('MockEscrowFactory.sol', 'MockEscrowFactory').abi, taker.signer);
+    const native = params.token === ZeroAddress;
+
+    const response = await factory.createSrcEscrow(
+        buildEvmImmutables(params).build(),
+        { value: params.safetyDeposit + (native ? params.amount : 0n) }
+    );
+    const receipt = await response.wait();
+    if (!receipt || receipt.status !== 1) {
+        throw new Error('Failed to create mock src escrow');
+    }
+
+    const created = receipt.logs
+        .map((log: any) => factory.interface.parseLog(log))
+        .find((log: any) => log?.name === 'SrcEscrowCreated');
+    if (!created) {
+        throw new Error('Failed to create mock src escrow - no SrcEscrowCreated event');
+    }
+
+    const block = await receipt.getBlock();
+    const createdAt = BigInt(block.timestamp) * 1000n;
+    return {
+        address: created.args.escrow,
+        immutables: buildEvmImmutables(params, createdAt),
+        createdAt,
+        txHash: receipt.hash,
+        blockNumber: receipt.blockNumber
+    };
+}
@@ -0,0 +1,96 @@
+// tests/merkle-secrets-spec.ts
+import { HashLock } from '@1inch/cross-chain-sdk';
+import { hexlify, keccak256, toUtf8Bytes } from 'ethers';
+import { MerkleSecrets, hashPair, verifyMerkleProof } from './merkle-secrets';
+
+// Golden vectors shared with escrow/tests/merkle_golden_vectors_tests.move
+// (secrets are the SECRET0..SECRET4 constants of escrow_partial_fill_tests.move)
+const SECRETS = [0, 1, 2, 3, 4].map(i =>
+    hexlify(toUtf8Bytes(`secret${i}_32_bytes_long_${String(i).repeat(10)}`))
+);
+
+const ROOT_5 = '0x314b21db49a25bc0a926a76f88af25fc2d5746e8c4983935f29e62ccd543e017';
+const PROOFS_5 = [
+    [
+        '0xb721352a1a626aac88be4494cb2c0f18d2a922a04d6aefeb4039ef2c7a1de9d6',
+        '0x99cd45e732c32641353391e82c508dda8346f232e19eb1eba3ad9de085d6cd7b',
+        '0xdd678dc5e97d778b683b65f7333b856b3c1ed6d78ca94b9c25d00d5b49640d8d'
+    ],
+    [
+        '0xe293f85d6c1039c9d75aa1461975a5470eb1b64ef2bba05b6b9770f7e89c1598',
+        '0x99cd45e732c32641353391e82c508dda8346f232e19eb1eba3ad9de085d6cd7b',
+        '0xdd678dc5e97d778b683b65f7333b856b3c1ed6d78ca94b9c25d00d5b49640d8d'
+    ],
+    [
+        '0x9d2cd745596fd33110c7fccce316736e1fc94d6f776ad52d53ac00abf96ffd99',
+        '0x50d38c71d3e00258d9d9888e43dc5ab1c28f2ba6e3b635e6e18f34d2f85c388c',
+        '0xdd678dc5e97d778b683b65f7333b856b3c1ed6d78ca94b9c25d00d5b49640d8d'
+    ],
+    [
+        '0xf6bad70852e63491d1f300248938ec073d05ac4adf3749544a6bcf99fc4900b4',
+        '0x50d38c71d3e00258d9d9888e43dc5ab1c28f2ba6e3b635e6e18f34d2f85c388c',
+        '0xdd678dc5e97d778b683b65f7333b856b3c1ed6d78ca94b9c25d00d5b49640d8d'
+    ],
+    [
+        '0xbc392d0477c34cabbf3ac745fe13516d5ce92b86b23feb05a0f5ff509a56b35e',
+        '0x432fb4bb0fcc5a3adc4ea105515e3e73e75164b51dbdaeffdf6d90ac399657f1',
+        '0x8d8c2c42d8294bf4ee1aab0adaf13828e7c0aa8796222c1ef8d0bc2126428890'
+    ]
+];
+
+const ROOT_3 = '0xdfb618ad937c4923a697e9d74b8cff604a88a44683bc4c9eaef022c7d9afce6f';
+
+const UINT_240_MAX = (1n << 240n) - 1n;
+
+describe('MerkleSecrets', () => {
+    test('matches the Move golden root and proofs for 5 secrets', () => {
+        const tree = MerkleSecrets.fromSecrets(SECRETS);
+
+        expect(tree.partsAmount).toBe(4);
+        expect(tree.root).toBe(ROOT_5);
+        SECRETS.forEach((secret, i) => {
+            expect(tree.getLeaf(i)).toBe(keccak256(secret));
+            expect(tree.getProof(i)).toEqual(PROOFS_5[i]);
+            expect(verifyMerkleProof(keccak256(secret), ROOT_5, PROOFS_5[i])).toBe(true);
+        });
+    });
+
+    test('matches the Move golden root for an odd level of 3 secrets', () => {
+        const tree = MerkleSecrets.fromSecrets(SECRETS.slice(0, 3));
+
+        expect(tree.root).toBe(ROOT_3);
+        [0, 1, 2].forEach(i => expect(tree.verify(i)).toBe(true));
+    });
+
+    test('rejects a proof for the wrong leaf or a tampered node', () => {
+        const tree = MerkleSecrets.fromSecrets(SECRETS);
+        const tampered = [...PROOFS_5[0]];
+        tampered[1] = keccak256('0x00');
+
+        expect(verifyMerkleProof(tree.getLeaf(1), tree.root, PROOFS_5[0].slice(1))).toBe(false);
+        expect(verifyMerkleProof(tree.getLeaf(0), tree.root, tampered)).toBe(false);
+    });
+
+    test('generates parts + 1 distinct secrets with valid proofs', () => {
+        const tree = MerkleSecrets.generate(10);
+
+        expect(tree.secrets).toHaveLength(11);
+        expect(new Set(tree.secrets).size).toBe(11);
+        tree.secrets.forEach((_, i) => expect(tree.verify(i)).toBe(true));
+        expect(() => MerkleSecrets.generate(1)).toThrow();
+        expect(() => tree.getProof(11)).toThrow();
+    });
+
+    test('verifies proofs built by 1inch HashLock for the same secrets', () => {
+        const tree = MerkleSecrets.fromSecrets(SECRETS);
+        const hashLock = BigInt(tree.toOneInchHashLock().toString());
+        const leaves = HashLock.getMerkleLeaves(SECRETS);
+
+        expect(hashLock >> 240n).toBe(4n);
+        leaves.forEach((leaf, i) => {
+            const proof: string[] = HashLock.getProof(leaves, i);
+            const root = proof.reduce((acc, node) => hashPair(acc, node), leaf);
+            expect(BigInt(root) & UINT_240_MAX).toBe(hashLock & UINT_240_MAX);
+        });
+    });
+});
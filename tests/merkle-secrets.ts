@@ -0,0 +1,144 @@
+// tests/merkle-secrets.ts
+// Merkle tree of secrets for partial fills, compatible with escrow::utils::verify_merkle_proof:
+// leaves are keccak256(secret_i), parents are keccak256(min(a, b) || max(a, b)),
+// and an odd node at the end of a level is paired with itself.
+
+import { HashLock } from '@1inch/cross-chain-sdk';
+import { concat, getBytes, hexlify, keccak256, randomBytes } from 'ethers';
+
+/**
+ * Lexicographic byte comparison, mirror of utils::is_less_than
+ */
+export function isLessThan(a: string, b: string): boolean {
+    const bytesA = getBytes(a);
+    const bytesB = getBytes(b);
+    const minLen = Math.min(bytesA.length, bytesB.length);
+
+    for (let i = 0; i < minLen; i++) {
+        if (bytesA[i] !== bytesB[i]) {
+            return bytesA[i] < bytesB[i];
+        }
+    }
+
+    return bytesA.length < bytesB.length;
+}
+
+/**
+ * Sorted-pair parent hash, mirror of utils::hash_pair with the ordering done by the verifier
+ */
+export function hashPair(a: string, b: string): string {
+    return isLessThan(a, b) ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+/**
+ * Mirror of utils::verify_merkle_proof
+ */
+export function verifyMerkleProof(leaf: string, root: string, proof: string[]): boolean {
+    const computed = proof.reduce((current, node) => hashPair(current, node), leaf);
+    return computed.toLowerCase() === root.toLowerCase();
+}
+
+/**
+ * Build every level of the tree, leaves first and root last
+ */
+function buildLevels(leaves: string[]): string[][] {
+    if (leaves.length === 0) {
+        throw new Error('Cannot build a merkle tree without leaves');
+    }
+
+    const levels = [leaves];
+    while (levels[levels.length - 1].length > 1) {
+        const level = levels[levels.length - 1];
+        const next: string[] = [];
+        for (let i = 0; i < level.length; i += 2) {
+            // Duplicate the last node when the level is odd
+            next.push(hashPair(level[i], level[i + 1] ?? level[i]));
+        }
+        levels.push(next);
+    }
+
+    return levels;
+}
+
+/**
+ * The `parts_amount + 1` secrets of a partial-fill order and the merkle tree over them
+ */
+export class MerkleSecrets {
+    readonly leaves: string[];
+    readonly root: string;
+    private readonly levels: string[][];
+
+    private constructor(readonly secrets: string[]) {
+        this.leaves = secrets.map(secret => keccak256(secret));
+        this.levels = buildLevels(this.leaves);
+        this.root = this.levels[this.levels.length - 1][0];
+    }
+
+    /**
+     * Generate `partsAmount + 1` random 32-byte secrets
+     */
+    static generate(partsAmount: number): MerkleSecrets {
+        if (!Number.isInteger(partsAmount) || partsAmount <= 1 || partsAmount > 254) {
+            throw new Error(`partsAmount must be an integer between 2 and 254, got ${partsAmount}`);
+        }
+
+        const secrets = Array.from({ length: partsAmount + 1 }, () => hexlify(randomBytes(32)));
+        return new MerkleSecrets(secrets);
+    }
+
+    static fromSecrets(secrets: string[]): MerkleSecrets {
+        return new MerkleSecrets(secrets.map(secret => hexlify(secret)));
+    }
+
+    /**
+     * Number of parts the order is split into (one less than the secret count)
+     */
+    get partsAmount(): number {
+        return this.secrets.length - 1;
+    }
+
+    getSecret(index: number): string {
+        this.assertIndex(index);
+        return this.secrets[index];
+    }
+
+    /**
+     * keccak256(secret_i), used as the hashlock of the escrow filled with this index
+     */
+    getLeaf(index: number): string {
+        this.assertIndex(index);
+        return this.leaves[index];
+    }
+
+    getProof(index: number): string[] {
+        this.assertIndex(index);
+
+        const proof: string[] = [];
+        let idx = index;
+        for (const level of this.levels.slice(0, -1)) {
+            const siblingIdx = idx % 2 === 1 ? idx - 1 : Math.min(idx + 1, level.length - 1);
+            proof.push(level[siblingIdx]);
+            idx = Math.floor(idx / 2);
+        }
+
+        return proof;
+    }
+
+    verify(index: number): boolean {
+        return verifyMerkleProof(this.getLeaf(index), this.root, this.getProof(index));
+    }
+
+    /**
+     * Hashlock for the EVM side of the same order, as built by the 1inch SDK.
+     * 1inch leaves also commit to the index, so this root differs from `root`
+     */
+    toOneInchHashLock(): HashLock {
+        return HashLock.forMultipleFills(HashLock.getMerkleLeaves(this.secrets));
+    }
+
+    private assertIndex(index: number): void {
+        if (!Number.isInteger(index) || index < 0 || index >= this.secrets.length) {
+            throw new Error(`Secret index ${index} out of range 0..${this.partsAmount}`);
+        }
+    }
+}
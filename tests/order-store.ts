@@ -0,0 +1,101 @@
+// tests/order-store.ts
+// Local persistence for indexed escrow events, grouped by order hash. Raw parsedJson is
+// stored (it is plain JSON) and decoded on read, so the file stays stable across versions.
+
+import { EventId } from '@mysten/sui/client';
+import { existsSync, readFileSync } from 'fs';
+
+import { writeJsonAtomic } from './json-file';
+
+/**
+ * One escrow package event as kept in the store
+ */
+export interface StoredEvent {
+    id: EventId
+    type: string // full Move event type
+    orderHash: string
+    timestampMs: string | null
+    parsedJson: any
+}
+
+/**
+ * Storage used by EscrowEventIndexer; a SQLite version only needs these methods
+ */
+export interface OrderEventStore {
+    getCursor(stream: string): EventId | null
+    setCursor(stream: string, cursor: EventId | null): void
+    addEvent(event: StoredEvent): boolean // false when already stored
+    getEvents(orderHash: string): StoredEvent[]
+    getOrderHashes(): string[]
+    getEscrowType(escrowId: string): 'src' | 'dst' | undefined
+    setEscrowType(escrowId: string, escrowType: 'src' | 'dst'): void
+    flush(): void
+}
+
+interface StoreFile {
+    version: 1
+    cursors: Record<string, EventId | null>
+    escrowTypes: Record<string, 'src' | 'dst'>
+    orders: Record<string, StoredEvent[]>
+}
+
+function eventKey(id: EventId): string {
+    return `${id.txDigest}:${id.eventSeq}`;
+}
+
+/**
+ * Order event store backed by a single JSON file, written atomically on flush
+ */
+export class JsonOrderEventStore implements OrderEventStore {
+    private data: StoreFile;
+    private readonly seen = new Set<string>();
+
+    constructor(private readonly path: string) {
+        this.data = existsSync(path)
+            ? JSON.parse(readFileSync(path, 'utf8'))
+            : { version: 1, cursors: {}, escrowTypes: {}, orders: {} };
+
+        for (const events of Object.values(this.data.orders)) {
+            events.forEach(event => this.seen.add(eventKey(event.id)));
+        }
+    }
+
+    getCursor(stream: string): EventId | null {
+        return this.data.cursors[stream] ?? null;
+    }
+
+    setCursor(stream: string, cursor: EventId | null): void {
+        this.data.cursors[stream] = cursor;
+    }
+
+    addEvent(event: StoredEvent): boolean {
+        const key = eventKey(event.id);
+        if (this.seen.has(key)) {
+            return false;
+        }
+
+        this.seen.add(key);
+        (this.data.orders[event.orderHash] ??= []).push(event);
+        return true;
+    }
+
+    getEvents(orderHash: string): StoredEvent[] {
+        return this.data.orders[orderHash.toLowerCase()] ?? [];
+    }
+
+    getOrderHashes(): string[] {
+        return Object.keys(this.data.orders);
+    }
+
+    getEscrowType(escrowId: string): 'src' | 'dst' | undefined {
+        return this.data.escrowTypes[escrowId];
+    }
+
+    setEscrowType(escrowId: string, escrowType: 'src' | 'dst'): void {
+        this.data.escrowTypes[escrowId] = escrowType;
+    }
+
+    flush(): void {
+        writeJsonAtomic(this.path, this.data);
+    }
+}
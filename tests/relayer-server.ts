@@ -0,0 +1,46 @@
+// tests/relayer-server.ts
+// Starts the relayer HTTP API. Reads orders only, so it signs with throwaway keys.
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { JsonRpcProvider, Wallet } from 'ethers';
+
+import { ChainRegistry } from './chain-config';
+import { EvmEscrowClient } from './evm-escrow-client';
+import { EVMWallet } from './evm-wallet';
+import { JsonRelayerStore, Relayer, createRelayerApp } from './relayer';
+import { SuiIntegration } from './sui-integration';
+
+async function startRelayer() {
+    const chains = process.env.CHAIN_CONFIG ? ChainRegistry.fromFile(process.env.CHAIN_CONFIG) : new ChainRegistry();
+    const sui = chains.getSui();
+
+    const suiIntegration = new SuiIntegration(
+        process.env.SUI_RPC || sui.rpcUrl,
+        process.env.SUI_ESCROW_PACKAGE_ID || sui.packageId || '0x1234',
+        Ed25519Keypair.generate()
+    );
+
+    // One client per EVM chain in the config, comma separated ids in RELAYER_EVM_CHAINS
+    const evm = new Map<number, EvmEscrowClient>();
+    for (const chainId of (process.env.RELAYER_EVM_CHAINS ?? '1').split(',').map(Number)) {
+        const chain = chains.getEvm(chainId);
+        const provider = new JsonRpcProvider(chain.rpcUrl);
+        evm.set(chainId, await EvmEscrowClient.forChain(new EVMWallet(Wallet.createRandom(provider), provider), chain));
+    }
+
+    const store = new JsonRelayerStore(process.env.RELAYER_STORE || 'deployments/relayer-orders.json');
+    // Resolvers allowed to report escrows, comma separated EVM addresses in RELAYER_RESOLVERS
+    const resolvers = (process.env.RELAYER_RESOLVERS ?? '').split(',').filter(Boolean);
+    const relayer = new Relayer(store, suiIntegration, evm, chains, { resolvers });
+    const port = Number(process.env.RELAYER_PORT || 3000);
+    createRelayerApp(relayer).listen(port, () => {
+        console.log(`✅ Relayer listening on port ${port}`);
+    });
+}
+
+startRelayer().catch(error => {
+    console.error('❌ Relayer failed to start:', error);
+    process.exit(1);
+});
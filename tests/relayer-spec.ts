@@ -0,0 +1,251 @@
+// tests/relayer-spec.ts
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Wallet, ZeroAddress } from 'ethers';
+import { mkdtempSync, rmSync } from 'fs';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { signAddressBinding } from './address-binding';
+import { ChainRegistry } from './chain-config';
+import { BuiltCrossChainOrder, CrossChainOrderBuilder, getEvmTypedData } from './cross-chain-order-builder';
+import { EscrowStatus } from './escrow-stages';
+import { ExpectedEscrow, compareEscrowToOrder } from './escrow-verification';
+import { EvmEscrowClient, toEscrowState } from './evm-escrow-client';
+import { EscrowReport, JsonRelayerStore, Relayer, createRelayerApp, signEscrowReport } from './relayer';
+import type { EscrowState, SuiIntegration } from './sui-integration';
+
+const RESOLVER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const EVM_ESCROW = '0x00000000000000000000000000000000000e5c40';
+const SUI_ESCROW = '0x' + 'e5'.repeat(32);
+const CREATED_AT = 1_700_000_000_000n;
+const REPORTER = Wallet.createRandom(); // resolver key the relayer allows to report escrows
+
+/**
+ * Sui escrow object matching `built` as the resolver would deploy it
+ */
+function suiEscrow(built: BuiltCrossChainOrder, maker: string, clock: { now: bigint, hold?: Promise<void> }) {
+    const escrow: EscrowState = {
+        escrowId: SUI_ESCROW,
+        escrowType: 'dst',
+        coinType: built.suiToken.address,
+        immutables: {
+            orderHash: built.orderHash,
+            hashlock: built.hashlock,
+            maker,
+            taker: '0x' + '07'.repeat(32),
+            tokenType: built.suiToken.address,
+            amount: built.order.takingAmount,
+            safetyDeposit: built.order.escrowExtension.dstSafetyDeposit,
+            timelocks: built.timelocks
+        },
+        tokenBalance: built.order.takingAmount,
+        safetyDeposit: built.order.escrowExtension.dstSafetyDeposit,
+        createdAt: CREATED_AT,
+        status: EscrowStatus.Active
+    };
+    return {
+        verifyEscrowAgainstOrder: async (escrowId: string, expected: ExpectedEscrow) => {
+            await clock.hold;
+            const mismatches = compareEscrowToOrder(escrow, expected, clock.now, true);
+            return { escrowId, ok: mismatches.length === 0, mismatches, escrow };
+        }
+    } as unknown as SuiIntegration;
+}
+
+function evmClient(built: BuiltCrossChainOrder) {
+    return {
+        addressOfEscrow: async () => EVM_ESCROW,
+        getEscrow: async (address: string, escrowType: 'src' | 'dst', immutables: any) =>
+            toEscrowState(address, escrowType, immutables, EscrowStatus.Active, { token: built.order.makingAmount, native: 0n }),
+        getChainTimestamp: async () => CREATED_AT + built.timelocks.srcWithdrawal
+    } as unknown as EvmEscrowClient;
+}
+
+describe('Relayer API', () => {
+    let dir: string;
+    let server: Server;
+    let url: string;
+
+    const call = async (method: string, path: string, body?: unknown) => {
+        const res = await fetch(url + path, {
+            method,
+            headers: { 'Content-Type': 'application/json' },
+            body: body === undefined ? undefined : JSON.stringify(body)
+        });
+        return { status: res.status, body: await res.json() as any };
+    };
+
+    const report = async (orderHash: string, escrows: { src: EscrowReport, dst: EscrowReport }, signer = REPORTER) =>
+        call('POST', `/orders/${orderHash}/escrows`, await signEscrowReport(signer, orderHash, escrows));
+
+    const listen = async (relayer: Relayer) => {
+        server = createRelayerApp(relayer).listen(0, '127.0.0.1');
+        await new Promise(resolve => server.once('listening', resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    };
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'relayer-'));
+    });
+
+    afterEach(async () => {
+        await new Promise(resolve => server.close(resolve));
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    async function evmToSuiOrder() {
+        const maker = Wallet.createRandom();
+        const suiMaker = Ed25519Keypair.generate();
+        const built = CrossChainOrderBuilder.createOrder({
+            direction: 'EVM_TO_SUI',
+            evmChainId: CrossChainOrderBuilder.ARBITRUM_CHAIN_ID,
+            erc20Token: 'USDC',
+            erc20Amount: 100_000_000n,
+            suiAmount: 25_000_000_000n,
+            maker: maker.address,
+            resolver: RESOLVER
+        });
+        const { domain, types, message } = getEvmTypedData(built.order, new ChainRegistry().getEvm(built.srcChainId));
+        const request = {
+            direction: 'EVM_TO_SUI',
+            evmChainId: built.srcChainId,
+            order: {
+                order: built.order.build(),
+                extension: built.order.extension.encode(),
+                signature: await maker.signTypedData(domain, types, message)
+            },
+            suiToken: built.suiToken.address,
+            binding: await signAddressBinding(maker, suiMaker, built.orderHash)
+        };
+        return { built, request, suiMaker: suiMaker.toSuiAddress() };
+    }
+
+    test('shares the secret only once both escrows are verified and final', async () => {
+        const { built, request, suiMaker } = await evmToSuiOrder();
+        const clock = { now: CREATED_AT };
+        const relayer = new Relayer(
+            new JsonRelayerStore(join(dir, 'orders.json')),
+            suiEscrow(built, suiMaker, clock),
+            new Map([[built.srcChainId, evmClient(built)]]),
+            undefined,
+            { resolvers: [REPORTER.address] }
+        );
+        await listen(relayer);
+        const ready: string[] = [];
+        relayer.on('ready', order => ready.push(order.orderHash));
+
+        expect(await call('POST', '/orders', request)).toMatchObject({ status: 201, body: { orderHash: built.orderHash } });
+        expect((await call('POST', '/orders', request)).status).toBe(409);
+        expect((await call('GET', '/orders/active')).body).toHaveLength(1);
+
+        const hash = built.orderHash;
+        expect(await call('POST', `/orders/${hash}/secret`, { secret: built.secret }))
+            .toMatchObject({ status: 409, body: { problems: ['No escrows reported yet'] } });
+
+        const escrows = {
+            src: { escrowId: EVM_ESCROW, createdAt: CREATED_AT.toString(), taker: RESOLVER },
+            dst: { escrowId: SUI_ESCROW }
+        };
+        const reported = await report(hash, escrows);
+        expect(reported.body.status).toBe('active');
+        expect(reported.body.problems).toEqual([expect.stringMatching(`Escrow ${SUI_ESCROW} finality: .* got finality lock until`)]);
+
+        clock.now = CREATED_AT + built.timelocks.dstWithdrawal;
+        expect((await call('GET', `/orders/${hash}/ready-to-accept-secret`)).body).toMatchObject({ ready: true, problems: [] });
+        expect(ready).toEqual([hash]);
+
+        expect((await call('POST', `/orders/${hash}/secret`, { secret: '0x' + '00'.repeat(32) })).status).toBe(422);
+        expect((await call('POST', `/orders/${hash}/secret`, { secret: built.secret })).body.status).toBe('secret_shared');
+        expect((await call('GET', `/orders/${hash}`)).body.secret).toBe(built.secret);
+        expect(new JsonRelayerStore(join(dir, 'orders.json')).get(hash)?.status).toBe('secret_shared');
+    });
+
+    test('refuses malformed requests, forged orders and escrows that do not match', async () => {
+        const { built, request, suiMaker } = await evmToSuiOrder();
+        await listen(new Relayer(
+            new JsonRelayerStore(join(dir, 'orders.json')),
+            suiEscrow(built, suiMaker, { now: CREATED_AT + built.timelocks.dstPublicWithdrawal }),
+            new Map([[built.srcChainId, evmClient(built)]]),
+            undefined,
+            { resolvers: [REPORTER.address] }
+        ));
+
+        const invalid = await call('POST', '/orders', { ...request, evmChainId: 'arbitrum' });
+        expect(invalid.status).toBe(400);
+        expect(invalid.body.problems).toEqual([expect.stringMatching(/^evmChainId:/)]);
+        expect((await call('GET', '/orders/0x1234')).status).toBe(400);
+        expect((await call('GET', `/orders/${'0x' + '99'.repeat(32)}`)).status).toBe(404);
+
+        const forged = { ...request, order: { ...request.order, signature: await Wallet.createRandom().signMessage('x') } };
+        expect(await call('POST', '/orders', forged))
+            .toMatchObject({ status: 422, body: { error: expect.stringMatching(/not signed by its maker/) } });
+
+        await call('POST', '/orders', request);
+        const moved = await report(built.orderHash, {
+            src: { escrowId: ZeroAddress, createdAt: CREATED_AT.toString(), taker: RESOLVER },
+            dst: { escrowId: SUI_ESCROW }
+        });
+        // Refused outright, nothing is stored for escrows that do not verify
+        expect(moved.status).toBe(422);
+        expect(moved.body.problems).toEqual([expect.stringMatching(/does not match the order/)]);
+        expect((await call('GET', `/orders/${built.orderHash}`)).body.escrows).toEqual({});
+        expect((await call('POST', `/orders/${built.orderHash}/secret`, { secret: built.secret })).status).toBe(409);
+    });
+
+    test('takes escrow reports only from allowed resolvers and only while the order is active', async () => {
+        const { built, request, suiMaker } = await evmToSuiOrder();
+        await listen(new Relayer(
+            new JsonRelayerStore(join(dir, 'orders.json')),
+            suiEscrow(built, suiMaker, { now: CREATED_AT + built.timelocks.dstWithdrawal }),
+            new Map([[built.srcChainId, evmClient(built)]]),
+            undefined,
+            { resolvers: [REPORTER.address] }
+        ));
+        await call('POST', '/orders', request);
+
+        const hash = built.orderHash;
+        const escrows = {
+            src: { escrowId: EVM_ESCROW, createdAt: CREATED_AT.toString(), taker: RESOLVER },
+            dst: { escrowId: SUI_ESCROW }
+        };
+        expect((await call('POST', `/orders/${hash}/escrows`, { ...escrows, signature: '0x1234' })).status).toBe(401);
+        expect(await report(hash, escrows, Wallet.createRandom()))
+            .toMatchObject({ status: 403, body: { error: expect.stringMatching(/not an allowed resolver/) } });
+
+        expect((await report(hash, escrows)).body).toMatchObject({ status: 'ready', reportedBy: REPORTER.address });
+        // Sent again once ready it is a no-op, other escrows are refused
+        expect((await report(hash, escrows)).status).toBe(200);
+        expect((await report(hash, { ...escrows, dst: { escrowId: '0x' + 'f0'.repeat(32) } })).status).toBe(409);
+    });
+
+    test('an escrow check finishing after the secret was shared does not overwrite it', async () => {
+        const { built, request, suiMaker } = await evmToSuiOrder();
+        const clock: { now: bigint, hold?: Promise<void> } = { now: CREATED_AT + built.timelocks.dstWithdrawal };
+        const store = new JsonRelayerStore(join(dir, 'orders.json'));
+        const relayer = new Relayer(
+            store,
+            suiEscrow(built, suiMaker, clock),
+            new Map([[built.srcChainId, evmClient(built)]]),
+            undefined,
+            { resolvers: [REPORTER.address] }
+        );
+        await listen(relayer);
+        await call('POST', '/orders', request);
+        await report(built.orderHash, {
+            src: { escrowId: EVM_ESCROW, createdAt: CREATED_AT.toString(), taker: RESOLVER },
+            dst: { escrowId: SUI_ESCROW }
+        });
+
+        let release!: () => void;
+        clock.hold = new Promise(resolve => release = resolve);
+        const slowCheck = relayer.checkReady(built.orderHash);
+        clock.hold = undefined;
+
+        expect((await relayer.shareSecret(built.orderHash, built.secret)).status).toBe('secret_shared');
+        release();
+        expect((await slowCheck).status).toBe('secret_shared');
+        expect(store.get(built.orderHash)).toMatchObject({ status: 'secret_shared', secret: built.secret });
+    });
+});
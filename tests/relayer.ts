@@ -0,0 +1,662 @@
+// tests/relayer.ts
+// Relayer between makers and resolvers. Makers submit signed orders, resolvers poll for
+// them and report the escrows they deployed (signed, from an allowlist), and a maker's
+// secret is only passed on once both escrows have been checked on-chain and are past finality.
+
+import { CrossChainOrder, Extension } from '@1inch/cross-chain-sdk';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { Signer, getAddress, isAddress, keccak256, verifyMessage, verifyTypedData } from 'ethers';
+import { EventEmitter } from 'events';
+import express, { NextFunction, Request, Response } from 'express';
+import { existsSync, readFileSync } from 'fs';
+import { z } from 'zod';
+
+import { AddressBinding, verifyAddressBinding } from './address-binding';
+import { ChainRegistry, EvmChainConfig, SUI_CHAIN_ID, validateChainTimelocks } from './chain-config';
+import { getEvmOrderHash, getEvmTypedData, suiCoinTypeToEvmAddress } from './cross-chain-order-builder';
+import { EscrowStage, EscrowStatus, getStageInfo } from './escrow-stages';
+import { isBytes32 } from './escrow-validation';
+import { describeMismatches } from './escrow-verification';
+import { EvmEscrowClient, SignedEvmOrder, buildEvmImmutables } from './evm-escrow-client';
+import { writeJsonAtomic } from './json-file';
+import { SuiIntegration } from './sui-integration';
+import type { SwapDirection } from './swap-state';
+import { Timelocks } from './timelocks';
+
+export type RelayerOrderStatus =
+    | 'active' // waiting for a resolver
+    | 'ready' // both escrows verified, the maker may share the secret
+    | 'secret_shared';
+
+/**
+ * Escrow a resolver says it deployed. EVM escrows only store a hash of their immutables,
+ * so the relayer needs the creation time and taker to check them
+ */
+export interface EscrowReport {
+    escrowId: string // object id on Sui, contract address on EVM
+    createdAt?: string // ms, EVM only
+    taker?: string // resolver address, EVM only
+    amount?: string // EVM dst escrows only, when the resolver paid above the order's taking amount
+}
+
+/**
+ * Both escrows of an order as a resolver reports them
+ */
+export interface SignedEscrowReport {
+    src: EscrowReport
+    dst: EscrowReport
+    signature: string // resolver's EIP-191 signature of escrowReportMessage
+}
+
+/**
+ * An order as the relayer keeps it, JSON-safe (amounts are decimal strings)
+ */
+export interface RelayerOrder {
+    orderHash: string
+    direction: SwapDirection
+    status: RelayerOrderStatus
+    evmChainId: number
+    hashlock: string
+    maker: { evm: string, sui: string }
+    binding: AddressBinding // maker controls both addresses
+    makingAmount: string
+    takingAmount: string
+    srcSafetyDeposit: string
+    dstSafetyDeposit: string
+    timelocks: Record<string, string> // Timelocks.toJSON()
+    evmToken: string
+    suiToken: string // coin type
+    order?: SignedEvmOrder // EVM_TO_SUI
+    walletId?: string // SUI_TO_EVM
+    escrows: { src?: EscrowReport, dst?: EscrowReport }
+    reportedBy?: string // resolver that reported the escrows
+    problems: string[] // why the last escrow check failed
+    secret?: string // only once shared
+    submittedAt: number
+    updatedAt: number
+}
+
+/**
+ * A request the relayer refuses, with the HTTP status to answer it with
+ */
+export class RelayerError extends Error {
+    constructor(readonly status: number, message: string, readonly problems: string[] = []) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * A failed escrow check; pending ones (finality) clear up by themselves
+ */
+interface EscrowProblem {
+    message: string
+    pending: boolean
+}
+
+/**
+ * Statement a resolver signs to report the escrows of an order
+ */
+export function escrowReportMessage(orderHash: string, escrows: { src: EscrowReport, dst: EscrowReport }): string {
+    const line = (side: string, report: EscrowReport) => [
+        `${side}: ${report.escrowId.toLowerCase()}`,
+        `createdAt=${report.createdAt ?? '-'}`,
+        `taker=${report.taker?.toLowerCase() ?? '-'}`,
+        `amount=${report.amount ?? '-'}`
+    ].join(' ');
+
+    return [
+        'fuSUIon escrow report',
+        `Order: ${orderHash.toLowerCase()}`,
+        line('Src', escrows.src),
+        line('Dst', escrows.dst)
+    ].join('\n');
+}
+
+export async function signEscrowReport(
+    signer: Signer,
+    orderHash: string,
+    escrows: { src: EscrowReport, dst: EscrowReport }
+): Promise<SignedEscrowReport> {
+    return { ...escrows, signature: await signer.signMessage(escrowReportMessage(orderHash, escrows)) };
+}
+
+const bytes32 = z.string().refine(isBytes32, 'Expected 32 bytes of hex');
+const evmAddress = z.string().refine(value => isAddress(value), 'Expected an EVM address');
+const uint = z.string().regex(/^\d+$/, 'Expected a decimal integer');
+
+const bindingSchema = z.object({
+    evmAddress: z.string(),
+    suiAddress: z.string(),
+    orderHash: bytes32.optional(),
+    proof: z.discriminatedUnion('kind', [
+        z.object({ kind: z.literal('secp256k1'), publicKey: z.string() }),
+        z.object({ kind: z.literal('signatures'), evmSignature: z.string(), suiSignature: z.string() })
+    ])
+});
+
+const submitOrderSchema = z.discriminatedUnion('direction', [
+    z.object({
+        direction: z.literal('EVM_TO_SUI'),
+        evmChainId: z.number().int().positive(),
+        order: z.object({
+            order: z.object({
+                salt: z.string(),
+                maker: z.string(),
+                receiver: z.string(),
+                makerAsset: z.string(),
+                takerAsset: z.string(),
+                makingAmount: z.string(),
+                takingAmount: z.string(),
+                makerTraits: z.string()
+            }),
+            extension: z.string().startsWith('0x'),
+            signature: z.string().startsWith('0x')
+        }),
+        suiToken: z.string().min(1), // coin type the maker receives
+        binding: bindingSchema
+    }),
+    z.object({
+        direction: z.literal('SUI_TO_EVM'),
+        evmChainId: z.number().int().positive(),
+        walletId: z.string().min(1),
+        binding: bindingSchema
+    })
+]);
+
+const escrowReportSchema = z.object({
+    escrowId: z.string().min(1),
+    createdAt: uint.optional(),
+    taker: evmAddress.optional(),
+    amount: uint.optional()
+});
+
+const reportEscrowsSchema = z.object({
+    src: escrowReportSchema,
+    dst: escrowReportSchema,
+    signature: z.string().startsWith('0x')
+});
+
+const shareSecretSchema = z.object({ secret: bytes32 });
+
+export type SubmitOrderRequest = z.infer<typeof submitOrderSchema>;
+
+/**
+ * Orders in a JSON file, written atomically after every change
+ */
+export class JsonRelayerStore {
+    private orders: Record<string, RelayerOrder>;
+
+    constructor(private readonly path: string) {
+        this.orders = existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : {};
+    }
+
+    get(orderHash: string): RelayerOrder | undefined {
+        return this.orders[orderHash.toLowerCase()];
+    }
+
+    list(): RelayerOrder[] {
+        return Object.values(this.orders);
+    }
+
+    put(order: RelayerOrder): void {
+        this.orders[order.orderHash.toLowerCase()] = order;
+        this.flush();
+    }
+
+    private flush(): void {
+        writeJsonAtomic(this.path, this.orders);
+    }
+}
+
+function problem(message: string): EscrowProblem {
+    return { message, pending: false };
+}
+
+function parse<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, body: unknown): T {
+    const parsed = schema.safeParse(body);
+    if (!parsed.success) {
+        throw new RelayerError(400, 'Invalid request', parsed.error.issues.map(issue =>
+            `${issue.path.join('.') || 'body'}: ${issue.message}`
+        ));
+    }
+    return parsed.data;
+}
+
+/**
+ * Order book and secret hand-over. Emits 'order' for new orders, 'ready' once both
+ * escrows of an order check out and 'secret' when its maker shared the secret
+ */
+export class Relayer extends EventEmitter {
+    private readonly resolvers: Set<string>;
+
+    constructor(
+        private readonly store: JsonRelayerStore,
+        private readonly sui: SuiIntegration,
+        private readonly evm: Map<number, EvmEscrowClient>, // by chain id
+        private readonly chains: ChainRegistry = new ChainRegistry(),
+        options: {
+            resolvers?: string[] // EVM addresses allowed to report escrows, none by default
+        } = {}
+    ) {
+        super();
+        this.resolvers = new Set((options.resolvers ?? []).map(address => getAddress(address)));
+    }
+
+    /**
+     * Check a maker's order and add it to the book
+     */
+    async submitOrder(request: SubmitOrderRequest): Promise<RelayerOrder> {
+        const order = request.direction === 'EVM_TO_SUI'
+            ? this.evmSourceOrder(request)
+            : await this.suiSourceOrder(request);
+
+        try {
+            await verifyAddressBinding(request.binding, {
+                evmAddress: order.maker.evm,
+                suiAddress: order.maker.sui,
+                orderHash: order.orderHash
+            });
+        } catch (error) {
+            throw new RelayerError(422, (error as Error).message);
+        }
+
+        if (this.store.get(order.orderHash)) {
+            throw new RelayerError(409, `Order ${order.orderHash} was already submitted`);
+        }
+
+        this.store.put(order);
+        console.log(`🆕 Order ${order.orderHash} (${order.direction}) submitted`);
+        this.emit('order', order);
+        return order;
+    }
+
+    activeOrders(): RelayerOrder[] {
+        return this.store.list().filter(order => order.status === 'active');
+    }
+
+    getOrder(orderHash: string): RelayerOrder {
+        const order = this.store.get(orderHash);
+        if (!order) {
+            throw new RelayerError(404, `Unknown order ${orderHash}`);
+        }
+        return order;
+    }
+
+    /**
+     * Record the escrows an allowed resolver deployed for an order. Only escrows that
+     * match the order on-chain are taken (they may still be in their finality lock), and
+     * only while the order is active
+     */
+    async reportEscrows(orderHash: string, report: SignedEscrowReport): Promise<RelayerOrder> {
+        const { signature, ...escrows } = report;
+        const resolver = this.authenticate(orderHash, escrows, signature);
+
+        const order = this.getOrder(orderHash);
+        if (order.status !== 'active') {
+            if (order.escrows.src && order.escrows.dst &&
+                escrowReportMessage(orderHash, { src: order.escrows.src, dst: order.escrows.dst }) ===
+                escrowReportMessage(orderHash, escrows)) {
+                return order; // the report that made the order ready, sent again
+            }
+            throw new RelayerError(409, `Escrows of order ${orderHash} can no longer change, it is ${order.status}`);
+        }
+
+        const problems = (await this.verifyEscrows({ ...order, escrows })).filter(problem => !problem.pending);
+        if (problems.length > 0) {
+            throw new RelayerError(422, `Reported escrows do not match order ${orderHash}`, problems.map(problem => problem.message));
+        }
+
+        // Re-read, the order may have moved on while the escrows were checked
+        const current = this.getOrder(orderHash);
+        if (current.status !== 'active') {
+            throw new RelayerError(409, `Escrows of order ${orderHash} can no longer change, it is ${current.status}`);
+        }
+        this.store.put({ ...current, escrows, reportedBy: resolver, problems: [], updatedAt: Date.now() });
+        console.log(`➡️  Resolver ${resolver} reported the escrows of order ${orderHash}`);
+        return this.checkReady(orderHash);
+    }
+
+    /**
+     * Check the reported escrows on-chain; the order turns ready once both match it,
+     * hold the funds and are past their finality lock
+     */
+    async checkReady(orderHash: string): Promise<RelayerOrder> {
+        const order = this.getOrder(orderHash);
+        if (order.status === 'secret_shared') {
+            return order;
+        }
+
+        const problems = (await this.verifyEscrows(order)).map(problem => problem.message);
+
+        // Re-read and merge into the current record: the secret may have been shared or
+        // other escrows reported while this check was running
+        const current = this.getOrder(orderHash);
+        if (current.status === 'secret_shared' || JSON.stringify(current.escrows) !== JSON.stringify(order.escrows)) {
+            return current;
+        }
+        const status: RelayerOrderStatus = problems.length === 0 ? 'ready' : 'active';
+        const checked = { ...current, status, problems, updatedAt: Date.now() };
+        this.store.put(checked);
+
+        if (status === 'ready' && order.status !== 'ready') {
+            console.log(`✅ Order ${orderHash} ready to accept its secret`);
+            this.emit('ready', checked);
+        }
+        return checked;
+    }
+
+    /**
+     * Take the maker's secret and pass it on to resolvers, only after checking both
+     * escrows again
+     */
+    async shareSecret(orderHash: string, secret: string): Promise<RelayerOrder> {
+        const order = this.getOrder(orderHash);
+        if (keccak256(secret).toLowerCase() !== order.hashlock.toLowerCase()) {
+            throw new RelayerError(422, 'Secret does not match the order hashlock');
+        }
+        if (order.status === 'secret_shared') {
+            return order;
+        }
+
+        const checked = await this.checkReady(orderHash);
+        if (checked.status === 'secret_shared') {
+            return checked;
+        }
+        if (checked.status !== 'ready') {
+            throw new RelayerError(409, `Escrows of order ${orderHash} are not verified`, checked.problems);
+        }
+
+        const shared = { ...checked, status: 'secret_shared' as const, secret, updatedAt: Date.now() };
+        this.store.put(shared);
+        console.log(`🔑 Secret of order ${orderHash} shared`);
+        this.emit('secret', shared);
+        return shared;
+    }
+
+    /**
+     * The allowed resolver that signed an escrow report
+     */
+    private authenticate(orderHash: string, escrows: { src: EscrowReport, dst: EscrowReport }, signature: string): string {
+        let signer: string;
+        try {
+            signer = getAddress(verifyMessage(escrowReportMessage(orderHash, escrows), signature));
+        } catch {
+            throw new RelayerError(401, 'Escrow report signature does not verify');
+        }
+        if (!this.resolvers.has(signer)) {
+            throw new RelayerError(403, `${signer} is not an allowed resolver`);
+        }
+        return signer;
+    }
+
+    private evmSourceOrder(request: Extract<SubmitOrderRequest, { direction: 'EVM_TO_SUI' }>): RelayerOrder {
+        const chain = this.evmChain(request.evmChainId);
+
+        let order: CrossChainOrder;
+        try {
+            order = CrossChainOrder.fromDataAndExtension(request.order.order, Extension.decode(request.order.extension));
+        } catch (error) {
+            throw new RelayerError(422, `Order does not decode: ${(error as Error).message}`);
+        }
+
+        const ext = order.escrowExtension;
+        const maker = order.maker.toString();
+        const { domain, types, message } = getEvmTypedData(order, chain);
+        if (getAddress(verifyTypedData(domain, types, message, request.order.signature)) !== getAddress(maker)) {
+            throw new RelayerError(422, `Order is not signed by its maker ${maker}`);
+        }
+        if (ext.dstChainId !== SUI_CHAIN_ID) {
+            throw new RelayerError(422, `Order pays out on chain ${ext.dstChainId}, not on Sui`);
+        }
+        if (suiCoinTypeToEvmAddress(request.suiToken).toString() !== ext.dstToken.toString()) {
+            throw new RelayerError(422, `Order does not commit to coin type ${request.suiToken}`);
+        }
+
+        const timelocks = Timelocks.fromSdk(ext.timeLocks);
+        this.checkTimelocks(timelocks, request.evmChainId, 'EVM_TO_SUI');
+
+        const now = Date.now();
+        return {
+            orderHash: getEvmOrderHash(order, chain),
+            direction: 'EVM_TO_SUI',
+            status: 'active',
+            evmChainId: request.evmChainId,
+            hashlock: ext.hashLockInfo.toString(),
+            maker: { evm: getAddress(maker), sui: normalizeSuiAddress(request.binding.suiAddress) },
+            binding: request.binding,
+            makingAmount: order.makingAmount.toString(),
+            takingAmount: order.takingAmount.toString(),
+            srcSafetyDeposit: ext.srcSafetyDeposit.toString(),
+            dstSafetyDeposit: ext.dstSafetyDeposit.toString(),
+            timelocks: timelocks.toJSON(),
+            evmToken: getAddress(order.makerAsset.toString()),
+            suiToken: request.suiToken,
+            order: request.order,
+            escrows: {},
+            problems: [],
+            submittedAt: now,
+            updatedAt: now
+        };
+    }
+
+    private async suiSourceOrder(request: Extract<SubmitOrderRequest, { direction: 'SUI_TO_EVM' }>): Promise<RelayerOrder> {
+        let wallet;
+        try {
+            wallet = await this.sui.getWallet(request.walletId);
+        } catch (error) {
+            throw new RelayerError(422, (error as Error).message);
+        }
+
+        if (!wallet.isActive) {
+            throw new RelayerError(422, `Wallet ${request.walletId} is no longer active`);
+        }
+        if (wallet.allowPartialFills) {
+            throw new RelayerError(422, 'Partially fillable wallets are not relayed');
+        }
+        if (!isAddress(wallet.takerAsset)) {
+            throw new RelayerError(422, `Wallet taker asset ${wallet.takerAsset} is not an EVM token`);
+        }
+        this.checkTimelocks(wallet.timelocks, request.evmChainId, 'SUI_TO_EVM');
+
+        const now = Date.now();
+        return {
+            orderHash: wallet.orderHash,
+            direction: 'SUI_TO_EVM',
+            status: 'active',
+            evmChainId: request.evmChainId,
+            hashlock: wallet.hashlock,
+            maker: { evm: getAddress(request.binding.evmAddress), sui: normalizeSuiAddress(wallet.maker) },
+            binding: request.binding,
+            makingAmount: wallet.makingAmount.toString(),
+            takingAmount: wallet.takingAmount.toString(),
+            srcSafetyDeposit: wallet.srcSafetyDepositAmount.toString(),
+            dstSafetyDeposit: wallet.dstSafetyDepositAmount.toString(),
+            timelocks: wallet.timelocks.toJSON(),
+            evmToken: getAddress(wallet.takerAsset),
+            suiToken: wallet.tokenType,
+            walletId: request.walletId,
+            escrows: {},
+            problems: [],
+            submittedAt: now,
+            updatedAt: now
+        };
+    }
+
+    private evmChain(chainId: number): EvmChainConfig {
+        try {
+            return this.chains.getEvm(chainId);
+        } catch (error) {
+            throw new RelayerError(422, (error as Error).message);
+        }
+    }
+
+    private checkTimelocks(timelocks: Timelocks, evmChainId: number, direction: SwapDirection): void {
+        const evm = this.evmChain(evmChainId);
+        const sui = this.chains.getSui();
+        try {
+            validateChainTimelocks(timelocks, direction === 'EVM_TO_SUI' ? evm : sui, direction === 'EVM_TO_SUI' ? sui : evm);
+        } catch (error) {
+            throw new RelayerError(422, (error as Error).message);
+        }
+    }
+
+    private async verifyEscrows(order: RelayerOrder): Promise<EscrowProblem[]> {
+        const { src, dst } = order.escrows;
+        if (!src || !dst) {
+            return [{ message: 'No escrows reported yet', pending: true }];
+        }
+
+        const evmToSui = order.direction === 'EVM_TO_SUI';
+        const checks = await Promise.all([
+            evmToSui ? this.verifyEvmEscrow(order, 'src', src) : this.verifySuiEscrow(order, 'src', src),
+            evmToSui ? this.verifySuiEscrow(order, 'dst', dst) : this.verifyEvmEscrow(order, 'dst', dst)
+        ]);
+        return checks.flat();
+    }
+
+    private async verifySuiEscrow(order: RelayerOrder, escrowType: 'src' | 'dst', report: EscrowReport): Promise<EscrowProblem[]> {
+        try {
+            const { mismatches } = await this.sui.verifyEscrowAgainstOrder(report.escrowId, {
+                escrowType,
+                orderHash: order.orderHash,
+                hashlock: order.hashlock,
+                maker: order.maker.sui,
+                tokenType: order.suiToken,
+                amount: BigInt(escrowType === 'src' ? order.makingAmount : order.takingAmount),
+                safetyDeposit: BigInt(escrowType === 'src' ? order.srcSafetyDeposit : order.dstSafetyDeposit),
+                timelocks: Timelocks.fromJSON(order.timelocks)
+            });
+            return mismatches.map(mismatch => ({
+                message: describeMismatches(report.escrowId, [mismatch])[0],
+                pending: mismatch.check === 'finality'
+            }));
+        } catch (error) {
+            return [problem(`Sui ${escrowType} escrow ${report.escrowId}: ${(error as Error).message}`)];
+        }
+    }
+
+    private async verifyEvmEscrow(order: RelayerOrder, escrowType: 'src' | 'dst', report: EscrowReport): Promise<EscrowProblem[]> {
+        const label = `EVM ${escrowType} escrow ${report.escrowId}`;
+        const client = this.evm.get(order.evmChainId);
+        if (!client) {
+            return [problem(`No EVM client for chain ${order.evmChainId}`)];
+        }
+        if (!report.createdAt || !report.taker) {
+            return [problem(`${label} was reported without createdAt and taker`)];
+        }
+
+        try {
+            const amount = report.amount ?? (escrowType === 'src' ? order.makingAmount : order.takingAmount);
+            if (escrowType === 'src' ? amount !== order.makingAmount : BigInt(amount) < BigInt(order.takingAmount)) {
+                return [problem(`${label} was reported with amount ${amount}`)];
+            }
+
+            // The factory derives escrow addresses from the immutables, so a matching
+            // address proves the escrow was deployed for exactly these parameters
+            const immutables = buildEvmImmutables({
+                orderHash: order.orderHash,
+                hashlock: order.hashlock,
+                maker: order.maker.evm,
+                taker: report.taker,
+                token: order.evmToken,
+                amount: BigInt(amount),
+                safetyDeposit: BigInt(escrowType === 'src' ? order.srcSafetyDeposit : order.dstSafetyDeposit),
+                timelocks: Timelocks.fromJSON(order.timelocks)
+            }, BigInt(report.createdAt));
+            const expected = await client.addressOfEscrow(escrowType, immutables);
+            if (getAddress(expected) !== getAddress(report.escrowId)) {
+                return [problem(`${label} does not match the order, expected ${expected}`)];
+            }
+
+            const [escrow, now] = await Promise.all([
+                client.getEscrow(report.escrowId, escrowType, immutables),
+                client.getChainTimestamp()
+            ]);
+            const problems: EscrowProblem[] = [];
+            if (escrow.tokenBalance < BigInt(amount)) {
+                problems.push(problem(`${label} holds ${escrow.tokenBalance}, expected ${amount}`));
+            }
+            if (escrow.status !== EscrowStatus.Active) {
+                problems.push(problem(`${label} is no longer active`));
+            } else if (getStageInfo(escrow, now, report.taker).stage === EscrowStage.FinalityLock) {
+                problems.push({ message: `${label} is still in its finality lock`, pending: true });
+            }
+            return problems;
+        } catch (error) {
+            return [problem(`${label}: ${(error as Error).message}`)];
+        }
+    }
+}
+
+/**
+ * HTTP API over a Relayer. GET /events streams the relayer events (order, ready, secret)
+ * as server-sent events, so makers learn when to share their secret without polling
+ */
+export function createRelayerApp(relayer: Relayer): express.Express {
+    const app = express();
+    app.use(express.json());
+
+    const handle = (handler: (req: Request, res: Response) => Promise<unknown>) =>
+        (req: Request, res: Response, next: NextFunction) => {
+            handler(req, res).catch(next);
+        };
+
+    app.post('/orders', handle(async (req, res) => {
+        const order = await relayer.submitOrder(parse(submitOrderSchema, req.body));
+        res.status(201).json(order);
+    }));
+
+    app.get('/orders/active', handle(async (_req, res) => {
+        res.json(relayer.activeOrders());
+    }));
+
+    app.get('/orders/:hash', handle(async (req, res) => {
+        res.json(relayer.getOrder(parse(bytes32, req.params.hash)));
+    }));
+
+    app.post('/orders/:hash/escrows', handle(async (req, res) => {
+        const report = parse(reportEscrowsSchema, req.body);
+        res.json(await relayer.reportEscrows(parse(bytes32, req.params.hash), report));
+    }));
+
+    app.get('/orders/:hash/ready-to-accept-secret', handle(async (req, res) => {
+        const order = await relayer.checkReady(parse(bytes32, req.params.hash));
+        res.json({ orderHash: order.orderHash, ready: order.status !== 'active', problems: order.problems });
+    }));
+
+    app.post('/orders/:hash/secret', handle(async (req, res) => {
+        const { secret } = parse(shareSecretSchema, req.body);
+        res.json(await relayer.shareSecret(parse(bytes32, req.params.hash), secret));
+    }));
+
+    app.get('/events', (req, res) => {
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            Connection: 'keep-alive'
+        });
+
+        const listeners = (['order', 'ready', 'secret'] as const).map(event => {
+            const listener = (order: RelayerOrder) => {
+                res.write(`event: ${event}\ndata: ${JSON.stringify(order)}\n\n`);
+            };
+            relayer.on(event, listener);
+            return [event, listener] as const;
+        });
+        req.on('close', () => listeners.forEach(([event, listener]) => relayer.off(event, listener)));
+    });
+
+    app.use((error: unknown, _req: Request, res: Response, _next: NextFunction) => {
+        if (error instanceof RelayerError) {
+            res.status(error.status).json({ error: error.message, problems: error.problems });
+        } else if (error instanceof SyntaxError) {
+            res.status(400).json({ error: 'Malformed JSON body', problems: [] });
+        } else {
+            console.error('❌ Relayer request failed:', error);
+            res.status(500).json({ error: (error as Error).message, problems: [] });
+        }
+    });
+
+    return app;
+}
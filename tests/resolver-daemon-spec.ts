@@ -0,0 +1,355 @@
+// tests/resolver-daemon-spec.ts
+import { Wallet, keccak256, verifyMessage } from 'ethers';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { EscrowStage, EscrowStageInfo, EscrowStatus } from './escrow-stages';
+import { RelayerOrder, escrowReportMessage } from './relayer';
+import {
+    DeployedEscrow,
+    EscrowChain,
+    RelayerOrderFeed,
+    RelayerSecretSource,
+    ResolverDaemon,
+    SecretSource,
+    SuiEscrowChain,
+    SwapFeed
+} from './resolver-daemon';
+import { SuiIntegration } from './sui-integration';
+import { JsonSwapStore, SwapRecord, swapId } from './swap-state';
+import { Timelocks } from './timelocks';
+
+const SECRET = '0x' + '33'.repeat(32);
+const ORDER_HASH = '0x' + '11'.repeat(32);
+
+/**
+ * In-memory chain whose escrows all sit in `stage` until the test moves it
+ */
+class FakeChain implements EscrowChain {
+    stage = EscrowStage.FinalityLock;
+    readonly calls: string[] = [];
+    readonly escrows = new Map<'src' | 'dst', DeployedEscrow>();
+    // 'crash' lands the deploy but never returns, 'lost' neither lands nor returns
+    deployFault?: 'crash' | 'lost';
+    onDeploy?: () => void;
+
+    constructor(readonly chain: 'sui' | 'evm') {}
+
+    async deploySrc(): Promise<DeployedEscrow> {
+        return this.deploy('src', 1000n);
+    }
+
+    async deployDst(): Promise<DeployedEscrow> {
+        return this.deploy('dst', 2000n);
+    }
+
+    async findEscrow(escrowType: 'src' | 'dst'): Promise<DeployedEscrow | null> {
+        return this.escrows.get(escrowType) ?? null;
+    }
+
+    private async deploy(escrowType: 'src' | 'dst', createdAt: bigint): Promise<DeployedEscrow> {
+        this.calls.push(escrowType === 'src' ? 'deploySrc' : 'deployDst');
+        const escrow = { escrowId: `${this.chain}-${escrowType}`, createdAt };
+        if (this.deployFault !== 'lost') {
+            this.escrows.set(escrowType, escrow);
+        }
+        this.onDeploy?.();
+        if (this.deployFault) {
+            return new Promise(() => {});
+        }
+        return escrow;
+    }
+
+    async getStage(escrowId: string, escrowType: 'src' | 'dst'): Promise<EscrowStageInfo> {
+        const stage = this.stage;
+        return {
+            escrowId,
+            escrowType,
+            status: EscrowStatus.Active,
+            now: 0n,
+            stage,
+            nextStage: null,
+            nextStageAt: null,
+            actions: {
+                withdraw: stage === EscrowStage.ResolverExclusiveWithdraw,
+                publicWithdraw: stage === EscrowStage.PublicWithdraw,
+                cancel: stage === EscrowStage.ResolverExclusiveCancel || stage === EscrowStage.PublicCancel,
+                rescue: stage === EscrowStage.Rescue
+            }
+        };
+    }
+
+    async withdraw(escrowId: string): Promise<void> {
+        this.calls.push(`withdraw:${escrowId}`);
+    }
+
+    async cancel(escrowId: string): Promise<void> {
+        this.calls.push(`cancel:${escrowId}`);
+    }
+
+    async rescue(escrowId: string): Promise<void> {
+        this.calls.push(`rescue:${escrowId}`);
+    }
+}
+
+function discovered(): SwapRecord {
+    return {
+        id: swapId(ORDER_HASH, keccak256(SECRET)),
+        direction: 'SUI_TO_EVM',
+        phase: 'discovered',
+        orderHash: ORDER_HASH,
+        hashlock: keccak256(SECRET),
+        maker: { sui: '0x01', evm: '0x02' },
+        makingAmount: '1000',
+        takingAmount: '900',
+        srcSafetyDeposit: '10',
+        dstSafetyDeposit: '10',
+        timelocks: {},
+        walletId: '0xwallet',
+        closed: {},
+        history: [],
+        updatedAt: 0
+    };
+}
+
+describe('ResolverDaemon', () => {
+    let dir: string;
+    let path: string;
+    let sui: FakeChain;
+    let evm: FakeChain;
+    let logs: string[];
+
+    const feed: SwapFeed = { poll: async () => [discovered()] };
+    const secrets: SecretSource = { requestSecret: async () => SECRET };
+    const config = { evaluate: async () => ({ action: 'fill' as const, takingAmount: 950n }) };
+
+    function daemon(redeployAfterMs?: number): ResolverDaemon {
+        const log = (...args: unknown[]) => logs.push(args.join(' '));
+        return new ResolverDaemon(sui, evm, new JsonSwapStore(path), [feed], secrets, config, { redeployAfterMs, log });
+    }
+
+    // Start a tick whose deploy never returns, as if the process died right after sending
+    async function crashDuringDeploy(chain: FakeChain, fault: 'crash' | 'lost'): Promise<void> {
+        chain.deployFault = fault;
+        await new Promise<void>(resolve => {
+            chain.onDeploy = resolve;
+            void daemon().tick();
+        });
+        chain.deployFault = undefined;
+        chain.onDeploy = undefined;
+    }
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'resolver-daemon-'));
+        path = join(dir, 'swaps.json');
+        sui = new FakeChain('sui');
+        evm = new FakeChain('evm');
+        logs = [];
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('drives a SUI→EVM swap to completion across a restart', async () => {
+        await daemon().tick(); // discovered -> src_deploying -> src_deployed
+        await daemon().tick(); // src_deployed -> dst_deploying -> dst_deployed
+        await daemon().tick(); // still in finality, waits
+
+        let swap = new JsonSwapStore(path).list()[0];
+        expect(swap.phase).toBe('dst_deployed');
+        expect(swap.takingAmount).toBe('950');
+        expect(swap).toMatchObject({
+            srcEscrowId: 'sui-src',
+            srcCreatedAt: '1000',
+            dstEscrowId: 'evm-dst',
+            dstCreatedAt: '2000'
+        });
+
+        sui.stage = EscrowStage.ResolverExclusiveWithdraw;
+        evm.stage = EscrowStage.ResolverExclusiveWithdraw;
+        // A fresh daemon on the same store resumes where the last one stopped
+        for (let i = 0; i < 3; i++) {
+            await daemon().tick();
+        }
+
+        swap = new JsonSwapStore(path).list()[0];
+        expect(swap.phase).toBe('completed');
+        expect(swap.closed).toEqual({ dst: 'withdrawn', src: 'withdrawn' });
+        expect(evm.calls).toEqual(['deployDst', 'withdraw:evm-dst']);
+        expect(sui.calls).toEqual(['deploySrc', 'withdraw:sui-src']);
+        expect(logs[0]).toBe(`🆕 Discovered SUI_TO_EVM swap ${swap.id}`);
+    });
+
+    test('refunds both escrows when the swap times out', async () => {
+        const resolver = daemon();
+        await resolver.tick();
+        await resolver.tick();
+
+        sui.stage = EscrowStage.ResolverExclusiveCancel;
+        evm.stage = EscrowStage.ResolverExclusiveCancel;
+        await resolver.tick(); // dst_deployed -> refunding
+        await resolver.tick(); // cancels dst then src
+
+        const swap = new JsonSwapStore(path).list()[0];
+        expect(swap.phase).toBe('refunded');
+        expect(swap.closed).toEqual({ dst: 'cancelled', src: 'cancelled' });
+        expect(swap.history.map(entry => entry.phase)).toEqual([
+            'src_deploying',
+            'src_deployed',
+            'dst_deploying',
+            'dst_deployed',
+            'refunding',
+            'refunded'
+        ]);
+    });
+
+    test('finds an escrow deployed before a crash instead of deploying it again', async () => {
+        await crashDuringDeploy(sui, 'crash');
+
+        // The intent was persisted before the deploy went out
+        let swap = new JsonSwapStore(path).list()[0];
+        expect(swap.phase).toBe('src_deploying');
+        expect(swap.deploying).toMatchObject({ side: 'src' });
+
+        await daemon().tick(); // restarted: src_deploying -> src_deployed from the chain
+        await crashDuringDeploy(evm, 'crash');
+        await daemon().tick(); // dst_deploying -> dst_deployed from the chain
+
+        swap = new JsonSwapStore(path).list()[0];
+        expect(swap).toMatchObject({
+            phase: 'dst_deployed',
+            srcEscrowId: 'sui-src',
+            srcCreatedAt: '1000',
+            dstEscrowId: 'evm-dst',
+            dstCreatedAt: '2000'
+        });
+        expect(swap.deploying).toBeUndefined();
+        expect(sui.calls).toEqual(['deploySrc']);
+        expect(evm.calls).toEqual(['deployDst']);
+    });
+
+    test('sends a deploy that never landed again once it can no longer be in flight', async () => {
+        await crashDuringDeploy(sui, 'lost');
+
+        await daemon().tick(); // still within the grace period, waits
+        expect(new JsonSwapStore(path).list()[0].phase).toBe('src_deploying');
+        expect(sui.calls).toEqual(['deploySrc']);
+
+        await daemon(0).tick();
+        expect(new JsonSwapStore(path).list()[0]).toMatchObject({ phase: 'src_deployed', srcEscrowId: 'sui-src' });
+        expect(sui.calls).toEqual(['deploySrc', 'deploySrc']);
+    });
+
+    test('runs ticks until aborted with a single abort listener', async () => {
+        const resolver = daemon();
+        const ticks = jest.spyOn(resolver, 'tick');
+        const controller = new AbortController();
+        const added = jest.spyOn(controller.signal, 'addEventListener');
+        const removed = jest.spyOn(controller.signal, 'removeEventListener');
+
+        const running = resolver.run({ intervalMs: 1, signal: controller.signal });
+        while (ticks.mock.calls.length < 10) {
+            await new Promise(resolve => setTimeout(resolve, 5));
+        }
+        controller.abort();
+        await running;
+
+        expect(added).toHaveBeenCalledTimes(1);
+        expect(removed).toHaveBeenCalledWith('abort', added.mock.calls[0][1]);
+    });
+
+    test('takes orders from the relayer and reports the escrows before asking for the secret', async () => {
+        const order = {
+            orderHash: ORDER_HASH,
+            direction: 'EVM_TO_SUI',
+            status: 'active',
+            evmChainId: 42161,
+            hashlock: keccak256(SECRET),
+            maker: { evm: '0x02', sui: '0x01' },
+            makingAmount: '1000',
+            takingAmount: '900',
+            srcSafetyDeposit: '10',
+            dstSafetyDeposit: '10',
+            timelocks: {},
+            evmToken: '0x03',
+            suiToken: '0x2::sui::SUI',
+            order: { order: {}, extension: '0x', signature: '0x' },
+            escrows: {},
+            problems: []
+        } as unknown as RelayerOrder;
+        const requests: [string, string, any][] = [];
+        const fetch = jest.spyOn(global, 'fetch').mockImplementation(async (url, init) => {
+            requests.push([init?.method ?? 'GET', String(url), init?.body && JSON.parse(String(init.body))]);
+            const body = String(url).endsWith('/orders/active') ? [order, { ...order, evmChainId: 1 }] : order;
+            return new Response(JSON.stringify(body), { status: 200 });
+        });
+
+        try {
+            const [swap] = await new RelayerOrderFeed('http://relayer', 42161).poll();
+            expect(swap).toMatchObject({ id: discovered().id, direction: 'EVM_TO_SUI', phase: 'discovered', order: order.order });
+
+            const resolver = Wallet.createRandom();
+            const source = new RelayerSecretSource('http://relayer', resolver, () => '0x07');
+            const deployed = { ...swap, srcEscrowId: '0xe5', srcCreatedAt: '1000', dstEscrowId: '0xd5', dstCreatedAt: '2000' };
+            expect(await source.requestSecret(deployed)).toBeNull();
+            const escrows = { src: { escrowId: '0xe5', createdAt: '1000', taker: '0x07' }, dst: { escrowId: '0xd5' } };
+            expect(requests[2]).toEqual(['POST', `http://relayer/orders/${ORDER_HASH}/escrows`, { ...escrows, signature: expect.any(String) }]);
+            expect(verifyMessage(escrowReportMessage(ORDER_HASH, escrows), requests[2][2].signature)).toBe(resolver.address);
+
+            order.escrows = { src: { escrowId: '0xE5' }, dst: { escrowId: '0xd5' } };
+            order.secret = SECRET;
+            expect(await source.requestSecret(deployed)).toBe(SECRET);
+            expect(requests).toHaveLength(4);
+        } finally {
+            fetch.mockRestore();
+        }
+    });
+});
+
+describe('SuiEscrowChain', () => {
+    test('funds the destination escrow in the coin type of a relayer order', async () => {
+        const usdc = '0x' + 'cc'.repeat(32) + '::usdc::USDC';
+        const timelocks = Timelocks.new({
+            srcWithdrawal: 10n, srcPublicWithdrawal: 20n, srcCancellation: 30n, srcPublicCancellation: 40n,
+            dstWithdrawal: 10n, dstPublicWithdrawal: 20n, dstCancellation: 30n
+        });
+        const order = {
+            orderHash: ORDER_HASH,
+            direction: 'EVM_TO_SUI',
+            evmChainId: 42161,
+            hashlock: keccak256(SECRET),
+            maker: { evm: '0x02', sui: '0x01' },
+            binding: { evmAddress: '0x02', suiAddress: '0x01', signature: '0x' },
+            makingAmount: '1000',
+            takingAmount: '900',
+            srcSafetyDeposit: '10',
+            dstSafetyDeposit: '10',
+            timelocks: timelocks.toJSON(),
+            evmToken: '0x03',
+            suiToken: usdc
+        } as unknown as RelayerOrder;
+        const fetch = jest.spyOn(global, 'fetch').mockImplementation(async () => new Response(JSON.stringify([order])));
+
+        const created: unknown[][] = [];
+        const sui = {
+            createDstEscrow: async (...args: unknown[]) => {
+                created.push(args);
+                return '0xd5';
+            },
+            getEscrow: async () => ({ createdAt: 2000n })
+        } as unknown as SuiIntegration;
+
+        try {
+            const [swap] = await new RelayerOrderFeed('http://relayer', 42161).poll();
+            expect(swap.suiToken).toBe(usdc);
+
+            expect(await new SuiEscrowChain(sui).deployDst(swap)).toEqual({ escrowId: '0xd5', createdAt: 2000n });
+            expect(created).toEqual([[ORDER_HASH, keccak256(SECRET), { evmAddress: '0x02', binding: order.binding },
+                900n, 10n, timelocks, usdc]]);
+        } finally {
+            fetch.mockRestore();
+        }
+    });
+});
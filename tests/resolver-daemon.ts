@@ -0,0 +1,729 @@
+// tests/resolver-daemon.ts
+// Resolver process: discovers swaps, deploys the source and destination escrows, waits for
+// finality and the secret, withdraws on both chains, and refunds or rescues on timeout.
+// Each call to `advance` performs at most one on-chain step and persists the new phase;
+// deploys are written down before they are sent so a restart never deploys twice.
+
+import type { Immutables } from '@1inch/cross-chain-sdk';
+import { Signer, keccak256 } from 'ethers';
+
+import { getTakingAmount, whenPriceReached } from './auction-quoter';
+import { AddressBinding, verifyAddressBinding } from './address-binding';
+import { pollUntilAborted } from './chain-waits';
+import { EscrowEventIndexer } from './event-indexer';
+import { EscrowStage, EscrowStageInfo } from './escrow-stages';
+import { EvmEscrowClient, EvmImmutablesParams, buildEvmImmutables } from './evm-escrow-client';
+import { EscrowReport, RelayerOrder, signEscrowReport } from './relayer';
+import { SuiIntegration } from './sui-integration';
+import { WalletCreatedEvent } from './sui-events';
+import { JsonSwapStore, SwapRecord, isTerminal, swapId, transition } from './swap-state';
+import { Timelocks } from './timelocks';
+
+export interface DeployedEscrow {
+    escrowId: string // object id on Sui, contract address on EVM
+    createdAt: bigint // ms
+}
+
+/**
+ * One chain's escrow operations as the daemon needs them
+ */
+export interface EscrowChain {
+    readonly chain: 'sui' | 'evm'
+    // `onSubmitted` gets the transaction digest before it is sent, where the chain allows it
+    deploySrc(swap: SwapRecord, onSubmitted?: (txDigest: string) => void): Promise<DeployedEscrow>
+    deployDst(swap: SwapRecord, onSubmitted?: (txDigest: string) => void): Promise<DeployedEscrow>
+    // Escrow of a deploy interrupted by a crash, null if it never landed (or has not yet)
+    findEscrow(escrowType: 'src' | 'dst', swap: SwapRecord): Promise<DeployedEscrow | null>
+    getStage(escrowId: string, escrowType: 'src' | 'dst', swap: SwapRecord): Promise<EscrowStageInfo>
+    withdraw(escrowId: string, escrowType: 'src' | 'dst', secret: string, swap: SwapRecord): Promise<void>
+    cancel(escrowId: string, escrowType: 'src' | 'dst', swap: SwapRecord): Promise<void>
+    rescue(escrowId: string, escrowType: 'src' | 'dst', swap: SwapRecord): Promise<void>
+}
+
+/**
+ * Source of new swaps, returned in the `discovered` phase
+ */
+export interface SwapFeed {
+    poll(): Promise<SwapRecord[]>
+}
+
+/**
+ * Hands over the maker's secret once both escrows are deployed and final
+ */
+export interface SecretSource {
+    requestSecret(swap: SwapRecord): Promise<string | null>
+}
+
+export type FillDecision =
+    | { action: 'fill', takingAmount: bigint } // amount the resolver pays on the destination chain
+    | { action: 'wait' }
+    | { action: 'skip' };
+
+export interface ResolverConfig {
+    /**
+     * Decide whether to fill a discovered swap now, wait for a better auction price, or drop it
+     */
+    evaluate(swap: SwapRecord): Promise<FillDecision>
+}
+
+/**
+ * Fills Sui wallets once the Dutch auction price drops to what the resolver is willing
+ * to pay, priced with the same math as create_escrow_src
+ */
+export class DutchAuctionEvaluator implements ResolverConfig {
+    constructor(
+        private readonly sui: SuiIntegration,
+        // Most the resolver pays on the destination chain for the whole swap
+        private readonly maxTakingAmount: (swap: SwapRecord) => bigint | Promise<bigint>
+    ) {}
+
+    async evaluate(swap: SwapRecord): Promise<FillDecision> {
+        // EVM orders are priced by the 1inch auction on the EVM side
+        if (swap.direction !== 'SUI_TO_EVM' || !swap.walletId) {
+            return { action: 'fill', takingAmount: BigInt(swap.takingAmount) };
+        }
+
+        const [wallet, now] = await Promise.all([
+            this.sui.getWallet(swap.walletId),
+            this.sui.getClockTimestamp()
+        ]);
+        if (!wallet.isActive) {
+            return { action: 'skip' };
+        }
+
+        const makingAmount = BigInt(swap.makingAmount);
+        const price = getTakingAmount(wallet, makingAmount, now);
+        const max = await this.maxTakingAmount(swap);
+        if (price <= max) {
+            return { action: 'fill', takingAmount: price };
+        }
+
+        return whenPriceReached(wallet, makingAmount, max) === null
+            ? { action: 'skip' }
+            : { action: 'wait' };
+    }
+}
+
+/**
+ * EscrowChain backed by SuiIntegration
+ */
+export class SuiEscrowChain implements EscrowChain {
+    readonly chain = 'sui';
+
+    constructor(private readonly sui: SuiIntegration) {}
+
+    async deploySrc(swap: SwapRecord): Promise<DeployedEscrow> {
+        if (!swap.walletId) {
+            throw new Error(`Swap ${swap.id} has no Sui wallet to fill`);
+        }
+
+        const escrow = await this.sui.fillWallet(swap.walletId, BigInt(swap.makingAmount), {
+            takingAmount: BigInt(swap.takingAmount),
+            safetyDeposit: BigInt(swap.srcSafetyDeposit),
+            // Full fills only: the wallet hashlock is the secret hash, no merkle proof
+            getSecretProof: () => ({ hashlock: swap.hashlock, proof: [] })
+        });
+        return { escrowId: escrow.escrowId, createdAt: escrow.createdAt };
+    }
+
+    async deployDst(swap: SwapRecord): Promise<DeployedEscrow> {
+        if (!swap.maker.evm || !swap.binding) {
+            throw new Error(`Swap ${swap.id} has no maker address binding for the Sui escrow`);
+        }
+        if (!swap.suiToken) {
+            throw new Error(`Swap ${swap.id} has no Sui coin type`);
+        }
+
+        // createDstEscrow checks the binding against the order's EVM maker
+        const escrowId = await this.sui.createDstEscrow(
+            swap.orderHash,
+            swap.hashlock,
+            { evmAddress: swap.maker.evm, binding: swap.binding },
+            BigInt(swap.takingAmount),
+            BigInt(swap.dstSafetyDeposit),
+            Timelocks.fromJSON(swap.timelocks),
+            swap.suiToken
+        );
+        const { createdAt } = await this.sui.getEscrow(escrowId);
+        return { escrowId, createdAt };
+    }
+
+    async findEscrow(escrowType: 'src' | 'dst', swap: SwapRecord): Promise<DeployedEscrow | null> {
+        const escrow = await this.sui.findEscrow(escrowType, swap.orderHash, swap.hashlock);
+        return escrow && { escrowId: escrow.escrowId, createdAt: escrow.createdAt };
+    }
+
+    async getStage(escrowId: string): Promise<EscrowStageInfo> {
+        return this.sui.getEscrowStage(escrowId);
+    }
+
+    async withdraw(escrowId: string, escrowType: 'src' | 'dst', secret: string): Promise<void> {
+        const { coinType } = await this.sui.getEscrow(escrowId);
+        await this.sui.withdraw(escrowId, escrowType, secret, coinType);
+    }
+
+    async cancel(escrowId: string, escrowType: 'src' | 'dst'): Promise<void> {
+        const { coinType } = await this.sui.getEscrow(escrowId);
+        await this.sui.cancel(escrowId, escrowType, coinType);
+    }
+
+    async rescue(escrowId: string, escrowType: 'src' | 'dst'): Promise<void> {
+        if (escrowType === 'src') {
+            await this.sui.rescueSrc(escrowId);
+        } else {
+            await this.sui.rescueDst(escrowId);
+        }
+    }
+}
+
+/**
+ * EscrowChain backed by EvmEscrowClient. EVM escrows only store a hash of their
+ * immutables, so they are rebuilt from the swap record on every call
+ */
+export class EvmEscrowChain implements EscrowChain {
+    readonly chain = 'evm';
+
+    constructor(private readonly evm: EvmEscrowClient) {}
+
+    async deploySrc(swap: SwapRecord, onSubmitted?: (txDigest: string) => void): Promise<DeployedEscrow> {
+        if (!swap.order) {
+            throw new Error(`Swap ${swap.id} has no signed order to fill`);
+        }
+
+        const { address, createdAt } = await this.evm.createSrcEscrow(
+            swap.order,
+            await this.immutablesParams(swap, 'src'),
+            { onSubmitted }
+        );
+        return { escrowId: address, createdAt };
+    }
+
+    async deployDst(swap: SwapRecord, onSubmitted?: (txDigest: string) => void): Promise<DeployedEscrow> {
+        if (!swap.srcCreatedAt) {
+            throw new Error(`Swap ${swap.id} has no source escrow creation time`);
+        }
+
+        // The Sui maker must control the EVM address the escrow pays out to
+        await verifyAddressBinding(swap.binding, {
+            evmAddress: swap.maker.evm,
+            suiAddress: swap.maker.sui,
+            orderHash: swap.orderHash
+        });
+
+        const params = await this.immutablesParams(swap, 'dst');
+        const srcCancellationAt = BigInt(swap.srcCreatedAt) + params.timelocks.srcCancellation;
+        const { address, createdAt } = await this.evm.createDstEscrow(params, srcCancellationAt, { onSubmitted });
+        return { escrowId: address, createdAt };
+    }
+
+    /**
+     * EVM escrows are found through the deploy transaction recorded before it was sent;
+     * without one the deploy was never broadcast
+     */
+    async findEscrow(escrowType: 'src' | 'dst', swap: SwapRecord): Promise<DeployedEscrow | null> {
+        const txHash = swap.deploying?.txDigest;
+        if (!txHash) {
+            return null;
+        }
+        const deployed = await this.evm.getDeployment(txHash, escrowType, await this.immutablesParams(swap, escrowType));
+        return deployed && { escrowId: deployed.address, createdAt: deployed.createdAt };
+    }
+
+    async getStage(escrowId: string, escrowType: 'src' | 'dst', swap: SwapRecord): Promise<EscrowStageInfo> {
+        return this.evm.getEscrowStage(escrowId, escrowType, await this.immutables(swap, escrowType));
+    }
+
+    async withdraw(escrowId: string, escrowType: 'src' | 'dst', secret: string, swap: SwapRecord): Promise<void> {
+        const immutables = await this.immutables(swap, escrowType);
+        const stage = await this.evm.getEscrowStage(escrowId, escrowType, immutables);
+        if (stage.actions.withdraw) {
+            await this.evm.withdraw(escrowId, escrowType, secret, immutables);
+        } else {
+            await this.evm.publicWithdraw(escrowId, escrowType, secret, immutables);
+        }
+    }
+
+    async cancel(escrowId: string, escrowType: 'src' | 'dst', swap: SwapRecord): Promise<void> {
+        await this.evm.cancel(escrowId, escrowType, await this.immutables(swap, escrowType));
+    }
+
+    async rescue(escrowId: string, escrowType: 'src' | 'dst', swap: SwapRecord): Promise<void> {
+        await this.evm.rescue(escrowId, escrowType, await this.immutables(swap, escrowType));
+    }
+
+    private async immutables(swap: SwapRecord, escrowType: 'src' | 'dst'): Promise<Immutables> {
+        const createdAt = escrowType === 'src' ? swap.srcCreatedAt : swap.dstCreatedAt;
+        if (!createdAt) {
+            throw new Error(`Swap ${swap.id} has no ${escrowType} escrow creation time`);
+        }
+        return buildEvmImmutables(await this.immutablesParams(swap, escrowType), BigInt(createdAt));
+    }
+
+    private async immutablesParams(swap: SwapRecord, escrowType: 'src' | 'dst'): Promise<EvmImmutablesParams> {
+        if (!swap.maker.evm || !swap.evmToken) {
+            throw new Error(`Swap ${swap.id} has no EVM maker or token`);
+        }
+
+        return {
+            orderHash: swap.orderHash,
+            hashlock: swap.hashlock,
+            maker: swap.maker.evm,
+            taker: await this.evm.getTakerAddress(escrowType),
+            token: swap.evmToken,
+            amount: BigInt(escrowType === 'src' ? swap.makingAmount : swap.takingAmount),
+            safetyDeposit: BigInt(escrowType === 'src' ? swap.srcSafetyDeposit : swap.dstSafetyDeposit),
+            timelocks: Timelocks.fromJSON(swap.timelocks)
+        };
+    }
+}
+
+/**
+ * Full-fill Sui wallets found by the event indexer, as SUI_TO_EVM swaps
+ */
+export class SuiWalletFeed implements SwapFeed {
+    // Coin type of each wallet seen so far, the WalletCreated event does not carry it
+    private readonly tokenTypes = new Map<string, string>();
+    private readonly log: (...args: unknown[]) => void;
+
+    constructor(
+        private readonly indexer: EscrowEventIndexer,
+        private readonly sui: SuiIntegration,
+        // Binding of the wallet maker to the EVM address receiving the taker asset, if known
+        private readonly bindingOf: (wallet: WalletCreatedEvent) => AddressBinding | undefined,
+        options: { log?: (...args: unknown[]) => void } = {} // progress messages, console.log by default
+    ) {
+        this.log = options.log ?? console.log;
+    }
+
+    async poll(): Promise<SwapRecord[]> {
+        await this.indexer.sync();
+
+        const swaps: SwapRecord[] = [];
+        for (const order of this.indexer.getOrders()) {
+            for (const { created, status } of order.wallets) {
+                if (!created || status !== 'active' || created.allowPartialFills) {
+                    continue;
+                }
+                const binding = this.bindingOf(created);
+                if (!binding) {
+                    continue;
+                }
+                try {
+                    await verifyAddressBinding(binding, { suiAddress: created.maker, orderHash: created.orderHash });
+                } catch (error) {
+                    this.log(`❌ Ignoring wallet ${created.walletId}:`, (error as Error).message);
+                    continue;
+                }
+
+                swaps.push({
+                    id: swapId(created.orderHash, created.hashlock),
+                    direction: 'SUI_TO_EVM',
+                    phase: 'discovered',
+                    orderHash: created.orderHash,
+                    hashlock: created.hashlock,
+                    maker: { sui: created.maker, evm: binding.evmAddress },
+                    makingAmount: created.makingAmount.toString(),
+                    takingAmount: created.takingAmount.toString(),
+                    srcSafetyDeposit: created.srcSafetyDepositAmount.toString(),
+                    dstSafetyDeposit: created.dstSafetyDepositAmount.toString(),
+                    timelocks: created.timelocks.toJSON(),
+                    walletId: created.walletId,
+                    evmToken: created.takerAsset,
+                    suiToken: await this.tokenType(created.walletId),
+                    binding,
+                    closed: {},
+                    history: [{ phase: 'discovered', at: Date.now() }],
+                    updatedAt: Date.now()
+                });
+            }
+        }
+        return swaps;
+    }
+
+    private async tokenType(walletId: string): Promise<string> {
+        let tokenType = this.tokenTypes.get(walletId);
+        if (!tokenType) {
+            tokenType = (await this.sui.getWallet(walletId)).tokenType;
+            this.tokenTypes.set(walletId, tokenType);
+        }
+        return tokenType;
+    }
+}
+
+async function relayerRequest<T>(url: string, init?: { method: 'POST', body: unknown }): Promise<T> {
+    const res = await fetch(url, init && {
+        method: init.method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(init.body)
+    });
+    const body: unknown = await res.json();
+    if (!res.ok) {
+        // Error answers carry { error, problems }
+        const { error, problems } = (body ?? {}) as { error?: string, problems?: string[] };
+        const details = problems?.length ? ` (${problems.join('; ')})` : '';
+        throw new Error(`Relayer answered ${res.status} for ${url}: ${error ?? 'no error message'}${details}`);
+    }
+    return body as T;
+}
+
+/**
+ * Orders waiting for a resolver on the relayer, in both directions. EVM_TO_SUI orders
+ * carry the maker's signed 1inch order the daemon fills to deploy the source escrow
+ */
+export class RelayerOrderFeed implements SwapFeed {
+    constructor(
+        private readonly relayerUrl: string,
+        private readonly evmChainId: number // the chain this resolver's EVM client serves
+    ) {}
+
+    async poll(): Promise<SwapRecord[]> {
+        const orders = await relayerRequest<RelayerOrder[]>(`${this.relayerUrl}/orders/active`);
+        return orders
+            .filter(order => order.evmChainId === this.evmChainId)
+            .map(order => ({
+                id: swapId(order.orderHash, order.hashlock),
+                direction: order.direction,
+                phase: 'discovered' as const,
+                orderHash: order.orderHash,
+                hashlock: order.hashlock,
+                maker: { ...order.maker },
+                binding: order.binding,
+                makingAmount: order.makingAmount,
+                takingAmount: order.takingAmount,
+                srcSafetyDeposit: order.srcSafetyDeposit,
+                dstSafetyDeposit: order.dstSafetyDeposit,
+                timelocks: order.timelocks,
+                walletId: order.walletId,
+                order: order.order,
+                evmToken: order.evmToken,
+                suiToken: order.suiToken,
+                closed: {},
+                history: [{ phase: 'discovered' as const, at: Date.now() }],
+                updatedAt: Date.now()
+            }));
+    }
+}
+
+/**
+ * Secrets handed over by the relayer: reports the deployed escrows, signed by a resolver
+ * key the relayer allows, then polls the order until its maker shared the secret
+ */
+export class RelayerSecretSource implements SecretSource {
+    private readonly log: (...args: unknown[]) => void;
+
+    constructor(
+        private readonly relayerUrl: string,
+        private readonly signer: Signer,
+        // Taker of the resolver's EVM escrows, part of their immutables
+        private readonly evmTaker: (escrowType: 'src' | 'dst') => string | Promise<string>,
+        options: { log?: (...args: unknown[]) => void } = {} // progress messages, console.log by default
+    ) {
+        this.log = options.log ?? console.log;
+    }
+
+    async requestSecret(swap: SwapRecord): Promise<string | null> {
+        const url = `${this.relayerUrl}/orders/${swap.orderHash}`;
+        const order = await relayerRequest<RelayerOrder>(url);
+        if (order.secret) {
+            return order.secret;
+        }
+
+        const reported = (['src', 'dst'] as const).every(side => {
+            const escrowId = side === 'src' ? swap.srcEscrowId : swap.dstEscrowId;
+            return order.escrows[side]?.escrowId.toLowerCase() === escrowId?.toLowerCase() && escrowId !== undefined;
+        });
+        if (!reported) {
+            const escrows = { src: await this.report(swap, 'src'), dst: await this.report(swap, 'dst') };
+            const report = await signEscrowReport(this.signer, swap.orderHash, escrows);
+            await relayerRequest<RelayerOrder>(`${url}/escrows`, { method: 'POST', body: report });
+            this.log(`➡️  Reported the escrows of ${swap.id} to the relayer`);
+        }
+        return null;
+    }
+
+    private async report(swap: SwapRecord, escrowType: 'src' | 'dst'): Promise<EscrowReport> {
+        const escrowId = escrowType === 'src' ? swap.srcEscrowId : swap.dstEscrowId;
+        if (!escrowId) {
+            throw new Error(`Swap ${swap.id} has no ${escrowType} escrow to report`);
+        }
+        const onEvm = (swap.direction === 'EVM_TO_SUI') === (escrowType === 'src');
+        if (!onEvm) {
+            return { escrowId };
+        }
+        return {
+            escrowId,
+            createdAt: escrowType === 'src' ? swap.srcCreatedAt : swap.dstCreatedAt,
+            taker: await this.evmTaker(escrowType),
+            // The resolver may have paid more than the order's taking amount
+            amount: escrowType === 'dst' ? swap.takingAmount : undefined
+        };
+    }
+}
+
+export class ResolverDaemon {
+    private readonly redeployAfterMs: number;
+    private readonly log: (...args: unknown[]) => void;
+
+    constructor(
+        private readonly sui: EscrowChain,
+        private readonly evm: EscrowChain,
+        private readonly store: JsonSwapStore,
+        private readonly feeds: SwapFeed[],
+        private readonly secrets: SecretSource,
+        private readonly config: ResolverConfig,
+        options: {
+            redeployAfterMs?: number // how long an interrupted deploy may still land before it is sent again
+            log?: (...args: unknown[]) => void // progress messages, console.log by default
+        } = {}
+    ) {
+        this.redeployAfterMs = options.redeployAfterMs ?? 300_000;
+        this.log = options.log ?? console.log;
+    }
+
+    /**
+     * Run ticks until `signal` is aborted
+     */
+    async run(options: { intervalMs?: number, signal?: AbortSignal } = {}): Promise<void> {
+        await pollUntilAborted(() => this.tick(), { intervalMs: options.intervalMs ?? 5000, signal: options.signal });
+    }
+
+    /**
+     * Pick up new swaps, then advance every active swap by at most one step
+     */
+    async tick(): Promise<void> {
+        for (const feed of this.feeds) {
+            try {
+                for (const swap of await feed.poll()) {
+                    if (!this.store.has(swap.id)) {
+                        this.log(`🆕 Discovered ${swap.direction} swap ${swap.id}`);
+                        this.store.put(swap);
+                    }
+                }
+            } catch (error) {
+                this.log('❌ Swap feed failed:', error);
+            }
+        }
+
+        for (const swap of this.store.active()) {
+            try {
+                const next = await this.advance(swap);
+                if (next !== swap) {
+                    this.log(`➡️  ${swap.id}: ${swap.phase} -> ${next.phase}`);
+                    this.store.put(next);
+                }
+            } catch (error) {
+                // advance may have persisted a deploy intent before failing, keep it
+                const current = this.store.get(swap.id) ?? swap;
+                this.log(`❌ Swap ${swap.id} stuck in ${current.phase}:`, error);
+                this.store.put({ ...current, lastError: String(error), updatedAt: Date.now() });
+            }
+        }
+    }
+
+    /**
+     * Perform the next step of a swap; returns the same record when there is nothing to do yet
+     */
+    async advance(swap: SwapRecord): Promise<SwapRecord> {
+        if (isTerminal(swap.phase)) {
+            return swap;
+        }
+
+        const { src, dst } = this.chainsFor(swap);
+
+        switch (swap.phase) {
+            case 'discovered': {
+                const decision = await this.config.evaluate(swap);
+                if (decision.action === 'skip') {
+                    return transition(swap, 'skipped');
+                } else if (decision.action === 'wait') {
+                    return swap;
+                }
+                const priced = { ...swap, takingAmount: decision.takingAmount.toString() };
+                return this.deploy(transition(priced, 'src_deploying', { deploying: { side: 'src', startedAt: Date.now() } }));
+            }
+
+            case 'src_deploying':
+            case 'dst_deploying':
+                return this.resumeDeploy(swap);
+
+            case 'src_deployed': {
+                if (await this.timedOut(swap)) {
+                    return transition(swap, 'refunding');
+                }
+                return this.deploy(transition(swap, 'dst_deploying', { deploying: { side: 'dst', startedAt: Date.now() } }));
+            }
+
+            case 'dst_deployed': {
+                if (await this.timedOut(swap)) {
+                    return transition(swap, 'refunding');
+                }
+                // The maker only reveals the secret once both escrows are past finality
+                const [srcStage, dstStage] = await Promise.all([
+                    src.getStage(swap.srcEscrowId!, 'src', swap),
+                    dst.getStage(swap.dstEscrowId!, 'dst', swap)
+                ]);
+                if (srcStage.stage === EscrowStage.FinalityLock || dstStage.stage === EscrowStage.FinalityLock) {
+                    return swap;
+                }
+
+                const secret = await this.secrets.requestSecret(swap);
+                if (!secret) {
+                    return swap;
+                }
+                if (keccak256(secret).toLowerCase() !== swap.hashlock.toLowerCase()) {
+                    throw new Error('Received secret does not match the hashlock');
+                }
+                return transition(swap, 'secret_received', { secret });
+            }
+
+            case 'secret_received': {
+                if (await this.timedOut(swap)) {
+                    return transition(swap, 'refunding');
+                }
+                const stage = await dst.getStage(swap.dstEscrowId!, 'dst', swap);
+                if (!stage.actions.withdraw && !stage.actions.publicWithdraw) {
+                    return swap;
+                }
+                await dst.withdraw(swap.dstEscrowId!, 'dst', swap.secret!, swap);
+                return transition(swap, 'dst_withdrawn', { closed: { ...swap.closed, dst: 'withdrawn' } });
+            }
+
+            case 'dst_withdrawn': {
+                const stage = await src.getStage(swap.srcEscrowId!, 'src', swap);
+                if (stage.actions.withdraw || stage.actions.publicWithdraw) {
+                    await src.withdraw(swap.srcEscrowId!, 'src', swap.secret!, swap);
+                    return transition(swap, 'completed', { closed: { ...swap.closed, src: 'withdrawn' } });
+                }
+                if (stage.stage >= EscrowStage.ResolverExclusiveCancel) {
+                    // Withdraw window missed, only the safety deposit can still be recovered
+                    return transition(swap, 'rescuing');
+                }
+                return swap;
+            }
+
+            case 'refunding':
+                return this.closeOpenEscrows(swap, 'cancel');
+
+            case 'rescuing':
+                return this.closeOpenEscrows(swap, 'rescue');
+        }
+
+        return swap;
+    }
+
+    /**
+     * Persist the deploy intent of a *_deploying record, then send the deploy
+     */
+    private async deploy(swap: SwapRecord): Promise<SwapRecord> {
+        const { side } = swap.deploying!;
+        const chain = this.chainsFor(swap)[side];
+
+        let record = swap;
+        this.store.put(record);
+        const onSubmitted = (txDigest: string) => {
+            record = { ...record, deploying: { ...record.deploying!, txDigest }, updatedAt: Date.now() };
+            this.store.put(record);
+        };
+
+        const deployed = side === 'src'
+            ? await chain.deploySrc(record, onSubmitted)
+            : await chain.deployDst(record, onSubmitted);
+        return this.deployed(record, deployed);
+    }
+
+    /**
+     * A deploy was interrupted: take the escrow if it landed, otherwise send it again
+     * once it can no longer be in flight
+     */
+    private async resumeDeploy(swap: SwapRecord): Promise<SwapRecord> {
+        const { side, startedAt } = swap.deploying!;
+        const found = await this.chainsFor(swap)[side].findEscrow(side, swap);
+        if (found) {
+            this.log(`✅ Found the ${side} escrow of ${swap.id} deployed before a restart`);
+            return this.deployed(swap, found);
+        }
+
+        if (side === 'dst' && await this.timedOut(swap)) {
+            return transition(swap, 'refunding', { deploying: undefined });
+        }
+        if (Date.now() - startedAt < this.redeployAfterMs) {
+            return swap;
+        }
+        return this.deploy({ ...swap, deploying: { side, startedAt: Date.now() }, updatedAt: Date.now() });
+    }
+
+    private deployed(swap: SwapRecord, { escrowId, createdAt }: DeployedEscrow): SwapRecord {
+        return swap.deploying!.side === 'src'
+            ? transition(swap, 'src_deployed', { srcEscrowId: escrowId, srcCreatedAt: createdAt.toString(), deploying: undefined })
+            : transition(swap, 'dst_deployed', { dstEscrowId: escrowId, dstCreatedAt: createdAt.toString(), deploying: undefined });
+    }
+
+    private chainsFor(swap: SwapRecord): { src: EscrowChain, dst: EscrowChain } {
+        return swap.direction === 'SUI_TO_EVM'
+            ? { src: this.sui, dst: this.evm }
+            : { src: this.evm, dst: this.sui };
+    }
+
+    /**
+     * True once either deployed escrow has reached its cancellation stage
+     */
+    private async timedOut(swap: SwapRecord): Promise<boolean> {
+        const { src, dst } = this.chainsFor(swap);
+
+        if (swap.dstEscrowId) {
+            const stage = await dst.getStage(swap.dstEscrowId, 'dst', swap);
+            if (stage.stage >= EscrowStage.ResolverExclusiveCancel) {
+                return true;
+            }
+        }
+        if (swap.srcEscrowId) {
+            const stage = await src.getStage(swap.srcEscrowId, 'src', swap);
+            if (stage.stage >= EscrowStage.ResolverExclusiveCancel) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Cancel (or rescue) each deployed escrow that is still open, dst first
+     */
+    private async closeOpenEscrows(swap: SwapRecord, action: 'cancel' | 'rescue'): Promise<SwapRecord> {
+        const { src, dst } = this.chainsFor(swap);
+        const closed = { ...swap.closed };
+        const open = [
+            { side: 'dst' as const, chain: dst, escrowId: swap.dstEscrowId },
+            { side: 'src' as const, chain: src, escrowId: swap.srcEscrowId }
+        ].filter(entry => entry.escrowId && !closed[entry.side]);
+
+        let rescueNeeded = false;
+        for (const { side, chain, escrowId } of open) {
+            const stage = await chain.getStage(escrowId!, side, swap);
+
+            if (action === 'cancel' && stage.actions.cancel) {
+                await chain.cancel(escrowId!, side, swap);
+                closed[side] = 'cancelled';
+            } else if (action === 'rescue' && stage.actions.rescue) {
+                await chain.rescue(escrowId!, side, swap);
+                closed[side] = 'rescued';
+            } else if (action === 'cancel' && stage.actions.rescue) {
+                rescueNeeded = true;
+            }
+            // Persist each close right away, the next one may fail
+            this.store.put({ ...swap, closed, updatedAt: Date.now() });
+        }
+
+        const allClosed = [
+            { side: 'dst' as const, escrowId: swap.dstEscrowId },
+            { side: 'src' as const, escrowId: swap.srcEscrowId }
+        ].every(entry => !entry.escrowId || closed[entry.side]);
+
+        if (allClosed) {
+            return transition(swap, action === 'cancel' ? 'refunded' : 'rescued', { closed });
+        }
+        if (rescueNeeded) {
+            return transition(swap, 'rescuing', { closed });
+        }
+        return { ...swap, closed };
+    }
+}
@@ -0,0 +1,148 @@
+// tests/secret-vault-spec.ts
+import { getAddress, keccak256 } from 'ethers';
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import type { Immutables } from '@1inch/cross-chain-sdk';
+
+import { CrossChainOrderBuilder } from './cross-chain-order-builder';
+import { EscrowStage, EscrowStatus } from './escrow-stages';
+import { EvmEscrowClient, buildEvmImmutables } from './evm-escrow-client';
+import { MerkleSecrets } from './merkle-secrets';
+import { RevealPolicy, SecretVault, SecretVaultError, allOf, evmEscrowVerified } from './secret-vault';
+
+const ORDER = '0x' + '11'.repeat(32);
+const PASSPHRASE = 'correct horse battery staple';
+// Cheap key derivation, the default cost is for real vaults
+const FAST = { N: 2 ** 10 };
+
+const always: RevealPolicy = async () => [];
+
+describe('SecretVault', () => {
+    let dir: string;
+    let path: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'vault-'));
+        path = join(dir, 'secrets.json');
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('keeps secrets encrypted and survives reopening', async () => {
+        const built = CrossChainOrderBuilder.createOrder({
+            direction: 'EVM_TO_SUI',
+            evmChainId: CrossChainOrderBuilder.ETHEREUM_CHAIN_ID,
+            erc20Token: 'USDC',
+            erc20Amount: 100_000_000n,
+            suiAmount: 25_000_000_000n,
+            maker: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+            resolver: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+            vault: SecretVault.open(path, PASSPHRASE, FAST)
+        });
+
+        expect(readFileSync(path, 'utf8')).not.toContain(built.secret.slice(2));
+        expect(statSync(path).mode & 0o777).toBe(0o600);
+        expect(() => SecretVault.open(path, 'wrong', FAST)).toThrow(/Wrong passphrase/);
+
+        const vault = SecretVault.open(path, PASSPHRASE);
+        expect(vault.list()).toEqual([expect.objectContaining({ orderHash: built.orderHash.toLowerCase(), hashlock: built.hashlock, partsAmount: 0, revealed: [] })]);
+        expect(await vault.reveal(built.orderHash, always)).toBe(built.secret);
+        expect(SecretVault.open(path, PASSPHRASE).revealed(built.orderHash)).toEqual([0]);
+        expect(() => vault.storeSecret(built.orderHash, built.secret)).toThrow(/already stored/);
+    });
+
+    test('releases partial-fill secrets one index at a time, only once the policy is met', async () => {
+        const secrets = MerkleSecrets.generate(4);
+        const vault = SecretVault.open(path, PASSPHRASE, FAST);
+        vault.storeSecrets(ORDER, secrets);
+
+        let final = false;
+        const seen: number[] = [];
+        const policy = allOf(
+            async ({ index, hashlock }) => {
+                seen.push(index);
+                return hashlock === keccak256(secrets.getSecret(index)) ? [] : ['wrong hashlock'];
+            },
+            async () => final ? [] : ['escrow not final']
+        );
+
+        const refused = await vault.reveal(ORDER, policy, 2).catch(error => error);
+        expect(refused).toBeInstanceOf(SecretVaultError);
+        expect(refused.unmet).toEqual(['escrow not final']);
+        expect(vault.revealed(ORDER)).toEqual([]);
+
+        final = true;
+        expect(await vault.reveal(ORDER, policy, 2)).toBe(secrets.getSecret(2));
+        expect(await vault.reveal(ORDER, policy, 0)).toBe(secrets.getSecret(0));
+        expect(vault.revealed(ORDER)).toEqual([0, 2]);
+        expect(seen).toEqual([2, 2, 0]);
+        await expect(vault.reveal(ORDER, policy, 5)).rejects.toThrow(/out of range 0..4/);
+        await expect(vault.reveal('0x' + '22'.repeat(32), policy)).rejects.toThrow(/No secrets stored/);
+    });
+
+    test('refuses entries that were tampered with', async () => {
+        SecretVault.open(path, PASSPHRASE, FAST).storeSecret(ORDER, '0x' + '33'.repeat(32));
+        const data = JSON.parse(readFileSync(path, 'utf8'));
+        const other = '0x' + '44'.repeat(32);
+        // Moving a sealed entry to another order hash breaks its authentication
+        data.orders[other] = { ...data.orders[ORDER], orderHash: other };
+        writeFileSync(path, JSON.stringify(data));
+
+        const vault = SecretVault.open(path, PASSPHRASE);
+        await expect(vault.reveal(other, always)).rejects.toThrow(/do not decrypt/);
+        expect(await vault.reveal(ORDER, always)).toBe('0x' + '33'.repeat(32));
+    });
+
+    test('checks EVM escrows against the order terms it stored, not the resolver\'s', async () => {
+        const built = CrossChainOrderBuilder.createOrder({
+            direction: 'EVM_TO_SUI',
+            evmChainId: CrossChainOrderBuilder.ETHEREUM_CHAIN_ID,
+            erc20Token: 'USDC',
+            erc20Amount: 100_000_000n,
+            suiAmount: 25_000_000_000n,
+            maker: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+            resolver: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+            vault: SecretVault.open(path, PASSPHRASE, FAST)
+        });
+        const vault = SecretVault.open(path, PASSPHRASE);
+        expect(vault.evmEscrowTerms(built.orderHash)).toEqual(expect.objectContaining({ escrowType: 'src', amount: '100000000' }));
+
+        // Escrow addresses stand in for the factory's CREATE2 address: derived from the immutables
+        const addressOf = (immutables: Immutables) => getAddress(immutables.hash().slice(0, 42));
+        const evm = {
+            addressOfEscrow: async (_type: string, immutables: Immutables) => addressOf(immutables),
+            getEscrow: async () => ({ tokenBalance: 100_000_000n, status: EscrowStatus.Active }),
+            getEscrowStage: async () => ({ stage: EscrowStage.ResolverExclusiveWithdraw })
+        } as unknown as EvmEscrowClient;
+
+        const taker = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+        const createdAt = 1_700_000_000_000n;
+        const escrowFor = (amount: bigint) => addressOf(buildEvmImmutables({
+            orderHash: built.orderHash,
+            hashlock: built.hashlock,
+            maker: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+            taker,
+            token: built.evmToken.address,
+            amount,
+            safetyDeposit: 1_000_000_000_000_000n,
+            timelocks: built.timelocks
+        }, createdAt));
+
+        expect(await vault.reveal(built.orderHash, evmEscrowVerified(vault, evm, escrowFor(100_000_000n), { taker, createdAt }))).toBe(built.secret);
+        // An escrow for other terms does not pass, whatever the resolver claims about it
+        await expect(vault.reveal(built.orderHash, evmEscrowVerified(vault, evm, escrowFor(1n), { taker, createdAt })))
+            .rejects.toThrow(/not deployed for this order and secret/);
+        await expect(vault.reveal(built.orderHash, evmEscrowVerified(vault, evm, escrowFor(1n), { taker, createdAt, amount: 1n })))
+            .rejects.toThrow(/does not match the order's 100000000/);
+
+        // Neither can the stored terms be edited in the vault file
+        const data = JSON.parse(readFileSync(path, 'utf8'));
+        data.orders[built.orderHash.toLowerCase()].evmEscrow.amount = '1';
+        writeFileSync(path, JSON.stringify(data));
+        expect(() => SecretVault.open(path, PASSPHRASE).evmEscrowTerms(built.orderHash)).toThrow(/do not decrypt/);
+    });
+});
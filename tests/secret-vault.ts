@@ -0,0 +1,326 @@
+// tests/secret-vault.ts
+// Maker-side store for order secrets, so a crash between creating an order and withdrawing
+// does not lose the funds. Secrets are encrypted at rest with AES-256-GCM under a scrypt key
+// derived from a passphrase, and only handed out once a reveal policy is met.
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { getAddress, keccak256 } from 'ethers';
+import { existsSync, readFileSync } from 'fs';
+
+import { EscrowStage, EscrowStatus } from './escrow-stages';
+import { ExpectedEscrow, describeMismatches } from './escrow-verification';
+import { EvmEscrowClient, buildEvmImmutables } from './evm-escrow-client';
+import { writeJsonAtomic } from './json-file';
+import { MerkleSecrets } from './merkle-secrets';
+import type { SuiIntegration } from './sui-integration';
+import { Timelocks } from './timelocks';
+
+const KEY_CHECK = 'fuSUIon secret vault';
+
+export interface RevealContext {
+    orderHash: string
+    index: number // 0 for single-fill orders
+    hashlock: string // keccak256 of the secret being revealed
+}
+
+/**
+ * Conditions for handing a secret out; resolves to the ones not met yet, empty when it may go
+ */
+export type RevealPolicy = (context: RevealContext) => Promise<string[]>;
+
+/**
+ * What the maker signed for the order's EVM escrow, kept in the clear but sealed into the
+ * entry's authentication, so reveal policies check escrows against the order itself
+ */
+export interface VaultEvmEscrowTerms {
+    escrowType: 'src' | 'dst'
+    maker: string
+    token: string // ZeroAddress for the native currency
+    amount: string // decimal, the minimum for dst escrows
+    safetyDeposit: string
+    timelocks: Record<string, string> // Timelocks.toJSON()
+}
+
+export interface VaultEntrySummary {
+    orderHash: string
+    hashlock: string // the secret hash, or the merkle root for partial fills
+    partsAmount: number // 0 for single-fill orders
+    revealed: number[]
+    createdAt: number
+    evmEscrow?: VaultEvmEscrowTerms
+}
+
+interface KdfParams {
+    salt: string // hex
+    N: number
+    r: number
+    p: number
+}
+
+interface EncryptedEntry extends VaultEntrySummary {
+    iv: string
+    tag: string
+    ciphertext: string // JSON array of secrets
+}
+
+interface VaultFile {
+    version: 1
+    kdf: KdfParams
+    check: { iv: string, tag: string, ciphertext: string } // KEY_CHECK, to detect a wrong passphrase
+    orders: Record<string, EncryptedEntry>
+}
+
+export class SecretVaultError extends Error {
+    constructor(message: string, readonly unmet: string[] = []) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+function deriveKey(passphrase: string, kdf: KdfParams): Buffer {
+    return scryptSync(passphrase, Buffer.from(kdf.salt, 'hex'), 32, {
+        N: kdf.N,
+        r: kdf.r,
+        p: kdf.p,
+        maxmem: 256 * kdf.N * kdf.r
+    });
+}
+
+function encrypt(key: Buffer, plaintext: string, aad: string): { iv: string, tag: string, ciphertext: string } {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(Buffer.from(aad));
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return { iv: iv.toString('hex'), tag: cipher.getAuthTag().toString('hex'), ciphertext: ciphertext.toString('hex') };
+}
+
+function decrypt(key: Buffer, sealed: { iv: string, tag: string, ciphertext: string }, aad: string): string {
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(sealed.iv, 'hex'));
+    decipher.setAAD(Buffer.from(aad));
+    decipher.setAuthTag(Buffer.from(sealed.tag, 'hex'));
+    return Buffer.concat([decipher.update(Buffer.from(sealed.ciphertext, 'hex')), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Per-order secrets in a JSON file, each entry sealed separately and bound to its order hash.
+ * Which indices were revealed is kept in the clear, written before a secret is returned
+ */
+export class SecretVault {
+    private constructor(
+        private readonly path: string,
+        private readonly key: Buffer,
+        private readonly data: VaultFile
+    ) {}
+
+    /**
+     * Open the vault at `path`, creating it when missing. Throws on a wrong passphrase
+     */
+    static open(path: string, passphrase: string, options: { N?: number } = {}): SecretVault {
+        if (existsSync(path)) {
+            const data: VaultFile = JSON.parse(readFileSync(path, 'utf8'));
+            const key = deriveKey(passphrase, data.kdf);
+            try {
+                decrypt(key, data.check, KEY_CHECK);
+            } catch {
+                throw new SecretVaultError(`Wrong passphrase for secret vault ${path}`);
+            }
+            return new SecretVault(path, key, data);
+        }
+
+        const kdf = { salt: randomBytes(16).toString('hex'), N: options.N ?? 2 ** 15, r: 8, p: 1 };
+        const key = deriveKey(passphrase, kdf);
+        const vault = new SecretVault(path, key, { version: 1, kdf, check: encrypt(key, KEY_CHECK, KEY_CHECK), orders: {} });
+        vault.flush();
+        return vault;
+    }
+
+    /**
+     * Keep the secret of a single-fill order, with the terms of its EVM escrow if it has one
+     */
+    storeSecret(orderHash: string, secret: string, evmEscrow?: VaultEvmEscrowTerms): void {
+        this.store(orderHash, [secret], keccak256(secret), evmEscrow);
+    }
+
+    /**
+     * Keep the whole secret set of a partial-fill order
+     */
+    storeSecrets(orderHash: string, secrets: MerkleSecrets, evmEscrow?: VaultEvmEscrowTerms): void {
+        this.store(orderHash, secrets.secrets, secrets.root, evmEscrow);
+    }
+
+    has(orderHash: string): boolean {
+        return orderHash.toLowerCase() in this.data.orders;
+    }
+
+    list(): VaultEntrySummary[] {
+        return Object.values(this.data.orders).map(({ orderHash, hashlock, partsAmount, revealed, createdAt, evmEscrow }) =>
+            ({ orderHash, hashlock, partsAmount, revealed, createdAt, evmEscrow })
+        );
+    }
+
+    /**
+     * Terms of the order's EVM escrow as stored with its secrets, refused if the entry was altered
+     */
+    evmEscrowTerms(orderHash: string): VaultEvmEscrowTerms | undefined {
+        const entry = this.entry(orderHash);
+        this.open(entry);
+        return entry.evmEscrow;
+    }
+
+    revealed(orderHash: string): number[] {
+        return [...this.entry(orderHash).revealed];
+    }
+
+    /**
+     * Hand out secret `index` of an order once `policy` is met, recording the reveal first.
+     * Revealing an index again is allowed, e.g. to retry a withdrawal, and checks the policy again
+     */
+    async reveal(orderHash: string, policy: RevealPolicy, index: number = 0): Promise<string> {
+        const entry = this.entry(orderHash);
+        const secrets = this.open(entry);
+        if (!Number.isInteger(index) || index < 0 || index >= secrets.length) {
+            throw new SecretVaultError(`Secret index ${index} out of range 0..${secrets.length - 1} for order ${orderHash}`);
+        }
+
+        const secret = secrets[index];
+        const unmet = await policy({ orderHash: entry.orderHash, index, hashlock: keccak256(secret) });
+        if (unmet.length > 0) {
+            throw new SecretVaultError(`Secret ${index} of order ${orderHash} not released: ${unmet.join('; ')}`, unmet);
+        }
+
+        if (!entry.revealed.includes(index)) {
+            entry.revealed = [...entry.revealed, index].sort((a, b) => a - b);
+            this.flush();
+        }
+        return secret;
+    }
+
+    /**
+     * Drop an order, e.g. once both escrows are settled
+     */
+    remove(orderHash: string): void {
+        delete this.data.orders[orderHash.toLowerCase()];
+        this.flush();
+    }
+
+    private store(orderHash: string, secrets: string[], hashlock: string, evmEscrow?: VaultEvmEscrowTerms): void {
+        const key = orderHash.toLowerCase();
+        if (this.data.orders[key]) {
+            throw new SecretVaultError(`Secrets of order ${orderHash} are already stored`);
+        }
+
+        const entry: VaultEntrySummary = {
+            orderHash: key,
+            hashlock,
+            partsAmount: secrets.length > 1 ? secrets.length - 1 : 0,
+            revealed: [],
+            createdAt: Date.now(),
+            evmEscrow
+        };
+        this.data.orders[key] = { ...entry, ...encrypt(this.key, JSON.stringify(secrets), associatedData(entry)) };
+        this.flush();
+    }
+
+    private entry(orderHash: string): EncryptedEntry {
+        const entry = this.data.orders[orderHash.toLowerCase()];
+        if (!entry) {
+            throw new SecretVaultError(`No secrets stored for order ${orderHash}`);
+        }
+        return entry;
+    }
+
+    private open(entry: EncryptedEntry): string[] {
+        try {
+            return JSON.parse(decrypt(this.key, entry, associatedData(entry)));
+        } catch {
+            throw new SecretVaultError(`Secrets of order ${entry.orderHash} do not decrypt, the vault file was altered`);
+        }
+    }
+
+    private flush(): void {
+        writeJsonAtomic(this.path, this.data, { mode: 0o600 });
+    }
+}
+
+/**
+ * What an entry's ciphertext is bound to: its order hash, and its EVM escrow terms if any
+ */
+function associatedData(entry: VaultEntrySummary): string {
+    return entry.evmEscrow ? `${entry.orderHash}:${JSON.stringify(entry.evmEscrow)}` : entry.orderHash;
+}
+
+/**
+ * Met when every policy is met; reports all unmet conditions
+ */
+export function allOf(...policies: RevealPolicy[]): RevealPolicy {
+    return async context => (await Promise.all(policies.map(policy => policy(context)))).flat();
+}
+
+/**
+ * The Sui escrow matches the order, holds the funds and is final (see verifyEscrowAgainstOrder).
+ * Its hashlock must be the hash of the secret being revealed
+ */
+export function suiEscrowVerified(sui: SuiIntegration, escrowId: string, expected: Omit<ExpectedEscrow, 'hashlock'>): RevealPolicy {
+    return async context => {
+        const { mismatches } = await sui.verifyEscrowAgainstOrder(escrowId, { ...expected, hashlock: context.hashlock });
+        return describeMismatches(escrowId, mismatches);
+    };
+}
+
+/**
+ * The EVM escrow was deployed for the order's terms as stored in the vault (its address
+ * derives from them), is locked with this secret, holds the funds, is active and past its
+ * finality lock. Only the taker and deploy time come from the resolver
+ */
+export function evmEscrowVerified(
+    vault: SecretVault,
+    evm: EvmEscrowClient,
+    address: string,
+    deployment: {
+        taker: string
+        createdAt: bigint // ms
+        amount?: bigint // dst escrows may pay more than the order's minimum
+    }
+): RevealPolicy {
+    return async context => {
+        const terms = vault.evmEscrowTerms(context.orderHash);
+        if (!terms) {
+            return [`No EVM escrow terms stored for order ${context.orderHash}`];
+        }
+
+        const minimum = BigInt(terms.amount);
+        const amount = deployment.amount ?? minimum;
+        if (terms.escrowType === 'src' ? amount !== minimum : amount < minimum) {
+            return [`EVM escrow ${address} amount ${amount} does not match the order's ${minimum}`];
+        }
+
+        const immutables = buildEvmImmutables({
+            orderHash: context.orderHash,
+            hashlock: context.hashlock,
+            maker: terms.maker,
+            taker: deployment.taker,
+            token: terms.token,
+            amount,
+            safetyDeposit: BigInt(terms.safetyDeposit),
+            timelocks: Timelocks.fromJSON(terms.timelocks)
+        }, deployment.createdAt);
+        if (getAddress(await evm.addressOfEscrow(terms.escrowType, immutables)) !== getAddress(address)) {
+            return [`EVM escrow ${address} was not deployed for this order and secret`];
+        }
+
+        const [escrow, stage] = await Promise.all([
+            evm.getEscrow(address, terms.escrowType, immutables),
+            evm.getEscrowStage(address, terms.escrowType, immutables)
+        ]);
+        const unmet: string[] = [];
+        if (escrow.tokenBalance < amount) {
+            unmet.push(`EVM escrow ${address} holds ${escrow.tokenBalance}, expected ${amount}`);
+        }
+        if (escrow.status !== EscrowStatus.Active) {
+            unmet.push(`EVM escrow ${address} is no longer active`);
+        } else if (stage.stage === EscrowStage.FinalityLock) {
+            unmet.push(`EVM escrow ${address} is still in its finality lock`);
+        }
+        return unmet;
+    };
+}
@@ -0,0 +1,96 @@
+// tests/secret-watcher-spec.ts
+import { keccak256 } from 'ethers';
+
+import { EscrowEventIndexer } from './event-indexer';
+import { PendingSwap, RelayMode, SecretWatcher } from './secret-watcher';
+import { EscrowWithdrawnEvent } from './sui-events';
+
+const ORDER_HASH = '0x' + '11'.repeat(32);
+const SECRET = '0x' + '33'.repeat(32);
+const NOW = 1_700_000_000_000n;
+
+function withdrawn(secret: string, hashlock = keccak256(SECRET)): EscrowWithdrawnEvent {
+    return {
+        escrowId: '0xe1',
+        orderHash: ORDER_HASH,
+        hashlock,
+        secret,
+        withdrawnBy: '0x01',
+        maker: '0x01',
+        taker: '0x02',
+        amount: 1n,
+        withdrawnAt: NOW
+    };
+}
+
+function setup(exclusiveWithdrawEndsAt = NOW + 600_000n, publicWithdrawEndsAt = NOW + 900_000n, failures = 0) {
+    const calls: [PendingSwap, string, RelayMode][] = [];
+    const pendingDuringRelay: number[] = [];
+    const watcher: SecretWatcher = new SecretWatcher(
+        {} as EscrowEventIndexer,
+        async (swap, secret, mode) => {
+            calls.push([swap, secret, mode]);
+            pendingDuringRelay.push(watcher.pending().length);
+            if (calls.length <= failures) {
+                throw new Error('nonce too low');
+            }
+            return '0xevmtx';
+        },
+        { now: () => NOW, retryDelayMs: 1 }
+    );
+    watcher.addSwap({ orderHash: ORDER_HASH, hashlock: keccak256(SECRET), exclusiveWithdrawEndsAt, publicWithdrawEndsAt });
+    return { watcher, calls, pendingDuringRelay };
+}
+
+describe('SecretWatcher', () => {
+    test('relays a matching secret once', async () => {
+        const { watcher, calls } = setup();
+
+        const result = await watcher.handleWithdrawn(withdrawn(SECRET));
+        expect(result).toMatchObject({ status: 'relayed', txHash: '0xevmtx' });
+        expect(calls).toEqual([[expect.objectContaining({ orderHash: ORDER_HASH }), SECRET, 'exclusive']]);
+
+        // The same event seen again (e.g. after an indexer restart) is ignored
+        expect(await watcher.handleWithdrawn(withdrawn(SECRET))).toBeNull();
+        expect(watcher.pending()).toHaveLength(0);
+    });
+
+    test('refuses a secret that does not open the hashlock', async () => {
+        const { watcher, calls } = setup();
+
+        const result = await watcher.handleWithdrawn(withdrawn('0x' + '44'.repeat(32)));
+        expect(result?.status).toBe('invalid-secret');
+        expect(calls).toHaveLength(0);
+        expect(watcher.pending()).toHaveLength(1);
+    });
+
+    test('keeps the swap pending and retries until the withdrawal is confirmed', async () => {
+        const { watcher, calls, pendingDuringRelay } = setup(undefined, undefined, 2);
+
+        const relay = watcher.handleWithdrawn(withdrawn(SECRET));
+        // Seen again while the first relay is still retrying
+        expect(await watcher.handleWithdrawn(withdrawn(SECRET))).toBeNull();
+
+        expect(await relay).toMatchObject({ status: 'relayed', attempts: 3, mode: 'exclusive' });
+        expect(pendingDuringRelay).toEqual([1, 1, 1]);
+        expect(calls).toHaveLength(3);
+        expect(watcher.pending()).toHaveLength(0);
+    });
+
+    test('falls back to a public withdrawal once the exclusive window is about to close', async () => {
+        const { watcher, calls } = setup(NOW + 10_000n);
+
+        const result = await watcher.handleWithdrawn(withdrawn(SECRET));
+        expect(result).toMatchObject({ status: 'relayed', mode: 'public' });
+        expect(calls.map(([, , mode]) => mode)).toEqual(['public']);
+    });
+
+    test('gives up only when no withdrawal window is left', async () => {
+        const { watcher, calls } = setup(NOW + 10_000n, NOW + 20_000n);
+
+        const result = await watcher.handleWithdrawn(withdrawn(SECRET));
+        expect(result?.status).toBe('window-closed');
+        expect(calls).toHaveLength(0);
+        expect(watcher.pending()).toHaveLength(0);
+    });
+});
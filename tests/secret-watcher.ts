@@ -0,0 +1,188 @@
+// tests/secret-watcher.ts
+// Watches Sui for EscrowWithdrawn events and relays the revealed secret to the EVM
+// source escrow of the same swap: in the resolver's exclusive window if there is time,
+// otherwise as a public withdrawal, retrying failed withdrawals until the window closes.
+
+import { keccak256 } from 'ethers';
+
+import { EscrowEventIndexer } from './event-indexer';
+import { EscrowWithdrawnEvent } from './sui-events';
+
+/**
+ * A swap whose EVM source escrow is waiting for the secret revealed on Sui
+ */
+export interface PendingSwap {
+    orderHash: string
+    hashlock: string // hashlock of the Sui destination escrow
+    exclusiveWithdrawEndsAt: bigint // unix ms, end of the resolver's exclusive window on the EVM escrow
+    publicWithdrawEndsAt: bigint // unix ms, end of public withdrawal, cancellation starts
+    evmEscrowAddress?: string
+}
+
+/**
+ * Which EVM withdrawal a relay uses: `withdraw` in the resolver's exclusive window,
+ * `publicWithdraw` after it
+ */
+export type RelayMode = 'exclusive' | 'public';
+
+/**
+ * Withdraws from the EVM source escrow of `swap`, returns the transaction hash once
+ * the withdrawal is confirmed
+ */
+export type EvmWithdraw = (swap: PendingSwap, secret: string, mode: RelayMode) => Promise<string>;
+
+export interface RelayResult {
+    swap: PendingSwap
+    secret: string
+    status: 'relayed' | 'invalid-secret' | 'window-closed' | 'failed'
+    mode?: RelayMode // of the last attempt
+    attempts: number
+    txHash?: string
+    error?: unknown // last failure
+}
+
+function swapKey(orderHash: string, hashlock: string): string {
+    return `${orderHash.toLowerCase()}:${hashlock.toLowerCase()}`;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class SecretWatcher {
+    private readonly swaps = new Map<string, PendingSwap>();
+    private readonly relaying = new Set<string>();
+    private readonly listeners = new Set<(result: RelayResult) => void>();
+    private readonly safetyMarginMs: bigint;
+    private readonly retryDelayMs: number;
+    private readonly maxRetryDelayMs: number;
+    private readonly now: () => bigint;
+    private readonly log: (...args: unknown[]) => void;
+
+    constructor(
+        private readonly indexer: EscrowEventIndexer,
+        private readonly withdrawOnEvm: EvmWithdraw,
+        options: {
+            safetyMarginMs?: bigint // don't start a withdrawal this close to a deadline
+            retryDelayMs?: number // first backoff after a failed withdrawal, doubled each time
+            maxRetryDelayMs?: number
+            now?: () => bigint
+            log?: (...args: unknown[]) => void // progress messages, console.log by default
+        } = {}
+    ) {
+        this.safetyMarginMs = options.safetyMarginMs ?? 30_000n;
+        this.retryDelayMs = options.retryDelayMs ?? 2_000;
+        this.maxRetryDelayMs = options.maxRetryDelayMs ?? 60_000;
+        this.now = options.now ?? (() => BigInt(Date.now()));
+        this.log = options.log ?? console.log;
+    }
+
+    addSwap(swap: PendingSwap): void {
+        this.swaps.set(swapKey(swap.orderHash, swap.hashlock), swap);
+    }
+
+    removeSwap(orderHash: string, hashlock: string): void {
+        this.swaps.delete(swapKey(orderHash, hashlock));
+    }
+
+    pending(): PendingSwap[] {
+        return [...this.swaps.values()];
+    }
+
+    onRelay(listener: (result: RelayResult) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Index Sui events and relay secrets until `signal` is aborted
+     */
+    async start(options: { intervalMs?: number, signal?: AbortSignal } = {}): Promise<void> {
+        const unsubscribe = this.indexer.onEvent((_, decoded) => {
+            if (decoded.name === 'EscrowWithdrawn') {
+                this.handleWithdrawn(decoded.data).catch(error => {
+                    this.log('❌ Secret relay failed:', error);
+                });
+            }
+        });
+
+        try {
+            await this.indexer.watch(options);
+        } finally {
+            unsubscribe();
+        }
+    }
+
+    /**
+     * Relay the secret of one withdrawal if it belongs to a pending swap. The swap stays
+     * pending until a withdrawal is confirmed; failures are retried with backoff, moving
+     * on to a public withdrawal when the exclusive window closes
+     */
+    async handleWithdrawn(event: EscrowWithdrawnEvent): Promise<RelayResult | null> {
+        const key = swapKey(event.orderHash, event.hashlock);
+        const swap = this.swaps.get(key);
+        // A repeated event while a relay is running must not start a second withdrawal
+        if (!swap || this.relaying.has(key)) {
+            return null;
+        }
+
+        let result: RelayResult;
+        if (keccak256(event.secret).toLowerCase() !== swap.hashlock.toLowerCase()) {
+            // Kept pending, the real secret can still be revealed
+            result = { swap, secret: event.secret, status: 'invalid-secret', attempts: 0 };
+        } else {
+            this.relaying.add(key);
+            try {
+                result = await this.relay(key, swap, event.secret);
+            } finally {
+                this.relaying.delete(key);
+            }
+            // Relayed, or no withdrawal window left to relay in
+            this.swaps.delete(key);
+        }
+
+        if (result.status !== 'relayed') {
+            this.log(`❌ Secret for order ${swap.orderHash} not relayed: ${result.status}`);
+        }
+        this.listeners.forEach(listener => listener(result));
+        return result;
+    }
+
+    /**
+     * Open withdrawal window at the current time, if any
+     */
+    private relayMode(swap: PendingSwap): RelayMode | null {
+        const at = this.now() + this.safetyMarginMs;
+        if (at < swap.exclusiveWithdrawEndsAt) {
+            return 'exclusive';
+        }
+        return at < swap.publicWithdrawEndsAt ? 'public' : null;
+    }
+
+    private async relay(key: string, swap: PendingSwap, secret: string): Promise<RelayResult> {
+        let attempts = 0;
+        let delayMs = this.retryDelayMs;
+        let lastMode: RelayMode | undefined;
+        let lastError: unknown;
+
+        // Stops early when the swap is removed, e.g. the resolver gave up on it
+        for (let mode = this.relayMode(swap); mode && this.swaps.has(key); mode = this.relayMode(swap)) {
+            attempts++;
+            lastMode = mode;
+            try {
+                const txHash = await this.withdrawOnEvm(swap, secret, mode);
+                this.log(`✅ Secret relayed for order ${swap.orderHash} (${mode}):`, txHash);
+                return { swap, secret, status: 'relayed', mode, attempts, txHash };
+            } catch (error) {
+                lastError = error;
+                this.log(`⏳ Relay attempt ${attempts} for order ${swap.orderHash} failed, retrying in ${delayMs} ms`);
+            }
+            await sleep(delayMs);
+            delayMs = Math.min(delayMs * 2, this.maxRetryDelayMs);
+        }
+
+        return attempts === 0
+            ? { swap, secret, status: 'window-closed', attempts }
+            : { swap, secret, status: 'failed', mode: lastMode, attempts, error: lastError };
+    }
+}
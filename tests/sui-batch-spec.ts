@@ -0,0 +1,179 @@
+// tests/sui-batch-spec.ts
+import type { SuiObjectChange } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { keccak256 } from 'ethers';
+
+import { InvalidSecretError, decodeMoveAbort } from './escrow-errors';
+import { EscrowStatus } from './escrow-stages';
+import { BatchBackend, BatchOperationError, SuiBatch } from './sui-batch';
+import type { EscrowState, WalletState } from './sui-integration';
+import { Timelocks } from './timelocks';
+
+const PACKAGE = '0x' + 'ab'.repeat(32);
+const RESOLVER = '0x' + '07'.repeat(32);
+const WALLET = '0x' + 'a0'.repeat(32);
+const ESCROW = '0x' + 'e1'.repeat(32);
+const OWED = '0x' + 'e2'.repeat(32);
+const NOW = 1_700_000_000_000n;
+
+const timelocks = Timelocks.new({
+    srcWithdrawal: 10_000n,
+    srcPublicWithdrawal: 120_000n,
+    srcCancellation: 121_000n,
+    srcPublicCancellation: 122_000n,
+    dstWithdrawal: 5_000n,
+    dstPublicWithdrawal: 100_000n,
+    dstCancellation: 101_000n
+});
+
+const wallet: WalletState = {
+    walletId: WALLET,
+    tokenType: '0x2::sui::SUI',
+    orderHash: '0x' + '11'.repeat(32),
+    salt: 1n,
+    maker: '0x' + 'a1'.repeat(32),
+    makerAsset: '0x2::sui::SUI',
+    takerAsset: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    makingAmount: 100n,
+    takingAmount: 50n,
+    duration: 60_000n,
+    hashlock: '0x' + '22'.repeat(32),
+    timelocks,
+    srcSafetyDepositAmount: 10n,
+    dstSafetyDepositAmount: 10n,
+    allowPartialFills: true,
+    partsAmount: 4,
+    lastUsedIndex: 255,
+    balance: 100n,
+    createdAt: NOW,
+    isActive: true
+};
+
+function escrow(escrowId: string, createdAt = NOW): EscrowState {
+    return {
+        escrowId,
+        escrowType: 'src',
+        coinType: '0x2::sui::SUI',
+        immutables: {
+            orderHash: wallet.orderHash,
+            hashlock: wallet.hashlock,
+            maker: wallet.maker,
+            taker: RESOLVER,
+            tokenType: '0x2::sui::SUI',
+            amount: 30n,
+            safetyDeposit: 10n,
+            timelocks
+        },
+        tokenBalance: 30n,
+        safetyDeposit: 10n,
+        createdAt,
+        status: EscrowStatus.Active
+    };
+}
+
+const EVENTS: Record<string, string> = {
+    create_escrow_src: 'EscrowCreated',
+    withdraw_src: 'EscrowWithdrawn',
+    rescue_src: 'EscrowRescued'
+};
+
+/**
+ * What the chain would answer for the move calls in `tx`: one event each, created escrows
+ * numbered in call order
+ */
+function effects(tx: Transaction) {
+    const { commands, inputs } = tx.getData() as any;
+    const events: { type: string, parsedJson: unknown }[] = [];
+    const objectChanges: SuiObjectChange[] = [];
+
+    for (const { MoveCall: call } of commands.filter((command: any) => command.MoveCall)) {
+        const objectId = inputs[call.arguments[0].Input].UnresolvedObject.objectId;
+        const created = '0x' + (events.length + 1).toString(16).padStart(64, 'c');
+        const escrowId = call.function === 'create_escrow_src' ? created : objectId;
+        events.push({
+            type: `${PACKAGE}::events::${EVENTS[call.function]}`,
+            parsedJson: {
+                escrow_id: escrowId, order_hash: [], hashlock: [], secret: [], maker: wallet.maker, taker: RESOLVER,
+                amount: '30', safety_deposit: '10', created_at: NOW.toString(), last_used_index: 0,
+                withdrawn_by: RESOLVER, withdrawn_at: '0', rescued_by: RESOLVER, rescued_at: '0', escrow_type: 'source'
+            }
+        });
+        objectChanges.push(call.function === 'create_escrow_src'
+            ? { type: 'created', objectId: created } as SuiObjectChange
+            : { type: 'deleted', objectId } as SuiObjectChange);
+    }
+    objectChanges.push({ type: 'mutated', objectId: WALLET } as SuiObjectChange);
+    return { digest: 'Batch111', events, objectChanges };
+}
+
+function backend(overrides: Partial<BatchBackend> = {}): BatchBackend {
+    return {
+        packageId: PACKAGE,
+        signer: RESOLVER,
+        getWallet: async () => wallet,
+        getEscrow: async escrowId => escrow(escrowId),
+        getClockTimestamp: async () => NOW + 1_000n,
+        findRescuable: async () => ({
+            wallets: [],
+            escrows: [ESCROW, OWED].map(escrowId => ({ escrowId, escrowType: 'src' as const, coinType: '0x2::sui::SUI' })),
+            pending: [{ objectId: '0x' + 'e3'.repeat(32), rescueAt: NOW * 2n }]
+        }),
+        execute: async tx => effects(tx) as any,
+        simulate: async () => { throw new Error('not simulated'); },
+        ...overrides
+    };
+}
+
+describe('SuiBatch', () => {
+    test('sends fills, a withdraw and a rescue sweep as one transaction and maps the results back', async () => {
+        const sent: Transaction[] = [];
+        const indices: number[] = [];
+        const getSecretProof = (index: number) => {
+            indices.push(index);
+            return { hashlock: keccak256('0x0' + index), proof: ['0x' + '33'.repeat(32)] };
+        };
+
+        const result = await new SuiBatch(backend({ execute: async tx => (sent.push(tx), effects(tx) as any) }))
+            .fillWallet(WALLET, 30n, { getSecretProof })
+            .fillWallet(WALLET, 30n, { getSecretProof })
+            .withdraw(ESCROW, '0x' + '44'.repeat(32))
+            .rescueAllOwed()
+            .execute();
+
+        expect(sent).toHaveLength(1);
+        // Secret buckets follow the balance the first fill left behind
+        expect(indices).toEqual([1, 2]);
+        expect(result.digest).toBe('Batch111');
+
+        const [first, second, withdraw, sweep] = result.operations;
+        expect(first.events.map(event => event.name)).toEqual(['EscrowCreated']);
+        expect(first.objectChanges).toEqual([
+            { type: 'created', objectId: '0x' + '1'.padStart(64, 'c') },
+            { type: 'mutated', objectId: WALLET }
+        ]);
+        expect(second.objectChanges[0]).toEqual({ type: 'created', objectId: '0x' + '2'.padStart(64, 'c') });
+        expect(withdraw).toMatchObject({ kind: 'withdraw', events: [{ name: 'EscrowWithdrawn', data: { escrowId: ESCROW } }] });
+        // The escrow withdrawn earlier in the batch is left out of the sweep
+        expect(sweep.events).toEqual([expect.objectContaining({ name: 'EscrowRescued', data: expect.objectContaining({ escrowId: OWED }) })]);
+        expect(sweep.pending).toEqual([{ objectId: '0x' + 'e3'.repeat(32), rescueAt: NOW * 2n }]);
+    });
+
+    test('blames the operation whose command aborted or could not be built', async () => {
+        const abort = 'MoveAbort(MoveLocation { module: ModuleId { address: ' + 'ab'.repeat(32) +
+            ', name: Identifier("escrow_withdraw") }, function: 2, instruction: 17, ' +
+            'function_name: Some("withdraw_src") }, 1004) in command 2';
+        const failing = backend({ execute: async () => { throw decodeMoveAbort(new Error(abort), PACKAGE); } });
+
+        const error = await new SuiBatch(failing)
+            .fillWallet(WALLET, 30n, { getSecretProof: () => ({ hashlock: '0x' + '55'.repeat(32), proof: [] }) })
+            .withdraw(ESCROW, '0x' + '44'.repeat(32))
+            .execute()
+            .catch(caught => caught);
+        expect(error).toBeInstanceOf(BatchOperationError);
+        expect(error).toMatchObject({ operation: 1, kind: 'withdraw' });
+        expect(error.cause).toBeInstanceOf(InvalidSecretError);
+
+        const early = new SuiBatch(backend()).withdraw(ESCROW, '0x' + '44'.repeat(32)).rescueEscrow(OWED);
+        await expect(early.execute()).rejects.toMatchObject({ operation: 1, message: expect.stringMatching(/cannot be rescued before/) });
+    });
+});
@@ -0,0 +1,326 @@
+// tests/sui-batch.ts
+// Several escrow operations in one programmable transaction block, so a resolver settling
+// many fills pays gas and waits for finality once. Operations are resolved against chain
+// state in the order they were queued, and results are mapped back to each of them from
+// the events and object changes of the combined transaction.
+
+import type { SuiObjectChange, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+
+import { getTakingAmount } from './auction-quoter';
+import { MoveAbortError } from './escrow-errors';
+import { rescueAvailableAt } from './escrow-stages';
+import { selectSecretIndex, validateCreateSrcEscrowParams } from './escrow-validation';
+import { DecodedEscrowEvent, decodeEscrowEvent } from './sui-events';
+import type {
+    DryRunOptions,
+    DryRunResult,
+    EscrowState,
+    FillWalletOptions,
+    RescueCandidates,
+    TransactionOptions,
+    WalletState
+} from './sui-integration';
+import { addCancel, addCreateEscrowSrc, addRescueEscrow, addRescueWallet, addWithdraw } from './sui-move-calls';
+
+export type BatchOperation =
+    | { kind: 'fillWallet', walletId: string, fillAmount: bigint, options: Omit<FillWalletOptions, 'dryRun'> }
+    | { kind: 'withdraw', escrowId: string, secret: string }
+    | { kind: 'cancel', escrowId: string }
+    | { kind: 'rescueWallet', walletId: string }
+    | { kind: 'rescueEscrow', escrowId: string }
+    | { kind: 'rescueAllOwed', owner?: string };
+
+export interface BatchOperationResult {
+    index: number // position in the batch
+    kind: BatchOperation['kind']
+    events: DecodedEscrowEvent[] // one per move call, a rescue sweep makes one per object
+    objectChanges: SuiObjectChange[] // of the objects the operation created or used
+    pending?: { objectId: string, rescueAt: bigint }[] // rescue sweeps: still inside the rescue delay
+}
+
+export interface BatchResult {
+    digest: string | null // null when no operation needed a move call
+    operations: BatchOperationResult[]
+}
+
+export type BatchDryRunResult = DryRunResult & { operations: BatchOperationResult[] };
+
+/**
+ * What a batch needs from SuiIntegration
+ */
+export interface BatchBackend {
+    packageId: string
+    signer: string
+    getWallet(walletId: string): Promise<WalletState>
+    getEscrow(escrowId: string): Promise<EscrowState>
+    getClockTimestamp(): Promise<bigint>
+    findRescuable(owner: string): Promise<RescueCandidates>
+    execute(tx: Transaction): Promise<SuiTransactionBlockResponse>
+    simulate(tx: Transaction): Promise<DryRunResult>
+}
+
+/**
+ * One queued operation failed, so the whole transaction did; `cause` is the decoded abort
+ */
+export class BatchOperationError extends Error {
+    constructor(readonly operation: number, readonly kind: BatchOperation['kind'], readonly cause: Error) {
+        super(`Batch operation ${operation} (${kind}) failed: ${cause.message}`);
+        this.name = new.target.name;
+    }
+}
+
+interface BatchCall {
+    operation: number
+    objectId: string // wallet or escrow the call takes
+    event: DecodedEscrowEvent['name'] // the one event the call emits
+}
+
+interface BuiltBatch {
+    tx: Transaction
+    calls: BatchCall[]
+    commandOwners: number[] // operation of each PTB command
+    pending: Map<number, { objectId: string, rescueAt: bigint }[]>
+}
+
+/**
+ * Queue of escrow operations sent as one transaction. Get one from SuiIntegration.batch()
+ */
+export class SuiBatch {
+    private readonly operations: BatchOperation[] = [];
+
+    constructor(private readonly backend: BatchBackend) {}
+
+    get size(): number {
+        return this.operations.length;
+    }
+
+    /**
+     * create_escrow_src for `fillAmount` of a wallet, like SuiIntegration.fillWallet.
+     * Fills of the same wallet see the balance and secret index left by the earlier ones
+     */
+    fillWallet(walletId: string, fillAmount: bigint, options: Omit<FillWalletOptions, 'dryRun'>): this {
+        return this.queue({ kind: 'fillWallet', walletId, fillAmount, options });
+    }
+
+    withdraw(escrowId: string, secret: string): this {
+        return this.queue({ kind: 'withdraw', escrowId, secret });
+    }
+
+    cancel(escrowId: string): this {
+        return this.queue({ kind: 'cancel', escrowId });
+    }
+
+    rescueWallet(walletId: string): this {
+        return this.queue({ kind: 'rescueWallet', walletId });
+    }
+
+    rescueEscrow(escrowId: string): this {
+        return this.queue({ kind: 'rescueEscrow', escrowId });
+    }
+
+    /**
+     * Rescue whatever SuiIntegration.findRescuable returns when the batch is built,
+     * skipping objects earlier operations already use
+     */
+    rescueAllOwed(owner: string = this.backend.signer): this {
+        return this.queue({ kind: 'rescueAllOwed', owner });
+    }
+
+    /**
+     * Build and send the transaction, or only simulate it with `dryRun`
+     */
+    async execute(options: DryRunOptions): Promise<BatchDryRunResult>;
+    async execute(options?: TransactionOptions): Promise<BatchResult>;
+    async execute(options: TransactionOptions = {}): Promise<BatchResult | BatchDryRunResult> {
+        const built = await this.build();
+        if (built.calls.length === 0) {
+            const operations = this.mapResults(built, [], []);
+            return options.dryRun ? { ...emptyDryRun(), operations } : { digest: null, operations };
+        }
+
+        if (options.dryRun) {
+            const simulation = await this.backend.simulate(built.tx);
+            if (!simulation.success) {
+                return { ...simulation, error: this.attribute(built, simulation.error), operations: [] };
+            }
+            return { ...simulation, operations: this.mapResults(built, simulation.events, []) };
+        }
+
+        let result: SuiTransactionBlockResponse;
+        try {
+            result = await this.backend.execute(built.tx);
+        } catch (error) {
+            throw this.attribute(built, error as Error);
+        }
+
+        console.log(`✅ Batch of ${this.operations.length} operations executed: ${result.digest}`);
+        return {
+            digest: result.digest,
+            operations: this.mapResults(built, result.events ?? [], result.objectChanges ?? [])
+        };
+    }
+
+    private queue(operation: BatchOperation): this {
+        this.operations.push(operation);
+        return this;
+    }
+
+    private async build(): Promise<BuiltBatch> {
+        const { packageId, signer } = this.backend;
+        const tx = new Transaction();
+        const built: BuiltBatch = { tx, calls: [], commandOwners: [], pending: new Map() };
+        const wallets = new Map<string, WalletState>(); // as earlier fills leave them
+        const used = new Set<string>();
+        const now = await this.backend.getClockTimestamp();
+
+        const call = (operation: number, objectId: string, event: DecodedEscrowEvent['name'], add: () => void) => {
+            add();
+            built.calls.push({ operation, objectId, event });
+            used.add(objectId);
+            const commands = tx.getData().commands.length;
+            while (built.commandOwners.length < commands) {
+                built.commandOwners.push(operation);
+            }
+        };
+
+        for (const [index, operation] of this.operations.entries()) {
+            try {
+                switch (operation.kind) {
+                    case 'fillWallet': {
+                        const { walletId, fillAmount, options } = operation;
+                        const wallet = wallets.get(walletId) ?? await this.backend.getWallet(walletId);
+                        const secretIndex = selectSecretIndex(wallet, fillAmount);
+                        const { hashlock, proof } = await options.getSecretProof(secretIndex, wallet);
+                        const params = {
+                            walletId,
+                            secretHashlock: hashlock,
+                            secretIndex,
+                            merkleProof: wallet.allowPartialFills ? proof : [],
+                            taker: options.taker ?? signer,
+                            makingAmount: fillAmount,
+                            takingAmount: options.takingAmount ?? getTakingAmount(wallet, fillAmount, BigInt(Date.now())),
+                            safetyDeposit: options.safetyDeposit ?? wallet.srcSafetyDepositAmount
+                        };
+                        validateCreateSrcEscrowParams(wallet, params);
+                        call(index, walletId, 'EscrowCreated', () => addCreateEscrowSrc(tx, packageId, params, wallet.tokenType));
+                        wallets.set(walletId, { ...wallet, balance: wallet.balance - fillAmount, lastUsedIndex: secretIndex });
+                        break;
+                    }
+                    case 'withdraw': {
+                        const escrow = await this.backend.getEscrow(operation.escrowId);
+                        call(index, escrow.escrowId, 'EscrowWithdrawn', () =>
+                            addWithdraw(tx, packageId, escrow.escrowId, escrow.escrowType, operation.secret, escrow.coinType));
+                        break;
+                    }
+                    case 'cancel': {
+                        const escrow = await this.backend.getEscrow(operation.escrowId);
+                        call(index, escrow.escrowId, 'EscrowCancelled', () =>
+                            addCancel(tx, packageId, escrow.escrowId, escrow.escrowType, escrow.coinType));
+                        break;
+                    }
+                    case 'rescueWallet': {
+                        const wallet = await this.backend.getWallet(operation.walletId);
+                        assertRescuable(operation.walletId, rescueAvailableAt('src', wallet.timelocks, wallet.createdAt), now);
+                        call(index, wallet.walletId, 'WalletRescued', () =>
+                            addRescueWallet(tx, packageId, wallet.walletId, wallet.tokenType));
+                        break;
+                    }
+                    case 'rescueEscrow': {
+                        const escrow = await this.backend.getEscrow(operation.escrowId);
+                        assertRescuable(
+                            escrow.escrowId,
+                            rescueAvailableAt(escrow.escrowType, escrow.immutables.timelocks, escrow.createdAt),
+                            now
+                        );
+                        call(index, escrow.escrowId, 'EscrowRescued', () =>
+                            addRescueEscrow(tx, packageId, escrow.escrowId, escrow.escrowType, escrow.coinType));
+                        break;
+                    }
+                    case 'rescueAllOwed': {
+                        const candidates = await this.backend.findRescuable(operation.owner ?? signer);
+                        for (const { walletId, tokenType } of candidates.wallets.filter(({ walletId }) => !used.has(walletId))) {
+                            call(index, walletId, 'WalletRescued', () => addRescueWallet(tx, packageId, walletId, tokenType));
+                        }
+                        for (const { escrowId, escrowType, coinType } of candidates.escrows.filter(({ escrowId }) => !used.has(escrowId))) {
+                            call(index, escrowId, 'EscrowRescued', () => addRescueEscrow(tx, packageId, escrowId, escrowType, coinType));
+                        }
+                        built.pending.set(index, candidates.pending);
+                        break;
+                    }
+                }
+            } catch (error) {
+                throw new BatchOperationError(index, operation.kind, error as Error);
+            }
+        }
+
+        return built;
+    }
+
+    /**
+     * Escrow events come out in the order of the move calls, one each
+     */
+    private mapResults(
+        built: BuiltBatch,
+        events: { type: string, parsedJson?: unknown }[],
+        objectChanges: SuiObjectChange[]
+    ): BatchOperationResult[] {
+        const decoded = events
+            .map(event => decodeEscrowEvent(event.type, event.parsedJson))
+            .filter((event): event is DecodedEscrowEvent => event !== null);
+        if (decoded.length !== built.calls.length) {
+            throw new Error(`Batch emitted ${decoded.length} escrow events for ${built.calls.length} calls`);
+        }
+
+        const results: BatchOperationResult[] = this.operations.map((operation, index) => ({
+            index,
+            kind: operation.kind,
+            events: [],
+            objectChanges: [],
+            ...(built.pending.has(index) ? { pending: built.pending.get(index) } : {})
+        }));
+
+        built.calls.forEach((call, i) => {
+            const event = decoded[i];
+            if (event.name !== call.event) {
+                throw new Error(`Batch call ${i} on ${call.objectId} emitted ${event.name}, expected ${call.event}`);
+            }
+
+            const ids = new Set([call.objectId, ...(event.name === 'EscrowCreated' ? [event.data.escrowId] : [])]);
+            const result = results[call.operation];
+            result.events.push(event);
+            result.objectChanges.push(...objectChanges.filter(change =>
+                'objectId' in change && ids.has(change.objectId) && !result.objectChanges.includes(change)
+            ));
+        });
+
+        return results;
+    }
+
+    /**
+     * Blame the operation whose command aborted
+     */
+    private attribute(built: BuiltBatch, error: Error | null): Error | null {
+        if (!(error instanceof MoveAbortError) || error.abort.command === null) {
+            return error;
+        }
+        const operation = built.commandOwners[error.abort.command];
+        return operation === undefined ? error : new BatchOperationError(operation, this.operations[operation].kind, error);
+    }
+}
+
+function assertRescuable(objectId: string, rescueAt: bigint, now: bigint): void {
+    if (now < rescueAt) {
+        throw new Error(`${objectId} cannot be rescued before ${new Date(Number(rescueAt)).toISOString()}`);
+    }
+}
+
+function emptyDryRun(): DryRunResult {
+    return {
+        success: true,
+        events: [],
+        balanceChanges: [],
+        gas: { computationCost: 0n, storageCost: 0n, storageRebate: 0n, totalCost: 0n },
+        error: null
+    };
+}
@@ -0,0 +1,59 @@
+// tests/sui-coins-spec.ts
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Transaction } from '@mysten/sui/transactions';
+
+import { SuiIntegration } from './sui-integration';
+
+const USDC = '0xa1ec7fc00a6f40db9693ad1415d0c193ad3906494428cf252621037bd7117e29::usdc::USDC';
+
+function coin(id: number, balance: bigint) {
+    return {
+        coinObjectId: '0x' + id.toString(16).padStart(64, '0'),
+        coinType: USDC,
+        balance: balance.toString(),
+        version: '1',
+        digest: '11111111111111111111111111111111',
+        previousTransaction: ''
+    };
+}
+
+function integration(): SuiIntegration {
+    const sui = new SuiIntegration('http://127.0.0.1:9000', '0x1', Ed25519Keypair.generate());
+    // Only the calls coin handling needs
+    Object.assign(sui, {
+        client: {
+            getCoins: async ({ cursor }: { cursor: string | null }) => cursor
+                ? { data: [coin(3, 5_000_000n)], hasNextPage: false, nextCursor: null }
+                : { data: [coin(1, 1_000_000n), coin(2, 2_000_000n)], hasNextPage: true, nextCursor: 'page2' },
+            getCoinMetadata: async () => ({ decimals: 6, symbol: 'USDC', name: 'USD Coin' })
+        }
+    });
+    return sui;
+}
+
+describe('Coin<T> funding', () => {
+    test('converts between human amounts and base units with CoinMetadata', async () => {
+        const sui = integration();
+
+        expect(await sui.parseAmount(USDC, '12.5')).toBe(12_500_000n);
+        expect(await sui.formatAmount(USDC, 12_500_000n)).toBe('12.5 USDC');
+    });
+
+    test('merges the largest coins of the type instead of splitting gas', async () => {
+        const sui = integration();
+        const tx = new Transaction();
+
+        await sui['splitCoinsOf'](tx, USDC, [6_000_000n]);
+
+        const [merge, split] = tx.getData().commands;
+        expect(merge.$kind).toBe('MergeCoins');
+        expect(merge.MergeCoins!.sources).toHaveLength(1); // 5 + 2 covers 6
+        expect(split.SplitCoins!.coin).toEqual(merge.MergeCoins!.destination);
+        expect(split.SplitCoins!.coin.$kind).not.toBe('GasCoin');
+    });
+
+    test('refuses when the owner does not hold enough of the coin', async () => {
+        await expect(integration()['splitCoinsOf'](new Transaction(), USDC, [9_000_000n]))
+            .rejects.toThrow(/Insufficient/);
+    });
+});
@@ -0,0 +1,114 @@
+// tests/sui-dry-run-spec.ts
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Transaction } from '@mysten/sui/transactions';
+import { Wallet } from 'ethers';
+
+import { AddressBindingError, signAddressBinding } from './address-binding';
+import { InvalidSecretError } from './escrow-errors';
+import { SuiIntegration } from './sui-integration';
+import { Timelocks } from './timelocks';
+
+const PACKAGE = '0x' + 'ab'.repeat(32);
+const ESCROW_ID = '0x' + 'e1'.repeat(32);
+const SECRET = '0x' + '33'.repeat(32);
+
+const gasUsed = { computationCost: '1000', storageCost: '2000', storageRebate: '500', nonRefundableStorageFee: '0' };
+const withdrawnEvent = { type: `${PACKAGE}::escrow_withdraw::EscrowWithdrawn`, parsedJson: {} };
+
+const ABORT = 'MoveAbort(MoveLocation { module: ModuleId { address: ' + 'ab'.repeat(32) +
+    ', name: Identifier("escrow_withdraw") }, function: 2, instruction: 17, function_name: Some("withdraw_src") }, 1004) in command 0';
+
+/**
+ * SuiIntegration whose client can only inspect and dry-run, so signing would throw
+ */
+function integration(inspectError?: string) {
+    const keypair = Ed25519Keypair.generate();
+    const sui = new SuiIntegration('http://127.0.0.1:9000', PACKAGE, keypair);
+    const calls = { inspected: [] as { sender: string, transactionBlock: Transaction }[], dryRuns: 0 };
+    Object.assign(sui, {
+        client: {
+            devInspectTransactionBlock: async (input: { sender: string, transactionBlock: Transaction }) => {
+                calls.inspected.push(input);
+                return {
+                    effects: { status: inspectError ? { status: 'failure', error: inspectError } : { status: 'success' }, gasUsed },
+                    events: inspectError ? [] : [withdrawnEvent],
+                    error: inspectError
+                };
+            },
+            dryRunTransactionBlock: async () => {
+                calls.dryRuns++;
+                return {
+                    effects: { status: { status: 'success' }, gasUsed },
+                    events: [withdrawnEvent],
+                    balanceChanges: [{ owner: { AddressOwner: keypair.toSuiAddress() }, coinType: '0x2::sui::SUI', amount: '1000' }]
+                };
+            },
+            signAndExecuteTransaction: async () => {
+                throw new Error('a dry run must not sign');
+            }
+        }
+    });
+    return { sui, calls, sender: keypair.toSuiAddress() };
+}
+
+describe('dryRun', () => {
+    beforeEach(() => {
+        // Resolving gas and shared objects needs a live node, the dry run only needs the bytes
+        jest.spyOn(Transaction.prototype, 'build').mockResolvedValue(new Uint8Array([1]));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('predicts events, balance changes and gas without signing', async () => {
+        const { sui, calls, sender } = integration();
+
+        const result = await sui.withdraw(ESCROW_ID, 'src', SECRET, undefined, { dryRun: true });
+
+        expect(result).toMatchObject({ success: true, error: null, events: [withdrawnEvent] });
+        expect(result.balanceChanges).toHaveLength(1);
+        expect(result.gas).toEqual({ computationCost: 1000n, storageCost: 2000n, storageRebate: 500n, totalCost: 2500n });
+        expect(calls.inspected[0].sender).toBe(sender);
+        expect(calls.inspected[0].transactionBlock.getData().sender).toBe(sender);
+        expect(calls.dryRuns).toBe(1);
+    });
+
+    test('reports an abort as a typed error instead of throwing', async () => {
+        const { sui, calls } = integration(ABORT);
+
+        const result = await sui.withdraw(ESCROW_ID, 'src', SECRET, undefined, { dryRun: true });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBeInstanceOf(InvalidSecretError);
+        expect(result.balanceChanges).toEqual([]);
+        expect(result.gas.totalCost).toBe(2500n);
+        // The abort is known after devInspect, building for dryRun would fail gas estimation
+        expect(calls.dryRuns).toBe(0);
+    });
+
+    test('creates a dst escrow only for a recipient bound to the order\'s EVM maker', async () => {
+        const { sui, calls } = integration();
+        const orderHash = '0x' + '11'.repeat(32);
+        const maker = Wallet.createRandom();
+        const binding = await signAddressBinding(maker, Ed25519Keypair.generate(), orderHash);
+        const timelocks = Timelocks.new({
+            srcWithdrawal: 10_000n,
+            srcPublicWithdrawal: 20_000n,
+            srcCancellation: 30_000n,
+            srcPublicCancellation: 40_000n,
+            dstWithdrawal: 5_000n,
+            dstPublicWithdrawal: 15_000n,
+            dstCancellation: 25_000n
+        });
+        const create = (evmAddress: string) => sui.createDstEscrow(
+            orderHash, '0x' + '22'.repeat(32), { evmAddress, binding }, 1000n, 10n, timelocks, undefined, { dryRun: true }
+        );
+
+        await expect(create(Wallet.createRandom().address)).rejects.toThrow(AddressBindingError);
+        expect(calls.inspected).toHaveLength(0);
+
+        expect((await create(maker.address)).success).toBe(true);
+        expect(calls.inspected).toHaveLength(1);
+    });
+});
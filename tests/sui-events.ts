@@ -0,0 +1,340 @@
+// tests/sui-events.ts
+import { SuiEvent } from '@mysten/sui/client';
+import { hexlify } from 'ethers';
+
+import { Timelocks } from './timelocks';
+
+/**
+ * Typed mirror of escrow::events::WalletCreated
+ */
+export interface WalletCreatedEvent {
+    walletId: string
+    orderHash: string
+    salt: bigint
+    maker: string
+    makerAsset: string
+    takerAsset: string
+    makingAmount: bigint
+    takingAmount: bigint
+    duration: bigint
+    hashlock: string
+    timelocks: Timelocks
+    srcSafetyDepositAmount: bigint
+    dstSafetyDepositAmount: bigint
+    allowPartialFills: boolean
+    partsAmount: number
+    createdAt: bigint
+}
+
+/**
+ * Typed mirror of escrow::events::EscrowCreated (emitted for both src and dst escrows)
+ */
+export interface EscrowCreatedEvent {
+    escrowId: string
+    orderHash: string
+    hashlock: string
+    maker: string
+    taker: string
+    amount: bigint
+    safetyDeposit: bigint
+    createdAt: bigint
+    secretIndex: number // `last_used_index` on-chain, always 0 for dst escrows
+}
+
+/**
+ * Typed mirror of escrow::events::EscrowWithdrawn
+ */
+export interface EscrowWithdrawnEvent {
+    escrowId: string
+    orderHash: string
+    hashlock: string
+    secret: string
+    withdrawnBy: string
+    maker: string
+    taker: string
+    amount: bigint
+    withdrawnAt: bigint
+}
+
+/**
+ * Typed mirror of escrow::events::EscrowCancelled
+ */
+export interface EscrowCancelledEvent {
+    escrowId: string
+    orderHash: string
+    maker: string
+    taker: string
+    cancelledBy: string
+    amount: bigint
+    cancelledAt: bigint
+}
+
+/**
+ * Typed mirror of escrow::escrow_rescue::WalletRescued
+ */
+export interface WalletRescuedEvent {
+    walletId: string
+    orderHash: string
+    maker: string
+    rescuedBy: string
+    amount: bigint
+    rescuedAt: bigint
+}
+
+/**
+ * Typed mirror of escrow::escrow_rescue::EscrowRescued
+ */
+export interface EscrowRescuedEvent {
+    escrowId: string
+    orderHash: string
+    hashlock: string
+    maker: string
+    taker: string
+    rescuedBy: string
+    amount: bigint
+    rescuedAt: bigint
+    escrowType: 'src' | 'dst'
+}
+
+/**
+ * Any escrow package event, tagged with its struct name
+ */
+export type DecodedEscrowEvent =
+    | { name: 'WalletCreated', data: WalletCreatedEvent }
+    | { name: 'EscrowCreated', data: EscrowCreatedEvent }
+    | { name: 'EscrowWithdrawn', data: EscrowWithdrawnEvent }
+    | { name: 'EscrowCancelled', data: EscrowCancelledEvent }
+    | { name: 'WalletRescued', data: WalletRescuedEvent }
+    | { name: 'EscrowRescued', data: EscrowRescuedEvent };
+
+// Raw parsedJson shapes as emitted by the escrow package: u64s arrive as strings, u8s as
+// numbers, vector<u8> as number arrays and addresses/object ids as 0x strings
+interface TimelocksJson {
+    src_withdrawal: string
+    src_public_withdrawal: string
+    src_cancellation: string
+    src_public_cancellation: string
+    dst_withdrawal: string
+    dst_public_withdrawal: string
+    dst_cancellation: string
+}
+
+interface WalletCreatedJson {
+    wallet_id: string
+    order_hash: number[]
+    salt: string
+    maker: string
+    maker_asset: string
+    taker_asset: string
+    making_amount: string
+    taking_amount: string
+    duration: string
+    hashlock: number[]
+    timelocks: TimelocksJson
+    src_safety_deposit_amount: string
+    dst_safety_deposit_amount: string
+    allow_partial_fills: boolean
+    parts_amount: number
+    created_at: string
+}
+
+interface EscrowCreatedJson {
+    escrow_id: string
+    order_hash: number[]
+    hashlock: number[]
+    maker: string
+    taker: string
+    amount: string
+    safety_deposit: string
+    created_at: string
+    last_used_index: number
+}
+
+interface EscrowWithdrawnJson {
+    escrow_id: string
+    order_hash: number[]
+    hashlock: number[]
+    secret: number[]
+    withdrawn_by: string
+    maker: string
+    taker: string
+    amount: string
+    withdrawn_at: string
+}
+
+interface EscrowCancelledJson {
+    escrow_id: string
+    order_hash: number[]
+    maker: string
+    taker: string
+    cancelled_by: string
+    amount: string
+    cancelled_at: string
+}
+
+interface WalletRescuedJson {
+    wallet_id: string
+    order_hash: number[]
+    maker: string
+    rescued_by: string
+    amount: string
+    rescued_at: string
+}
+
+interface EscrowRescuedJson {
+    escrow_id: string
+    order_hash: number[]
+    hashlock: number[]
+    maker: string
+    taker: string
+    rescued_by: string
+    amount: string
+    rescued_at: string
+    escrow_type: 'source' | 'destination'
+}
+
+/**
+ * Convert a Move `vector<u8>` from parsedJson (array of numbers) to a 0x hex string
+ */
+export function moveBytesToHex(value: unknown): string {
+    return hexlify(Uint8Array.from(value as number[]));
+}
+
+/**
+ * Decode an escrow::structs::Timelocks value from parsedJson
+ */
+export function parseTimelocks(parsedJson: unknown): Timelocks {
+    const json = parsedJson as TimelocksJson;
+    return Timelocks.new({
+        srcWithdrawal: BigInt(json.src_withdrawal),
+        srcPublicWithdrawal: BigInt(json.src_public_withdrawal),
+        srcCancellation: BigInt(json.src_cancellation),
+        srcPublicCancellation: BigInt(json.src_public_cancellation),
+        dstWithdrawal: BigInt(json.dst_withdrawal),
+        dstPublicWithdrawal: BigInt(json.dst_public_withdrawal),
+        dstCancellation: BigInt(json.dst_cancellation)
+    });
+}
+
+export function parseWalletCreated(parsedJson: unknown): WalletCreatedEvent {
+    const json = parsedJson as WalletCreatedJson;
+    return {
+        walletId: json.wallet_id,
+        orderHash: moveBytesToHex(json.order_hash),
+        salt: BigInt(json.salt),
+        maker: json.maker,
+        makerAsset: json.maker_asset,
+        takerAsset: json.taker_asset,
+        makingAmount: BigInt(json.making_amount),
+        takingAmount: BigInt(json.taking_amount),
+        duration: BigInt(json.duration),
+        hashlock: moveBytesToHex(json.hashlock),
+        timelocks: parseTimelocks(json.timelocks),
+        srcSafetyDepositAmount: BigInt(json.src_safety_deposit_amount),
+        dstSafetyDepositAmount: BigInt(json.dst_safety_deposit_amount),
+        allowPartialFills: json.allow_partial_fills,
+        partsAmount: Number(json.parts_amount),
+        createdAt: BigInt(json.created_at)
+    };
+}
+
+export function parseEscrowCreated(parsedJson: unknown): EscrowCreatedEvent {
+    const json = parsedJson as EscrowCreatedJson;
+    return {
+        escrowId: json.escrow_id,
+        orderHash: moveBytesToHex(json.order_hash),
+        hashlock: moveBytesToHex(json.hashlock),
+        maker: json.maker,
+        taker: json.taker,
+        amount: BigInt(json.amount),
+        safetyDeposit: BigInt(json.safety_deposit),
+        createdAt: BigInt(json.created_at),
+        secretIndex: Number(json.last_used_index)
+    };
+}
+
+export function parseEscrowWithdrawn(parsedJson: unknown): EscrowWithdrawnEvent {
+    const json = parsedJson as EscrowWithdrawnJson;
+    return {
+        escrowId: json.escrow_id,
+        orderHash: moveBytesToHex(json.order_hash),
+        hashlock: moveBytesToHex(json.hashlock),
+        secret: moveBytesToHex(json.secret),
+        withdrawnBy: json.withdrawn_by,
+        maker: json.maker,
+        taker: json.taker,
+        amount: BigInt(json.amount),
+        withdrawnAt: BigInt(json.withdrawn_at)
+    };
+}
+
+export function parseEscrowCancelled(parsedJson: unknown): EscrowCancelledEvent {
+    const json = parsedJson as EscrowCancelledJson;
+    return {
+        escrowId: json.escrow_id,
+        orderHash: moveBytesToHex(json.order_hash),
+        maker: json.maker,
+        taker: json.taker,
+        cancelledBy: json.cancelled_by,
+        amount: BigInt(json.amount),
+        cancelledAt: BigInt(json.cancelled_at)
+    };
+}
+
+export function parseWalletRescued(parsedJson: unknown): WalletRescuedEvent {
+    const json = parsedJson as WalletRescuedJson;
+    return {
+        walletId: json.wallet_id,
+        orderHash: moveBytesToHex(json.order_hash),
+        maker: json.maker,
+        rescuedBy: json.rescued_by,
+        amount: BigInt(json.amount),
+        rescuedAt: BigInt(json.rescued_at)
+    };
+}
+
+export function parseEscrowRescued(parsedJson: unknown): EscrowRescuedEvent {
+    const json = parsedJson as EscrowRescuedJson;
+    return {
+        escrowId: json.escrow_id,
+        orderHash: moveBytesToHex(json.order_hash),
+        hashlock: moveBytesToHex(json.hashlock),
+        maker: json.maker,
+        taker: json.taker,
+        rescuedBy: json.rescued_by,
+        amount: BigInt(json.amount),
+        rescuedAt: BigInt(json.rescued_at),
+        // escrow_type is the string "source" or "destination"
+        escrowType: json.escrow_type === 'source' ? 'src' : 'dst'
+    };
+}
+
+/**
+ * Find an escrow event by struct name, e.g. `events::WalletCreated`
+ */
+export function findEvent(events: SuiEvent[] | null | undefined, name: string): SuiEvent | undefined {
+    return events?.find(e => e.type.endsWith(`::${name}`));
+}
+
+/**
+ * Decode any event emitted by the escrow package, or null for foreign event types
+ */
+export function decodeEscrowEvent(type: string, json: unknown): DecodedEscrowEvent | null {
+    const name = type.slice(type.lastIndexOf('::') + 2);
+    switch (name) {
+        case 'WalletCreated':
+            return { name, data: parseWalletCreated(json) };
+        case 'EscrowCreated':
+            return { name, data: parseEscrowCreated(json) };
+        case 'EscrowWithdrawn':
+            return { name, data: parseEscrowWithdrawn(json) };
+        case 'EscrowCancelled':
+            return { name, data: parseEscrowCancelled(json) };
+        case 'WalletRescued':
+            return { name, data: parseWalletRescued(json) };
+        case 'EscrowRescued':
+            return { name, data: parseEscrowRescued(json) };
+        default:
+            return null;
+    }
+}
@@ -5,22 +5,64 @@ import {
     getFullnodeUrl, 
     SuiClient, 
     SuiTransactionBlockResponse,
-    SuiObjectResponse
+    SuiObjectResponse,
+    SuiEvent,
+    EventId,
+    BalanceChange,
+    CoinStruct,
+    GasCostSummary
 } from '@mysten/sui/client';
 
 import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
 import { Secp256k1Keypair } from '@mysten/sui/keypairs/secp256k1';
-import { Transaction } from '@mysten/sui/transactions';  // <-- Changed from TransactionBlock
+import { Transaction, TransactionResult } from '@mysten/sui/transactions';  // <-- Changed from TransactionBlock
 import { bcs } from '@mysten/sui/bcs';
+import { SUI_TYPE_ARG, normalizeStructTag, normalizeSuiAddress } from '@mysten/sui/utils';
 
 // Import utilities we'll need
 import Sdk from '@1inch/cross-chain-sdk';
-import { keccak256, randomBytes, parseUnits } from 'ethers';
+import { keccak256, randomBytes, parseUnits, formatUnits, getBytes } from 'ethers';
 
-// Sui system objects
-const SUI_CLOCK_OBJECT_ID = '0x0000000000000000000000000000000000000000000000000000000000000006';
+import { AuctionQuote, getTakingAmount, quote } from './auction-quoter';
+import {
+    selectSecretIndex,
+    validateCreateSrcEscrowParams,
+    validateCreateWalletParams
+} from './escrow-validation';
+import {
+    EscrowCreatedEvent,
+    EscrowRescuedEvent,
+    WalletCreatedEvent,
+    WalletRescuedEvent,
+    findEvent,
+    moveBytesToHex,
+    parseEscrowCreated,
+    parseEscrowRescued,
+    parseTimelocks,
+    parseWalletCreated,
+    parseWalletRescued
+} from './sui-events';
+import { Timelocks } from './timelocks';
+import { AddressBinding, verifyAddressBinding } from './address-binding';
+import { MoveAbortError, decodeMoveAbort } from './escrow-errors';
+import { EscrowStage, EscrowStageInfo, EscrowStatus, getStageInfo, rescueAvailableAt } from './escrow-stages';
+import { WaitForStageOptions, waitForStage, waitUntil } from './chain-waits';
+import { EscrowVerification, ExpectedEscrow, compareEscrowToOrder } from './escrow-verification';
+import { SuiBatch } from './sui-batch';
+import {
+    SUI_CLOCK_OBJECT_ID,
+    addCancel,
+    addCreateEscrowSrc,
+    addRescueEscrow,
+    addRescueWallet,
+    addWithdraw
+} from './sui-move-calls';
+
+// How long execute waits for the RPC to show a transaction and the objects it created
+const EFFECTS_TIMEOUT_MS = 60_000;
 
 // Let's define the structure of your Sui escrow data
+// (mirrors escrow::structs::EscrowImmutables)
 export interface SuiEscrowImmutables {
     orderHash: string
     hashlock: string
@@ -29,32 +71,194 @@ export interface SuiEscrowImmutables {
     tokenType: string
     amount: bigint
     safetyDeposit: bigint
-    resolver: string
-    timelocks: {
-        deployedAt: bigint
-        srcWithdrawal: bigint
-        srcPublicWithdrawal: bigint
-        srcCancellation: bigint
-        srcPublicCancellation: bigint
-        dstWithdrawal: bigint
-        dstPublicWithdrawal: bigint
-        dstCancellation: bigint
+    timelocks: Timelocks
+}
+
+/**
+ * On-chain state of an escrow::structs::EscrowSrc or EscrowDst
+ */
+export interface EscrowState {
+    escrowId: string
+    escrowType: 'src' | 'dst'
+    coinType: string
+    immutables: SuiEscrowImmutables
+    tokenBalance: bigint
+    safetyDeposit: bigint
+    createdAt: bigint
+    status: EscrowStatus
+}
+
+/**
+ * Arguments of escrow_create::create_wallet (amounts in base units, timelocks in ms)
+ */
+export interface CreateWalletParams {
+    orderHash: string
+    salt: bigint
+    makerAsset: string
+    takerAsset: string
+    makingAmount: bigint
+    takingAmount: bigint
+    duration: bigint // Dutch auction duration in ms
+    hashlock: string // keccak256(secret) for full fills, merkle root for partial fills
+    srcSafetyDepositAmount: bigint
+    dstSafetyDepositAmount: bigint
+    allowPartialFills: boolean
+    partsAmount: number // 0 for full fills, > 1 for partial fills
+    timelocks: Timelocks
+}
+
+/**
+ * On-chain state of an escrow::structs::Wallet
+ */
+export interface WalletState {
+    walletId: string
+    tokenType: string
+    orderHash: string
+    salt: bigint
+    maker: string
+    makerAsset: string
+    takerAsset: string
+    makingAmount: bigint
+    takingAmount: bigint
+    duration: bigint
+    hashlock: string
+    timelocks: Timelocks
+    srcSafetyDepositAmount: bigint
+    dstSafetyDepositAmount: bigint
+    allowPartialFills: boolean
+    partsAmount: number
+    lastUsedIndex: number // 255 until the first fill
+    balance: bigint
+    createdAt: bigint
+    isActive: boolean
+}
+
+/**
+ * Arguments of escrow_create::create_escrow_src
+ */
+export interface CreateSrcEscrowParams {
+    walletId: string
+    secretHashlock: string // keccak256(secret_i), the merkle leaf for partial fills
+    secretIndex: number
+    merkleProof: string[] // empty for full fills
+    taker?: string // Sui address receiving the funds, defaults to the signer
+    makingAmount: bigint
+    takingAmount: bigint
+    safetyDeposit: bigint
+}
+
+/**
+ * Maker of a destination escrow: the EVM address that signed the order and its proof
+ * of controlling the Sui recipient
+ */
+export interface DstEscrowMaker {
+    evmAddress: string // maker of the EVM order
+    binding: AddressBinding // evmAddress -> Sui recipient
+}
+
+/**
+ * Options of SuiIntegration.fillWallet
+ */
+export interface FillWalletOptions extends TransactionOptions {
+    takingAmount?: bigint // defaults to the current Dutch auction price
+    safetyDeposit?: bigint // defaults to the wallet's src safety deposit
+    taker?: string
+    getSecretProof: SecretProofProvider
+}
+
+/**
+ * Supplies the hashlock and merkle proof for a secret index, e.g. from the
+ * secret hashes the maker published with the order
+ */
+export type SecretProofProvider = (
+    secretIndex: number,
+    wallet: WalletState
+) => { hashlock: string, proof: string[] } | Promise<{ hashlock: string, proof: string[] }>;
+
+/**
+ * Options accepted by every escrow transaction method
+ */
+export interface TransactionOptions {
+    dryRun?: boolean // simulate only, nothing is signed or submitted
+}
+
+export type DryRunOptions = TransactionOptions & { dryRun: true };
+
+/**
+ * Predicted outcome of a transaction, from devInspect / dryRun
+ */
+export interface DryRunResult {
+    success: boolean
+    events: SuiEvent[]
+    balanceChanges: BalanceChange[] // empty when the transaction aborts
+    gas: {
+        computationCost: bigint
+        storageCost: bigint
+        storageRebate: bigint
+        totalCost: bigint // computation + storage - rebate, in MIST
     }
+    error: MoveAbortError | Error | null
+}
+
+/**
+ * Coin metadata needed to read and write human amounts
+ */
+export interface CoinInfo {
+    coinType: string // normalized
+    decimals: number
+    symbol: string
+    name: string
+}
+
+/**
+ * Outcome of SuiIntegration.findRescuable
+ */
+export interface RescueCandidates {
+    wallets: { walletId: string, tokenType: string }[]
+    escrows: { escrowId: string, escrowType: 'src' | 'dst', coinType: string }[]
+    pending: { objectId: string, rescueAt: bigint }[] // still inside the rescue delay
+}
+
+/**
+ * Outcome of SuiIntegration.rescueAllOwed
+ */
+export interface RescueSweepResult {
+    wallets: WalletRescuedEvent[]
+    escrows: EscrowRescuedEvent[]
+    pending: { objectId: string, rescueAt: bigint }[] // still inside the rescue delay
+    failed: { objectId: string, error: unknown }[]
+}
+
+function summarizeGas(gasUsed: GasCostSummary): DryRunResult['gas'] {
+    const computationCost = BigInt(gasUsed.computationCost);
+    const storageCost = BigInt(gasUsed.storageCost);
+    const storageRebate = BigInt(gasUsed.storageRebate);
+    
+    return {
+        computationCost,
+        storageCost,
+        storageRebate,
+        totalCost: computationCost + storageCost - storageRebate
+    };
 }
 
 // Main class that will handle all Sui interactions
 export class SuiIntegration {
     private client: SuiClient;
     private keypair: Ed25519Keypair | Secp256k1Keypair;
+    private coinMetadata = new Map<string, CoinInfo>();
+    private log: (...args: unknown[]) => void;
     
     constructor(
         private rpcUrl: string,
         private escrowPackageId: string,
-        keypair: Ed25519Keypair | Secp256k1Keypair
+        keypair: Ed25519Keypair | Secp256k1Keypair,
+        options: { log?: (...args: unknown[]) => void } = {} // progress messages, console.log by default
     ) {
         // Use the new SuiClient syntax
         this.client = new SuiClient({ url: rpcUrl });
         this.keypair = keypair;
+        this.log = options.log ?? console.log;
     }
     
     /**
@@ -64,12 +268,12 @@ export class SuiIntegration {
         try {
             // Test 1: Check client connection
             const checkpoint = await this.client.getLatestCheckpointSequenceNumber();
-            console.log(`✅ Connected to Sui at ${this.rpcUrl}`);
-            console.log(`   Latest checkpoint: ${checkpoint}`);
+            this.log(`✅ Connected to Sui at ${this.rpcUrl}`);
+            this.log(`   Latest checkpoint: ${checkpoint}`);
             
             // Test 2: Get our address
             const address = this.keypair.getPublicKey().toSuiAddress();
-            console.log(`✅ Using address: ${address}`);
+            this.log(`✅ Using address: ${address}`);
             
             // Test 3: Check if package exists
             const packageObj = await this.client.getObject({
@@ -78,36 +282,23 @@ export class SuiIntegration {
             });
             
             if (packageObj.data) {
-                console.log(`✅ Found escrow package at: ${this.escrowPackageId}`);
+                this.log(`✅ Found escrow package at: ${this.escrowPackageId}`);
             } else {
-                console.log(`❌ Package not found at: ${this.escrowPackageId}`);
+                this.log(`❌ Package not found at: ${this.escrowPackageId}`);
             }
             
             // Test 4: Get balance
             const balance = await this.client.getBalance({
                 owner: address
             });
-            console.log(`✅ Balance: ${balance.totalBalance} MIST (${Number(balance.totalBalance) / 1e9} SUI)`);
+            this.log(`✅ Balance: ${balance.totalBalance} MIST (${Number(balance.totalBalance) / 1e9} SUI)`);
             
         } catch (error) {
-            console.error('❌ Connection test failed:', error);
+            this.log('❌ Connection test failed:', error);
             throw error;
         }
     }
 
-    /**
-     * Convert EVM address to Sui address format for cross-chain mapping
-     * This is a simplified version - in production you'd want a proper mapping system
-     */
-    private evmAddressToSuiAddress(evmAddress: string): string {
-        // For MVP: use a deterministic mapping based on EVM address
-        // Remove 0x prefix and take first 32 bytes after padding
-        const cleaned = evmAddress.toLowerCase().replace('0x', '');
-        // Pad with zeros to make it 64 chars (32 bytes)
-        const padded = cleaned.padEnd(64, '0');
-        return '0x' + padded.slice(0, 64);
-    }
-
     /**
      * Get signer address
      */
@@ -115,30 +306,82 @@ export class SuiIntegration {
         return this.keypair.getPublicKey().toSuiAddress();
     }
 
-    async getBalance(address: string): Promise<bigint> {
+    async getBalance(address: string, coinType: string = SUI_TYPE_ARG): Promise<bigint> {
         const balance = await this.client.getBalance({
-            owner: address
+            owner: address,
+            coinType
         });
         return BigInt(balance.totalBalance);
     }
 
+    /**
+     * Decimals and symbol of a coin type, cached per type
+     */
+    async getCoinMetadata(coinType: string): Promise<CoinInfo> {
+        const key = normalizeStructTag(coinType);
+        let info = this.coinMetadata.get(key);
+        if (!info) {
+            const metadata = await this.client.getCoinMetadata({ coinType });
+            if (!metadata) {
+                throw new Error(`No CoinMetadata found for ${coinType}`);
+            }
+            info = {
+                coinType: key,
+                decimals: metadata.decimals,
+                symbol: metadata.symbol,
+                name: metadata.name
+            };
+            this.coinMetadata.set(key, info);
+        }
+        return info;
+    }
+
+    /**
+     * Human amount (e.g. "12.5") to base units of `coinType`
+     */
+    async parseAmount(coinType: string, amount: string): Promise<bigint> {
+        const { decimals } = await this.getCoinMetadata(coinType);
+        return parseUnits(amount, decimals);
+    }
+
+    /**
+     * Base units of `coinType` to a human amount with its symbol, e.g. "12.5 USDC"
+     */
+    async formatAmount(coinType: string, amount: bigint): Promise<string> {
+        const { decimals, symbol } = await this.getCoinMetadata(coinType);
+        return `${formatUnits(amount, decimals)} ${symbol}`;
+    }
+
     /**
      * Create a pre-funded wallet for Sui as source chain
      */
     async createWallet(
-        orderHash: string,
-        amount: bigint,
-        tokenType: string = '0x2::sui::SUI'
-    ): Promise<string> {
-        console.log('Creating wallet with order hash:', orderHash);
+        params: CreateWalletParams,
+        tokenType: string | undefined,
+        options: DryRunOptions
+    ): Promise<DryRunResult>;
+    async createWallet(
+        params: CreateWalletParams,
+        tokenType?: string,
+        options?: TransactionOptions
+    ): Promise<WalletCreatedEvent>;
+    async createWallet(
+        params: CreateWalletParams,
+        tokenType: string = '0x2::sui::SUI',
+        options: TransactionOptions = {}
+    ): Promise<WalletCreatedEvent | DryRunResult> {
+        this.log('Creating wallet with order hash:', params.orderHash);
+
+        validateCreateWalletParams(params);
         
         const tx = new Transaction();
         
-        // Convert order hash to bytes array
-        const orderHashBytes = Array.from(Buffer.from(orderHash.slice(2), 'hex'));
+        // Convert order hash and hashlock to bytes arrays
+        const orderHashBytes = Array.from(getBytes(params.orderHash));
+        const hashlockBytes = Array.from(getBytes(params.hashlock));
         
-        // Split coin for funding
-        const [fundingCoin] = tx.splitCoins(tx.gas, [tx.pure.u64(amount)]);
+        // Coin for funding (must equal making amount), gas is paid from a separate SUI coin
+        const [fundingCoin] = await this.splitCoinsOf(tx, tokenType, [params.makingAmount]);
         
         // Call create_wallet entry function
         tx.moveCall({
@@ -146,116 +389,338 @@ export class SuiIntegration {
             typeArguments: [tokenType],
             arguments: [
                 tx.pure(bcs.vector(bcs.u8()).serialize(orderHashBytes)),
+                tx.pure.u256(params.salt),
+                tx.pure.string(params.makerAsset),
+                tx.pure.string(params.takerAsset),
+                tx.pure.u64(params.makingAmount),
+                tx.pure.u64(params.takingAmount),
+                tx.pure.u64(params.duration),
+                tx.pure(bcs.vector(bcs.u8()).serialize(hashlockBytes)),
+                tx.pure.u64(params.srcSafetyDepositAmount),
+                tx.pure.u64(params.dstSafetyDepositAmount),
+                tx.pure.bool(params.allowPartialFills),
+                tx.pure.u8(params.partsAmount),
                 fundingCoin,
+                tx.pure.u64(params.timelocks.srcWithdrawal),
+                tx.pure.u64(params.timelocks.srcPublicWithdrawal),
+                tx.pure.u64(params.timelocks.srcCancellation),
+                tx.pure.u64(params.timelocks.srcPublicCancellation),
+                tx.pure.u64(params.timelocks.dstWithdrawal),
+                tx.pure.u64(params.timelocks.dstPublicWithdrawal),
+                tx.pure.u64(params.timelocks.dstCancellation),
                 tx.object(SUI_CLOCK_OBJECT_ID)
             ]
         });
         
-        const result = await this.client.signAndExecuteTransaction({
-            transaction: tx,
-            signer: this.keypair,
-            options: {
-                showEffects: true,
-                showEvents: true
-            }
-        });
+        if (options.dryRun) {
+            return this.simulate(tx);
+        }
         
-        const walletCreatedEvent = result.events?.find(
-            e => e.type.includes('WalletCreated')
-        );
+        const result = await this.execute(tx);
+        
+        const walletCreatedEvent = findEvent(result.events, 'WalletCreated');
         
         if (!walletCreatedEvent || !walletCreatedEvent.parsedJson) {
             throw new Error('Failed to create wallet - no event emitted');
         }
         
-        const walletId = (walletCreatedEvent.parsedJson as any).wallet_id;
-        console.log('✅ Wallet created at:', walletId);
-
-        // Add delay for object propagation
-        console.log('⏳ Waiting for object to be indexed...');
-        await new Promise(resolve => setTimeout(resolve, 3000)); // 3 second delay
+        const walletCreated = parseWalletCreated(walletCreatedEvent.parsedJson);
+        this.log('✅ Wallet created at:', walletCreated.walletId);
         
-        return walletId;
+        return walletCreated;
     }
     
     /**
-     * Create source escrow on Sui (resolver pulls from wallet)
+     * Read the on-chain state of a pre-funded wallet
      */
-    async createSrcEscrow(
-        walletAddress: string,
-        hashlock: string,
-        taker: string, // EVM address
-        amount: bigint,
-        safetyDeposit: bigint,
-        timelocks: {
-            srcWithdrawal: number,
-            srcPublicWithdrawal: number,
-            srcCancellation: number,
-            srcPublicCancellation: number,
-            dstWithdrawal: number,
-            dstPublicWithdrawal: number,
-            dstCancellation: number
-        },
-        tokenType: string = '0x2::sui::SUI'
-    ): Promise<string> {
-        console.log('Creating source escrow...');
+    async getWallet(walletId: string): Promise<WalletState> {
+        const object = await this.client.getObject({
+            id: walletId,
+            options: { showContent: true, showType: true }
+        });
         
-        const tx = new Transaction();
+        const content = object.data?.content;
+        if (!content || content.dataType !== 'moveObject') {
+            throw new Error(`Wallet ${walletId} not found`);
+        }
         
-        // Split safety deposit from gas
-        const [safetyDepositCoin] = tx.splitCoins(tx.gas, [tx.pure.u64(safetyDeposit)]);
+        const fields = content.fields as any;
+        return {
+            walletId,
+            tokenType: content.type.slice(content.type.indexOf('<') + 1, -1),
+            orderHash: moveBytesToHex(fields.order_hash),
+            salt: BigInt(fields.salt),
+            maker: fields.maker,
+            makerAsset: fields.maker_asset,
+            takerAsset: fields.taker_asset,
+            makingAmount: BigInt(fields.making_amount),
+            takingAmount: BigInt(fields.taking_amount),
+            duration: BigInt(fields.duration),
+            hashlock: moveBytesToHex(fields.hashlock),
+            timelocks: parseTimelocks(fields.timelocks.fields ?? fields.timelocks),
+            srcSafetyDepositAmount: BigInt(fields.src_safety_deposit_amount),
+            dstSafetyDepositAmount: BigInt(fields.dst_safety_deposit_amount),
+            allowPartialFills: fields.allow_partial_fills,
+            partsAmount: Number(fields.parts_amount),
+            lastUsedIndex: Number(fields.last_used_index),
+            balance: BigInt(fields.balance),
+            createdAt: BigInt(fields.created_at),
+            isActive: fields.is_active
+        };
+    }
+    
+    /**
+     * Read the on-chain state of a source or destination escrow
+     */
+    async getEscrow(escrowId: string): Promise<EscrowState> {
+        const object = await this.client.getObject({
+            id: escrowId,
+            options: { showContent: true, showType: true }
+        });
+        return this.parseEscrow(escrowId, object);
+    }
+    
+    /**
+     * The escrow `taker` created for an order and hashlock, found through EscrowCreated
+     * events, or null if there is none (or it no longer exists)
+     */
+    async findEscrow(
+        escrowType: 'src' | 'dst',
+        orderHash: string,
+        hashlock: string,
+        taker: string = this.getSignerAddress()
+    ): Promise<EscrowState | null> {
+        const created = await this.queryPackageEvents('EscrowCreated');
+        for (const event of created.map(e => parseEscrowCreated(e.parsedJson))) {
+            if (
+                event.orderHash.toLowerCase() !== orderHash.toLowerCase() ||
+                event.hashlock.toLowerCase() !== hashlock.toLowerCase() ||
+                normalizeSuiAddress(event.taker) !== normalizeSuiAddress(taker) ||
+                !(await this.objectExists(event.escrowId))
+            ) {
+                continue;
+            }
+
+            const escrow = await this.getEscrow(event.escrowId);
+            if (escrow.escrowType === escrowType) {
+                return escrow;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Check an escrow against the order it should belong to, e.g. before a maker reveals
+     * the secret. A missing or mismatching escrow does not throw, the result lists every
+     * difference (see escrow-verification)
+     */
+    async verifyEscrowAgainstOrder(escrowId: string, order: ExpectedEscrow): Promise<EscrowVerification> {
+        const [object, now] = await Promise.all([
+            this.client.getObject({
+                id: escrowId,
+                options: { showContent: true, showType: true, showPreviousTransaction: true }
+            }),
+            this.getClockTimestamp()
+        ]);
         
-        // Get current time in milliseconds
-        const currentTime = Date.now();
+        let escrow: EscrowState;
+        try {
+            escrow = this.parseEscrow(escrowId, object);
+        } catch (error) {
+            const mismatch = { check: 'object' as const, expected: `${order.escrowType} escrow`, actual: (error as Error).message };
+            return { escrowId, ok: false, mismatches: [mismatch] };
+        }
         
-        // Convert hashlock to bytes
-        const hashlockBytes = Array.from(Buffer.from(hashlock.slice(2), 'hex'));
+        // Sui transactions are final once they are in a checkpoint
+        const digest = object.data?.previousTransaction;
+        const checkpointed = digest
+            ? (await this.client.getTransactionBlock({ digest })).checkpoint != null
+            : false;
         
-        // Convert taker EVM address to Sui format
-        const takerSuiAddress = this.evmAddressToSuiAddress(taker);
+        const mismatches = compareEscrowToOrder(escrow, order, now, checkpointed);
+        return { escrowId, ok: mismatches.length === 0, mismatches, escrow };
+    }
+    
+    private parseEscrow(escrowId: string, object: SuiObjectResponse): EscrowState {
+        const content = object.data?.content;
+        if (!content || content.dataType !== 'moveObject') {
+            throw new Error(`Escrow ${escrowId} not found`);
+        }
         
-        // Call create_escrow_src with individual timelock parameters
-        tx.moveCall({
-            target: `${this.escrowPackageId}::escrow_create::create_escrow_src`,
-            typeArguments: [tokenType],
-            arguments: [
-                tx.object(walletAddress),
-                tx.pure(bcs.vector(bcs.u8()).serialize(hashlockBytes)),
-                tx.pure.address(takerSuiAddress),
-                tx.pure.u64(amount),
-                safetyDepositCoin,
-                tx.pure.u64(BigInt(currentTime + timelocks.srcWithdrawal * 1000)),
-                tx.pure.u64(BigInt(currentTime + timelocks.srcPublicWithdrawal * 1000)),
-                tx.pure.u64(BigInt(currentTime + timelocks.srcCancellation * 1000)),
-                tx.pure.u64(BigInt(currentTime + timelocks.srcPublicCancellation * 1000)),
-                tx.pure.u64(BigInt(currentTime + timelocks.dstWithdrawal * 1000)),
-                tx.pure.u64(BigInt(currentTime + timelocks.dstPublicWithdrawal * 1000)),
-                tx.pure.u64(BigInt(currentTime + timelocks.dstCancellation * 1000)),
-                tx.object(SUI_CLOCK_OBJECT_ID)
-            ]
-        });
+        let escrowType: 'src' | 'dst';
+        if (content.type.includes('::structs::EscrowSrc<')) {
+            escrowType = 'src';
+        } else if (content.type.includes('::structs::EscrowDst<')) {
+            escrowType = 'dst';
+        } else {
+            throw new Error(`Object ${escrowId} is not an escrow (${content.type})`);
+        }
         
-        const result = await this.client.signAndExecuteTransaction({
-            transaction: tx,
-            signer: this.keypair,
-            options: {
-                showEffects: true,
-                showEvents: true
-            }
+        const fields = content.fields as any;
+        const imm = fields.immutables.fields ?? fields.immutables;
+        return {
+            escrowId,
+            escrowType,
+            coinType: content.type.slice(content.type.indexOf('<') + 1, -1),
+            immutables: {
+                orderHash: moveBytesToHex(imm.order_hash),
+                hashlock: moveBytesToHex(imm.hashlock),
+                maker: imm.maker,
+                taker: imm.taker,
+                tokenType: imm.token_type,
+                amount: BigInt(imm.amount),
+                safetyDeposit: BigInt(imm.safety_deposit_amount),
+                timelocks: parseTimelocks(imm.timelocks.fields ?? imm.timelocks)
+            },
+            tokenBalance: BigInt(fields.token_balance),
+            safetyDeposit: BigInt(fields.safety_deposit),
+            createdAt: BigInt(fields.created_at),
+            status: Number(fields.status)
+        };
+    }
+    
+    /**
+     * Current on-chain time in ms, as seen by `clock::timestamp_ms`
+     */
+    async getClockTimestamp(): Promise<bigint> {
+        const clock = await this.client.getObject({
+            id: SUI_CLOCK_OBJECT_ID,
+            options: { showContent: true }
         });
         
-        const escrowCreatedEvent = result.events?.find(
-            e => e.type.includes('EscrowCreated')
-        );
+        const content = clock.data?.content;
+        if (!content || content.dataType !== 'moveObject') {
+            throw new Error('Failed to read the Sui clock');
+        }
+        return BigInt((content.fields as any).timestamp_ms);
+    }
+    
+    /**
+     * Current stage of an escrow, when the next one starts and what `address` may do now
+     */
+    async getEscrowStage(
+        escrowId: string,
+        address: string = this.getSignerAddress()
+    ): Promise<EscrowStageInfo> {
+        const [escrow, now] = await Promise.all([
+            this.getEscrow(escrowId),
+            this.getClockTimestamp()
+        ]);
+        return getStageInfo(escrow, now, address);
+    }
+    
+    /**
+     * Resolve once an escrow is in `stage` on the Sui clock, throwing StageMissedError if
+     * it is already past it. The JSON-RPC has no checkpoint subscription, so only the poll
+     * strategy applies
+     */
+    async waitForStage(
+        escrowId: string,
+        stage: EscrowStage,
+        options: WaitForStageOptions = {},
+        address: string = this.getSignerAddress()
+    ): Promise<EscrowStageInfo> {
+        return waitForStage({ chain: 'Sui', getStage: () => this.getEscrowStage(escrowId, address) }, stage, options);
+    }
+    
+    /**
+     * Quote the taking amount create_escrow_src will require for `makingAmount` of a wallet,
+     * at `timestamp` (ms) or else the current Sui clock time the contract prices with
+     */
+    async quoteFill(
+        walletId: string,
+        makingAmount: bigint,
+        timestamp?: bigint
+    ): Promise<AuctionQuote> {
+        const wallet = await this.getWallet(walletId);
+        return quote(wallet, makingAmount, timestamp ?? await this.getClockTimestamp());
+    }
+    
+    /**
+     * Create source escrow on Sui (resolver pulls from wallet)
+     */
+    async createSrcEscrow(
+        params: CreateSrcEscrowParams,
+        tokenType: string | undefined,
+        options: DryRunOptions
+    ): Promise<DryRunResult>;
+    async createSrcEscrow(
+        params: CreateSrcEscrowParams,
+        tokenType?: string,
+        options?: TransactionOptions
+    ): Promise<EscrowCreatedEvent>;
+    async createSrcEscrow(
+        params: CreateSrcEscrowParams,
+        tokenType: string = '0x2::sui::SUI',
+        options: TransactionOptions = {}
+    ): Promise<EscrowCreatedEvent | DryRunResult> {
+        this.log('Creating source escrow...');
+        
+        const wallet = await this.getWallet(params.walletId);
+        validateCreateSrcEscrowParams(wallet, params);
+        
+        const tx = new Transaction();
+        addCreateEscrowSrc(tx, this.escrowPackageId, { ...params, taker: params.taker ?? this.getSignerAddress() }, tokenType);
+        
+        if (options.dryRun) {
+            return this.simulate(tx);
+        }
+        
+        const result = await this.execute(tx);
+        
+        const escrowCreatedEvent = findEvent(result.events, 'EscrowCreated');
         
         if (!escrowCreatedEvent || !escrowCreatedEvent.parsedJson) {
             throw new Error('Failed to create escrow - no event emitted');
         }
         
-        const escrowId = (escrowCreatedEvent.parsedJson as any).escrow_id;
-        console.log('✅ Source escrow created at:', escrowId);
+        const escrowCreated = parseEscrowCreated(escrowCreatedEvent.parsedJson);
+        this.log('✅ Source escrow created at:', escrowCreated.escrowId);
         
-        return escrowId;
+        return escrowCreated;
+    }
+    
+    /**
+     * Fill `fillAmount` of a wallet, choosing the secret index for the bucket the
+     * fill lands in and attaching the merkle proof for that index
+     */
+    async fillWallet(
+        walletId: string,
+        fillAmount: bigint,
+        options: FillWalletOptions & DryRunOptions
+    ): Promise<DryRunResult>;
+    async fillWallet(
+        walletId: string,
+        fillAmount: bigint,
+        options: FillWalletOptions
+    ): Promise<EscrowCreatedEvent>;
+    async fillWallet(
+        walletId: string,
+        fillAmount: bigint,
+        options: FillWalletOptions
+    ): Promise<EscrowCreatedEvent | DryRunResult> {
+        const wallet = await this.getWallet(walletId);
+        const secretIndex = selectSecretIndex(wallet, fillAmount);
+        const { hashlock, proof } = await options.getSecretProof(secretIndex, wallet);
+        // Priced on the Sui clock the contract checks it against, local time may drift from it
+        const takingAmount = options.takingAmount ?? getTakingAmount(wallet, fillAmount, await this.getClockTimestamp());
+        
+        this.log(`Filling ${fillAmount} from wallet ${walletId} with secret index ${secretIndex}`);
+        
+        return this.createSrcEscrow(
+            {
+                walletId,
+                secretHashlock: hashlock,
+                secretIndex,
+                merkleProof: wallet.allowPartialFills ? proof : [],
+                taker: options.taker,
+                makingAmount: fillAmount,
+                takingAmount,
+                safetyDeposit: options.safetyDeposit ?? wallet.srcSafetyDepositAmount
+            },
+            wallet.tokenType,
+            { dryRun: options.dryRun }
+        );
     }
     
     /**
@@ -264,78 +729,84 @@ export class SuiIntegration {
     async createDstEscrow(
         orderHash: string,
         hashlock: string,
-        maker: string, // EVM address receiving on Sui
+        maker: DstEscrowMaker,
+        amount: bigint,
+        safetyDeposit: bigint,
+        timelocks: Timelocks,
+        tokenType: string | undefined,
+        options: DryRunOptions
+    ): Promise<DryRunResult>;
+    async createDstEscrow(
+        orderHash: string,
+        hashlock: string,
+        maker: DstEscrowMaker,
         amount: bigint,
         safetyDeposit: bigint,
-        timelocks: {
-            srcWithdrawal: number,
-            srcPublicWithdrawal: number,
-            srcCancellation: number,
-            srcPublicCancellation: number,
-            dstWithdrawal: number,
-            dstPublicWithdrawal: number,
-            dstCancellation: number
-        },
-        tokenType: string = '0x2::sui::SUI'
-    ): Promise<string> {
-        console.log('Creating destination escrow...');
+        timelocks: Timelocks,
+        tokenType?: string,
+        options?: TransactionOptions
+    ): Promise<string>;
+    async createDstEscrow(
+        orderHash: string,
+        hashlock: string,
+        maker: DstEscrowMaker,
+        amount: bigint,
+        safetyDeposit: bigint,
+        timelocks: Timelocks,
+        tokenType: string = '0x2::sui::SUI',
+        options: TransactionOptions = {}
+    ): Promise<string | DryRunResult> {
+        this.log('Creating destination escrow...');
         
-        const tx = new Transaction();
+        timelocks.validate();
+        // Refuse to lock funds for a recipient the order's maker cannot spend from
+        await verifyAddressBinding(maker.binding, { evmAddress: maker.evmAddress, orderHash });
         
-        // Split coins for token deposit and safety deposit
-        const [tokenCoin, safetyDepositCoin] = tx.splitCoins(
-            tx.gas,
-            [tx.pure.u64(amount), tx.pure.u64(safetyDeposit)]
-        );
+        const tx = new Transaction();
         
-        const currentTime = Date.now();
+        // Token deposit in the escrowed coin type, safety deposit always in SUI
+        const [tokenCoin] = await this.splitCoinsOf(tx, tokenType, [amount]);
+        const [safetyDepositCoin] = tx.splitCoins(tx.gas, [tx.pure.u64(safetyDeposit)]);
         
         // Convert to bytes arrays
         const orderHashBytes = Array.from(Buffer.from(orderHash.slice(2), 'hex'));
         const hashlockBytes = Array.from(Buffer.from(hashlock.slice(2), 'hex'));
         
-        // Convert maker EVM address to Sui format
-        const makerSuiAddress = this.evmAddressToSuiAddress(maker);
-        
         tx.moveCall({
             target: `${this.escrowPackageId}::escrow_create::create_escrow_dst`,
             typeArguments: [tokenType],
             arguments: [
                 tx.pure(bcs.vector(bcs.u8()).serialize(orderHashBytes)),
                 tx.pure(bcs.vector(bcs.u8()).serialize(hashlockBytes)),
-                tx.pure.address(makerSuiAddress),
+                tx.pure.address(maker.binding.suiAddress),
                 tokenCoin,
                 safetyDepositCoin,
-                tx.pure.u64(BigInt(currentTime + timelocks.srcWithdrawal * 1000)),
-                tx.pure.u64(BigInt(currentTime + timelocks.srcPublicWithdrawal * 1000)),
-                tx.pure.u64(BigInt(currentTime + timelocks.srcCancellation * 1000)),
-                tx.pure.u64(BigInt(currentTime + timelocks.srcPublicCancellation * 1000)),
-                tx.pure.u64(BigInt(currentTime + timelocks.dstWithdrawal * 1000)),
-                tx.pure.u64(BigInt(currentTime + timelocks.dstPublicWithdrawal * 1000)),
-                tx.pure.u64(BigInt(currentTime + timelocks.dstCancellation * 1000)),
+                // Relative timelocks in ms, the contract adds its own created_at
+                tx.pure.u64(timelocks.srcWithdrawal),
+                tx.pure.u64(timelocks.srcPublicWithdrawal),
+                tx.pure.u64(timelocks.srcCancellation),
+                tx.pure.u64(timelocks.srcPublicCancellation),
+                tx.pure.u64(timelocks.dstWithdrawal),
+                tx.pure.u64(timelocks.dstPublicWithdrawal),
+                tx.pure.u64(timelocks.dstCancellation),
                 tx.object(SUI_CLOCK_OBJECT_ID)
             ]
         });
         
-        const result = await this.client.signAndExecuteTransaction({
-            transaction: tx,
-            signer: this.keypair,
-            options: {
-                showEffects: true,
-                showEvents: true
-            }
-        });
+        if (options.dryRun) {
+            return this.simulate(tx);
+        }
         
-        const escrowCreatedEvent = result.events?.find(
-            e => e.type.includes('EscrowCreated')
-        );
+        const result = await this.execute(tx);
+        
+        const escrowCreatedEvent = findEvent(result.events, 'EscrowCreated');
         
         if (!escrowCreatedEvent || !escrowCreatedEvent.parsedJson) {
             throw new Error('Failed to create dst escrow - no event emitted');
         }
         
-        const escrowId = (escrowCreatedEvent.parsedJson as any).escrow_id;
-        console.log('✅ Destination escrow created at:', escrowId);
+        const { escrowId } = parseEscrowCreated(escrowCreatedEvent.parsedJson);
+        this.log('✅ Destination escrow created at:', escrowId);
         
         return escrowId;
     }
@@ -347,35 +818,35 @@ export class SuiIntegration {
         escrowAddress: string,
         escrowType: 'src' | 'dst',
         secret: string,
-        tokenType: string = '0x2::sui::SUI'
-    ): Promise<void> {
-        console.log(`Withdrawing from ${escrowType} escrow ${escrowAddress}...`);
+        tokenType: string | undefined,
+        options: DryRunOptions
+    ): Promise<DryRunResult>;
+    async withdraw(
+        escrowAddress: string,
+        escrowType: 'src' | 'dst',
+        secret: string,
+        tokenType?: string,
+        options?: TransactionOptions
+    ): Promise<void>;
+    async withdraw(
+        escrowAddress: string,
+        escrowType: 'src' | 'dst',
+        secret: string,
+        tokenType: string = '0x2::sui::SUI',
+        options: TransactionOptions = {}
+    ): Promise<void | DryRunResult> {
+        this.log(`Withdrawing from ${escrowType} escrow ${escrowAddress}...`);
         
         const tx = new Transaction();
+        addWithdraw(tx, this.escrowPackageId, escrowAddress, escrowType, secret, tokenType);
         
-        // Convert secret to bytes
-        const secretBytes = Array.from(Buffer.from(secret.slice(2), 'hex'));
-        
-        tx.moveCall({
-            target: `${this.escrowPackageId}::escrow_withdraw::withdraw_${escrowType}`,
-            typeArguments: [tokenType],
-            arguments: [
-                tx.object(escrowAddress),
-                tx.pure(bcs.vector(bcs.u8()).serialize(secretBytes)),
-                tx.object(SUI_CLOCK_OBJECT_ID)
-            ]
-        });
+        if (options.dryRun) {
+            return this.simulate(tx);
+        }
         
-        const result = await this.client.signAndExecuteTransaction({
-            transaction: tx,
-            signer: this.keypair,
-            options: {
-                showEffects: true,
-                showEvents: true
-            }
-        });
+        const result = await this.execute(tx);
         
-        console.log('✅ Withdrawal successful:', result.digest);
+        this.log('✅ Withdrawal successful:', result.digest);
     }
     
     /**
@@ -384,30 +855,399 @@ export class SuiIntegration {
     async cancel(
         escrowAddress: string,
         escrowType: 'src' | 'dst',
-        tokenType: string = '0x2::sui::SUI'
-    ): Promise<void> {
-        console.log(`Cancelling ${escrowType} escrow ${escrowAddress}...`);
+        tokenType: string | undefined,
+        options: DryRunOptions
+    ): Promise<DryRunResult>;
+    async cancel(
+        escrowAddress: string,
+        escrowType: 'src' | 'dst',
+        tokenType?: string,
+        options?: TransactionOptions
+    ): Promise<void>;
+    async cancel(
+        escrowAddress: string,
+        escrowType: 'src' | 'dst',
+        tokenType: string = '0x2::sui::SUI',
+        options: TransactionOptions = {}
+    ): Promise<void | DryRunResult> {
+        this.log(`Cancelling ${escrowType} escrow ${escrowAddress}...`);
         
         const tx = new Transaction();
+        addCancel(tx, this.escrowPackageId, escrowAddress, escrowType, tokenType);
         
-        tx.moveCall({
-            target: `${this.escrowPackageId}::escrow_cancel::cancel_${escrowType}`,
-            typeArguments: [tokenType],
-            arguments: [
-                tx.object(escrowAddress),
-                tx.object(SUI_CLOCK_OBJECT_ID)
-            ]
+        if (options.dryRun) {
+            return this.simulate(tx);
+        }
+        
+        const result = await this.execute(tx);
+        
+        this.log('✅ Cancellation successful:', result.digest);
+    }
+    
+    /**
+     * Rescue an abandoned wallet after the rescue delay, remaining funds go back to the maker
+     */
+    async rescueWallet(walletId: string, options: DryRunOptions): Promise<DryRunResult>;
+    async rescueWallet(walletId: string, options?: TransactionOptions): Promise<WalletRescuedEvent>;
+    async rescueWallet(walletId: string, options: TransactionOptions = {}): Promise<WalletRescuedEvent | DryRunResult> {
+        this.log(`Rescuing wallet ${walletId}...`);
+        
+        const [wallet, now] = await Promise.all([
+            this.getWallet(walletId),
+            this.getClockTimestamp()
+        ]);
+        
+        // Wallet rescue uses the source chain timelocks
+        const rescueAt = rescueAvailableAt('src', wallet.timelocks, wallet.createdAt);
+        if (now < rescueAt) {
+            throw new Error(`Wallet ${walletId} cannot be rescued before ${new Date(Number(rescueAt)).toISOString()}`);
+        }
+        
+        const tx = new Transaction();
+        addRescueWallet(tx, this.escrowPackageId, walletId, wallet.tokenType);
+        
+        if (options.dryRun) {
+            return this.simulate(tx);
+        }
+        
+        const result = await this.execute(tx);
+        
+        const walletRescuedEvent = findEvent(result.events, 'WalletRescued');
+        
+        if (!walletRescuedEvent || !walletRescuedEvent.parsedJson) {
+            throw new Error('Failed to rescue wallet - no event emitted');
+        }
+        
+        this.log('✅ Wallet rescued:', result.digest);
+        return parseWalletRescued(walletRescuedEvent.parsedJson);
+    }
+    
+    /**
+     * Rescue a source escrow after the rescue delay (tokens to maker, safety deposit to caller)
+     */
+    async rescueSrc(escrowId: string, options: DryRunOptions): Promise<DryRunResult>;
+    async rescueSrc(escrowId: string, options?: TransactionOptions): Promise<EscrowRescuedEvent>;
+    async rescueSrc(escrowId: string, options: TransactionOptions = {}): Promise<EscrowRescuedEvent | DryRunResult> {
+        return this.rescueEscrow(escrowId, 'src', options);
+    }
+    
+    /**
+     * Rescue a destination escrow after the rescue delay (tokens to taker, safety deposit to caller)
+     */
+    async rescueDst(escrowId: string, options: DryRunOptions): Promise<DryRunResult>;
+    async rescueDst(escrowId: string, options?: TransactionOptions): Promise<EscrowRescuedEvent>;
+    async rescueDst(escrowId: string, options: TransactionOptions = {}): Promise<EscrowRescuedEvent | DryRunResult> {
+        return this.rescueEscrow(escrowId, 'dst', options);
+    }
+    
+    private async rescueEscrow(
+        escrowId: string,
+        escrowType: 'src' | 'dst',
+        options: TransactionOptions = {}
+    ): Promise<EscrowRescuedEvent | DryRunResult> {
+        this.log(`Rescuing ${escrowType} escrow ${escrowId}...`);
+        
+        const [escrow, now] = await Promise.all([
+            this.getEscrow(escrowId),
+            this.getClockTimestamp()
+        ]);
+        
+        if (escrow.escrowType !== escrowType) {
+            throw new Error(`Escrow ${escrowId} is a ${escrow.escrowType} escrow, not ${escrowType}`);
+        }
+        
+        const rescueAt = rescueAvailableAt(escrowType, escrow.immutables.timelocks, escrow.createdAt);
+        if (now < rescueAt) {
+            throw new Error(`Escrow ${escrowId} cannot be rescued before ${new Date(Number(rescueAt)).toISOString()}`);
+        }
+        
+        const tx = new Transaction();
+        addRescueEscrow(tx, this.escrowPackageId, escrowId, escrowType, escrow.coinType);
+        
+        if (options.dryRun) {
+            return this.simulate(tx);
+        }
+        
+        const result = await this.execute(tx);
+        
+        const escrowRescuedEvent = findEvent(result.events, 'EscrowRescued');
+        
+        if (!escrowRescuedEvent || !escrowRescuedEvent.parsedJson) {
+            throw new Error(`Failed to rescue ${escrowType} escrow - no event emitted`);
+        }
+        
+        this.log('✅ Escrow rescued:', result.digest);
+        return parseEscrowRescued(escrowRescuedEvent.parsedJson);
+    }
+    
+    /**
+     * Wallets and escrows owed to `owner`: wallets they made, source escrows they are the
+     * maker of, and destination escrows they are the taker of, split into those that can be
+     * rescued now and those still inside the rescue delay.
+     * Candidates are found through WalletCreated / EscrowCreated events; objects that were
+     * already rescued no longer exist and are skipped.
+     */
+    async findRescuable(owner: string = this.getSignerAddress()): Promise<RescueCandidates> {
+        const candidates: RescueCandidates = { wallets: [], escrows: [], pending: [] };
+        const now = await this.getClockTimestamp();
+        // Callers may pass unpadded or mixed-case addresses, events carry normalized ones
+        const isOwner = (address: string) => normalizeSuiAddress(address) === normalizeSuiAddress(owner);
+        
+        const wallets = await this.queryPackageEvents('WalletCreated');
+        for (const event of wallets.map(e => parseWalletCreated(e.parsedJson))) {
+            if (!isOwner(event.maker) || !(await this.objectExists(event.walletId))) {
+                continue;
+            }
+            
+            const rescueAt = rescueAvailableAt('src', event.timelocks, event.createdAt);
+            if (now < rescueAt) {
+                candidates.pending.push({ objectId: event.walletId, rescueAt });
+                continue;
+            }
+            
+            const { tokenType } = await this.getWallet(event.walletId);
+            candidates.wallets.push({ walletId: event.walletId, tokenType });
+        }
+        
+        const escrows = await this.queryPackageEvents('EscrowCreated');
+        for (const event of escrows.map(e => parseEscrowCreated(e.parsedJson))) {
+            if (!isOwner(event.maker) && !isOwner(event.taker)) {
+                continue;
+            }
+            if (!(await this.objectExists(event.escrowId))) {
+                continue;
+            }
+            
+            const escrow = await this.getEscrow(event.escrowId);
+            const owed = escrow.escrowType === 'src'
+                ? isOwner(escrow.immutables.maker)
+                : isOwner(escrow.immutables.taker);
+            if (!owed) {
+                continue;
+            }
+            
+            const rescueAt = rescueAvailableAt(escrow.escrowType, escrow.immutables.timelocks, escrow.createdAt);
+            if (now < rescueAt) {
+                candidates.pending.push({ objectId: event.escrowId, rescueAt });
+                continue;
+            }
+            
+            candidates.escrows.push({ escrowId: event.escrowId, escrowType: escrow.escrowType, coinType: escrow.coinType });
+        }
+        
+        return candidates;
+    }
+    
+    /**
+     * Rescue everything owed to `owner` (see findRescuable), one transaction per object.
+     * SuiIntegration.batch().rescueAllOwed() does it in one
+     */
+    async rescueAllOwed(owner: string = this.getSignerAddress()): Promise<RescueSweepResult> {
+        const { wallets, escrows, pending } = await this.findRescuable(owner);
+        const sweep: RescueSweepResult = { wallets: [], escrows: [], pending, failed: [] };
+        
+        for (const { walletId } of wallets) {
+            try {
+                sweep.wallets.push(await this.rescueWallet(walletId));
+            } catch (error) {
+                sweep.failed.push({ objectId: walletId, error });
+            }
+        }
+        
+        for (const { escrowId, escrowType } of escrows) {
+            try {
+                sweep.escrows.push(await this.rescueEscrow(escrowId, escrowType) as EscrowRescuedEvent);
+            } catch (error) {
+                sweep.failed.push({ objectId: escrowId, error });
+            }
+        }
+        
+        this.log(
+            `✅ Rescue sweep: ${sweep.wallets.length} wallets, ${sweep.escrows.length} escrows, ` +
+            `${sweep.pending.length} pending, ${sweep.failed.length} failed`
+        );
+        return sweep;
+    }
+    
+    /**
+     * Queue several escrow operations to send as one transaction, e.g. many fills or
+     * withdraws followed by a rescue sweep
+     */
+    batch(): SuiBatch {
+        return new SuiBatch({
+            packageId: this.escrowPackageId,
+            signer: this.getSignerAddress(),
+            getWallet: walletId => this.getWallet(walletId),
+            getEscrow: escrowId => this.getEscrow(escrowId),
+            getClockTimestamp: () => this.getClockTimestamp(),
+            findRescuable: owner => this.findRescuable(owner),
+            execute: tx => this.execute(tx),
+            simulate: tx => this.simulate(tx)
         });
+    }
+    
+    /**
+     * Sign and execute a transaction, turning Move aborts into typed EscrowErrors
+     */
+    private async execute(tx: Transaction): Promise<SuiTransactionBlockResponse> {
+        let result: SuiTransactionBlockResponse;
+        try {
+            result = await this.client.signAndExecuteTransaction({
+                transaction: tx,
+                signer: this.keypair,
+                options: {
+                    showEffects: true,
+                    showEvents: true,
+                    showObjectChanges: true // SuiBatch maps them back to its operations
+                }
+            });
+        } catch (error) {
+            // Gas estimation dry-runs the transaction first and throws on abort
+            throw decodeMoveAbort(error, this.escrowPackageId) ?? error;
+        }
+        
+        const status = result.effects?.status;
+        if (status?.status === 'failure') {
+            throw decodeMoveAbort(status.error, this.escrowPackageId) ??
+                new Error(`Transaction ${result.digest} failed: ${status.error}`);
+        }
         
-        const result = await this.client.signAndExecuteTransaction({
-            transaction: tx,
-            signer: this.keypair,
-            options: {
-                showEffects: true,
-                showEvents: true
+        await this.waitForEffects(result);
+        return result;
+    }
+    
+    /**
+     * Wait until the RPC has indexed the transaction and can read every shared object it
+     * created, so a new wallet or escrow is usable as soon as its method returns
+     */
+    private async waitForEffects(result: SuiTransactionBlockResponse): Promise<void> {
+        await this.client.waitForTransaction({ digest: result.digest, timeout: EFFECTS_TIMEOUT_MS });
+        
+        const shared = (result.objectChanges ?? []).flatMap(change =>
+            change.type === 'created' && typeof change.owner === 'object' && 'Shared' in change.owner
+                ? [change.objectId]
+                : []
+        );
+        for (const objectId of shared) {
+            await waitUntil(() => this.objectExists(objectId), `shared object ${objectId}`, EFFECTS_TIMEOUT_MS);
+        }
+    }
+    
+    /**
+     * Coins of `coinType` for each amount: split from gas for SUI, otherwise from the signer's
+     * own coins of that type, merged into one first when a single coin is not enough
+     */
+    private async splitCoinsOf(tx: Transaction, coinType: string, amounts: bigint[]): Promise<TransactionResult> {
+        const pureAmounts = amounts.map(amount => tx.pure.u64(amount));
+        if (normalizeStructTag(coinType) === normalizeStructTag(SUI_TYPE_ARG)) {
+            return tx.splitCoins(tx.gas, pureAmounts);
+        }
+
+        const needed = amounts.reduce((sum, amount) => sum + amount, 0n);
+        const [primary, ...rest] = (await this.selectCoins(coinType, needed))
+            .map(coin => tx.object(coin.coinObjectId));
+        if (rest.length > 0) {
+            tx.mergeCoins(primary, rest);
+        }
+        return tx.splitCoins(primary, pureAmounts);
+    }
+
+    /**
+     * Largest coins first until they cover `needed`
+     */
+    private async selectCoins(coinType: string, needed: bigint): Promise<CoinStruct[]> {
+        const owner = this.getSignerAddress();
+        const coins: CoinStruct[] = [];
+        let cursor: string | null | undefined = null;
+        do {
+            const page = await this.client.getCoins({ owner, coinType, cursor });
+            coins.push(...page.data);
+            cursor = page.hasNextPage ? page.nextCursor : null;
+        } while (cursor);
+
+        coins.sort((a, b) => (BigInt(b.balance) > BigInt(a.balance) ? 1 : BigInt(b.balance) < BigInt(a.balance) ? -1 : 0));
+
+        const selected: CoinStruct[] = [];
+        let total = 0n;
+        for (const coin of coins) {
+            if (total >= needed) {
+                break;
             }
+            selected.push(coin);
+            total += BigInt(coin.balance);
+        }
+        if (total < needed) {
+            throw new Error(`Insufficient ${coinType} balance: have ${total}, need ${needed}`);
+        }
+        return selected;
+    }
+
+    /**
+     * Predict events, balance changes and gas without submitting. devInspect runs first
+     * because building a transaction that aborts fails during gas estimation
+     */
+    private async simulate(tx: Transaction): Promise<DryRunResult> {
+        const sender = this.getSignerAddress();
+        tx.setSenderIfNotSet(sender);
+        
+        const inspected = await this.client.devInspectTransactionBlock({
+            sender,
+            transactionBlock: tx
+        });
+        
+        const status = inspected.effects.status;
+        if (status.status === 'failure' || inspected.error) {
+            const message = inspected.error ?? status.error ?? 'unknown error';
+            const error = decodeMoveAbort(message, this.escrowPackageId) ?? new Error(message);
+            this.log('❌ Dry run failed:', error.message);
+            
+            return {
+                success: false,
+                events: inspected.events,
+                balanceChanges: [],
+                gas: summarizeGas(inspected.effects.gasUsed),
+                error
+            };
+        }
+        
+        const dryRun = await this.client.dryRunTransactionBlock({
+            transactionBlock: await tx.build({ client: this.client })
         });
         
-        console.log('✅ Cancellation successful:', result.digest);
+        const gas = summarizeGas(dryRun.effects.gasUsed);
+        this.log(`✅ Dry run succeeded, estimated gas: ${gas.totalCost} MIST`);
+        
+        return {
+            success: dryRun.effects.status.status === 'success',
+            events: dryRun.events,
+            balanceChanges: dryRun.balanceChanges,
+            gas,
+            error: null
+        };
     }
-}
\ No newline at end of file
+    
+    /**
+     * Page through every event of one type emitted by escrow::events
+     */
+    private async queryPackageEvents(eventName: string): Promise<SuiEvent[]> {
+        const events: SuiEvent[] = [];
+        let cursor: EventId | null | undefined = null;
+        
+        do {
+            const page = await this.client.queryEvents({
+                query: { MoveEventType: `${this.escrowPackageId}::events::${eventName}` },
+                cursor,
+                order: 'ascending'
+            });
+            events.push(...page.data);
+            cursor = page.hasNextPage ? page.nextCursor : null;
+        } while (cursor);
+        
+        return events;
+    }
+    
+    private async objectExists(objectId: string): Promise<boolean> {
+        const object = await this.client.getObject({ id: objectId });
+        return !!object.data;
+    }
+}
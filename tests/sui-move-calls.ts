@@ -0,0 +1,108 @@
+// tests/sui-move-calls.ts
+// Move calls of the escrow package appended to a Transaction, shared by the single-call
+// methods of SuiIntegration and by SuiBatch, which puts many of them in one transaction.
+
+import { bcs } from '@mysten/sui/bcs';
+import { Transaction } from '@mysten/sui/transactions';
+import { getBytes } from 'ethers';
+
+import type { CreateSrcEscrowParams } from './sui-integration';
+
+// Sui system objects
+export const SUI_CLOCK_OBJECT_ID = '0x0000000000000000000000000000000000000000000000000000000000000006';
+
+/**
+ * escrow_create::create_escrow_src, the safety deposit split from gas
+ */
+export function addCreateEscrowSrc(
+    tx: Transaction,
+    packageId: string,
+    params: CreateSrcEscrowParams & { taker: string },
+    tokenType: string
+): void {
+    const [safetyDepositCoin] = tx.splitCoins(tx.gas, [tx.pure.u64(params.safetyDeposit)]);
+
+    // Convert hashlock and proof to bytes
+    const hashlockBytes = Array.from(getBytes(params.secretHashlock));
+    const proofBytes = params.merkleProof.map(node => Array.from(getBytes(node)));
+
+    tx.moveCall({
+        target: `${packageId}::escrow_create::create_escrow_src`,
+        typeArguments: [tokenType],
+        arguments: [
+            tx.object(params.walletId),
+            tx.pure(bcs.vector(bcs.u8()).serialize(hashlockBytes)),
+            tx.pure.u8(params.secretIndex),
+            tx.pure(bcs.vector(bcs.vector(bcs.u8())).serialize(proofBytes)),
+            tx.pure.address(params.taker),
+            tx.pure.u64(params.makingAmount),
+            tx.pure.u64(params.takingAmount),
+            safetyDepositCoin,
+            tx.object(SUI_CLOCK_OBJECT_ID)
+        ]
+    });
+}
+
+export function addWithdraw(
+    tx: Transaction,
+    packageId: string,
+    escrowId: string,
+    escrowType: 'src' | 'dst',
+    secret: string,
+    tokenType: string
+): void {
+    tx.moveCall({
+        target: `${packageId}::escrow_withdraw::withdraw_${escrowType}`,
+        typeArguments: [tokenType],
+        arguments: [
+            tx.object(escrowId),
+            tx.pure(bcs.vector(bcs.u8()).serialize(Array.from(getBytes(secret)))),
+            tx.object(SUI_CLOCK_OBJECT_ID)
+        ]
+    });
+}
+
+export function addCancel(
+    tx: Transaction,
+    packageId: string,
+    escrowId: string,
+    escrowType: 'src' | 'dst',
+    tokenType: string
+): void {
+    tx.moveCall({
+        target: `${packageId}::escrow_cancel::cancel_${escrowType}`,
+        typeArguments: [tokenType],
+        arguments: [
+            tx.object(escrowId),
+            tx.object(SUI_CLOCK_OBJECT_ID)
+        ]
+    });
+}
+
+export function addRescueWallet(tx: Transaction, packageId: string, walletId: string, tokenType: string): void {
+    tx.moveCall({
+        target: `${packageId}::escrow_rescue::rescue_wallet`,
+        typeArguments: [tokenType],
+        arguments: [
+            tx.object(walletId),
+            tx.object(SUI_CLOCK_OBJECT_ID)
+        ]
+    });
+}
+
+export function addRescueEscrow(
+    tx: Transaction,
+    packageId: string,
+    escrowId: string,
+    escrowType: 'src' | 'dst',
+    tokenType: string
+): void {
+    tx.moveCall({
+        target: `${packageId}::escrow_rescue::rescue_${escrowType}`,
+        typeArguments: [tokenType],
+        arguments: [
+            tx.object(escrowId),
+            tx.object(SUI_CLOCK_OBJECT_ID)
+        ]
+    });
+}
@@ -0,0 +1,168 @@
+// tests/sui-rescue-spec.ts
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Transaction } from '@mysten/sui/transactions';
+import { SUI_CLOCK_OBJECT_ID, normalizeSuiObjectId } from '@mysten/sui/utils';
+import { getBytes } from 'ethers';
+
+import { RESCUE_DELAY_PERIOD_MS } from './escrow-stages';
+import { SuiIntegration } from './sui-integration';
+
+const PACKAGE = '0x' + 'bb'.repeat(32);
+const SRC_ID = '0x' + 'e1'.repeat(32);
+const DST_ID = '0x' + 'e2'.repeat(32);
+const GONE_ID = '0x' + 'e3'.repeat(32);
+const MAKER = '0x' + 'a1'.repeat(32);
+const CREATED_AT = 1_700_000_000_000n;
+const USDC = '0xa1ec7fc00a6f40db9693ad1415d0c193ad3906494428cf252621037bd7117e29::usdc::USDC';
+
+const timelocks = {
+    src_withdrawal: '10000',
+    src_public_withdrawal: '120000',
+    src_cancellation: '121000',
+    src_public_cancellation: '122000',
+    dst_withdrawal: '5000',
+    dst_public_withdrawal: '100000',
+    dst_cancellation: '101000'
+};
+
+// Rescue opens RESCUE_DELAY after the last stage: src public cancellation, dst cancellation
+const SRC_RESCUE_AT = CREATED_AT + 122_000n + RESCUE_DELAY_PERIOD_MS;
+const DST_RESCUE_AT = CREATED_AT + 101_000n + RESCUE_DELAY_PERIOD_MS;
+
+function escrowObject(escrowType: 'Src' | 'Dst', taker: string) {
+    return {
+        data: {
+            content: {
+                dataType: 'moveObject',
+                type: `${PACKAGE}::structs::Escrow${escrowType}<${USDC}>`,
+                fields: {
+                    immutables: {
+                        fields: {
+                            order_hash: Array.from(getBytes('0x' + '11'.repeat(32))),
+                            hashlock: Array.from(getBytes('0x' + '22'.repeat(32))),
+                            maker: MAKER,
+                            taker,
+                            token_type: USDC.slice(2),
+                            amount: '1000',
+                            safety_deposit_amount: '10',
+                            timelocks
+                        }
+                    },
+                    token_balance: '1000',
+                    safety_deposit: '10',
+                    created_at: CREATED_AT.toString(),
+                    status: 0
+                }
+            }
+        }
+    };
+}
+
+function rescuedEvent(escrowId: string) {
+    return {
+        type: `${PACKAGE}::escrow_rescue::EscrowRescued`,
+        parsedJson: {
+            escrow_id: escrowId,
+            order_hash: Array.from(getBytes('0x' + '11'.repeat(32))),
+            hashlock: Array.from(getBytes('0x' + '22'.repeat(32))),
+            maker: MAKER,
+            taker: MAKER,
+            rescued_by: MAKER,
+            amount: '1000',
+            rescued_at: SRC_RESCUE_AT.toString(),
+            escrow_type: escrowId === SRC_ID ? 'source' : 'destination'
+        }
+    };
+}
+
+function createdEvent(escrowId: string, taker: string) {
+    return {
+        parsedJson: {
+            escrow_id: escrowId,
+            order_hash: Array.from(getBytes('0x' + '11'.repeat(32))),
+            hashlock: Array.from(getBytes('0x' + '22'.repeat(32))),
+            maker: MAKER,
+            taker,
+            amount: '1000',
+            safety_deposit: '10',
+            created_at: CREATED_AT.toString(),
+            last_used_index: 0
+        }
+    };
+}
+
+/**
+ * SuiIntegration over a fake client holding a src escrow made by MAKER and a dst escrow
+ * whose taker is MAKER, at chain time `now`
+ */
+function integration(now: bigint) {
+    const sui = new SuiIntegration('http://127.0.0.1:9000', PACKAGE, Ed25519Keypair.generate());
+    const objects: Record<string, unknown> = {
+        [SRC_ID]: escrowObject('Src', '0x' + '07'.repeat(32)),
+        [DST_ID]: escrowObject('Dst', MAKER),
+        [normalizeSuiObjectId(SUI_CLOCK_OBJECT_ID)]: {
+            data: { content: { dataType: 'moveObject', fields: { timestamp_ms: now.toString() } } }
+        }
+    };
+    const sent: Transaction[] = [];
+    // Only the calls rescues need
+    Object.assign(sui, {
+        client: {
+            getObject: async ({ id }: { id: string }) => objects[normalizeSuiObjectId(id)] ?? { data: null },
+            queryEvents: async ({ query }: { query: { MoveEventType: string } }) => ({
+                data: query.MoveEventType.endsWith('::EscrowCreated')
+                    ? [createdEvent(SRC_ID, '0x' + '07'.repeat(32)), createdEvent(DST_ID, MAKER), createdEvent(GONE_ID, MAKER)]
+                    : [],
+                hasNextPage: false,
+                nextCursor: null
+            }),
+            signAndExecuteTransaction: async ({ transaction }: { transaction: Transaction }) => {
+                sent.push(transaction);
+                const [call] = transaction.getData().commands;
+                const escrowId = call.MoveCall!.function === 'rescue_src' ? SRC_ID : DST_ID;
+                return { digest: 'Digest111', effects: { status: { status: 'success' } }, events: [rescuedEvent(escrowId)], objectChanges: [] };
+            },
+            waitForTransaction: async () => ({})
+        }
+    });
+    return { sui, sent };
+}
+
+describe('rescue operations', () => {
+    test('refuse before the rescue delay has passed, without sending anything', async () => {
+        const { sui, sent } = integration(SRC_RESCUE_AT - 1n);
+
+        await expect(sui.rescueSrc(SRC_ID)).rejects.toThrow(/cannot be rescued before/);
+        await expect(sui.rescueDst(SRC_ID)).rejects.toThrow(/is a src escrow, not dst/);
+        expect(sent).toHaveLength(0);
+    });
+
+    test('call escrow_rescue with the escrow coin type once the delay is over', async () => {
+        const { sui, sent } = integration(SRC_RESCUE_AT);
+
+        const rescued = await sui.rescueSrc(SRC_ID);
+
+        expect(rescued).toMatchObject({ escrowId: SRC_ID, escrowType: 'src', amount: 1000n });
+        const [call] = sent[0].getData().commands;
+        expect(call.MoveCall).toMatchObject({ package: PACKAGE, module: 'escrow_rescue', function: 'rescue_src' });
+        expect(call.MoveCall!.typeArguments).toEqual([USDC]);
+        const inputs = sent[0].getData().inputs.map(input => input.UnresolvedObject?.objectId);
+        expect(inputs).toEqual([SRC_ID, normalizeSuiObjectId(SUI_CLOCK_OBJECT_ID)]);
+    });
+
+    test('the sweep rescues what is due, reports what is pending and skips rescued objects', async () => {
+        // Between the two: the dst escrow's delay is over, the src escrow's is not
+        const { sui, sent } = integration(DST_RESCUE_AT);
+
+        const candidates = await sui.findRescuable(MAKER);
+        expect(candidates.escrows).toEqual([{ escrowId: DST_ID, escrowType: 'dst', coinType: USDC }]);
+        expect(candidates.pending).toEqual([{ objectId: SRC_ID, rescueAt: SRC_RESCUE_AT }]);
+        // Owners compare as Sui addresses, whatever their hex case
+        expect(await sui.findRescuable(MAKER.toUpperCase().replace('0X', '0x'))).toEqual(candidates);
+
+        const sweep = await sui.rescueAllOwed(MAKER);
+        expect(sweep.escrows.map(event => event.escrowId)).toEqual([DST_ID]);
+        expect(sweep.failed).toEqual([]);
+        expect(sent.map(tx => tx.getData().commands[0].MoveCall!.function)).toEqual(['rescue_dst']);
+    });
+});
@@ -0,0 +1,152 @@
+// tests/swap-state.ts
+// Persisted state machine for swaps driven by the resolver daemon. Every step that
+// touches a chain records its result here before the next one starts, so a restarted
+// daemon picks each swap up at the phase it reached.
+
+import { existsSync, readFileSync } from 'fs';
+
+import type { AddressBinding } from './address-binding';
+import type { SignedEvmOrder } from './evm-escrow-client';
+import { writeJsonAtomic } from './json-file';
+
+export type SwapDirection = 'SUI_TO_EVM' | 'EVM_TO_SUI';
+
+export type EscrowOutcome = 'withdrawn' | 'cancelled' | 'rescued';
+
+export type SwapPhase =
+    | 'discovered' // accepted, nothing deployed yet
+    | 'src_deploying' // src escrow deploy about to be sent, see SwapRecord.deploying
+    | 'src_deployed'
+    | 'dst_deploying'
+    | 'dst_deployed'
+    | 'secret_received' // maker revealed the secret after finality
+    | 'dst_withdrawn' // maker paid on the destination chain
+    | 'completed' // resolver withdrew the source escrow
+    | 'refunding' // timed out, cancelling whatever was deployed
+    | 'refunded'
+    | 'rescuing' // cancel windows missed, waiting for the rescue delay
+    | 'rescued'
+    | 'skipped'; // dropped before anything was deployed
+
+const TRANSITIONS: Record<SwapPhase, SwapPhase[]> = {
+    discovered: ['src_deploying', 'skipped'],
+    src_deploying: ['src_deployed'],
+    src_deployed: ['dst_deploying', 'refunding'],
+    dst_deploying: ['dst_deployed', 'refunding'],
+    dst_deployed: ['secret_received', 'refunding'],
+    secret_received: ['dst_withdrawn', 'refunding'],
+    dst_withdrawn: ['completed', 'rescuing'],
+    refunding: ['refunded', 'rescuing'],
+    rescuing: ['rescued'],
+    completed: [],
+    refunded: [],
+    rescued: [],
+    skipped: []
+};
+
+export const TERMINAL_PHASES: SwapPhase[] = ['completed', 'refunded', 'rescued', 'skipped'];
+
+/**
+ * A deploy written down before it is sent. After a crash the escrow is looked up on
+ * chain by order hash and hashlock (or this transaction) instead of deployed again
+ */
+export interface DeployIntent {
+    side: 'src' | 'dst'
+    startedAt: number // ms
+    txDigest?: string // once the chain reports it, EVM only
+}
+
+/**
+ * Everything needed to drive one swap, JSON-safe (amounts are decimal strings)
+ */
+export interface SwapRecord {
+    id: string // `${orderHash}:${hashlock}`
+    direction: SwapDirection
+    phase: SwapPhase
+    orderHash: string
+    hashlock: string
+    maker: { sui?: string, evm?: string }
+    binding?: AddressBinding // maker controls both addresses, required before paying out on the dst chain
+    makingAmount: string
+    takingAmount: string
+    srcSafetyDeposit: string
+    dstSafetyDeposit: string
+    timelocks: Record<string, string> // Timelocks.toJSON()
+    walletId?: string // Sui source wallet (SUI_TO_EVM)
+    order?: SignedEvmOrder // signed 1inch order (EVM_TO_SUI)
+    evmToken?: string // token moved on the EVM side, ZeroAddress for the native currency
+    suiToken?: string // coin type moved on the Sui side
+    srcEscrowId?: string
+    srcCreatedAt?: string // ms
+    dstEscrowId?: string
+    dstCreatedAt?: string
+    deploying?: DeployIntent // set in the *_deploying phases
+    secret?: string
+    closed: { src?: EscrowOutcome, dst?: EscrowOutcome } // escrows already settled
+    history: { phase: SwapPhase, at: number }[]
+    lastError?: string
+    updatedAt: number
+}
+
+export function swapId(orderHash: string, hashlock: string): string {
+    return `${orderHash.toLowerCase()}:${hashlock.toLowerCase()}`;
+}
+
+export function isTerminal(phase: SwapPhase): boolean {
+    return TERMINAL_PHASES.includes(phase);
+}
+
+/**
+ * Move a swap to `next`, rejecting transitions the state machine does not allow
+ */
+export function transition(record: SwapRecord, next: SwapPhase, patch: Partial<SwapRecord> = {}): SwapRecord {
+    if (!TRANSITIONS[record.phase].includes(next)) {
+        throw new Error(`Invalid swap transition ${record.phase} -> ${next} for ${record.id}`);
+    }
+
+    const at = Date.now();
+    return {
+        ...record,
+        ...patch,
+        phase: next,
+        history: [...record.history, { phase: next, at }],
+        lastError: undefined,
+        updatedAt: at
+    };
+}
+
+/**
+ * Swap records in a JSON file, written atomically after every change
+ */
+export class JsonSwapStore {
+    private swaps: Record<string, SwapRecord>;
+
+    constructor(private readonly path: string) {
+        this.swaps = existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : {};
+    }
+
+    get(id: string): SwapRecord | undefined {
+        return this.swaps[id];
+    }
+
+    has(id: string): boolean {
+        return id in this.swaps;
+    }
+
+    list(): SwapRecord[] {
+        return Object.values(this.swaps);
+    }
+
+    active(): SwapRecord[] {
+        return this.list().filter(swap => !isTerminal(swap.phase));
+    }
+
+    put(record: SwapRecord): void {
+        this.swaps[record.id] = record;
+        this.flush();
+    }
+
+    private flush(): void {
+        writeJsonAtomic(this.path, this.swaps);
+    }
+}
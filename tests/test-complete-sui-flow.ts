@@ -4,8 +4,12 @@ dotenv.config();
 
 import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
 import { SuiIntegration } from './sui-integration';
+import { EscrowError, MoveAbortError } from './escrow-errors';
+import { EscrowStage } from './escrow-stages';
+import { Timelocks } from './timelocks';
 import { randomBytes } from 'crypto';
-import { keccak256 } from 'ethers';
+import { Wallet, keccak256 } from 'ethers';
+import { signAddressBinding } from './address-binding';
 
 async function testCompleteSuiFlow() {
     console.log('🚀 Testing Complete Sui Escrow Flow\n');
@@ -44,59 +48,80 @@ async function testCompleteSuiFlow() {
     try {
         // Step 1: User creates wallet
         console.log('\n1️⃣ User creating wallet...');
-        const walletId = await userIntegration.createWallet(
-            orderHash,
-            BigInt(1_000_000), // 1 SUI
+        const wallet = await userIntegration.createWallet(
+            {
+                orderHash,
+                salt: BigInt(Date.now()),
+                makerAsset: '0x2::sui::SUI',
+                takerAsset: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+                makingAmount: BigInt(1_000_000), // 0.001 SUI
+                takingAmount: BigInt(900_000),
+                duration: BigInt(60_000), // 1 minute auction
+                hashlock,
+                srcSafetyDepositAmount: BigInt(1_000_000),
+                dstSafetyDepositAmount: BigInt(1_000_000),
+                allowPartialFills: false,
+                partsAmount: 0,
+                timelocks: Timelocks.new({
+                    srcWithdrawal: 10_000n, // 10 seconds for testing
+                    srcPublicWithdrawal: 20_000n,
+                    srcCancellation: 30_000n,
+                    srcPublicCancellation: 40_000n,
+                    dstWithdrawal: 5_000n,
+                    dstPublicWithdrawal: 15_000n,
+                    dstCancellation: 25_000n
+                })
+            },
             '0x2::sui::SUI'
         );
+        const walletId = wallet.walletId;
         
         // Step 2: Resolver creates source escrow
         console.log('\n2️⃣ Resolver creating source escrow...');
-        const srcEscrowId = await resolverIntegration.createSrcEscrow(
+        const srcEscrow = await resolverIntegration.createSrcEscrow({
             walletId,
-            hashlock,
-            '0x742d35Cc6634C0532925a3b844Bc9e7595f5fF8B', // Example EVM address
-            BigInt(900_000), // 0.9 SUI (keeping 0.1 for fees)
-            BigInt(100_000_000), // 0.1 SUI safety deposit
-            {
-                srcWithdrawal: 10,      // 10 seconds for testing
-                srcPublicWithdrawal: 20,
-                srcCancellation: 30,
-                srcPublicCancellation: 40,
-                dstWithdrawal: 5,
-                dstPublicWithdrawal: 15,
-                dstCancellation: 25
-            }
-        );
+            secretHashlock: hashlock,
+            secretIndex: 0,  // full fill
+            merkleProof: [],
+            makingAmount: BigInt(1_000_000), // full fill takes the whole wallet
+            takingAmount: BigInt(1_000_000), // start of the Dutch auction curve
+            safetyDeposit: BigInt(100_000_000) // 0.1 SUI safety deposit
+        });
+        const srcEscrowId = srcEscrow.escrowId;
         
         // Step 3: Create a destination escrow (simulating the other side)
         console.log('\n3️⃣ Creating destination escrow (simulating cross-chain)...');
+        // User proves the Sui recipient belongs to their EVM key
+        const userEvm = new Wallet(process.env.USER_PRIVATE_KEY!);
+        const binding = await signAddressBinding(userEvm, userKeypair, orderHash);
         const dstEscrowId = await resolverIntegration.createDstEscrow(
             orderHash,
             hashlock,
-            userKeypair.getPublicKey().toSuiAddress(), // User receives on Sui
+            { evmAddress: userEvm.address, binding }, // User receives on Sui
             BigInt(800_000), // 0.8 SUI
             BigInt(100_000_000), // 0.1 SUI safety deposit
-            {
-                srcWithdrawal: 10,
-                srcPublicWithdrawal: 20,
-                srcCancellation: 30,
-                srcPublicCancellation: 40,
-                dstWithdrawal: 5,
-                dstPublicWithdrawal: 15,
-                dstCancellation: 25
-            }
+            Timelocks.new({
+                srcWithdrawal: 10_000n, // ms after escrow creation
+                srcPublicWithdrawal: 20_000n,
+                srcCancellation: 30_000n,
+                srcPublicCancellation: 40_000n,
+                dstWithdrawal: 5_000n,
+                dstPublicWithdrawal: 15_000n,
+                dstCancellation: 25_000n
+            })
         );
         
         // Wait for timelock
-        console.log('\n⏳ Waiting 10 seconds for timelock to pass...');
-        await new Promise(resolve => setTimeout(resolve, 10000));
+        console.log('\n⏳ Waiting for the destination withdrawal stage...');
+        await resolverIntegration.waitForStage(dstEscrowId, EscrowStage.ResolverExclusiveWithdraw);
         
         // Step 4: Withdraw from destination (user gets funds)
         console.log('\n4️⃣ User withdrawing from destination escrow...');
         await resolverIntegration.withdraw(dstEscrowId, 'dst', secret);
         
         // Step 5: Withdraw from source (resolver gets funds)
+        console.log('\n⏳ Waiting for the source withdrawal stage...');
+        await resolverIntegration.waitForStage(srcEscrowId, EscrowStage.ResolverExclusiveWithdraw);
         console.log('\n5️⃣ Resolver withdrawing from source escrow...');
         await resolverIntegration.withdraw(srcEscrowId, 'src', secret);
         
@@ -109,14 +134,12 @@ async function testCompleteSuiFlow() {
     } catch (error) {
         console.error('\n❌ Test failed:', error);
         
-        // If it's a Move abort, show the error code
-        if (console.error.toString().includes('MoveAbort')) {
-            console.error('\n💡 Move Error Code Reference:');
-            console.error('  1001: Invalid amount');
-            console.error('  1004: Invalid secret');
-            console.error('  1006: Already withdrawn');
-            console.error('  1007: Not withdrawable (timelock)');
-            console.error('  1010: Unauthorized');
+        // Move aborts come back as typed errors with the decoded meaning
+        if (error instanceof EscrowError) {
+            console.error('\n💡 Escrow error:', error.constant);
+            console.error('  ', error.message);
+        } else if (error instanceof MoveAbortError) {
+            console.error('\n💡 Move abort outside the escrow package:', error.abort.raw);
         }
     }
 }
@@ -3,22 +3,24 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 import { CrossChainOrderBuilder } from './cross-chain-order-builder';
-import { parseUnits } from 'ethers';
+import { TokenRegistry } from './token-registry';
 
 async function testERC20Order() {
     console.log('💰 Testing ERC20 Cross-Chain Orders\n');
     
-    const maker = '0x742d35Cc6634C0532925a3b844Bc9e7595f5fF8B';
+    const maker = '0x742D35CC6634c0532925A3b844bC9e7595f5FF8b';
     const resolver = '0x2819c144D5946404C0516B6f817a960dB37D4929';
     const escrowFactory = '0x1234567890123456789012345678901234567890';
+    const tokens = new TokenRegistry();
+    const { ETHEREUM_CHAIN_ID, POLYGON_CHAIN_ID, SUI_CHAIN_ID } = CrossChainOrderBuilder;
     
     // Test 1: USDC (Ethereum) → SUI
     console.log('1️⃣ USDC (Ethereum) → SUI');
     const usdcToSui = CrossChainOrderBuilder.createUSDCSwapOrder({
         direction: 'USDC_TO_SUI',
-        evmChainId: CrossChainOrderBuilder.ETHEREUM_CHAIN_ID,
-        usdcAmount: parseUnits('100', 6),      // 100 USDC
-        suiAmount: BigInt(25 * 10**9),         // 25 SUI
+        evmChainId: ETHEREUM_CHAIN_ID,
+        usdcAmount: tokens.parseAmount(ETHEREUM_CHAIN_ID, 'USDC', '100'),
+        suiAmount: tokens.parseAmount(SUI_CHAIN_ID, 'SUI', '25'),
         maker,
         resolver,
         escrowFactory
@@ -32,9 +34,9 @@ async function testERC20Order() {
     console.log('\n2️⃣ SUI → USDC (Polygon)');
     const suiToUsdc = CrossChainOrderBuilder.createUSDCSwapOrder({
         direction: 'SUI_TO_USDC',
-        evmChainId: CrossChainOrderBuilder.POLYGON_CHAIN_ID,
-        usdcAmount: parseUnits('100', 6),      // 100 USDC
-        suiAmount: BigInt(25 * 10**9),         // 25 SUI
+        evmChainId: POLYGON_CHAIN_ID,
+        usdcAmount: tokens.parseAmount(POLYGON_CHAIN_ID, 'USDC', '100'),
+        suiAmount: tokens.parseAmount(SUI_CHAIN_ID, 'SUI', '25'),
         maker,
         resolver,
         escrowFactory
@@ -48,10 +50,10 @@ async function testERC20Order() {
     console.log('\n3️⃣ DAI (Ethereum) → SUI');
     const daiToSui = CrossChainOrderBuilder.createOrder({
         direction: 'EVM_TO_SUI',
-        evmChainId: CrossChainOrderBuilder.ETHEREUM_CHAIN_ID,
+        evmChainId: ETHEREUM_CHAIN_ID,
         erc20Token: 'DAI',
-        erc20Amount: parseUnits('100', 18),    // 100 DAI (18 decimals)
-        suiAmount: BigInt(25 * 10**9),         // 25 SUI
+        erc20Amount: tokens.parseAmount(ETHEREUM_CHAIN_ID, 'DAI', '100'), // 18 decimals
+        suiAmount: tokens.parseAmount(SUI_CHAIN_ID, 'SUI', '25'),
         maker,
         resolver,
         escrowFactory
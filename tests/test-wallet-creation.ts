@@ -4,7 +4,9 @@ dotenv.config();
 
 import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
 import { SuiIntegration } from './sui-integration';
+import { Timelocks } from './timelocks';
 import { randomBytes } from 'crypto';
+import { keccak256 } from 'ethers';
 
 async function testWalletCreation() {
     console.log('🚀 Testing Wallet Creation\n');
@@ -34,14 +36,35 @@ async function testWalletCreation() {
     console.log('\nCreating wallet with order hash:', orderHash);
     
     try {
-        // Create wallet with 1 SUI
-        const walletId = await suiIntegration.createWallet(
-            orderHash,
-            BigInt(1_000_000), // 1 SUI in MIST
+        // Create wallet with 0.001 SUI (full fill, no partial fills)
+        const wallet = await suiIntegration.createWallet(
+            {
+                orderHash,
+                salt: BigInt(Date.now()),
+                makerAsset: '0x2::sui::SUI',
+                takerAsset: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+                makingAmount: BigInt(1_000_000), // 0.001 SUI in MIST
+                takingAmount: BigInt(900_000),
+                duration: BigInt(60_000), // 1 minute auction
+                hashlock: keccak256(randomBytes(32)),
+                srcSafetyDepositAmount: BigInt(1_000_000),
+                dstSafetyDepositAmount: BigInt(1_000_000),
+                allowPartialFills: false,
+                partsAmount: 0,
+                timelocks: Timelocks.new({
+                    srcWithdrawal: 10_000n,
+                    srcPublicWithdrawal: 20_000n,
+                    srcCancellation: 30_000n,
+                    srcPublicCancellation: 40_000n,
+                    dstWithdrawal: 5_000n,
+                    dstPublicWithdrawal: 15_000n,
+                    dstCancellation: 25_000n
+                })
+            },
             '0x2::sui::SUI'
         );
         
-        console.log('✅ Wallet created successfully:', walletId);
+        console.log('✅ Wallet created successfully:', wallet.walletId);
     } catch (error) {
         console.error('❌ Failed to create wallet:', error);
     }
@@ -0,0 +1,42 @@
+// tests/timelocks-spec.ts
+import { TimeLocks } from '@1inch/cross-chain-sdk';
+import { Timelocks } from './timelocks';
+
+const VALID = {
+    srcWithdrawal: 300_000n,
+    srcPublicWithdrawal: 600_000n,
+    srcCancellation: 900_000n,
+    srcPublicCancellation: 1_200_000n,
+    dstWithdrawal: 250_000n,
+    dstPublicWithdrawal: 550_000n,
+    dstCancellation: 850_000n
+};
+
+describe('Timelocks', () => {
+    test('applies the utils::is_valid_timelocks ordering rules', () => {
+        expect(Timelocks.new(VALID).isValid()).toBe(true);
+        // dst must end before src on every stage
+        expect(Timelocks.new({ ...VALID, dstCancellation: 900_000n }).isValid()).toBe(false);
+        // stages must increase on each chain
+        expect(Timelocks.new({ ...VALID, srcPublicWithdrawal: 300_000n }).isValid()).toBe(false);
+        expect(Timelocks.new({ ...VALID, dstWithdrawal: 0n }).isValid()).toBe(false);
+        expect(() => Timelocks.new({ ...VALID, srcCancellation: 1n }).validate()).toThrow('e_invalid_timelock');
+    });
+
+    test('round-trips through 1inch SDK timelocks in seconds', () => {
+        const sdk = Timelocks.new(VALID).toSdk();
+        const src = sdk.toSrcTimeLocks(1_700_000_000n);
+
+        expect(src.privateWithdrawal).toBe(1_700_000_300n);
+        expect(src.publicCancellation).toBe(1_700_001_200n);
+        expect(Timelocks.fromSdk(TimeLocks.fromBigInt(sdk.build())).toJSON()).toEqual(Timelocks.new(VALID).toJSON());
+        expect(() => Timelocks.new({ ...VALID, srcWithdrawal: 300_500n }).toSdk()).toThrow('whole number of seconds');
+    });
+
+    test('computes absolute stage boundaries from created_at', () => {
+        const absolute = Timelocks.new(VALID).toAbsolute(1_700_000_000_000n);
+
+        expect(absolute.dstWithdrawal).toBe(1_700_000_250_000n);
+        expect(absolute.srcPublicCancellation).toBe(1_700_001_200_000n);
+    });
+});
@@ -0,0 +1,141 @@
+// tests/timelocks.ts
+import { TimeLocks } from '@1inch/cross-chain-sdk';
+
+import { RelativeTimelocks, isValidTimelocks } from './escrow-validation';
+
+export type TimelockStage = keyof RelativeTimelocks;
+
+const STAGES: TimelockStage[] = [
+    'srcWithdrawal',
+    'srcPublicWithdrawal',
+    'srcCancellation',
+    'srcPublicCancellation',
+    'dstWithdrawal',
+    'dstPublicWithdrawal',
+    'dstCancellation'
+];
+
+/**
+ * Timelocks as the Sui contracts store them: durations in milliseconds relative
+ * to the `created_at` of the wallet or escrow (see utils::calculate_absolute_time).
+ * The 1inch SDK uses the same layout in seconds.
+ */
+export class Timelocks implements RelativeTimelocks {
+    readonly srcWithdrawal: bigint;
+    readonly srcPublicWithdrawal: bigint;
+    readonly srcCancellation: bigint;
+    readonly srcPublicCancellation: bigint;
+    readonly dstWithdrawal: bigint;
+    readonly dstPublicWithdrawal: bigint;
+    readonly dstCancellation: bigint;
+
+    private constructor(params: RelativeTimelocks) {
+        this.srcWithdrawal = params.srcWithdrawal;
+        this.srcPublicWithdrawal = params.srcPublicWithdrawal;
+        this.srcCancellation = params.srcCancellation;
+        this.srcPublicCancellation = params.srcPublicCancellation;
+        this.dstWithdrawal = params.dstWithdrawal;
+        this.dstPublicWithdrawal = params.dstPublicWithdrawal;
+        this.dstCancellation = params.dstCancellation;
+    }
+
+    /**
+     * Create from relative durations in milliseconds
+     */
+    static new(params: RelativeTimelocks): Timelocks {
+        for (const stage of STAGES) {
+            if (params[stage] < 0n) {
+                throw new Error(`Timelock ${stage} must not be negative`);
+            }
+        }
+        return new Timelocks(params);
+    }
+
+    /**
+     * Convert 1inch SDK timelocks (seconds) to milliseconds
+     */
+    static fromSdk(timeLocks: TimeLocks): Timelocks {
+        // Packed as 32-bit slots in STAGES order (deployedAt in the top slot)
+        const packed = timeLocks.build();
+        const params = {} as RelativeTimelocks;
+        STAGES.forEach((stage, i) => {
+            params[stage] = ((packed >> (BigInt(i) * 32n)) & 0xffffffffn) * 1000n;
+        });
+
+        return Timelocks.new(params);
+    }
+
+    /**
+     * Convert to 1inch SDK timelocks, which only hold whole seconds
+     */
+    toSdk(): TimeLocks {
+        const seconds = {} as RelativeTimelocks;
+        for (const stage of STAGES) {
+            if (this[stage] % 1000n !== 0n) {
+                throw new Error(`Timelock ${stage} (${this[stage]} ms) is not a whole number of seconds`);
+            }
+            seconds[stage] = this[stage] / 1000n;
+        }
+        return TimeLocks.new(seconds);
+    }
+
+    /**
+     * Ordering rules of utils::is_valid_timelocks
+     */
+    isValid(): boolean {
+        return isValidTimelocks(this);
+    }
+
+    validate(): void {
+        if (!this.isValid()) {
+            throw new Error(
+                'Timelocks must satisfy 0 < dst < src for each stage and be increasing on each chain (e_invalid_timelock)'
+            );
+        }
+    }
+
+    /**
+     * Absolute stage boundaries in ms for an escrow created at `createdAt`
+     */
+    toAbsolute(createdAt: bigint): Record<TimelockStage, bigint> {
+        const absolute = {} as Record<TimelockStage, bigint>;
+        for (const stage of STAGES) {
+            absolute[stage] = createdAt + this[stage];
+        }
+        return absolute;
+    }
+
+    /**
+     * Absolute stage boundaries as dates, for display
+     */
+    toDates(createdAt: bigint): Record<TimelockStage, Date> {
+        const absolute = this.toAbsolute(createdAt);
+        const dates = {} as Record<TimelockStage, Date>;
+        for (const stage of STAGES) {
+            dates[stage] = new Date(Number(absolute[stage]));
+        }
+        return dates;
+    }
+
+    /**
+     * Inverse of toJSON
+     */
+    static fromJSON(json: Record<string, string>): Timelocks {
+        const params = {} as RelativeTimelocks;
+        for (const stage of STAGES) {
+            if (json[stage] === undefined) {
+                throw new Error(`Timelock ${stage} missing`);
+            }
+            params[stage] = BigInt(json[stage]);
+        }
+        return Timelocks.new(params);
+    }
+
+    toJSON(): Record<TimelockStage, string> {
+        const json = {} as Record<TimelockStage, string>;
+        for (const stage of STAGES) {
+            json[stage] = this[stage].toString();
+        }
+        return json;
+    }
+}
@@ -0,0 +1,66 @@
+// tests/token-registry-spec.ts
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { SUI_CHAIN_ID } from './chain-config';
+import { CrossChainOrderBuilder } from './cross-chain-order-builder';
+import { TokenRegistry } from './token-registry';
+
+const ARBITRUM = 42161;
+const ARB_USDC = '0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+
+describe('TokenRegistry', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'token-registry-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('loads custom entries from JSON on top of the defaults', () => {
+        const path = join(dir, 'tokens.json');
+        writeFileSync(path, JSON.stringify({
+            tokens: [
+                { chainId: ARBITRUM, symbol: 'usdc', address: ARB_USDC.toLowerCase(), decimals: 6 },
+                { chainId: 1, symbol: 'DAI', address: '0x6B175474E89094C44Da98b954EedeAC495271d0F', decimals: 18, bridgeable: false }
+            ]
+        }));
+        const registry = TokenRegistry.fromFile(path);
+
+        expect(registry.get(ARBITRUM, 'USDC')).toMatchObject({ address: ARB_USDC, bridgeable: true });
+        expect(registry.parseAmount(ARBITRUM, 'USDC', '1.5')).toBe(1_500_000n);
+        expect(registry.findByAddress(SUI_CHAIN_ID, '0x0000000000000000000000000000000000000000000000000000000000000002::sui::SUI')?.symbol)
+            .toBe('SUI');
+        expect(() => registry.resolvePair({ chainId: 1, symbol: 'DAI' }, { chainId: SUI_CHAIN_ID, symbol: 'SUI' }))
+            .toThrow(/cannot be bridged/);
+
+        writeFileSync(path, JSON.stringify([{ chainId: 1, symbol: 'BAD' }]));
+        expect(() => TokenRegistry.fromFile(path)).toThrow(/Invalid token registry/);
+    });
+
+    test('order building rejects tokens or chains the registry does not know', () => {
+        const order = {
+            direction: 'EVM_TO_SUI' as const,
+            erc20Token: 'USDC',
+            erc20Amount: 100_000_000n,
+            suiAmount: 25_000_000_000n,
+            maker: '0x742D35CC6634c0532925A3b844bC9e7595f5FF8b',
+            resolver: '0x2819c144D5946404C0516B6f817a960dB37D4929',
+            escrowFactory: '0x1234567890123456789012345678901234567890'
+        };
+
+        // Used to fall through to the Polygon table
+        expect(() => CrossChainOrderBuilder.createOrder({ ...order, evmChainId: 250 }))
+            .toThrow('Unknown token USDC on chain 250');
+        expect(() => CrossChainOrderBuilder.createOrder({ ...order, evmChainId: 1, suiToken: 'WETH' }))
+            .toThrow(`Unknown token WETH on chain ${SUI_CHAIN_ID}`);
+
+        const built = CrossChainOrderBuilder.createOrder({ ...order, evmChainId: 1, suiToken: 'USDC' });
+        expect(built.suiToken.decimals).toBe(6);
+        expect(built.order.makerAsset.toString().toLowerCase()).toBe(built.evmToken.address.toLowerCase());
+    });
+});
@@ -0,0 +1,154 @@
+// tests/token-registry.ts
+// Tokens the order builder and SDK know about, keyed by chain id and symbol. EVM entries
+// carry an ERC20 address, Sui entries a coin type. Custom entries load from a JSON file.
+
+import { normalizeStructTag } from '@mysten/sui/utils';
+import { formatUnits, getAddress, parseUnits } from 'ethers';
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+
+import { SUI_CHAIN_ID } from './chain-config';
+
+export interface TokenInfo {
+    chainId: number
+    symbol: string
+    address: string // ERC20 address on EVM chains, coin type on Sui
+    decimals: number
+    bridgeable: boolean // may be swapped cross-chain
+}
+
+const tokenSchema = z.object({
+    chainId: z.number().int().positive(),
+    symbol: z.string().min(1),
+    address: z.string().min(1),
+    decimals: z.number().int().min(0).max(255),
+    bridgeable: z.boolean().default(true)
+});
+
+// { "tokens": [...] } or a bare array
+const tokenFileSchema = z.union([z.array(tokenSchema), z.object({ tokens: z.array(tokenSchema) })]);
+
+const DEFAULT_TOKENS: TokenInfo[] = [
+    { chainId: 1, symbol: 'USDC', address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', decimals: 6, bridgeable: true },
+    { chainId: 1, symbol: 'USDT', address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', decimals: 6, bridgeable: true },
+    { chainId: 1, symbol: 'DAI', address: '0x6B175474E89094C44Da98b954EedeAC495271d0F', decimals: 18, bridgeable: true },
+    { chainId: 137, symbol: 'USDC', address: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174', decimals: 6, bridgeable: true },
+    { chainId: 137, symbol: 'USDT', address: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F', decimals: 6, bridgeable: true },
+    { chainId: 137, symbol: 'DAI', address: '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063', decimals: 18, bridgeable: true },
+    { chainId: 10, symbol: 'USDC', address: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85', decimals: 6, bridgeable: true },
+    { chainId: 56, symbol: 'USDC', address: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d', decimals: 18, bridgeable: true },
+    { chainId: 8453, symbol: 'USDC', address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', decimals: 6, bridgeable: true },
+    { chainId: 42161, symbol: 'USDC', address: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831', decimals: 6, bridgeable: true },
+    { chainId: 43114, symbol: 'USDC', address: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E', decimals: 6, bridgeable: true },
+    { chainId: SUI_CHAIN_ID, symbol: 'SUI', address: '0x2::sui::SUI', decimals: 9, bridgeable: true },
+    {
+        chainId: SUI_CHAIN_ID,
+        symbol: 'USDC',
+        address: '0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC',
+        decimals: 6,
+        bridgeable: true
+    }
+];
+
+function normalizeTokenAddress(chainId: number, address: string): string {
+    return chainId === SUI_CHAIN_ID ? normalizeStructTag(address) : getAddress(address);
+}
+
+// Sui coin types stay as written (e.g. 0x2::sui::SUI), they end up in Move strings
+function checkTokenAddress(chainId: number, address: string): string {
+    const normalized = normalizeTokenAddress(chainId, address);
+    return chainId === SUI_CHAIN_ID ? address : normalized;
+}
+
+export class TokenRegistry {
+    private readonly tokens = new Map<number, Map<string, TokenInfo>>();
+
+    constructor(tokens: TokenInfo[] = DEFAULT_TOKENS) {
+        tokens.forEach(token => this.register(token));
+    }
+
+    /**
+     * Built-in tokens overridden and extended by the entries in a JSON file
+     */
+    static fromFile(path: string, options: { includeDefaults?: boolean } = {}): TokenRegistry {
+        const parsed = tokenFileSchema.safeParse(JSON.parse(readFileSync(path, 'utf8')));
+        if (!parsed.success) {
+            throw new Error(`Invalid token registry ${path}: ${parsed.error.message}`);
+        }
+
+        const registry = new TokenRegistry(options.includeDefaults === false ? [] : DEFAULT_TOKENS);
+        const entries = Array.isArray(parsed.data) ? parsed.data : parsed.data.tokens;
+        entries.forEach(token => registry.register(token));
+        return registry;
+    }
+
+    /**
+     * Add a token, replacing any entry with the same chain and symbol
+     */
+    register(token: TokenInfo): void {
+        const entry = { ...token, symbol: token.symbol.toUpperCase(), address: checkTokenAddress(token.chainId, token.address) };
+        let chain = this.tokens.get(token.chainId);
+        if (!chain) {
+            chain = new Map();
+            this.tokens.set(token.chainId, chain);
+        }
+        chain.set(entry.symbol, entry);
+    }
+
+    find(chainId: number, symbol: string): TokenInfo | undefined {
+        return this.tokens.get(chainId)?.get(symbol.toUpperCase());
+    }
+
+    get(chainId: number, symbol: string): TokenInfo {
+        const token = this.find(chainId, symbol);
+        if (!token) {
+            throw new Error(`Unknown token ${symbol} on chain ${chainId}`);
+        }
+        return token;
+    }
+
+    /**
+     * Look a token up by ERC20 address or Sui coin type
+     */
+    findByAddress(chainId: number, address: string): TokenInfo | undefined {
+        const normalized = normalizeTokenAddress(chainId, address);
+        return this.list(chainId).find(token => normalizeTokenAddress(chainId, token.address) === normalized);
+    }
+
+    list(chainId?: number): TokenInfo[] {
+        const chains = chainId === undefined ? [...this.tokens.values()] : [this.tokens.get(chainId) ?? new Map()];
+        return chains.flatMap(chain => [...chain.values()]);
+    }
+
+    /**
+     * Both sides of a swap, refusing unknown, non-bridgeable or same-chain pairs
+     */
+    resolvePair(
+        src: { chainId: number, symbol: string },
+        dst: { chainId: number, symbol: string }
+    ): { src: TokenInfo, dst: TokenInfo } {
+        if (src.chainId === dst.chainId) {
+            throw new Error(`Swap pair ${src.symbol}/${dst.symbol} is not cross-chain (chain ${src.chainId})`);
+        }
+
+        const pair = { src: this.get(src.chainId, src.symbol), dst: this.get(dst.chainId, dst.symbol) };
+        for (const token of [pair.src, pair.dst]) {
+            if (!token.bridgeable) {
+                throw new Error(`Token ${token.symbol} on chain ${token.chainId} cannot be bridged`);
+            }
+        }
+        return pair;
+    }
+
+    /**
+     * Human amount (e.g. "12.5") to base units
+     */
+    parseAmount(chainId: number, symbol: string, amount: string): bigint {
+        return parseUnits(amount, this.get(chainId, symbol).decimals);
+    }
+
+    formatAmount(chainId: number, symbol: string, amount: bigint): string {
+        const token = this.get(chainId, symbol);
+        return `${formatUnits(amount, token.decimals)} ${token.symbol}`;
+    }
+}